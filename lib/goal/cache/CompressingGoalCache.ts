@@ -24,8 +24,23 @@ import * as fs from "fs-extra";
 import * as JSZip from "jszip";
 import * as os from "os";
 import * as path from "path";
+import * as stream from "stream";
+import { promisify } from "util";
+import {
+    createTarArchive,
+    extractTarArchive,
+    isInside,
+    TarCompression,
+} from "./archive";
 import { FileSystemGoalCacheArchiveStore } from "./FileSystemGoalCacheArchiveStore";
-import { GoalCache } from "./goalCaching";
+import {
+    GoalCache,
+    GoalCacheArchive,
+} from "./goalCaching";
+import { GoalCacheTransferMetrics } from "./metrics";
+import { enforceRetentionPolicy } from "./retention";
+
+const pipeline = promisify(stream.pipeline);
 
 export interface GoalCacheArchiveStore {
     /**
@@ -50,16 +65,50 @@ export interface GoalCacheArchiveStore {
      * @param targetArchivePath The destination path where the archive needs to be stored.
      */
     retrieve(gi: GoalInvocation, classifier: string, targetArchivePath: string): Promise<void>;
+
+    /**
+     * List stored compressed goal archives
+     * @param gi The goal invocation that triggered the listing
+     * @param classifierPrefix Only archives whose classifier starts with this prefix are returned
+     */
+    list?(gi: GoalInvocation, classifierPrefix: string): Promise<GoalCacheArchive[]>;
 }
 
 export enum CompressionMethod {
+    /** tar archive compressed with gzip */
     TAR,
+    /**
+     * zip archive created by the zip binary, falling back to JSZip if
+     * the binary isn't available.  Unlike tar archives, zip archives
+     * are loaded into memory completely when they are retrieved, so
+     * prefer TAR or ZSTD for large caches.
+     */
     ZIP,
+    /** tar archive compressed with zstd */
+    ZSTD,
+}
+
+/**
+ * Name of the stored archive for the compression method, with the
+ * extension matching its format.
+ */
+export function cacheArchiveName(method: CompressionMethod = CompressionMethod.TAR): string {
+    switch (method) {
+        case CompressionMethod.ZIP:
+            return "cache.zip";
+        case CompressionMethod.ZSTD:
+            return "cache.tar.zst";
+        default:
+            return "cache.tar.gz";
+    }
 }
 
 /**
  * Cache implementation that caches files produced by goals to an archive that can then be stored,
- * using tar and gzip to create the archives per goal invocation (and classifier if present).
+ * using tar and gzip (or zstd) to create the archives per goal invocation (and classifier if present).
+ * Tar archives are created and extracted in process, not requiring any external binaries,
+ * and are streamed rather than loaded into memory.  See [[CompressionMethod.ZIP]] for the
+ * limitations of zip archives.
  */
 export class CompressingGoalCache implements GoalCache {
 
@@ -70,7 +119,8 @@ export class CompressingGoalCache implements GoalCache {
     public async put(gi: GoalInvocation,
                      project: GitProject,
                      files: string[],
-                     classifier?: string): Promise<string> {
+                     classifier?: string,
+                     metrics: GoalCacheTransferMetrics = {}): Promise<string> {
         const archiveName = "atomist-cache";
         const teamArchiveFileName = path.join(os.tmpdir(), `${archiveName}.${guid().slice(0, 7)}`);
         const slug = `${gi.id.owner}/${gi.id.repo}`;
@@ -80,18 +130,16 @@ export class CompressingGoalCache implements GoalCache {
         };
 
         let teamArchiveFileNameWithSuffix = teamArchiveFileName;
-        if (this.method === CompressionMethod.TAR) {
-            const tarResult = await spawnLog("tar", ["-cf", teamArchiveFileName, ...files], spawnLogOpts);
-            if (tarResult.code) {
-                gi.progressLog.write(`Failed to create tar archive '${teamArchiveFileName}' for ${slug}`);
-                return undefined;
-            }
-            const gzipResult = await spawnLog("gzip", ["-3", teamArchiveFileName], spawnLogOpts);
-            if (gzipResult.code) {
-                gi.progressLog.write(`Failed to gzip tar archive '${teamArchiveFileName}' for ${slug}`);
+        const compressionStart = Date.now();
+        if (this.method === CompressionMethod.TAR || this.method === CompressionMethod.ZSTD) {
+            const compression = tarCompression(this.method);
+            teamArchiveFileNameWithSuffix += compression === "zstd" ? ".zst" : ".gz";
+            try {
+                await createTarArchive(project.baseDir, files, teamArchiveFileNameWithSuffix, compression);
+            } catch (e) {
+                gi.progressLog.write(`Failed to create ${compression} tar archive '${teamArchiveFileNameWithSuffix}' for ${slug}: ${e.message}`);
                 return undefined;
             }
-            teamArchiveFileNameWithSuffix += ".gz";
         } else if (this.method === CompressionMethod.ZIP) {
             teamArchiveFileNameWithSuffix += ".zip";
             try {
@@ -130,23 +178,40 @@ export class CompressingGoalCache implements GoalCache {
                 await defer.promise;
             }
         }
-        return this.store.store(gi, classifier, teamArchiveFileNameWithSuffix);
+        metrics.compressionTime = Date.now() - compressionStart;
+        metrics.size = await archiveSize(teamArchiveFileNameWithSuffix);
+        const transferStart = Date.now();
+        const uri = await this.store.store(gi, classifier, teamArchiveFileNameWithSuffix);
+        metrics.transferTime = Date.now() - transferStart;
+        await enforceRetentionPolicy(gi, this.store);
+        return uri;
     }
 
     public async remove(gi: GoalInvocation, classifier?: string): Promise<void> {
         await this.store.delete(gi, classifier);
     }
 
-    public async retrieve(gi: GoalInvocation, project: GitProject, classifier?: string): Promise<void> {
+    public async list(gi: GoalInvocation, classifierPrefix: string): Promise<GoalCacheArchive[]> {
+        if (!this.store.list) {
+            return [];
+        }
+        return this.store.list(gi, classifierPrefix);
+    }
+
+    public async retrieve(gi: GoalInvocation,
+                          project: GitProject,
+                          classifier?: string,
+                          metrics: GoalCacheTransferMetrics = {}): Promise<void> {
         const archiveName = "atomist-cache";
         const teamArchiveFileName = path.join(os.tmpdir(), `${archiveName}.${guid().slice(0, 7)}`);
+        const transferStart = Date.now();
         await this.store.retrieve(gi, classifier, teamArchiveFileName);
+        metrics.transferTime = Date.now() - transferStart;
         if (fs.existsSync(teamArchiveFileName)) {
-            if (this.method === CompressionMethod.TAR) {
-                await spawnLog("tar", ["-xzf", teamArchiveFileName], {
-                    log: gi.progressLog,
-                    cwd: project.baseDir,
-                });
+            metrics.size = await archiveSize(teamArchiveFileName);
+            const compressionStart = Date.now();
+            if (this.method === CompressionMethod.TAR || this.method === CompressionMethod.ZSTD) {
+                await extractTarArchive(teamArchiveFileName, project.baseDir, tarCompression(this.method), gi.progressLog);
             } else if (this.method === CompressionMethod.ZIP) {
                 const zip = await JSZip.loadAsync(await fs.readFile(teamArchiveFileName));
                 for (const file in zip.files) {
@@ -154,15 +219,32 @@ export class CompressingGoalCache implements GoalCache {
                         const entry = zip.file(file);
                         if (!!entry) {
                             const p = path.join(project.baseDir, file);
+                            if (!isInside(project.baseDir, p)) {
+                                gi.progressLog.write(`Refusing to extract archive entry '${file}' outside of '${project.baseDir}'`);
+                                continue;
+                            }
                             await fs.ensureDir(path.dirname(p));
-                            await fs.writeFile(path.join(project.baseDir, file), await zip.file(file).async("nodebuffer"));
+                            await pipeline(entry.nodeStream(), fs.createWriteStream(p));
                         }
                     }
                 }
             }
+            metrics.compressionTime = Date.now() - compressionStart;
         } else {
             throw Error("No cache entry");
         }
     }
 
 }
+
+async function archiveSize(archive: string): Promise<number | undefined> {
+    try {
+        return (await fs.stat(archive)).size;
+    } catch (e) {
+        return undefined;
+    }
+}
+
+function tarCompression(method: CompressionMethod): TarCompression {
+    return method === CompressionMethod.ZSTD ? "zstd" : "gzip";
+}
@@ -17,10 +17,12 @@
 import { spawnLog } from "@atomist/sdm/lib/api-helper/misc/child_process";
 import { GoalInvocation } from "@atomist/sdm/lib/api/goal/GoalInvocation";
 import { CacheConfiguration } from "@atomist/sdm/lib/api/machine/SoftwareDeliveryMachineOptions";
+import * as fg from "fast-glob";
 import * as fs from "fs-extra";
 import * as os from "os";
 import * as path from "path";
 import { GoalCacheArchiveStore } from "./CompressingGoalCache";
+import { GoalCacheArchive } from "./goalCaching";
 
 /**
  * Goal archive store that stores the compressed archives into the SDM cache directory.
@@ -54,14 +56,42 @@ export class FileSystemGoalCacheArchiveStore implements GoalCacheArchiveStore {
         await spawnLog("cp", [archiveFileName, targetArchivePath], {
             log: gi.progressLog,
         });
+        try {
+            // record access explicitly as file systems may be mounted noatime
+            const stats = await fs.stat(archiveFileName);
+            await fs.utimes(archiveFileName, new Date(), stats.mtime);
+        } catch (e) { /* ignore */ }
+    }
+
+    public async list(gi: GoalInvocation, classifierPrefix: string): Promise<GoalCacheArchive[]> {
+        const sdmCacheDir = FileSystemGoalCacheArchiveStore.getSdmCacheDirectory(gi);
+        const prefixDir = classifierPrefix.includes("/") ? classifierPrefix.slice(0, classifierPrefix.lastIndexOf("/")) : "";
+        const listDir = path.join(sdmCacheDir, prefixDir);
+        if (!(await fs.pathExists(listDir))) {
+            return [];
+        }
+        const archiveName = FileSystemGoalCacheArchiveStore.archiveName;
+        const archives = await fg(`**/${archiveName}`, { cwd: listDir, dot: true, stats: true });
+        return archives
+            .map(a => ({
+                classifier: path.posix.join(prefixDir, path.posix.dirname(a.path)),
+                uri: path.join(listDir, a.path),
+                size: a.stats.size,
+                lastModified: a.stats.mtime,
+                lastAccessed: a.stats.atime,
+            }))
+            .filter(a => a.classifier.startsWith(classifierPrefix));
     }
 
     private static async getCacheDirectory(gi: GoalInvocation, classifier: string = "default"): Promise<string> {
-        const defaultCachePath = path.join(os.homedir(), ".atomist", "cache");
-        const possibleCacheConfiguration = gi.configuration.sdm.cache as (CacheConfiguration["cache"] | undefined);
-        const sdmCacheDir = possibleCacheConfiguration ? (possibleCacheConfiguration.path || defaultCachePath) : defaultCachePath;
-        const cacheDir = path.join(sdmCacheDir, classifier);
+        const cacheDir = path.join(FileSystemGoalCacheArchiveStore.getSdmCacheDirectory(gi), classifier);
         await fs.mkdirs(cacheDir);
         return cacheDir;
     }
+
+    private static getSdmCacheDirectory(gi: GoalInvocation): string {
+        const defaultCachePath = path.join(os.homedir(), ".atomist", "cache");
+        const possibleCacheConfiguration = gi.configuration.sdm.cache as (CacheConfiguration["cache"] | undefined);
+        return possibleCacheConfiguration ? (possibleCacheConfiguration.path || defaultCachePath) : defaultCachePath;
+    }
 }
@@ -18,7 +18,10 @@ import { GitProject } from "@atomist/automation-client/lib/project/git/GitProjec
 import { Project } from "@atomist/automation-client/lib/project/Project";
 import { logger } from "@atomist/automation-client/lib/util/logger";
 import { GoalInvocation } from "@atomist/sdm/lib/api/goal/GoalInvocation";
-import { GoalCache } from "./goalCaching";
+import {
+    GoalCache,
+    GoalCacheArchive,
+} from "./goalCaching";
 
 /**
  * Cache implementation that doesn't cache anything and will always trigger the fallback.
@@ -36,4 +39,8 @@ export class NoOpGoalCache implements GoalCache {
     public async retrieve(gi: GoalInvocation, project: Project, classifier?: string): Promise<void> {
         throw Error("No cache entry");
     }
+
+    public async list(gi: GoalInvocation, classifierPrefix: string): Promise<GoalCacheArchive[]> {
+        return [];
+    }
 }
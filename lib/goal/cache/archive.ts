@@ -0,0 +1,152 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ProgressLog } from "@atomist/sdm/lib/spi/log/ProgressLog";
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as stream from "stream";
+import * as tar from "tar";
+
+/** Compression applied to tar archives. */
+export type TarCompression = "gzip" | "zstd";
+
+/**
+ * Create a compressed tar archive of the provided files and
+ * directories, relative to the base directory.  The archive is
+ * created in process while streaming, so it requires no external
+ * binaries.  File modes and modification times are preserved and
+ * symbolic links are archived as links rather than followed.
+ *
+ * @param baseDir Directory the files are relative to
+ * @param files Files and directories to add to the archive
+ * @param archivePath Path of the archive to create
+ * @param compression Compression to apply to the archive
+ */
+export async function createTarArchive(baseDir: string,
+                                       files: string[],
+                                       archivePath: string,
+                                       compression: TarCompression = "gzip"): Promise<void> {
+    const options: tar.CreateOptions = {
+        cwd: baseDir,
+        follow: false,
+    };
+    if (compression === "gzip") {
+        options.gzip = { level: 3 };
+    }
+    const transforms: NodeJS.ReadWriteStream[] = [];
+    if (compression === "zstd") {
+        const zstd = await zstdStreams();
+        transforms.push(new zstd.ZstdCompressTransform(3));
+    }
+    await pipeline(tar.c(options, files), ...transforms, fs.createWriteStream(archivePath));
+}
+
+/**
+ * Extract a compressed tar archive into the base directory, streaming
+ * the archive rather than loading it into memory.  Entries that would
+ * be extracted outside the base directory, including links pointing
+ * outside of it, are refused, i.e., skipped and reported to the log.
+ *
+ * @param archivePath Path of the archive to extract
+ * @param baseDir Directory to extract the archive into
+ * @param compression Compression of the archive
+ * @param log Progress log to report refused entries to
+ * @return Paths of the refused entries
+ */
+export async function extractTarArchive(archivePath: string,
+                                        baseDir: string,
+                                        compression: TarCompression,
+                                        log: ProgressLog): Promise<string[]> {
+    const refused: string[] = [];
+    const transforms: NodeJS.ReadWriteStream[] = [];
+    if (compression === "zstd") {
+        const zstd = await zstdStreams();
+        transforms.push(new zstd.ZstdDecompressTransform());
+    }
+    const extract = tar.x({
+        cwd: baseDir,
+        strict: true,
+        // tar passes read entries, which carry type and link path unlike their typings
+        filter: (entryPath: string, entry: tar.FileStat & TarEntry) => {
+            if (isSafeTarEntry(baseDir, entryPath, entry)) {
+                return true;
+            }
+            log.write(`Refusing to extract archive entry '${entryPath}' outside of '${baseDir}'`);
+            refused.push(entryPath);
+            return false;
+        },
+    });
+    await pipeline(fs.createReadStream(archivePath), ...transforms, extract);
+    return refused;
+}
+
+/** Properties of a tar archive entry relevant to its extraction. */
+export interface TarEntry {
+    /** Entry type, e.g., "File", "Directory", "Link", or "SymbolicLink" */
+    type: string;
+    /** Target of hard and symbolic links */
+    linkpath?: string;
+}
+
+/**
+ * Determine if tar archive entry would be extracted inside the base
+ * directory.  For hard and symbolic links, the link target must be
+ * inside the base directory as well.
+ */
+export function isSafeTarEntry(baseDir: string, entryPath: string, entry: TarEntry): boolean {
+    const target = path.resolve(baseDir, entryPath);
+    if (!isInside(baseDir, target)) {
+        return false;
+    }
+    if (entry.type === "Link") {
+        return isInside(baseDir, path.resolve(baseDir, entry.linkpath));
+    } else if (entry.type === "SymbolicLink") {
+        return isInside(baseDir, path.resolve(path.dirname(target), entry.linkpath));
+    }
+    return true;
+}
+
+/**
+ * Determine if file path is the directory or inside it.
+ */
+export function isInside(dir: string, filePath: string): boolean {
+    const relative = path.relative(path.resolve(dir), path.resolve(filePath));
+    return !path.isAbsolute(relative) && relative.split(path.sep)[0] !== "..";
+}
+
+/**
+ * Pipe the streams into each other, resolving once all data has been
+ * written to the last stream.
+ */
+function pipeline(...streams: Array<NodeJS.ReadableStream | NodeJS.WritableStream>): Promise<void> {
+    return new Promise<void>((resolve, reject) => stream.pipeline(streams, err => !!err ? reject(err) : resolve()));
+}
+
+interface ZstdStreams {
+    ZstdCompressTransform: new (level?: number) => NodeJS.ReadWriteStream;
+    ZstdDecompressTransform: new () => NodeJS.ReadWriteStream;
+}
+
+let zstdStreamsPromise: Promise<ZstdStreams>;
+
+/** Lazily initialize the WebAssembly zstd streams. */
+async function zstdStreams(): Promise<ZstdStreams> {
+    if (!zstdStreamsPromise) {
+        const zstdStream = require("zstd-codec/lib/zstd-stream");
+        zstdStreamsPromise = new Promise<ZstdStreams>(resolve => zstdStream.run(resolve));
+    }
+    return zstdStreamsPromise;
+}
@@ -27,10 +27,17 @@ import {
 } from "@atomist/sdm/lib/api/goal/GoalInvocation";
 import { PushTest } from "@atomist/sdm/lib/api/mapping/PushTest";
 import { AnyPush } from "@atomist/sdm/lib/api/mapping/support/commonPushTests";
+import * as crypto from "crypto";
 import * as _ from "lodash";
 import { resolvePlaceholder } from "../../machine/yaml/resolvePlaceholder";
 import { toArray } from "../../util/misc/array";
 import { CompressingGoalCache } from "./CompressingGoalCache";
+import {
+    GoalCacheTransferMetrics,
+    reportGoalCacheMetric,
+} from "./metrics";
+
+// tslint:disable:max-file-line-count
 
 export const CacheInputGoalDataKey = "@atomist/sdm/input";
 export const CacheOutputGoalDataKey = "@atomist/sdm/output";
@@ -48,9 +55,13 @@ export interface GoalCache {
      * @param p The project where the files (or directories) reside.
      * @param files The files (or directories) to be cached.
      * @param classifier An optional classifier to identify the set of files (or directories to be cached).
-     * @param type An optional output type
+     * @param metrics Optional object to record archive size, compression and transfer time in.
      */
-    put(gi: GoalInvocation, p: GitProject, files: string | string[], classifier?: string): Promise<string>;
+    put(gi: GoalInvocation,
+        p: GitProject,
+        files: string | string[],
+        classifier?: string,
+        metrics?: GoalCacheTransferMetrics): Promise<string>;
 
     /**
      * Retrieve files from the cache.
@@ -58,8 +69,9 @@ export interface GoalCache {
      * @param p he project where the files (or directories) need to be restored in.
      * @param classifier Optionally the classifier of the cache for the files to be restored. If not defined,
      *                   all caches for the GoalInvocation are restored.
+     * @param metrics Optional object to record archive size, compression and transfer time in.
      */
-    retrieve(gi: GoalInvocation, p: GitProject, classifier?: string): Promise<void>;
+    retrieve(gi: GoalInvocation, p: GitProject, classifier?: string, metrics?: GoalCacheTransferMetrics): Promise<void>;
 
     /**
      * Remove files from the cache.
@@ -68,6 +80,29 @@ export interface GoalCache {
      *                   all classifiers are removed.
      */
     remove(gi: GoalInvocation, classifier?: string): Promise<void>;
+
+    /**
+     * List the archives in the cache.
+     * @param gi The goal invocation for which the cache entries should be listed.
+     * @param classifierPrefix Only archives whose classifier starts with this prefix are returned.
+     */
+    list?(gi: GoalInvocation, classifierPrefix: string): Promise<GoalCacheArchive[]>;
+}
+
+/**
+ * Information about an archive stored in a goal cache.
+ */
+export interface GoalCacheArchive {
+    /** Fully resolved classifier of the archive, including workspace ID and key */
+    classifier: string;
+    /** Location of the archive in the cache store */
+    uri?: string;
+    /** Size of the archive in bytes */
+    size?: number;
+    /** Time the archive was last stored */
+    lastModified?: Date;
+    /** Time the archive was last retrieved, if tracked by the store */
+    lastAccessed?: Date;
 }
 
 /**
@@ -84,7 +119,29 @@ export interface DirectoryPattern {
     directory: string;
 }
 
-export interface CacheEntry {
+/**
+ * Content-addressed key of a cache entry.  Keyed archives are stored
+ * per key below their classifier, so different branches or
+ * dependency states do not overwrite each other's archives.
+ */
+export interface CacheKey {
+    /**
+     * Key template, e.g., "npm-${hashFiles(package-lock.json)}-${branch}".
+     * Besides the usual placeholders, `${hashFiles(GLOB, ...)}` is
+     * replaced with the SHA-256 hash of the path and content of all
+     * project files matching the comma-separated glob patterns.
+     */
+    key?: string;
+    /**
+     * Ordered list of key prefix templates to fall back to when no
+     * archive exists for the exact key.  For each prefix, the most
+     * recently stored archive whose key starts with the prefix is
+     * restored.
+     */
+    restoreKeys?: string[];
+}
+
+export interface CacheEntry extends CacheKey {
     classifier: string;
     pattern: GlobFilePattern | DirectoryPattern;
 }
@@ -119,7 +176,7 @@ export interface GoalCacheOptions extends GoalCacheCoreOptions {
  * Options for restoring goal cache entries.
  */
 export interface GoalCacheRestoreOptions extends GoalCacheCoreOptions {
-    entries?: Array<{ classifier: string }>;
+    entries?: Array<{ classifier: string } & CacheKey>;
 }
 
 const DefaultGoalCache = new CompressingGoalCache();
@@ -162,9 +219,17 @@ export function cachePut(options: GoalCacheOptions,
                     }
                     if (!_.isEmpty(files)) {
                         const resolvedClassifier = await resolveClassifierPath(entry.classifier, gi);
-                        const uri = await goalCache.put(gi, p, files, resolvedClassifier);
+                        const resolvedKey = !!entry.key ? await resolveCacheKey(entry.key, p, gi) : undefined;
+                        const metrics: GoalCacheTransferMetrics = {};
+                        const uri = await goalCache.put(gi, p, files, keyedClassifier(resolvedClassifier, resolvedKey), metrics);
+                        if (!!uri) {
+                            reportGoalCacheMetric(gi, { classifier: entry.classifier, operation: "put", ...metrics });
+                        }
                         if (!!resolvedClassifier && !!uri) {
                             entry.classifier = resolvedClassifier;
+                            if (!!resolvedKey) {
+                                entry.key = resolvedKey;
+                            }
                             (entry as any).uri = uri;
                         }
                     }
@@ -251,11 +316,12 @@ export function cacheRestore(options: GoalCacheRestoreOptions,
         ...options,
     };
 
-    const classifiersToBeRestored = [];
+    const entriesToBeRestored: Array<{ classifier: string } & CacheKey> = [];
     if (allClassifiers.length > 0) {
-        classifiersToBeRestored.push(...allClassifiers);
+        entriesToBeRestored.push(...allClassifiers.map(c =>
+            (optsToUse.entries || []).find(entry => entry.classifier === c) || { classifier: c }));
     } else {
-        classifiersToBeRestored.push(...optsToUse.entries.map(entry => entry.classifier));
+        entriesToBeRestored.push(...optsToUse.entries);
     }
 
     const listenerName = `restoring inputs`;
@@ -267,11 +333,13 @@ export function cacheRestore(options: GoalCacheRestoreOptions,
                          event: GoalProjectListenerEvent): Promise<void | ExecuteGoalResult> => {
             if (!!isCacheEnabled(gi)) {
                 const goalCache = cacheStore(gi);
-                for (const c of classifiersToBeRestored) {
+                for (const entry of entriesToBeRestored) {
+                    const metrics: GoalCacheTransferMetrics = {};
                     try {
-                        const resolvedClassifier = await resolveClassifierPath(c, gi);
-                        await goalCache.retrieve(gi, p, resolvedClassifier);
+                        await restoreEntry(goalCache, entry, p, gi, metrics);
+                        reportGoalCacheMetric(gi, { classifier: entry.classifier, operation: "restore", hit: true, ...metrics });
                     } catch (e) {
+                        reportGoalCacheMetric(gi, { classifier: entry.classifier, operation: "restore", hit: false });
                         await invokeCacheMissListeners(optsToUse, p, gi, event);
                     }
                 }
@@ -285,8 +353,8 @@ export function cacheRestore(options: GoalCacheRestoreOptions,
             const newData = {
                 [CacheInputGoalDataKey]: [
                     ...(data[CacheInputGoalDataKey] || []),
-                    ...classifiersToBeRestored.map(c => ({
-                        classifier: c,
+                    ...entriesToBeRestored.map(entry => ({
+                        classifier: entry.classifier,
                     })),
                 ],
             };
@@ -315,11 +383,12 @@ export function cacheRemove(options: GoalCacheOptions,
         allClassifiers.push(...[classifier, ...classifiers]);
     }
 
-    const classifiersToBeRemoved = [];
+    const entriesToBeRemoved: Array<{ classifier: string } & CacheKey> = [];
     if (allClassifiers.length > 0) {
-        classifiersToBeRemoved.push(...allClassifiers);
+        entriesToBeRemoved.push(...allClassifiers.map(c =>
+            options.entries.find(entry => entry.classifier === c) || { classifier: c }));
     } else {
-        classifiersToBeRemoved.push(...options.entries.map(entry => entry.classifier));
+        entriesToBeRemoved.push(...options.entries);
     }
 
     const listenerName = `removing outputs`;
@@ -330,9 +399,10 @@ export function cacheRemove(options: GoalCacheOptions,
             if (!!isCacheEnabled(gi)) {
                 const goalCache = cacheStore(gi);
 
-                for (const c of classifiersToBeRemoved) {
-                    const resolvedClassifier = await resolveClassifierPath(c, gi);
-                    await goalCache.remove(gi, resolvedClassifier);
+                for (const entry of entriesToBeRemoved) {
+                    const resolvedClassifier = await resolveClassifierPath(entry.classifier, gi);
+                    const resolvedKey = !!entry.key ? await resolveCacheKey(entry.key, p, gi) : undefined;
+                    await goalCache.remove(gi, keyedClassifier(resolvedClassifier, resolvedKey));
                 }
             }
         },
@@ -341,6 +411,47 @@ export function cacheRemove(options: GoalCacheOptions,
     };
 }
 
+/**
+ * Restore a single cache entry.  If the entry has a key, the archive
+ * for the exact key is tried first, followed by the most recent
+ * archive matching each of the restore keys in order.
+ */
+async function restoreEntry(goalCache: GoalCache,
+                            entry: { classifier: string } & CacheKey,
+                            p: GitProject,
+                            gi: GoalInvocation,
+                            metrics: GoalCacheTransferMetrics): Promise<void> {
+    const resolvedClassifier = await resolveClassifierPath(entry.classifier, gi);
+    if (!entry.key) {
+        return goalCache.retrieve(gi, p, resolvedClassifier, metrics);
+    }
+    const resolvedKey = await resolveCacheKey(entry.key, p, gi);
+    try {
+        return await goalCache.retrieve(gi, p, keyedClassifier(resolvedClassifier, resolvedKey), metrics);
+    } catch (e) {
+        if (_.isEmpty(entry.restoreKeys) || !goalCache.list) {
+            throw e;
+        }
+        gi.progressLog.write(`No cache entry for key '${resolvedKey}' of '${entry.classifier}', trying restore keys`);
+    }
+    for (const restoreKey of entry.restoreKeys) {
+        const prefix = keyedClassifier(resolvedClassifier, await resolveCacheKey(restoreKey, p, gi));
+        const archives = (await goalCache.list(gi, prefix))
+            .filter(a => !a.classifier.slice(resolvedClassifier.length + 1).includes("/"));
+        const closest = _.maxBy(archives, a => !!a.lastModified ? a.lastModified.getTime() : 0);
+        if (!!closest) {
+            gi.progressLog.write(`Restoring cache entry '${closest.classifier}' for restore key '${restoreKey}'`);
+            return goalCache.retrieve(gi, p, closest.classifier, metrics);
+        }
+    }
+    throw new Error("No cache entry");
+}
+
+/** Combine resolved classifier and optional resolved key. */
+function keyedClassifier(resolvedClassifier: string, resolvedKey: string | undefined): string {
+    return !!resolvedKey ? `${resolvedClassifier}/${resolvedKey}` : resolvedClassifier;
+}
+
 async function getFilePathsThroughPattern(project: Project, globPattern: string | string[]): Promise<string[]> {
     const oldExcludes = DefaultExcludes;
     DefaultExcludes.splice(0, DefaultExcludes.length);  // necessary evil
@@ -355,7 +466,11 @@ function isCacheEnabled(gi: GoalInvocation): boolean {
     return _.get(gi.configuration, "sdm.cache.enabled", false);
 }
 
-function cacheStore(gi: GoalInvocation): GoalCache {
+/**
+ * Goal cache configured for the SDM, defaulting to a
+ * [[CompressingGoalCache]] on the local file system.
+ */
+export function cacheStore(gi: Pick<GoalInvocation, "configuration">): GoalCache {
     return _.get(gi.configuration, "sdm.cache.store", DefaultGoalCache);
 }
 
@@ -380,3 +495,37 @@ export function sanitizeClassifier(classifier: string): string {
     return classifier.replace(/[^-.0-9A-Za-z_+]/g, "_")
         .replace(/^\.+/, ""); // hidden
 }
+
+/**
+ * Resolve cache key template.  Replace `${hashFiles(GLOB, ...)}`
+ * with the hash of the matching project files, interpolate
+ * information from the goal invocation, and sanitize the result so
+ * it can be used as a single path segment.
+ */
+export async function resolveCacheKey(key: string, p: Project, gi: GoalInvocation): Promise<string> {
+    const hashFilesExpression = /\$\{hashFiles\(([^)]*)\)\}/g;
+    let hashedKey = key;
+    let match: RegExpExecArray;
+    // tslint:disable-next-line:no-conditional-assignment
+    while (match = hashFilesExpression.exec(key)) {
+        const globPatterns = match[1].split(",").map(g => g.trim()).filter(g => !!g);
+        hashedKey = hashedKey.split(match[0]).join(await hashFiles(p, globPatterns));
+    }
+    const wrapper = { key: hashedKey };
+    await resolvePlaceholders(wrapper, v => resolvePlaceholder(v, gi.goalEvent, gi, {}));
+    return sanitizeClassifier(wrapper.key);
+}
+
+/**
+ * Calculate SHA-256 hash over the paths and contents of the project
+ * files matching the glob patterns, in sorted path order.
+ */
+async function hashFiles(p: Project, globPatterns: string[]): Promise<string> {
+    const hash = crypto.createHash("sha256");
+    const paths = (await getFilePathsThroughPattern(p, globPatterns)).sort();
+    for (const filePath of paths) {
+        hash.update(filePath);
+        hash.update(await (await p.getFile(filePath)).getContentBuffer());
+    }
+    return hash.digest("hex");
+}
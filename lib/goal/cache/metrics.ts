@@ -0,0 +1,108 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { StatsDClientTags } from "@atomist/automation-client/lib/spi/statsd/statsdClient";
+import { logger } from "@atomist/automation-client/lib/util/logger";
+import { GoalInvocation } from "@atomist/sdm/lib/api/goal/GoalInvocation";
+import * as _ from "lodash";
+import { goalMetricStatsDClient } from "../../internal/util/SdmGoalMetricReportingAutomationEventListener";
+
+/**
+ * Measurements of storing or retrieving a single cache archive.
+ * Goal caches that support it fill in the provided object.
+ */
+export interface GoalCacheTransferMetrics {
+    /** Size of the archive in bytes */
+    size?: number;
+    /** Time in milliseconds spent creating or extracting the archive */
+    compressionTime?: number;
+    /** Time in milliseconds spent uploading or downloading the archive */
+    transferTime?: number;
+}
+
+/**
+ * Structured event of a single cache put or restore.
+ */
+export interface GoalCacheMetric extends GoalCacheTransferMetrics {
+    /** Cache entry classifier as provided in the goal cache options */
+    classifier: string;
+    /** Whether the archive was stored or restored */
+    operation: "put" | "restore";
+    /** For restores, whether an archive was found */
+    hit?: boolean;
+}
+
+/**
+ * Write the cache metric to the progress log and report it to StatsD,
+ * if enabled in the configuration, tagged with goal name and
+ * classifier.  Metrics are sent using the StatsD client of the
+ * [[SdmGoalMetricReportingAutomationEventListener]].
+ */
+export function reportGoalCacheMetric(gi: Pick<GoalInvocation, "configuration" | "goalEvent" | "progressLog">,
+                                      metric: GoalCacheMetric): void {
+    gi.progressLog.write(formatGoalCacheMetric(metric));
+
+    const statsd = goalMetricStatsDClient();
+    if (!statsd || !_.get(gi, "configuration.statsd.enabled")) {
+        return;
+    }
+    const tags: StatsDClientTags = [
+        `atomist_goal:${_.get(gi, "goalEvent.name", "unknown")}`,
+        `atomist_cache_classifier:${metric.classifier}`,
+    ];
+    const cb = () => {
+        /* intentionally left empty */
+    };
+    try {
+        if (metric.operation === "restore") {
+            statsd.increment(`counter.goal.cache.${metric.hit ? "hit" : "miss"}`, 1, 1, tags, cb);
+        } else {
+            statsd.increment("counter.goal.cache.put", 1, 1, tags, cb);
+        }
+        const prefix = `goal.cache.${metric.operation}`;
+        if (metric.size !== undefined) {
+            statsd.gauge(`gauge.${prefix}.size`, metric.size, 1, tags, cb);
+        }
+        if (metric.compressionTime !== undefined) {
+            statsd.timing(`timer.${prefix}.compression`, metric.compressionTime, 1, tags, cb);
+        }
+        if (metric.transferTime !== undefined) {
+            statsd.timing(`timer.${prefix}.transfer`, metric.transferTime, 1, tags, cb);
+        }
+    } catch (e) {
+        logger.debug(`Failed to report goal cache metric: ${e.message}`);
+    }
+}
+
+/**
+ * Format the cache metric as single line for the progress log.
+ */
+export function formatGoalCacheMetric(metric: GoalCacheMetric): string {
+    const parts = [`Cache ${metric.operation} '${metric.classifier}'`];
+    if (metric.operation === "restore") {
+        parts.push(metric.hit ? "hit" : "miss");
+    }
+    if (metric.size !== undefined) {
+        parts.push(`size=${metric.size}`);
+    }
+    if (metric.compressionTime !== undefined) {
+        parts.push(`compression=${metric.compressionTime}ms`);
+    }
+    if (metric.transferTime !== undefined) {
+        parts.push(`transfer=${metric.transferTime}ms`);
+    }
+    return parts.join(" ");
+}
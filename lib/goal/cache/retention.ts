@@ -0,0 +1,183 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { GoalInvocation } from "@atomist/sdm/lib/api/goal/GoalInvocation";
+import { CacheConfiguration } from "@atomist/sdm/lib/api/machine/SoftwareDeliveryMachineOptions";
+import * as _ from "lodash";
+import { GoalCacheArchiveStore } from "./CompressingGoalCache";
+import { GoalCacheArchive } from "./goalCaching";
+
+/**
+ * Retention policy for goal cache archives.  Archives are evicted
+ * least recently used first.
+ */
+export interface GoalCacheRetentionPolicy {
+    /** Maximum total size in bytes of all archives of a workspace */
+    maxSize?: number;
+    /** Maximum time in milliseconds since an archive was last used */
+    maxAge?: number;
+    /**
+     * Maximum number of archives per classifier, only relevant for
+     * classifiers using content-addressed keys
+     */
+    maxEntries?: number;
+    /**
+     * Minimum time in milliseconds between enforcing the policy after
+     * storing archives, defaults to [[DefaultRetentionInterval]].
+     * Enforcing the policy lists all archives of the workspace, which
+     * is expensive for remote stores.
+     */
+    interval?: number;
+}
+
+/** Default minimum time between enforcing the retention policy, one hour */
+export const DefaultRetentionInterval = 60 * 60 * 1000;
+
+/**
+ * Minimum time in milliseconds between recording the access of the
+ * same archive.  Last access times of archives are therefore only
+ * accurate to this interval.
+ */
+export const AccessRecordingInterval = 60 * 60 * 1000;
+
+/** Time the retention policy was last enforced by cache */
+const retentionEnforcements = new Map<string, number>();
+
+/** Time the access of archives was last recorded by archive URI */
+const accessRecordings = new Map<string, number>();
+
+export interface GoalCacheRetentionConfiguration extends CacheConfiguration {
+    cache?: {
+        /** Set to true to enable goal input/output caching */
+        enabled?: boolean;
+        /** Path prefix or directory of the cache archives */
+        path?: string;
+        /** Retention policy enforced by the goal cache archive store */
+        retention?: GoalCacheRetentionPolicy;
+    };
+}
+
+/**
+ * Time the archive was last used, i.e., retrieved or stored.
+ */
+export function lastUsed(archive: GoalCacheArchive): number {
+    const times = [archive.lastAccessed, archive.lastModified].filter(t => !!t).map(t => t.getTime());
+    return times.length > 0 ? Math.max(...times) : 0;
+}
+
+/**
+ * Classifier of the archive without its content-addressed key.
+ * Resolved classifiers have the form "WORKSPACE_ID/CLASSIFIER" or
+ * "WORKSPACE_ID/CLASSIFIER/KEY".
+ */
+export function baseClassifier(archive: GoalCacheArchive): string {
+    return archive.classifier.split("/").slice(0, 2).join("/");
+}
+
+/**
+ * Select the archives that need to be evicted to satisfy the
+ * retention policy.
+ *
+ * @param archives All archives the policy applies to
+ * @param policy Retention policy
+ * @param now Current time in milliseconds since the epoch
+ * @return Archives to evict
+ */
+export function selectArchivesToEvict(archives: GoalCacheArchive[],
+                                      policy: GoalCacheRetentionPolicy,
+                                      now: number = Date.now()): GoalCacheArchive[] {
+    if (!policy) {
+        return [];
+    }
+    const evict: GoalCacheArchive[] = [];
+    let retained = _.sortBy(archives, a => -lastUsed(a));
+
+    if (policy.maxAge > 0) {
+        evict.push(...retained.filter(a => now - lastUsed(a) > policy.maxAge));
+        retained = retained.filter(a => !evict.includes(a));
+    }
+
+    if (policy.maxEntries > 0) {
+        _.forEach(_.groupBy(retained, baseClassifier), group => evict.push(...group.slice(policy.maxEntries)));
+        retained = retained.filter(a => !evict.includes(a));
+    }
+
+    if (policy.maxSize > 0) {
+        let size = _.sumBy(retained, a => a.size || 0);
+        while (size > policy.maxSize && retained.length > 0) {
+            const archive = retained.pop();
+            evict.push(archive);
+            size -= archive.size || 0;
+        }
+    }
+
+    return evict;
+}
+
+/**
+ * Delete all archives of the workspace that violate the retention
+ * policy configured in `sdm.cache.retention`.  Unless `force` is
+ * true, the policy is enforced at most once per policy interval for
+ * each workspace and cache.  Stores that do not support listing their
+ * archives are ignored.  Failures are logged and otherwise ignored.
+ */
+export async function enforceRetentionPolicy(gi: GoalInvocation,
+                                             store: GoalCacheArchiveStore,
+                                             force: boolean = false): Promise<void> {
+    const policy: GoalCacheRetentionPolicy = _.get(gi.configuration, "sdm.cache.retention");
+    if (!policy || !store.list) {
+        return;
+    }
+    const cacheKey = `${gi.context.workspaceId}:${_.get(gi.configuration, "sdm.cache.path", "")}`;
+    const now = Date.now();
+    const interval = policy.interval ?? DefaultRetentionInterval;
+    if (!force && now - (retentionEnforcements.get(cacheKey) || 0) < interval) {
+        return;
+    }
+    retentionEnforcements.set(cacheKey, now);
+    try {
+        const archives = await store.list(gi, `${gi.context.workspaceId}/`);
+        for (const archive of selectArchivesToEvict(archives, policy)) {
+            gi.progressLog.write(`Evicting cache archive '${archive.classifier}'`);
+            await store.delete(gi, archive.classifier);
+        }
+    } catch (e) {
+        gi.progressLog.write(`Failed to enforce cache retention policy: ${e.message}`);
+    }
+}
+
+/**
+ * Determine if the access of the archive should be recorded, i.e.,
+ * if it was not recorded by this process within the last
+ * [[AccessRecordingInterval]].  Stores use this to avoid writing to
+ * archives every time they are retrieved.
+ *
+ * @param uri URI of the archive
+ * @param now Current time in milliseconds since the epoch
+ * @return true if the access should be recorded
+ */
+export function shouldRecordAccess(uri: string, now: number = Date.now()): boolean {
+    if (now - (accessRecordings.get(uri) || 0) < AccessRecordingInterval) {
+        return false;
+    }
+    accessRecordings.forEach((t, u) => {
+        if (now - t >= AccessRecordingInterval) {
+            accessRecordings.delete(u);
+        }
+    });
+    accessRecordings.set(uri, now);
+    return true;
+}
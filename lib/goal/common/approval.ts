@@ -0,0 +1,275 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { logger } from "@atomist/automation-client/lib/util/logger";
+import { slackWarningMessage } from "@atomist/sdm/lib/api-helper/misc/slack/messages";
+import { gitHubTeamVoter } from "@atomist/sdm/lib/api-helper/voter/githubTeamVoter";
+import { Goal } from "@atomist/sdm/lib/api/goal/Goal";
+import { SdmGoalEvent } from "@atomist/sdm/lib/api/goal/SdmGoalEvent";
+import {
+    GoalApprovalRequestVote,
+    GoalApprovalRequestVoter,
+    GoalApprovalRequestVoteResult,
+} from "@atomist/sdm/lib/api/registration/goalApprovalRequestVote";
+import { italic } from "@atomist/slack-messages";
+import * as _ from "lodash";
+import {
+    goalData,
+    goalParameter,
+    withGoalData,
+    withGoalParameter,
+} from "../../pack/goal-state/goalParameters";
+import {
+    PersonByChatId,
+    SdmGoalState,
+} from "../../typings/types";
+import { toArray } from "../../util/misc/array";
+import { parseDuration } from "../../util/misc/time";
+import {
+    ChangeWindow,
+    formatChangeWindow,
+    isInChangeWindow,
+    validateChangeWindow,
+} from "./changeWindow";
+
+export const GoalApprovalPolicyParameterKey = "@atomist/sdm/approval";
+export const GoalPreApprovalPolicyParameterKey = "@atomist/sdm/preApproval";
+export const GoalApprovalDataKey = "@atomist/sdm/approvals";
+
+/**
+ * Policy a goal approval or pre-approval has to satisfy before it
+ * is granted
+ */
+export interface GoalApprovalPolicy {
+    /** Number of distinct approvers needed; defaults to 1 */
+    required?: number;
+    /** Chat screen names or GitHub logins of users allowed to approve */
+    users?: string[];
+    /** GitHub teams of the repository owner whose members are allowed to approve */
+    teams?: string[];
+    /** Prevent the author of the commit from approving */
+    excludeCommitAuthor?: boolean;
+    /**
+     * Milliseconds or duration like `24h` after which a goal still
+     * waiting for approval is canceled by the goal state support,
+     * if its approval expiry is enabled.  The time is measured from
+     * the last update of the goal.
+     */
+    expiry?: number | string;
+    /** Only allow approvals within these change windows */
+    window?: ChangeWindow | ChangeWindow[];
+}
+
+/**
+ * Single approval recorded in the goal data
+ */
+export interface GoalApproval {
+    userId: string;
+    ts: number;
+}
+
+/**
+ * Approvals recorded in the goal data while the policy is not
+ * satisfied yet
+ */
+export interface GoalApprovals {
+    approval?: GoalApproval[];
+    preApproval?: GoalApproval[];
+}
+
+/**
+ * Vote of the [[approvalPolicyVoter]] carrying the goal data with
+ * the recorded approvals
+ */
+export interface GoalApprovalPolicyVoteResult extends GoalApprovalRequestVoteResult {
+    data?: string;
+    /** Number of approvals recorded, including the current one */
+    approvals?: number;
+    /** Number of approvals the policy requires */
+    required?: number;
+}
+
+/**
+ * Require approval of the goal according to the provided policy.
+ * The policy is stored with the goal parameters and enforced by
+ * the [[approvalPolicyVoter]].
+ *
+ * @param goal Goal to require approval for
+ * @param policy Approval policy
+ * @return The provided goal
+ */
+export function withApprovalPolicy<G extends Goal>(goal: G, policy: GoalApprovalPolicy): G {
+    return setPolicy(goal, policy, GoalApprovalPolicyParameterKey);
+}
+
+/**
+ * Require pre-approval of the goal according to the provided
+ * policy.
+ *
+ * @param goal Goal to require pre-approval for
+ * @param policy Pre-approval policy
+ * @return The provided goal
+ */
+export function withPreApprovalPolicy<G extends Goal>(goal: G, policy: GoalApprovalPolicy): G {
+    return setPolicy(goal, policy, GoalPreApprovalPolicyParameterKey);
+}
+
+/**
+ * Read the approval or pre-approval policy relevant to the state of
+ * the goal event.
+ *
+ * @return Policy, undefined if the goal has none
+ */
+export function goalApprovalPolicy(goal: { parameters?: string, state?: string }): GoalApprovalPolicy | undefined {
+    return goalParameter<GoalApprovalPolicy>(goal, isPreApproval(goal) ? GoalPreApprovalPolicyParameterKey : GoalApprovalPolicyParameterKey);
+}
+
+/**
+ * Read the approvals recorded in the goal data.
+ */
+export function goalApprovals(goal: { data?: string }): GoalApprovals {
+    return goalData(goal)[GoalApprovalDataKey] || {};
+}
+
+/**
+ * Voter granting approval requests once the approval policy of the
+ * goal is satisfied.  Approvals by eligible users are recorded in the
+ * goal data; until enough users approved, the voter abstains.
+ * Approvals of users that are not eligible are denied.  Goals
+ * without policy are granted.
+ */
+export function approvalPolicyVoter(): GoalApprovalRequestVoter {
+    return async garvi => {
+        const goal = garvi.goal;
+        const policy = goalApprovalPolicy(goal);
+        if (!policy) {
+            return { vote: GoalApprovalRequestVote.Granted };
+        }
+
+        const preApproval = isPreApproval(goal);
+        const approval = preApproval ? goal.preApproval : goal.approval;
+        const userId = approval?.userId;
+        if (!userId) {
+            return { vote: GoalApprovalRequestVote.Denied, reason: "Approver unknown" };
+        }
+
+        if (!!policy.window && !isInChangeWindow(policy.window, approval.ts || Date.now())) {
+            const reason = `${preApproval ? "Start" : "Approval"} outside of change window ${formatChangeWindow(policy.window)}`;
+            if (!!garvi.addressChannels) {
+                await garvi.addressChannels(slackWarningMessage(
+                    "Goal Approval",
+                    `${preApproval ? "Start" : "Approval"} of goal ${italic(goal.name)} by @${userId} denied: ${
+                        reason.charAt(0).toLowerCase()}${reason.slice(1)}`,
+                    garvi.context));
+            }
+            return { vote: GoalApprovalRequestVote.Denied, reason };
+        }
+
+        const login = await gitHubLogin(garvi.context, userId);
+        const identities = _.uniq([userId, login].filter(i => !!i));
+
+        if (policy.excludeCommitAuthor && isCommitAuthor(goal, identities)) {
+            return { vote: GoalApprovalRequestVote.Denied, reason: `Commit author ${userId} can not approve` };
+        }
+
+        if (!(await isEligible(policy, identities, garvi))) {
+            return { vote: GoalApprovalRequestVote.Denied, reason: `User ${userId} is not allowed to approve` };
+        }
+
+        const key = preApproval ? "preApproval" : "approval";
+        const approvals = goalApprovals(goal);
+        const recorded = approvals[key] || [];
+        const updated = recorded.some(a => a.userId === userId) ? recorded : [...recorded, { userId, ts: approval.ts || Date.now() }];
+        const required = policy.required || 1;
+        const data = withGoalData(goal.data, GoalApprovalDataKey, { ...approvals, [key]: updated });
+
+        const result: GoalApprovalPolicyVoteResult = {
+            vote: updated.length >= required ? GoalApprovalRequestVote.Granted : GoalApprovalRequestVote.Abstain,
+            reason: `${updated.length} of ${required} approvals`,
+            data,
+            approvals: updated.length,
+            required,
+        };
+        return result;
+    };
+}
+
+function setPolicy<G extends Goal>(goal: G, policy: GoalApprovalPolicy, key: string): G {
+    if (policy.required !== undefined && (!Number.isInteger(policy.required) || policy.required < 1)) {
+        throw new Error(`Required approvals of goal '${goal.uniqueName}' must be a positive integer`);
+    }
+    const definition: GoalApprovalPolicy = {
+        ...policy,
+        expiry: policy.expiry !== undefined ? parseDuration(policy.expiry) : undefined,
+    };
+    if (!!policy.window) {
+        try {
+            toArray(policy.window).forEach(validateChangeWindow);
+        } catch (e) {
+            throw new Error(`${e.message} of goal '${goal.uniqueName}'`);
+        }
+    }
+    return withGoalParameter(goal, key, definition,
+        key === GoalApprovalPolicyParameterKey ? { approvalRequired: true } : { preApprovalRequired: true });
+}
+
+function isPreApproval(goal: { state?: string }): boolean {
+    return goal.state === SdmGoalState.pre_approved || goal.state === SdmGoalState.waiting_for_pre_approval;
+}
+
+function isCommitAuthor(goal: SdmGoalEvent, identities: string[]): boolean {
+    const author = goal.push?.after?.author;
+    const authorIdentities = [
+        author?.login,
+        author?.person?.gitHubId?.login,
+        author?.person?.chatId?.screenName,
+    ].filter(i => !!i);
+    return identities.some(i => authorIdentities.includes(i));
+}
+
+async function isEligible(policy: GoalApprovalPolicy,
+                          identities: string[],
+                          garvi: Parameters<GoalApprovalRequestVoter>[0]): Promise<boolean> {
+    if ((policy.users || []).length === 0 && (policy.teams || []).length === 0) {
+        return true;
+    }
+    if ((policy.users || []).some(u => identities.includes(u))) {
+        return true;
+    }
+    for (const team of policy.teams || []) {
+        try {
+            if ((await gitHubTeamVoter(team)(garvi)).vote === GoalApprovalRequestVote.Granted) {
+                return true;
+            }
+        } catch (e) {
+            logger.warn(`Failed to determine membership of GitHub team '${team}': ${e.message}`);
+        }
+    }
+    return false;
+}
+
+async function gitHubLogin(context: Parameters<GoalApprovalRequestVoter>[0]["context"], screenName: string): Promise<string | undefined> {
+    try {
+        const result = await context.graphClient.query<PersonByChatId.Query, PersonByChatId.Variables>({
+            name: "PersonByChatId",
+            variables: { screenName },
+        });
+        return result?.ChatId?.[0]?.person?.gitHubId?.login;
+    } catch (e) {
+        logger.debug(`Failed to resolve GitHub login of '${screenName}': ${e.message}`);
+        return undefined;
+    }
+}
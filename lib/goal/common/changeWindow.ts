@@ -0,0 +1,121 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { toArray } from "../../util/misc/array";
+
+/**
+ * Recurring window of time in which changes like approving a
+ * deployment are allowed, e.g., 09:00 to 16:00 Monday to Thursday in
+ * Europe/Berlin.
+ */
+export interface ChangeWindow {
+    /** Days like `Mon` or ranges like `Mon-Thu`; defaults to every day */
+    days?: string | string[];
+    /** Start time as `HH:mm`; defaults to 00:00 */
+    start?: string;
+    /** End time as `HH:mm`, exclusive; defaults to 24:00 */
+    end?: string;
+    /** IANA time zone like `Europe/Berlin`; defaults to UTC */
+    timezone?: string;
+}
+
+const Days = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/**
+ * Validate the change window, throwing an error if days, times or
+ * time zone are invalid.
+ */
+export function validateChangeWindow(window: ChangeWindow): void {
+    parseDays(window);
+    parseTime(window.start, 0);
+    parseTime(window.end, 24 * 60);
+    try {
+        // tslint:disable-next-line:no-unused-expression
+        new Intl.DateTimeFormat("en-US", { timeZone: window.timezone || "UTC" });
+    } catch (e) {
+        throw new Error(`Invalid time zone '${window.timezone}' in change window`);
+    }
+}
+
+/**
+ * Determine if the provided time is inside any of the change windows.
+ *
+ * @param windows Change windows
+ * @param now Time in milliseconds since epoch; defaults to now
+ */
+export function isInChangeWindow(windows: ChangeWindow | ChangeWindow[], now: number = Date.now()): boolean {
+    return toArray(windows).some(window => {
+        const parts = new Intl.DateTimeFormat("en-US", {
+            timeZone: window.timezone || "UTC",
+            weekday: "short",
+            hour: "numeric",
+            minute: "numeric",
+            hour12: false,
+        }).formatToParts(new Date(now));
+        const part = (type: string) => parts.find(p => p.type === type).value;
+        const day = Days.indexOf(part("weekday").toLowerCase());
+        const minutes = (+part("hour") % 24) * 60 + +part("minute");
+        const start = parseTime(window.start, 0);
+        const end = parseTime(window.end, 24 * 60);
+        const inTime = start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+        return parseDays(window).includes(day) && inTime;
+    });
+}
+
+/**
+ * Format the change windows for messages, e.g., `Mon-Thu 09:00-16:00 Europe/Berlin`.
+ */
+export function formatChangeWindow(windows: ChangeWindow | ChangeWindow[]): string {
+    return toArray(windows).map(w => [
+        !!w.days ? toArray(w.days).join(",") : undefined,
+        `${w.start || "00:00"}-${w.end || "24:00"}`,
+        w.timezone || "UTC",
+    ].filter(p => !!p).join(" ")).join(" or ");
+}
+
+function parseDays(window: ChangeWindow): number[] {
+    if (!window.days) {
+        return [0, 1, 2, 3, 4, 5, 6];
+    }
+    const days: number[] = [];
+    for (const range of toArray(window.days)) {
+        const [from, to] = range.split(/\s*[-–]\s*/).map(d => {
+            const index = Days.indexOf(d.trim().slice(0, 3).toLowerCase());
+            if (index < 0) {
+                throw new Error(`Invalid day '${range}' in change window`);
+            }
+            return index;
+        });
+        let day = from;
+        days.push(day);
+        while (to !== undefined && day !== to) {
+            day = (day + 1) % 7;
+            days.push(day);
+        }
+    }
+    return days;
+}
+
+function parseTime(time: string | undefined, defaultMinutes: number): number {
+    if (!time) {
+        return defaultMinutes;
+    }
+    const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+    if (!match || +match[1] > 24 || +match[2] > 59 || (+match[1] === 24 && +match[2] > 0)) {
+        throw new Error(`Invalid time '${time}' in change window`);
+    }
+    return +match[1] * 60 + +match[2];
+}
@@ -0,0 +1,154 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Goal } from "@atomist/sdm/lib/api/goal/Goal";
+import * as _ from "lodash";
+import {
+    goalData,
+    goalParameter,
+    withGoalData,
+    withGoalParameter,
+} from "../../pack/goal-state/goalParameters";
+import { parseDuration } from "../../util/misc/time";
+
+export const GoalRetryParameterKey = "@atomist/sdm/retry";
+export const GoalRetryDataKey = "@atomist/sdm/retry";
+export const GoalExitCodeDataKey = "@atomist/sdm/exitCode";
+
+/**
+ * Policy to automatically retry a failed goal
+ */
+export interface GoalRetryPolicy {
+    /** Maximum number of attempts, including the first one */
+    maxAttempts: number;
+    /** Exponential backoff between attempts */
+    backoff?: {
+        /** Milliseconds or duration like `30s` before the first retry; defaults to 30 seconds */
+        initial?: number | string;
+        /** Factor the delay grows by with every retry; defaults to 2 */
+        multiplier?: number;
+        /** Milliseconds or duration like `1h` the delay is capped at; defaults to 1 hour */
+        max?: number | string;
+    };
+    /**
+     * Regular expressions matched against the phase of the failed
+     * goal.  If neither phases nor exit codes are provided, all
+     * failures are retryable.
+     */
+    phases?: string[];
+    /** Exit codes of failed container goals that are retryable */
+    exitCodes?: number[];
+}
+
+/**
+ * Retry state recorded in the goal data
+ */
+export interface GoalRetryState {
+    /** Number of the current attempt, starting at 1 */
+    attempt: number;
+}
+
+/**
+ * Set the retry policy of the goal.  The policy is stored with the
+ * goal parameters and applied by the goal state support, which
+ * re-requests the goal after it failed.
+ *
+ * @param goal Goal to retry
+ * @param policy Maximum number of attempts or full retry policy
+ * @return The provided goal
+ */
+export function withRetry<G extends Goal>(goal: G, policy: number | GoalRetryPolicy): G {
+    const definition: GoalRetryPolicy = typeof policy === "number" ? { maxAttempts: policy } : _.cloneDeep(policy);
+    if (!Number.isInteger(definition.maxAttempts) || definition.maxAttempts < 1) {
+        throw new Error(`Maximum attempts of goal '${goal.uniqueName}' must be a positive integer`);
+    }
+    if (!!definition.backoff) {
+        definition.backoff = _.omitBy({
+            ...definition.backoff,
+            initial: definition.backoff.initial !== undefined ? parseDuration(definition.backoff.initial) : undefined,
+            max: definition.backoff.max !== undefined ? parseDuration(definition.backoff.max) : undefined,
+        }, _.isUndefined);
+    }
+    for (const phase of definition.phases || []) {
+        try {
+            // tslint:disable-next-line:no-unused-expression
+            new RegExp(phase);
+        } catch (e) {
+            throw new Error(`Invalid retry phase '${phase}' of goal '${goal.uniqueName}': ${e.message}`);
+        }
+    }
+    return withGoalParameter(goal, GoalRetryParameterKey, definition, { retryFeasible: true });
+}
+
+/**
+ * Read the retry policy from the parameters of the goal event.
+ *
+ * @return Retry policy, undefined if the goal has none
+ */
+export function goalRetryPolicy(goal: { parameters?: string }): GoalRetryPolicy | undefined {
+    return goalParameter<GoalRetryPolicy>(goal, GoalRetryParameterKey);
+}
+
+/**
+ * Read the retry state from the data of the goal event.  Goals that
+ * were never retried are on their first attempt.
+ */
+export function goalRetryState(goal: { data?: string }): GoalRetryState {
+    return { attempt: 1, ...(goalData(goal)[GoalRetryDataKey] || {}) };
+}
+
+/**
+ * Return the milliseconds to wait after the provided, failed attempt
+ * before the goal is retried.
+ */
+export function retryDelay(policy: GoalRetryPolicy, attempt: number): number {
+    const initial = parseDuration(policy.backoff?.initial ?? 30 * 1000);
+    const multiplier = policy.backoff?.multiplier ?? 2;
+    const max = parseDuration(policy.backoff?.max ?? 60 * 60 * 1000);
+    return Math.min(max, initial * Math.pow(multiplier, attempt - 1));
+}
+
+/**
+ * Determine if the failure of the goal is retryable according to
+ * the phases and exit codes of the policy.
+ */
+export function isRetryableFailure(policy: GoalRetryPolicy, goal: { phase?: string, data?: string }): boolean {
+    const phases = policy.phases || [];
+    const exitCodes = policy.exitCodes || [];
+    if (phases.length === 0 && exitCodes.length === 0) {
+        return true;
+    }
+    if (!!goal.phase && phases.some(p => new RegExp(p).test(goal.phase))) {
+        return true;
+    }
+    const exitCode = goalData(goal)[GoalExitCodeDataKey];
+    return exitCode !== undefined && exitCodes.includes(exitCode);
+}
+
+/**
+ * Merge the retry state into the goal data.
+ */
+export function withRetryState(data: string | undefined, state: GoalRetryState): string {
+    return withGoalData(data, GoalRetryDataKey, state);
+}
+
+/**
+ * Merge the exit code of a failed goal into the goal data so that
+ * retry policies can match it.
+ */
+export function withExitCode(data: string | undefined, exitCode: number): string {
+    return withGoalData(data, GoalExitCodeDataKey, exitCode);
+}
@@ -0,0 +1,70 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Goal } from "@atomist/sdm/lib/api/goal/Goal";
+import {
+    goalParameter,
+    withGoalParameter,
+} from "../../pack/goal-state/goalParameters";
+import { SdmGoalState } from "../../typings/types";
+import { parseDuration } from "../../util/misc/time";
+
+export const GoalTimeoutParameterKey = "@atomist/sdm/timeout";
+
+/**
+ * Timeout of a single goal, overriding the timeout of in-process
+ * goals configured for the SDM
+ */
+export interface GoalTimeout {
+    /** Milliseconds or duration like `5m` or `2h` the goal can be in process */
+    duration: number | string;
+    /** State to set the goal to when it times out; defaults to the SDM's timeout state */
+    state?: SdmGoalState.canceled | SdmGoalState.failure;
+    /** Allow to retry the goal after it timed out */
+    retryFeasible?: boolean;
+}
+
+/**
+ * Set the timeout of the goal.  The timeout is stored with the goal
+ * parameters and respected by the goal cancellation of the goal
+ * state support.
+ *
+ * @param goal Goal to set the timeout on
+ * @param timeout Milliseconds, duration like `5m`, or full timeout definition
+ * @return The provided goal
+ */
+export function withTimeout<G extends Goal>(goal: G, timeout: number | string | GoalTimeout): G {
+    const definition: GoalTimeout = typeof timeout === "object" ? { ...timeout } : { duration: timeout };
+    definition.duration = parseDuration(definition.duration);
+    if (!!definition.state && ![SdmGoalState.canceled, SdmGoalState.failure].includes(definition.state)) {
+        throw new Error(`Timeout state of goal '${goal.uniqueName}' must be 'canceled' or 'failure'`);
+    }
+    return withGoalParameter(goal, GoalTimeoutParameterKey, definition);
+}
+
+/**
+ * Read the timeout from the parameters of the goal event.
+ *
+ * @return Timeout with duration in milliseconds, undefined if the goal has no timeout
+ */
+export function goalTimeout(goal: { parameters?: string }): GoalTimeout & { duration: number } | undefined {
+    const timeout = goalParameter<GoalTimeout>(goal, GoalTimeoutParameterKey);
+    try {
+        return !!timeout ? { ...timeout, duration: parseDuration(timeout.duration) } : undefined;
+    } catch (e) {
+        return undefined;
+    }
+}
@@ -37,6 +37,7 @@ import {
 import { toArray } from "../../util/misc/array";
 import {
     CacheEntry,
+    CacheKey,
     cachePut,
     cacheRestore,
 } from "../cache/goalCaching";
@@ -95,6 +96,57 @@ export interface ContainerVolumeMount {
     name: string;
 }
 
+/**
+ * Check whether a sidecar container is ready to serve the main
+ * container.  Exactly one of `tcpSocket`, `httpGet` and `exec`
+ * should be provided.  The properties are a subset of the
+ * Kubernetes container probe, so the probe has the same meaning for
+ * the Docker and Kubernetes implementations of container goals.
+ */
+export interface ContainerReadinessProbe {
+    /** Ready once a TCP connection to the port can be opened. */
+    tcpSocket?: {
+        port: number;
+    };
+    /** Ready once an HTTP GET of the path returns a 2xx or 3xx status. */
+    httpGet?: {
+        /** Defaults to "/". */
+        path?: string;
+        port: number;
+    };
+    /** Ready once the command run in the container exits with status 0. */
+    exec?: {
+        command: string[];
+    };
+    /** Seconds between checks, defaults to 1. */
+    periodSeconds?: number;
+    /** Seconds after which a single check fails, defaults to 1. */
+    timeoutSeconds?: number;
+    /**
+     * Number of failed checks after which the container is
+     * considered to never become ready, defaults to 60.
+     */
+    failureThreshold?: number;
+}
+
+/**
+ * Compute resources of a container.  The values are used as both
+ * request and limit by the Kubernetes implementation of container
+ * goals.
+ */
+export interface ContainerResources {
+    /**
+     * Number of CPUs, e.g., `1.5`, or Kubernetes CPU quantity,
+     * e.g., `"500m"`.
+     */
+    cpu?: number | string;
+    /**
+     * Number of bytes or Kubernetes memory quantity, e.g.,
+     * `"512Mi"` or `"2G"`.
+     */
+    memory?: number | string;
+}
+
 export interface ContainerSecrets {
     env?: Array<{ name: string } & GoalContainerSecret>;
     fileMounts?: Array<{ mountPath: string } & GoalContainerSecret>;
@@ -134,6 +186,24 @@ export interface GoalContainer {
      * Provider secrets that should be made available to the container
      */
     secrets?: ContainerSecrets;
+    /**
+     * Check that must succeed before the main container is started.
+     * Only used for sidecar containers, i.e., not the first
+     * container of the goal.
+     */
+    readinessProbe?: ContainerReadinessProbe;
+    /**
+     * CPU and memory available to the container.
+     */
+    resources?: ContainerResources;
+    /**
+     * Maximum duration the container may run, as milliseconds or
+     * duration string like `"10m"`.  A container exceeding its
+     * timeout is killed and the goal fails.  The Kubernetes
+     * implementation of container goals only enforces the timeout
+     * of the main container.
+     */
+    timeout?: number | string;
 }
 
 export interface GoalContainerProviderSecret {
@@ -225,7 +295,7 @@ export interface ContainerRegistration extends Partial<ImplementationRegistratio
      * execution.  The values must correspond to output classifiers
      * from previously executed container goals in the same goal set.
      */
-    input?: Array<{ classifier: string }>;
+    input?: Array<{ classifier: string } & CacheKey>;
     /**
      * File path globs to store in cache after goal execution.
      * They values should be glob paths relative to the root of
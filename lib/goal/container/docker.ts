@@ -18,34 +18,55 @@ import { guid } from "@atomist/automation-client/lib/internal/util/string";
 import { logger } from "@atomist/automation-client/lib/util/logger";
 import { minimalClone } from "@atomist/sdm/lib/api-helper/goal/minimalClone";
 import {
+    execPromise,
     spawnLog,
     SpawnLogOptions,
     SpawnLogResult,
 } from "@atomist/sdm/lib/api-helper/misc/child_process";
 import { ExecuteGoal } from "@atomist/sdm/lib/api/goal/GoalInvocation";
 import { ImplementationRegistration } from "@atomist/sdm/lib/api/goal/GoalWithFulfillment";
+import { ProgressLog } from "@atomist/sdm/lib/spi/log/ProgressLog";
 import * as fs from "fs-extra";
 import * as stringify from "json-stringify-safe";
 import * as _ from "lodash";
 import * as os from "os";
 import * as path from "path";
+import { formatDuration } from "../../util/misc/time";
+import { withExitCode } from "../common/retry";
 import {
     Container,
     ContainerInput,
     ContainerOutput,
     ContainerProjectHome,
+    ContainerReadinessProbe,
     ContainerRegistration,
     ContainerScheduler,
     GoalContainer,
     GoalContainerSpec,
 } from "./container";
 import { prepareSecrets } from "./provider";
+import {
+    httpReadinessCheck,
+    ReadinessCheck,
+    readinessProbePort,
+    tcpReadinessCheck,
+    waitForReadiness,
+} from "./readiness";
+import {
+    containerTimeout,
+    ContainerTimeoutPhase,
+    cpuCount,
+    memoryBytes,
+} from "./resources";
 import {
     containerEnvVars,
+    containerGoalName,
     prepareInputAndOutput,
     processResult,
 } from "./util";
 
+// tslint:disable:max-file-line-count
+
 /**
  * Extension to GoalContainer to specify additional docker options
  */
@@ -90,18 +111,24 @@ export const dockerContainerScheduler: ContainerScheduler = (goal, registration:
 interface SpawnedContainer {
     name: string;
     promise: Promise<SpawnLogResult>;
+    /** Timer killing the container when it exceeds its timeout */
+    timer?: NodeJS.Timeout;
+    /** Set when the container was killed because of its timeout */
+    timedOut?: string;
 }
 
 /**
- * Execute container goal using Docker CLI.  Wait on completion of
- * first container, then kill all the rest.
+ * Execute container goal using Docker CLI.  Start the sidecar
+ * containers and wait until those with a readiness probe are ready,
+ * then start the first container.  Wait on completion of first
+ * container, then kill all the rest.
  */
 export function executeDockerJob(goal: Container, registration: DockerContainerRegistration): ExecuteGoal {
     // tslint:disable-next-line:cyclomatic-complexity
     return async gi => {
 
         const { goalEvent, progressLog, configuration } = gi;
-        const goalName = goalEvent.uniqueName.split("#")[0].toLowerCase();
+        const goalName = containerGoalName(goalEvent);
         const namePrefix = "sdm-";
         const nameSuffix = `-${goalEvent.goalSetId.slice(0, 7)}-${goalName}`;
 
@@ -174,7 +201,17 @@ export function executeDockerJob(goal: Container, registration: DockerContainerR
 
                 const spawnedContainers: SpawnedContainer[] = [];
                 const failures: string[] = [];
-                for (const container of spec.containers) {
+                const mainContainer = spec.containers[0];
+                const sidecarContainers = spec.containers.slice(1);
+                for (const container of [...sidecarContainers, mainContainer]) {
+                    if (container === mainContainer) {
+                        try {
+                            await dockerSidecarsReady(sidecarContainers, namePrefix, nameSuffix, progressLog);
+                        } catch (e) {
+                            failures.push(e.message);
+                            break;
+                        }
+                    }
                     let secrets = {
                         env: [],
                         files: [],
@@ -195,8 +232,10 @@ export function executeDockerJob(goal: Container, registration: DockerContainerR
                     }
                     const containerName = `${namePrefix}${container.name}${nameSuffix}`;
                     let containerArgs: string[];
+                    let timeout: number | undefined;
                     try {
                         containerArgs = containerDockerOptions(container, registration);
+                        timeout = containerTimeout(container);
                     } catch (e) {
                         progressLog.write(e.message);
                         failures.push(e.message);
@@ -221,11 +260,22 @@ export function executeDockerJob(goal: Container, registration: DockerContainerR
                         container.image,
                         ...(container.args || []),
                     ];
-                    if (spawnedContainers.length < 1) {
+                    if (container === mainContainer) {
                         dockerArgs.splice(5, 0, `--workdir=${ContainerProjectHome}`);
                     }
-                    const promise = spawnLog("docker", dockerArgs, spawnOpts);
-                    spawnedContainers.push({ name: containerName, promise });
+                    const promise = spawnLog("docker", dockerArgs, !!timeout ? { ...spawnOpts, timeout: timeout + 60000 } : spawnOpts);
+                    const spawned: SpawnedContainer = { name: containerName, promise };
+                    if (!!timeout) {
+                        spawned.timer = setTimeout(() => {
+                            spawned.timedOut = `Docker container '${containerName}' exceeded timeout of ${formatDuration(timeout)}`;
+                            progressLog.write(spawned.timedOut);
+                            // tslint:disable-next-line:no-floating-promises
+                            dockerKill([spawned], spawnOpts);
+                        }, timeout);
+                        const clear = () => clearTimeout(spawned.timer);
+                        promise.then(clear, clear);
+                    }
+                    spawnedContainers.push(spawned);
                 }
                 if (failures.length > 0) {
                     try {
@@ -243,10 +293,14 @@ export function executeDockerJob(goal: Container, registration: DockerContainerR
                     };
                 }
 
-                const main = spawnedContainers[0];
+                const main = spawnedContainers[spawnedContainers.length - 1];
+                let exitCode: number;
                 try {
                     const result = await main.promise;
-                    if (result.code) {
+                    if (main.timedOut) {
+                        failures.push(main.timedOut);
+                    } else if (result.code) {
+                        exitCode = result.code;
                         const msg = `Docker container '${main.name}' failed` + ((result.error) ? `: ${result.error.message}` : "");
                         progressLog.write(msg);
                         failures.push(msg);
@@ -269,7 +323,8 @@ export function executeDockerJob(goal: Container, registration: DockerContainerR
                     }
                 }
 
-                const sidecars = spawnedContainers.slice(1);
+                const sidecars = spawnedContainers.slice(0, -1);
+                failures.push(...sidecars.filter(c => !!c.timedOut).map(c => c.timedOut));
                 try {
                     await dockerCleanup({
                         network,
@@ -286,6 +341,8 @@ export function executeDockerJob(goal: Container, registration: DockerContainerR
                     return {
                         code: failures.length,
                         message: (failures.length > 0) ? failures.join("; ") : "Successfully completed container job",
+                        data: exitCode !== undefined ? withExitCode(goalEvent.data, exitCode) : undefined,
+                        ...(spawnedContainers.some(c => !!c.timedOut) ? { phase: ContainerTimeoutPhase } : {}),
                     };
                 }
             });
@@ -297,7 +354,7 @@ export function executeDockerJob(goal: Container, registration: DockerContainerR
  *
  * @param container Goal container spec
  * @param registration Container goal registration object
- * @return Docker command-line entrypoint, env, p, and volume options
+ * @return Docker command-line entrypoint, env, p, volume, cpus and memory options
  */
 export function containerDockerOptions(container: GoalContainer, registration: ContainerRegistration): string[] {
     const entryPoint: string[] = [];
@@ -313,6 +370,17 @@ export function containerDockerOptions(container: GoalContainer, registration: C
     }
     const envs = (container.env || []).map(env => `--env=${env.name}=${env.value}`);
     const ports = (container.ports || []).map(port => `-p=${port.containerPort}`);
+    const probePort = readinessProbePort(container.readinessProbe);
+    if (!!probePort && !(container.ports || []).some(port => port.containerPort === probePort)) {
+        ports.push(`-p=${probePort}`);
+    }
+    const resources: string[] = [];
+    if (container.resources?.cpu !== undefined) {
+        resources.push(`--cpus=${cpuCount(container.resources.cpu)}`);
+    }
+    if (container.resources?.memory !== undefined) {
+        resources.push(`--memory=${memoryBytes(container.resources.memory)}`);
+    }
     const volumes: string[] = [];
     for (const vm of (container.volumeMounts || [])) {
         const volume = (registration.volumes || []).find(v => v.name === vm.name);
@@ -329,9 +397,74 @@ export function containerDockerOptions(container: GoalContainer, registration: C
         ...envs,
         ...ports,
         ...volumes,
+        ...resources,
     ];
 }
 
+/**
+ * Wait for all sidecar containers that have a readiness probe to
+ * become ready.
+ *
+ * @param sidecars Sidecar goal containers
+ * @param namePrefix Prefix of Docker container names
+ * @param nameSuffix Suffix of Docker container names
+ * @param log Progress log to report readiness to
+ */
+async function dockerSidecarsReady(sidecars: GoalContainer[],
+                                   namePrefix: string,
+                                   nameSuffix: string,
+                                   log: ProgressLog): Promise<void> {
+    await Promise.all(sidecars.filter(c => !!c.readinessProbe).map(c => {
+        const containerName = `${namePrefix}${c.name}${nameSuffix}`;
+        return waitForReadiness(containerName, c.readinessProbe, dockerReadinessCheck(containerName, c.readinessProbe), log);
+    }));
+}
+
+/**
+ * Create check implementing the readiness probe for a Docker
+ * container.  TCP and HTTP probes connect to the host port the probe
+ * port is published on, exec probes run the command using `docker
+ * exec`.
+ *
+ * @param containerName Name of Docker container
+ * @param probe Readiness probe of container
+ * @return Readiness check
+ */
+export function dockerReadinessCheck(containerName: string, probe: ContainerReadinessProbe): ReadinessCheck {
+    if (!!probe.exec) {
+        return async timeout => {
+            await execPromise("docker", ["exec", containerName, ...probe.exec.command], { timeout });
+            return true;
+        };
+    }
+    return async timeout => {
+        const port = readinessProbePort(probe);
+        const result = await execPromise("docker", ["port", containerName, `${port}/tcp`], { timeout });
+        const address = dockerHostAddress(result.stdout);
+        if (!address) {
+            return false;
+        }
+        const check = !!probe.httpGet
+            ? httpReadinessCheck(address.host, address.port, probe.httpGet.path)
+            : tcpReadinessCheck(address.host, address.port);
+        return check(timeout);
+    };
+}
+
+/**
+ * Parse the first host address of `docker port` output, mapping
+ * wildcard addresses to the loopback address.
+ */
+export function dockerHostAddress(output: string): { host: string, port: number } | undefined {
+    const line = (output || "").split("\n").map(l => l.trim()).find(l => !!l);
+    const match = /^(.*):(\d+)$/.exec(line || "");
+    if (!match) {
+        return undefined;
+    }
+    const host = ["0.0.0.0", "::", "[::]"].includes(match[1]) ? "127.0.0.1" : match[1].replace(/^\[(.*)\]$/, "$1");
+    return { host, port: +match[2] };
+}
+
 /**
  * Use a temporary under the home directory so Docker can use it as a
  * volume mount.
@@ -367,6 +500,7 @@ interface CleanupOptions {
  */
 async function dockerCleanup(opts: CleanupOptions): Promise<void> {
     if (opts.containers) {
+        opts.containers.forEach(c => clearTimeout(c.timer));
         await dockerKill(opts.containers, opts.spawnOpts);
     }
     if (opts.network) {
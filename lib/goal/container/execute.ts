@@ -26,6 +26,7 @@ import * as _ from "lodash";
 import * as os from "os";
 import * as path from "path";
 import { resolvePlaceholder } from "../../machine/yaml/resolvePlaceholder";
+import { withExitCode } from "../common/retry";
 import {
     ContainerProgressReporter,
     ContainerSecrets,
@@ -33,6 +34,7 @@ import {
 import { prepareSecrets } from "./provider";
 import {
     containerEnvVars,
+    containerGoalName,
     prepareInputAndOutput,
     processResult,
 } from "./util";
@@ -72,7 +74,7 @@ export function execute(name: string,
                 }
             }
 
-            const goalName = goalEvent.uniqueName.split("#")[0].toLowerCase();
+            const goalName = containerGoalName(goalEvent);
             const namePrefix = "sdm-";
             const nameSuffix = `-${goalEvent.goalSetId.slice(0, 7)}-${goalName}`;
             const tmpDir = path.join(os.homedir(), ".atomist", "tmp", goalEvent.repo.owner, goalEvent.repo.name, goalEvent.goalSetId);
@@ -95,6 +97,7 @@ export function execute(name: string,
                 } else {
                     return {
                         code: result.code,
+                        data: withExitCode(goalEvent.data, result.code),
                     };
                 }
             // TODO catch
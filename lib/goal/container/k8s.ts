@@ -47,6 +47,7 @@ import {
     Merge,
 } from "ts-essentials";
 import { loadKubeConfig } from "../../pack/k8s/kubernetes/config";
+import { patchHeaders } from "../../pack/k8s/kubernetes/patch";
 import {
     k8sJobEnv,
     KubernetesGoalScheduler,
@@ -58,24 +59,35 @@ import {
 } from "../../pack/k8s/scheduler/service";
 import { SdmGoalState } from "../../typings/types";
 import { toArray } from "../../util/misc/array";
+import { formatDuration } from "../../util/misc/time";
 import {
     CacheEntry,
     CacheOutputGoalDataKey,
     cachePut,
     cacheRestore,
 } from "../cache/goalCaching";
+import { withExitCode } from "../common/retry";
 import {
     Container,
     ContainerInput,
     ContainerOutput,
     ContainerProjectHome,
+    ContainerReadinessProbe,
     ContainerRegistration,
     ContainerRegistrationGoalDataKey,
+    ContainerResources,
     ContainerScheduler,
     GoalContainer,
     GoalContainerVolume,
 } from "./container";
 import { prepareSecrets } from "./provider";
+import {
+    containerTimeout,
+    ContainerTimeoutPhase,
+    cpuCount,
+    isContainerResources,
+    memoryBytes,
+} from "./resources";
 import {
     containerEnvVars,
     prepareInputAndOutput,
@@ -84,10 +96,16 @@ import {
 
 // tslint:disable:max-file-line-count
 
-/** Merge of base and Kubernetes goal container interfaces. */
+/**
+ * Merge of base and Kubernetes goal container interfaces.  The
+ * readiness probe is always a [[ContainerReadinessProbe]], see
+ * [[k8sReadinessSidecar]].  The resources can either be
+ * [[ContainerResources]] or Kubernetes resource requirements.
+ */
 export type K8sGoalContainer =
-    Merge<GoalContainer, DeepPartial<k8s.V1Container>>
-    & Pick<GoalContainer, "name" | "image">;
+    Merge<Omit<GoalContainer, "resources">, DeepPartial<Omit<k8s.V1Container, "readinessProbe" | "resources">>>
+    & Pick<GoalContainer, "name" | "image">
+    & { resources?: ContainerResources | DeepPartial<k8s.V1ResourceRequirements> };
 /** Merge of base and Kubernetes goal container volume interfaces. */
 export type K8sGoalContainerVolume = Merge<k8s.V1Volume, GoalContainerVolume>;
 
@@ -200,6 +218,12 @@ export function k8sFulfillmentCallback(
         } else if (!spec.containers[0].workingDir) {
             spec.containers[0].workingDir = ContainerProjectHome;
         }
+        spec.containers.forEach(c => {
+            if (isContainerResources(c.resources)) {
+                c.resources = k8sResources(c.resources);
+            }
+            delete c.timeout;
+        });
 
         const goalSchedulers: GoalScheduler[] = toArray(repoContext.configuration.sdm.goalScheduler) || [];
         const k8sScheduler = goalSchedulers.find(gs => gs instanceof KubernetesGoalScheduler) as KubernetesGoalScheduler;
@@ -319,9 +343,12 @@ export function k8sFulfillmentCallback(
                 });
             }
         }
+        const readinessSidecars = spec.containers.slice(1).filter(c => !!c.readinessProbe);
+        spec.containers = spec.containers.filter(c => !readinessSidecars.includes(c));
         spec.initContainers = [
             copyContainer,
             ...spec.initContainers,
+            ...readinessSidecars.map(k8sReadinessSidecar),
         ];
 
         const serviceSpec: { type: string, spec: K8sServiceSpec } = {
@@ -403,6 +430,77 @@ interface K8sContainer {
     log: ProgressLog;
 }
 
+/**
+ * Kubernetes sidecar container, i.e., an init container with a
+ * container restart policy and a startup probe.  The Kubernetes
+ * client models predate both properties and its object serializer
+ * drops them, so jobs with sidecar containers must be created
+ * without it, see [[createK8sJob]].
+ */
+export type K8sSidecarContainer = k8s.V1Container & { restartPolicy: "Always", startupProbe: k8s.V1Probe };
+
+/**
+ * Convert sidecar container with a readiness probe into a Kubernetes
+ * sidecar container, i.e., an init container that keeps running.
+ * Kubernetes only starts the following containers, including the
+ * main container, once the startup probe of the sidecar succeeds.
+ * The cluster must support sidecar containers, i.e., be at least
+ * Kubernetes 1.29, which the [[KubernetesGoalScheduler]] checks
+ * before scheduling the goal.
+ *
+ * @param container Sidecar container with readiness probe
+ * @return Kubernetes init container spec
+ */
+export function k8sReadinessSidecar(container: K8sGoalContainer): K8sSidecarContainer {
+    const probe = k8sReadinessProbe(container.readinessProbe);
+    return {
+        ...container as k8s.V1Container,
+        restartPolicy: "Always",
+        startupProbe: probe,
+        readinessProbe: probe,
+    };
+}
+
+/**
+ * Create Kubernetes resource requirements from container resources,
+ * using the resources as both requests and limits.
+ */
+export function k8sResources(resources: ContainerResources): k8s.V1ResourceRequirements {
+    const quantities: Record<string, string> = {};
+    if (resources.cpu !== undefined) {
+        cpuCount(resources.cpu);
+        quantities.cpu = `${resources.cpu}`;
+    }
+    if (resources.memory !== undefined) {
+        memoryBytes(resources.memory);
+        quantities.memory = `${resources.memory}`;
+    }
+    return {
+        requests: { ...quantities },
+        limits: { ...quantities },
+    };
+}
+
+/**
+ * Create Kubernetes probe from container readiness probe, making the
+ * defaults of the container readiness probe explicit.
+ */
+export function k8sReadinessProbe(probe: ContainerReadinessProbe): k8s.V1Probe {
+    const k8sProbe: k8s.V1Probe = {
+        periodSeconds: probe.periodSeconds || 1,
+        timeoutSeconds: probe.timeoutSeconds || 1,
+        failureThreshold: probe.failureThreshold || 60,
+    };
+    if (!!probe.exec) {
+        k8sProbe.exec = { command: probe.exec.command };
+    } else if (!!probe.httpGet) {
+        k8sProbe.httpGet = { path: probe.httpGet.path || "/", port: probe.httpGet.port as any };
+    } else if (!!probe.tcpSocket) {
+        k8sProbe.tcpSocket = { port: probe.tcpSocket.port as any };
+    }
+    return k8sProbe;
+}
+
 /**
  * Wait for first container to exit and stream its logs to the
  * progress log.
@@ -472,6 +570,13 @@ export function executeK8sJob(): ExecuteGoal {
                 return { code: 1, message };
             }
         }
+        let timeout: number;
+        try {
+            timeout = containerTimeout(registration.containers[0]) || configuration.sdm?.goal?.timeout || 10 * 60 * 1000;
+        } catch (e) {
+            progressLog.write(e.message);
+            return { code: 1, message: e.message };
+        }
         const ns = await readNamespace();
         const podName = os.hostname();
 
@@ -500,16 +605,23 @@ export function executeK8sJob(): ExecuteGoal {
             return { code: 1, message };
         }
 
-        const status = { code: 0, message: `Container '${containerName}' completed successfully` };
+        const status: ExecuteGoalResult = { code: 0, message: `Container '${containerName}' completed successfully` };
         try {
-            const timeout: number = configuration.sdm?.goal?.timeout || 10 * 60 * 1000;
             const podStatus = await containerWatch(container, timeout);
             progressLog.write(`Container '${containerName}' exited: ${stringify(podStatus)}`);
         } catch (e) {
-            const message = `Container '${containerName}' failed: ${e.message}`;
+            const message = e.timedOut
+                ? `Container '${containerName}' exceeded timeout of ${formatDuration(timeout)}`
+                : `Container '${containerName}' failed: ${e.message}`;
             progressLog.write(message);
             status.code++;
             status.message = message;
+            if (e.timedOut) {
+                status.phase = ContainerTimeoutPhase;
+            }
+            if (e.exitCode !== undefined) {
+                status.data = withExitCode(goalEvent.data, e.exitCode);
+            }
         }
 
         const outputFile = path.join(outputDir, "result.json");
@@ -540,6 +652,7 @@ export function executeK8sJob(): ExecuteGoal {
                             return {
                                 classifier: e.classifier,
                                 pattern: e.pattern,
+                                key: e.key,
                             };
                         } else {
                             return e;
@@ -555,6 +668,10 @@ export function executeK8sJob(): ExecuteGoal {
             }
         }
 
+        if (status.phase === ContainerTimeoutPhase) {
+            await containerKill(container);
+        }
+
         return outputResult || status;
     };
 }
@@ -669,6 +786,29 @@ async function containerStarted(container: K8sContainer, attempts: number = 240)
     throw new Error(errMsg);
 }
 
+/**
+ * Kill the pod of the container once the goal result had time to be
+ * reported.  Kubernetes cannot kill a single container of a pod, so
+ * the active deadline of the pod is set, which terminates all its
+ * containers.  Errors are logged and ignored.
+ *
+ * @param container Information about container to kill
+ * @param grace Milliseconds before the pod is terminated
+ */
+async function containerKill(container: K8sContainer, grace: number = 60000): Promise<void> {
+    try {
+        const core = container.config.makeApiClient(k8s.CoreV1Api);
+        const pod = (await core.readNamespacedPod(container.pod, container.ns)).body;
+        const startTime = !!pod.status?.startTime ? new Date(pod.status.startTime).getTime() : Date.now();
+        const activeDeadlineSeconds = Math.ceil((Date.now() - startTime + grace) / 1000);
+        await core.patchNamespacedPod(container.pod, container.ns, { spec: { activeDeadlineSeconds } },
+            undefined, undefined, undefined, undefined, patchHeaders());
+        container.log.write(`Pod ${container.ns}/${container.pod} will be terminated in ${formatDuration(grace)}`);
+    } catch (e) {
+        container.log.write(`Failed to set deadline of pod ${container.ns}/${container.pod}: ${k8sErrMsg(e)}`);
+    }
+}
+
 /** Items used to in watching main container and its logs. */
 interface ContainerDetritus {
     logStream?: Writable;
@@ -733,7 +873,9 @@ function containerWatch(container: K8sContainer, timeout: number): Promise<k8s.V
         }
         clean.timeout = setTimeout(() => {
             containerCleanup(clean);
-            reject(new Error(`Goal timeout '${timeout}' exceeded`));
+            const e: any = new Error(`Goal timeout '${timeout}' exceeded`);
+            e.timedOut = true;
+            reject(e);
         }, timeout);
         const watchPath = `/api/v1/watch/namespaces/${container.ns}/pods/${container.pod}`;
         clean.watcher = await watch.watch(watchPath, {}, async (phase, obj) => {
@@ -755,6 +897,7 @@ function containerWatch(container: K8sContainer, timeout: number): Promise<k8s.V
                         container.log.write(msg);
                         podError = new Error(msg);
                         (podError as any).podStatus = pod.status;
+                        (podError as any).exitCode = exitCode;
                         if (logDone) {
                             containerCleanup(clean);
                             reject(podError);
@@ -0,0 +1,321 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { HandlerContext } from "@atomist/automation-client/lib/HandlerContext";
+import { logger } from "@atomist/automation-client/lib/util/logger";
+import { fetchGoalsForCommit } from "@atomist/sdm/lib/api-helper/goal/fetchGoalsOnCommit";
+import { updateGoal } from "@atomist/sdm/lib/api-helper/goal/storeGoals";
+import { ExecuteGoalResult } from "@atomist/sdm/lib/api/goal/ExecuteGoalResult";
+import { DefaultGoalNameGenerator } from "@atomist/sdm/lib/api/goal/GoalNameGenerator";
+import { Goals } from "@atomist/sdm/lib/api/goal/Goals";
+import {
+    FulfillableGoal,
+    PlannedGoals,
+} from "@atomist/sdm/lib/api/goal/GoalWithFulfillment";
+import { SdmGoalEvent } from "@atomist/sdm/lib/api/goal/SdmGoalEvent";
+import { GoalCompletionListener } from "@atomist/sdm/lib/api/listener/GoalCompletionListener";
+import { SoftwareDeliveryMachine } from "@atomist/sdm/lib/api/machine/SoftwareDeliveryMachine";
+import * as _ from "lodash";
+import {
+    goalDefinitionParameters,
+    goalParameter,
+    withGoalData,
+} from "../../pack/goal-state/goalParameters";
+import { SdmGoalState } from "../../typings/types";
+import { toArray } from "../../util/misc/array";
+import { Container } from "./container";
+
+/**
+ * Matrix of values a container goal is run with.  Every combination
+ * of the values of all dimensions becomes a cell of the matrix, which
+ * is planned as its own goal.  The values of a cell are available to
+ * the containers as `${matrix.<dimension>}` placeholders.
+ */
+export type ContainerMatrix = Record<string, string | number | boolean | Array<string | number | boolean>>;
+
+/** Values of a single matrix cell keyed by dimension */
+export type MatrixCell = Record<string, string>;
+
+export interface MatrixOptions {
+    /** Dimensions of the matrix and their values */
+    matrix: ContainerMatrix;
+    /**
+     * Cancel the remaining cells and fail the matrix as soon as one
+     * cell fails.  Defaults to `true`.
+     */
+    failFast?: boolean;
+    /**
+     * Maximum number of cells running at the same time.  Defaults to
+     * running all cells at the same time.
+     */
+    maxParallel?: number;
+}
+
+/** Matrix information stored in the parameters of cell goals */
+export interface MatrixCellParameters {
+    /** Position of the cell in the matrix */
+    index: number;
+    failFast: boolean;
+}
+
+/** Status of a cell as recorded in the data of the matrix goal */
+export interface MatrixCellStatus {
+    name: string;
+    state: SdmGoalState;
+    url?: string;
+}
+
+/** Key of the [[MatrixCellParameters]] in the parameters of cell goals */
+export const MatrixParameterKey = "@atomist/sdm/matrix";
+
+/** Key of the cell status in the data of the matrix goal */
+export const MatrixDataKey = "@atomist/sdm/matrix";
+
+/**
+ * Expand the matrix into all combinations of its values.  Values are
+ * converted to strings so that they can be used as placeholders.
+ */
+export function matrixCells(dimensions: ContainerMatrix): MatrixCell[] {
+    if (!dimensions || Object.keys(dimensions).length < 1) {
+        throw new Error("Matrix has no dimensions");
+    }
+    return _.reduce(dimensions, (cells, values, dimension) => {
+        const vs = toArray(values);
+        if (vs.length < 1) {
+            throw new Error(`Matrix dimension '${dimension}' has no values`);
+        }
+        return _.flatMap(cells, c => vs.map(v => ({ ...c, [dimension]: `${v}` })));
+    }, [{}] as MatrixCell[]);
+}
+
+/** Display name of the goal of a matrix cell */
+export function matrixCellName(name: string, cell: MatrixCell): string {
+    return `${name} (${_.values(cell).join(", ")})`;
+}
+
+/**
+ * Plan one goal per matrix cell.  Without `maxParallel` all cells run
+ * concurrently, otherwise cells are distributed over `maxParallel`
+ * lanes whose cells run one after the other.
+ * @param name display name of the matrix goal
+ * @param options matrix and its options
+ * @param parameters parameters of the matrix goal to keep on all cells
+ */
+export function matrixPlan(name: string, options: MatrixOptions, parameters: Record<string, any> = {}): PlannedGoals {
+    const cells = matrixCells(options.matrix);
+    const lanes = options.maxParallel > 0 ? Math.min(options.maxParallel, cells.length) : cells.length;
+    const plan: PlannedGoals = {};
+    for (let lane = 0; lane < lanes; lane++) {
+        const goals = [];
+        for (let index = lane; index < cells.length; index += lanes) {
+            const cell: MatrixCellParameters = { index, failFast: options.failFast !== false };
+            goals.push({
+                details: {
+                    displayName: matrixCellName(name, cells[index]),
+                },
+                parameters: {
+                    ...parameters,
+                    matrix: cells[index],
+                    [MatrixParameterKey]: cell,
+                },
+            });
+        }
+        plan[`matrix_${lane}`] = { goals };
+    }
+    return plan;
+}
+
+/**
+ * Extract the matrix parameters from the provided goal.
+ * @return matrix parameters or `undefined` if goal is no matrix cell
+ */
+export function matrixCellParameters(goal: Pick<SdmGoalEvent, "uniqueName"> & { parameters?: string }): MatrixCellParameters | undefined {
+    if (!goal.uniqueName.includes("#sdm:")) {
+        return undefined;
+    }
+    return goalParameter<MatrixCellParameters>(goal, MatrixParameterKey);
+}
+
+/**
+ * Check if both goals are cells of the same matrix of the same goal set.
+ */
+export function isSameMatrix(cell: Pick<SdmGoalEvent, "goalSetId" | "uniqueName"> & { parameters?: string },
+                             goal: Pick<SdmGoalEvent, "goalSetId" | "uniqueName"> & { parameters?: string }): boolean {
+    return cell.goalSetId === goal.goalSetId &&
+        cell.uniqueName.split("#")[0] === goal.uniqueName.split("#")[0] &&
+        !!matrixCellParameters(cell) &&
+        !!matrixCellParameters(goal);
+}
+
+const TerminalStates = [
+    SdmGoalState.success,
+    SdmGoalState.failure,
+    SdmGoalState.stopped,
+    SdmGoalState.canceled,
+    SdmGoalState.skipped,
+];
+
+/**
+ * Aggregate the state of the matrix from the state of its cells.  The
+ * matrix is in process until all cells completed, unless it fails
+ * fast.  It succeeds if all cells succeeded and fails otherwise.
+ */
+export function matrixState(cells: Array<Pick<SdmGoalEvent, "state">>, failFast: boolean): SdmGoalState {
+    const unsuccessful = cells.some(c => TerminalStates.includes(c.state) && c.state !== SdmGoalState.success);
+    if (cells.some(c => !TerminalStates.includes(c.state))) {
+        return unsuccessful && failFast ? SdmGoalState.failure : SdmGoalState.in_process;
+    }
+    return unsuccessful ? SdmGoalState.failure : SdmGoalState.success;
+}
+
+/**
+ * Summarize the number of cells in each state, e.g.,
+ * `4 of 6 succeeded, 1 failure, 1 in process`.
+ */
+export function matrixSummary(cells: Array<Pick<SdmGoalEvent, "state">>): string {
+    const counts = _.countBy(cells, c => c.state);
+    const summary = [`${counts[SdmGoalState.success] || 0} of ${cells.length} succeeded`];
+    _.forEach(counts, (count, state) => {
+        if (state !== SdmGoalState.success) {
+            summary.push(`${count} ${state.replace(/_/g, " ")}`);
+        }
+    });
+    return summary.join(", ");
+}
+
+/**
+ * Goal aggregating the results of the cells of a matrix container
+ * goal.  It stays in process while cells are running and records the
+ * status of every cell in its data.
+ */
+export class Matrix extends FulfillableGoal {
+
+    constructor(public readonly container: Container,
+                public readonly options: MatrixOptions) {
+        super({
+            uniqueName: `${container.uniqueName}-matrix`,
+            displayName: container.name,
+        });
+
+        this.addFulfillment({
+            name: DefaultGoalNameGenerator.generateName(`matrix-${container.name}`),
+            goalExecutor: async gi => {
+                const goals = await fetchGoalsForCommit(gi.context, gi.id, gi.goalEvent.repo.providerId, gi.goalEvent.goalSetId);
+                return this.aggregate(gi.goalEvent, goals, gi.context);
+            },
+        });
+    }
+
+    public register(sdm: SoftwareDeliveryMachine): void {
+        super.register(sdm);
+        sdm.addGoalCompletionListener(matrixCompletionListener(this, sdm));
+    }
+
+    /**
+     * Cell goals of this matrix in the provided goals ordered by their
+     * position in the matrix
+     */
+    public cells(goalSetId: string, goals: SdmGoalEvent[]): SdmGoalEvent[] {
+        return _.sortBy(
+            goals.filter(g => g.goalSetId === goalSetId &&
+                g.uniqueName.startsWith(`${this.container.uniqueName}#sdm:`) &&
+                !!matrixCellParameters(g)),
+            g => matrixCellParameters(g).index);
+    }
+
+    /**
+     * Determine the result of the matrix goal from the state of its
+     * cells, canceling the remaining cells if the matrix fails fast.
+     */
+    public async aggregate(goal: SdmGoalEvent, goals: SdmGoalEvent[], ctx: HandlerContext): Promise<ExecuteGoalResult> {
+        const failFast = this.options.failFast !== false;
+        const cells = this.cells(goal.goalSetId, goals);
+        const state = matrixState(cells, failFast);
+        if (state === SdmGoalState.failure && failFast) {
+            const remaining = cells.filter(c => !TerminalStates.includes(c.state));
+            await Promise.all(remaining.map(c => updateGoal(ctx, c, {
+                state: SdmGoalState.canceled,
+                description: `Canceled: ${c.name} because matrix ${goal.name} failed`,
+            })));
+            remaining.forEach(c => c.state = SdmGoalState.canceled);
+        }
+        const status: MatrixCellStatus[] = cells.map(c => ({ name: c.name, state: c.state, url: c.url }));
+        return {
+            state,
+            code: state === SdmGoalState.failure ? 1 : 0,
+            description: `${goal.name}: ${matrixSummary(cells)}`,
+            data: withGoalData(goal.data, MatrixDataKey, status),
+        };
+    }
+}
+
+/**
+ * Create a matrix of the provided container goal.  The container goal
+ * is planned as one goal per matrix cell; the returned goals contain
+ * the container goal and the [[Matrix]] goal aggregating its cells.
+ */
+export function matrix(container: Container, options: MatrixOptions): Goals {
+    matrixCells(options.matrix);
+    container.plan = async () => matrixPlan(container.name, options, goalDefinitionParameters(container));
+    return new Goals(container.name, container, new Matrix(container, options));
+}
+
+/**
+ * Update the matrix goal whenever one of its cells completes.  Cells
+ * of matrices that don't fail fast are started even if the previous
+ * cell in their lane didn't succeed.
+ */
+function matrixCompletionListener(m: Matrix, sdm: SoftwareDeliveryMachine): GoalCompletionListener {
+    return async gcli => {
+        const cell = gcli.completedGoal;
+        if (!cell.uniqueName.startsWith(`${m.container.uniqueName}#sdm:`) || !matrixCellParameters(cell)) {
+            return;
+        }
+        const goals = (await fetchGoalsForCommit(gcli.context, gcli.id, cell.repo.providerId, cell.goalSetId))
+            .map(g => g.uniqueName === cell.uniqueName ? cell : g);
+
+        if (m.options.failFast === false && ![SdmGoalState.success, SdmGoalState.in_process].includes(cell.state)) {
+            const next = m.cells(cell.goalSetId, goals).filter(g => g.state === SdmGoalState.planned &&
+                (g.preConditions || []).some(pc => pc.uniqueName === cell.uniqueName));
+            for (const n of next) {
+                let g = n;
+                for (const cb of sdm.goalFulfillmentMapper.findFulfillmentCallbackForGoal(n)) {
+                    g = await cb.callback(g, gcli);
+                }
+                await updateGoal(gcli.context, g, {
+                    state: SdmGoalState.requested,
+                    description: g.descriptions?.requested || `Ready: ${g.name}`,
+                    data: g.data,
+                });
+            }
+        }
+
+        const parent = goals.find(g => g.goalSetId === cell.goalSetId && g.uniqueName === m.uniqueName);
+        if (!parent || parent.state !== SdmGoalState.in_process) {
+            return;
+        }
+        const result = await m.aggregate(parent, goals, gcli.context);
+        if (result.state === parent.state && result.description === parent.description) {
+            return;
+        }
+        logger.debug(`Updating matrix goal '${parent.uniqueName}' of goal set '${parent.goalSetId}': ${result.description}`);
+        await updateGoal(gcli.context, parent, {
+            state: result.state,
+            description: result.description,
+            data: result.data,
+        });
+    };
+}
@@ -0,0 +1,106 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { sleep } from "@atomist/automation-client/lib/internal/util/poll";
+import { ProgressLog } from "@atomist/sdm/lib/spi/log/ProgressLog";
+import * as http from "http";
+import * as net from "net";
+import { ContainerReadinessProbe } from "./container";
+
+/**
+ * Function performing a single readiness check.  It should resolve
+ * to true if the container is ready and false otherwise.
+ *
+ * @param timeout Milliseconds after which the check should fail
+ */
+export type ReadinessCheck = (timeout: number) => Promise<boolean>;
+
+/**
+ * Port the TCP or HTTP readiness probe connects to, if any.
+ */
+export function readinessProbePort(probe: ContainerReadinessProbe): number | undefined {
+    return probe?.tcpSocket?.port || probe?.httpGet?.port;
+}
+
+/**
+ * Repeatedly run the readiness check until it succeeds or the
+ * failure threshold of the probe is reached.
+ *
+ * @param name Name of container reported in log and error
+ * @param probe Readiness probe of container
+ * @param check Check implementing the probe
+ * @param log Progress log to report readiness to
+ */
+export async function waitForReadiness(name: string,
+                                       probe: ContainerReadinessProbe,
+                                       check: ReadinessCheck,
+                                       log: ProgressLog): Promise<void> {
+    const period = (probe.periodSeconds || 1) * 1000;
+    const timeout = (probe.timeoutSeconds || 1) * 1000;
+    const attempts = probe.failureThreshold || 60;
+    for (let i = 0; i < attempts; i++) {
+        let ready = false;
+        try {
+            ready = await check(timeout);
+        } catch (e) {
+            ready = false;
+        }
+        if (ready) {
+            log.write(`Container '${name}' is ready`);
+            return;
+        }
+        if (i < attempts - 1) {
+            await sleep(period);
+        }
+    }
+    const message = `Container '${name}' not ready after ${attempts} readiness checks`;
+    log.write(message);
+    throw new Error(message);
+}
+
+/**
+ * Check if a TCP connection to the host and port can be opened.
+ */
+export function tcpReadinessCheck(host: string, port: number): ReadinessCheck {
+    return timeout => new Promise<boolean>(resolve => {
+        const socket = net.connect({ host, port });
+        const done = (ready: boolean) => {
+            socket.destroy();
+            resolve(ready);
+        };
+        socket.setTimeout(timeout, () => done(false));
+        socket.once("connect", () => done(true));
+        socket.once("error", () => done(false));
+    });
+}
+
+/**
+ * Check if an HTTP GET request of the path on the host and port
+ * responds with a 2xx or 3xx status.
+ */
+export function httpReadinessCheck(host: string, port: number, path: string = "/"): ReadinessCheck {
+    return timeout => new Promise<boolean>(resolve => {
+        const req = http.get({ host, port, path, timeout }, res => {
+            res.resume();
+            resolve(res.statusCode >= 200 && res.statusCode < 400);
+        });
+        req.once("timeout", () => {
+            req.abort();
+            resolve(false);
+        });
+        req.once("error", () => resolve(false));
+    });
+}
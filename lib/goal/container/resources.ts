@@ -0,0 +1,94 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { parseDuration } from "../../util/misc/time";
+import {
+    ContainerResources,
+    GoalContainer,
+} from "./container";
+
+/**
+ * Goal phase of containers that were killed because they exceeded
+ * their timeout.
+ */
+export const ContainerTimeoutPhase = "timed out";
+
+/** Binary and decimal multipliers of Kubernetes quantity suffixes. */
+const QuantitySuffixes: Record<string, number> = {
+    Ki: 1024,
+    Mi: 1024 ** 2,
+    Gi: 1024 ** 3,
+    Ti: 1024 ** 4,
+    Pi: 1024 ** 5,
+    Ei: 1024 ** 6,
+    k: 1000,
+    M: 1000 ** 2,
+    G: 1000 ** 3,
+    T: 1000 ** 4,
+    P: 1000 ** 5,
+    E: 1000 ** 6,
+};
+
+/**
+ * Convert container CPU resource to number of CPUs.
+ *
+ * @param cpu Number of CPUs or Kubernetes CPU quantity
+ * @return Number of CPUs
+ */
+export function cpuCount(cpu: number | string): number {
+    const match = /^\s*(\d+(?:\.\d+)?|\.\d+)(m?)\s*$/.exec(`${cpu}`);
+    if (!match) {
+        throw new Error(`Invalid container CPU resource '${cpu}'`);
+    }
+    return match[2] === "m" ? +match[1] / 1000 : +match[1];
+}
+
+/**
+ * Convert container memory resource to number of bytes.
+ *
+ * @param memory Number of bytes or Kubernetes memory quantity
+ * @return Number of bytes
+ */
+export function memoryBytes(memory: number | string): number {
+    const match = /^\s*(\d+(?:\.\d+)?|\.\d+)([a-zA-Z]*)\s*$/.exec(`${memory}`);
+    if (!match || (!!match[2] && !QuantitySuffixes[match[2]])) {
+        throw new Error(`Invalid container memory resource '${memory}'`);
+    }
+    return Math.round(+match[1] * (QuantitySuffixes[match[2]] || 1));
+}
+
+/**
+ * Check if the provided resources are [[ContainerResources]] rather
+ * than platform-specific resources.
+ */
+export function isContainerResources(resources: any): resources is ContainerResources {
+    return !!resources && (resources.cpu !== undefined || resources.memory !== undefined);
+}
+
+/**
+ * Timeout of container in milliseconds, undefined if the container
+ * has no timeout.
+ */
+export function containerTimeout(container: Pick<GoalContainer, "timeout">): number | undefined {
+    if (container?.timeout === undefined || container.timeout === "") {
+        return undefined;
+    }
+    const timeout = parseDuration(container.timeout);
+    if (isNaN(timeout) || timeout <= 0) {
+        throw new Error(`Invalid container timeout '${container.timeout}'`);
+    }
+    return timeout;
+}
@@ -65,6 +65,27 @@ export function runningAsGoogleCloudFunction(): boolean {
     return !!process.env.K_SERVICE && !!process.env.K_REVISION;
 }
 
+/**
+ * Suffix distinguishing goals planned from the same goal, e.g., the
+ * cells of a matrix goal.
+ *
+ * @return `-` followed by the index of the planned goal, or the empty
+ * string if the goal was not planned from another goal
+ */
+export function plannedGoalSuffix(goalEvent: Pick<SdmGoalEvent, "uniqueName">): string {
+    const planned = /#sdm:(\d+)$/.exec(goalEvent.uniqueName);
+    return !!planned ? `-${planned[1]}` : "";
+}
+
+/**
+ * Name of the goal suitable for Docker container and Kubernetes job
+ * names.  Goals planned from the same goal are kept apart by their
+ * [[plannedGoalSuffix]].
+ */
+export function containerGoalName(goalEvent: Pick<SdmGoalEvent, "uniqueName">): string {
+    return goalEvent.uniqueName.split("#")[0].toLowerCase() + plannedGoalSuffix(goalEvent);
+}
+
 /**
  * Return environment variables required by the container goal
  * execution machinery.
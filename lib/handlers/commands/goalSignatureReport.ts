@@ -0,0 +1,65 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    slackInfoMessage,
+    slackWarningMessage,
+} from "@atomist/sdm/lib/api-helper/misc/slack/messages";
+import { SoftwareDeliveryMachine } from "@atomist/sdm/lib/api/machine/SoftwareDeliveryMachine";
+import { CommandHandlerRegistration } from "@atomist/sdm/lib/api/registration/CommandHandlerRegistration";
+import {
+    bold,
+    codeBlock,
+} from "@atomist/slack-messages";
+import {
+    formatGoalSignatureChain,
+    readGoalSignatureAudit,
+} from "../../internal/signing/auditLog";
+import { RotatingGoalSigningConfiguration } from "../../internal/signing/goalSigning";
+
+/**
+ * Print the signature chain of a goal set as recorded in the local
+ * goal signature audit log of this SDM.  The audit log has to be
+ * enabled and only contains the decisions of the replica handling
+ * the command.
+ */
+export function goalSignatureReportCommand(sdm: SoftwareDeliveryMachine): CommandHandlerRegistration<{ goalSetId: string }> {
+    return {
+        name: "GoalSignatureReport",
+        description: "Show which SDM and key signed and verified each goal of a goal set",
+        parameters: {
+            goalSetId: { required: true, description: "ID of the goal set" },
+        },
+        intent: `goal signatures ${sdm.configuration.name.replace("@", "")}`,
+        listener: async ci => {
+            const gsc = sdm.configuration.sdm.goalSigning as RotatingGoalSigningConfiguration;
+            const entries = await readGoalSignatureAudit(gsc?.auditLog, ci.parameters.goalSetId);
+            if (entries.length === 0) {
+                await ci.context.messageClient.respond(
+                    slackWarningMessage(
+                        "Goal Signatures",
+                        `No goal signatures recorded for goal set ${bold(ci.parameters.goalSetId)}${
+                            !gsc?.auditLog?.enabled ? " as the goal signature audit log is not enabled" : ""}`,
+                        ci.context));
+            } else {
+                await ci.context.messageClient.respond(
+                    slackInfoMessage(
+                        "Goal Signatures",
+                        `Signature chain of goal set ${bold(ci.parameters.goalSetId)}:\n${codeBlock(formatGoalSignatureChain(entries))}`));
+            }
+        },
+    };
+}
@@ -36,6 +36,10 @@ import { updateGoal } from "@atomist/sdm/lib/api-helper/goal/storeGoals";
 import { SdmGoalEvent } from "@atomist/sdm/lib/api/goal/SdmGoalEvent";
 import { SdmGoalKey } from "@atomist/sdm/lib/api/goal/SdmGoalMessage";
 import { SoftwareDeliveryMachineConfiguration } from "@atomist/sdm/lib/api/machine/SoftwareDeliveryMachineOptions";
+import {
+    isSameMatrix,
+    matrixCellParameters,
+} from "../../../../goal/container/matrix";
 import { shouldHandle } from "../../../../internal/delivery/goals/support/validateGoal";
 import { verifyGoal } from "../../../../internal/signing/goalSigning";
 import {
@@ -69,8 +73,11 @@ export class SkipDownstreamGoalsOnGoalFailure implements HandleEvent<OnAnyFailed
 
         const goals = fetchGoalsFromPush(failedGoal);
 
+        // Cells of matrices that don't fail fast keep running after a cell failed
+        const failFast = matrixCellParameters(failedGoal)?.failFast !== false;
         const goalsToSkip = goals.filter(g => isDependentOn(failedGoal, g, mapKeyToGoal(goals)))
-            .filter(g => g.state === "planned");
+            .filter(g => g.state === "planned")
+            .filter(g => failFast || !isSameMatrix(failedGoal, g));
 
         let failedGoalState;
         let failedGoalDescription;
@@ -35,6 +35,7 @@ import { resolveCredentialsPromise } from "@atomist/sdm/lib/api-helper/machine/h
 import { addressChannelsFor } from "@atomist/sdm/lib/api/context/addressChannels";
 import { PreferenceStoreFactory } from "@atomist/sdm/lib/api/context/preferenceStore";
 import { createSkillContext } from "@atomist/sdm/lib/api/context/skillContext";
+import { Goal } from "@atomist/sdm/lib/api/goal/Goal";
 import { SdmGoalEvent } from "@atomist/sdm/lib/api/goal/SdmGoalEvent";
 import { GoalImplementationMapper } from "@atomist/sdm/lib/api/goal/support/GoalImplementationMapper";
 import { SoftwareDeliveryMachineConfiguration } from "@atomist/sdm/lib/api/machine/SoftwareDeliveryMachineOptions";
@@ -47,6 +48,11 @@ import {
 } from "@atomist/sdm/lib/api/registration/goalApprovalRequestVote";
 import { CredentialsResolver } from "@atomist/sdm/lib/spi/credentials/CredentialsResolver";
 import { RepoRefResolver } from "@atomist/sdm/lib/spi/repo-ref/RepoRefResolver";
+import {
+    approvalPolicyVoter,
+    goalApprovalPolicy,
+    GoalApprovalPolicyVoteResult,
+} from "../../../../goal/common/approval";
 import { shouldHandle } from "../../../../internal/delivery/goals/support/validateGoal";
 import { verifyGoal } from "../../../../internal/signing/goalSigning";
 import {
@@ -62,6 +68,9 @@ import {
  *
  * The final decision if the request should be granted based on all votes is delegated to the
  * configured instance of GoalApprovalRequestVoteDecisionManager.
+ *
+ * Goals with an approval policy are additionally voted on by the approvalPolicyVoter; approvals
+ * that don't satisfy the policy yet are recorded and the goal waits for further approvals.
  */
 @EventHandler("Vote on started or approved goals",
     () => subscription({
@@ -113,8 +122,7 @@ export class VoteOnGoalApprovalRequest implements HandleEvent<OnAnyApprovedSdmGo
             skill: createSkillContext(context),
         };
 
-        const votes = await Promise.all(this.voters.map(v => v(garvi)));
-        const decision = this.decisionManager(...votes);
+        const { decision, policyVote } = await this.vote(garvi);
         const goal = this.implementationMapper.findGoalBySdmGoal(sdmGoal);
 
         switch (decision) {
@@ -137,13 +145,14 @@ export class VoteOnGoalApprovalRequest implements HandleEvent<OnAnyApprovedSdmGo
                         state: SdmGoalState.requested,
                         description: !!sdmGoal.descriptions && !!sdmGoal.descriptions.requested
                             ? sdmGoal.descriptions.requested : goal.requestedDescription,
-                        data: g.data,
+                        data: g.data !== sdmGoal.data ? g.data : policyVote.data,
                     });
                 } else if (sdmGoal.state === SdmGoalState.approved) {
                     await updateGoal(context, sdmGoal, {
                         state: SdmGoalState.success,
                         description: !!sdmGoal.descriptions && !!sdmGoal.descriptions.completed
                             ? sdmGoal.descriptions.completed : goal.successDescription,
+                        data: policyVote.data,
                     });
                 }
                 break;
@@ -171,10 +180,61 @@ export class VoteOnGoalApprovalRequest implements HandleEvent<OnAnyApprovedSdmGo
                 }
                 break;
             case GoalApprovalRequestVote.Abstain:
-                // We don't do anything if vote isn't either granted or denied
+                // Record partial approvals of the approval policy; otherwise we don't do
+                // anything if vote isn't either granted or denied
+                await waitForApprovals(context, sdmGoal, goal, policyVote);
                 break;
         }
 
         return Success;
     }
+
+    private async vote(garvi: GoalApprovalRequestVoterInvocation)
+        : Promise<{ decision: GoalApprovalRequestVote, policyVote: GoalApprovalPolicyVoteResult }> {
+        const voters = !!goalApprovalPolicy(garvi.goal) ? [...this.voters, approvalPolicyVoter()] : this.voters;
+        const votes = await Promise.all(voters.map(v => v(garvi)));
+        return {
+            decision: this.decisionManager(...votes),
+            policyVote: votes.find(v => (v as GoalApprovalPolicyVoteResult).data !== undefined) || {} as any,
+        };
+    }
+}
+
+/**
+ * Record the partial approval of the approval policy and put the goal back into waiting for
+ * further approvals.
+ */
+async function waitForApprovals(context: HandlerContext,
+                                sdmGoal: SdmGoalEvent,
+                                goal: Goal,
+                                policyVote: GoalApprovalPolicyVoteResult): Promise<void> {
+    if (policyVote.data === undefined) {
+        return;
+    } else if (sdmGoal.state === SdmGoalState.pre_approved) {
+        const g: SdmGoalEvent = {
+            ...sdmGoal,
+            preApproval: undefined,
+            preApprovalRequired: true,
+        };
+        await updateGoal(context, g, {
+            state: SdmGoalState.waiting_for_pre_approval,
+            description: `${!!sdmGoal.descriptions && !!sdmGoal.descriptions.waitingForPreApproval ?
+                sdmGoal.descriptions.waitingForPreApproval : goal.waitingForPreApprovalDescription} \u00B7 ${
+                policyVote.approvals} of ${policyVote.required} starts`,
+            data: policyVote.data,
+        });
+    } else if (sdmGoal.state === SdmGoalState.approved) {
+        const g: SdmGoalEvent = {
+            ...sdmGoal,
+            approval: undefined,
+            approvalRequired: true,
+        };
+        await updateGoal(context, g, {
+            state: SdmGoalState.waiting_for_approval,
+            description: `${!!sdmGoal.descriptions && !!sdmGoal.descriptions.waitingForApproval ?
+                sdmGoal.descriptions.waitingForApproval : goal.waitingForApprovalDescription} \u00B7 ${
+                policyVote.approvals} of ${policyVote.required} approvals`,
+            data: policyVote.data,
+        });
+    }
 }
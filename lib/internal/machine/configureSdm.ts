@@ -27,6 +27,7 @@ import {
 import { SoftwareDeliveryMachine } from "@atomist/sdm/lib/api/machine/SoftwareDeliveryMachine";
 import { SoftwareDeliveryMachineConfiguration } from "@atomist/sdm/lib/api/machine/SoftwareDeliveryMachineOptions";
 import * as _ from "lodash";
+import { goalSignatureReportCommand } from "../../handlers/commands/goalSignatureReport";
 import { FulfillGoalOnRequested } from "../../handlers/events/delivery/goals/FulfillGoalOnRequested";
 import {
     GoalExecutionAutomationEventListener,
@@ -90,9 +91,9 @@ export function configureSdm(machineMaker: SoftwareDeliveryMachineMaker,
             sdm.addExtensionPacks(local.LocalLifecycle, local.LocalSdmConfig),
         );
 
+        configureGoalSigning(mergedConfig, sdm);
         // Configure the job forking ability
         await configureJobLaunching(mergedConfig, sdm);
-        configureGoalSigning(mergedConfig);
 
         await registerMetadata(mergedConfig, sdm);
 
@@ -182,13 +183,16 @@ function configureSdmToRunExactlyOneGoal(mergedConfig: SoftwareDeliveryMachineCo
 /**
  * Configure SDM to sign and verify goals
  * @param mergedConfig
+ * @param machine
  */
-function configureGoalSigning(mergedConfig: SoftwareDeliveryMachineConfiguration): void {
+function configureGoalSigning(mergedConfig: SoftwareDeliveryMachineConfiguration,
+                              machine: SoftwareDeliveryMachine): void {
     if (!!mergedConfig.sdm.goalSigning && mergedConfig.sdm.goalSigning.enabled === true) {
         _.update(mergedConfig, "graphql.listeners",
             old => !!old ? old : []);
         mergedConfig.graphql.listeners.push(
             new GoalSigningAutomationEventListener(mergedConfig.sdm.goalSigning));
+        machine.addCommand(goalSignatureReportCommand(machine));
     }
 }
 
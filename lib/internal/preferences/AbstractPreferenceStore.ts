@@ -18,16 +18,78 @@ import {
     ConfigurationAware,
     HandlerContext,
 } from "@atomist/automation-client/lib/HandlerContext";
+import { sleep } from "@atomist/automation-client/lib/internal/util/poll";
 import {
     PreferenceScope,
     PreferenceStore,
 } from "@atomist/sdm/lib/api/context/preferenceStore";
+import * as crypto from "crypto";
 
 export interface Preference {
     name: string;
     namespace: string;
     value: string;
     ttl: number;
+    /** Version of the stored preference; stores that don't track versions leave it undefined */
+    version?: number;
+}
+
+/**
+ * Preference value together with its current version
+ */
+export interface VersionedPreference<V> {
+    value: V;
+    version: number;
+}
+
+/**
+ * PreferenceStore supporting compare-and-set so that several SDM
+ * workers can safely update the same preference, e.g., for deploy
+ * locks or build counters.
+ */
+export interface VersionedPreferenceStore extends PreferenceStore {
+
+    /**
+     * Get the value and version of the preference.
+     * @return undefined if the preference doesn't exist or is expired
+     */
+    getVersioned<V>(key: string, options?: { scope?: PreferenceScope | string }): Promise<VersionedPreference<V> | undefined>;
+
+    /**
+     * Store the value only if the preference is still at the provided
+     * version.  Use version 0 to only store the value if the preference
+     * doesn't exist.
+     * @return true if the value was stored, false if the version didn't match
+     */
+    putIfVersion<V>(key: string,
+                    value: V,
+                    version: number,
+                    options?: { scope?: PreferenceScope | string, ttl?: number }): Promise<boolean>;
+
+    /**
+     * Update the preference with the result of the provided function
+     * using compare-and-set.  The function is invoked again with the
+     * latest value if another writer updated the preference in the
+     * meantime.
+     * @return the stored value
+     */
+    update<V>(key: string,
+              fn: (value: V | undefined) => V,
+              options?: { scope?: PreferenceScope | string, ttl?: number, retries?: number }): Promise<V>;
+
+    /**
+     * Increment the numeric preference, starting at 0, using
+     * compare-and-set.
+     * @return the incremented value
+     */
+    increment(key: string, options?: { scope?: PreferenceScope | string, ttl?: number, by?: number }): Promise<number>;
+}
+
+/**
+ * Check if the provided PreferenceStore supports versioned preferences.
+ */
+export function isVersionedPreferenceStore(store: PreferenceStore): store is VersionedPreferenceStore {
+    return !!store && !!(store as VersionedPreferenceStore).putIfVersion && !!(store as VersionedPreferenceStore).update;
 }
 
 /**
@@ -114,3 +176,77 @@ export abstract class AbstractPreferenceStore implements PreferenceStore {
         return "";
     }
 }
+
+/**
+ * Abstract PreferenceStore implementation that additionally handles
+ * versioning for stores that can write conditionally
+ */
+export abstract class AbstractVersionedPreferenceStore extends AbstractPreferenceStore implements VersionedPreferenceStore {
+
+    protected constructor(ctx: HandlerContext) {
+        super(ctx);
+    }
+
+    public async getVersioned<V>(key: string,
+                                 options: { scope?: PreferenceScope | string } = {}): Promise<VersionedPreference<V> | undefined> {
+        const pref = await this.doGet(key, this.scope(options.scope));
+        const version = this.version(pref);
+        if (version === 0) {
+            return undefined;
+        }
+        return { value: JSON.parse(pref.value) as V, version };
+    }
+
+    public async putIfVersion<V>(key: string,
+                                 value: V,
+                                 version: number,
+                                 options: { scope?: PreferenceScope | string, ttl?: number } = {}): Promise<boolean> {
+        const pref: Preference = {
+            name: key,
+            namespace: this.scope(options.scope),
+            value: JSON.stringify(value),
+            ttl: options.ttl,
+        };
+        return this.doPutIfVersion(pref, version);
+    }
+
+    public async update<V>(key: string,
+                           fn: (value: V | undefined) => V,
+                           options: { scope?: PreferenceScope | string, ttl?: number, retries?: number } = {}): Promise<V> {
+        const retries = options.retries ?? 10;
+        for (let attempt = 0; attempt <= retries; attempt++) {
+            const current = await this.getVersioned<V>(key, options);
+            const value = fn(current?.value);
+            if (await this.putIfVersion(key, value, current?.version || 0, options)) {
+                return value;
+            }
+            await sleep(Math.floor(Math.random() * 50 * (attempt + 1)));
+        }
+        throw new Error(`Failed to update preference '${key}' after ${retries + 1} attempts`);
+    }
+
+    public async increment(key: string, options: { scope?: PreferenceScope | string, ttl?: number, by?: number } = {}): Promise<number> {
+        return this.update<number>(key, value => (value || 0) + (options.by ?? 1), options);
+    }
+
+    /**
+     * Store the preference only if the currently stored preference is
+     * at the provided version.  Implementations have to compare and
+     * write without another writer getting in between.
+     */
+    protected abstract doPutIfVersion(pref: Preference, version: number): Promise<boolean>;
+
+    /**
+     * Version of the stored preference: 0 if it doesn't exist or is expired.
+     * Preferences stored without version get a version derived from their value.
+     */
+    protected version(pref: { value: string, ttl?: number, version?: number } | undefined): number {
+        if (!pref || pref.value === undefined || (!!pref.ttl && pref.ttl < Date.now())) {
+            return 0;
+        }
+        if (!!pref.version) {
+            return pref.version;
+        }
+        return crypto.createHash("sha256").update(pref.value).digest().readUIntBE(0, 6) + 1;
+    }
+}
@@ -26,11 +26,11 @@ import {
     unlock,
 } from "proper-lockfile";
 import {
-    AbstractPreferenceStore,
+    AbstractVersionedPreferenceStore,
     Preference,
 } from "./AbstractPreferenceStore";
 
-type PreferenceFile = Record<string, { name: string, value: string, ttl?: number }>;
+type PreferenceFile = Record<string, { name: string, value: string, ttl?: number, version?: number }>;
 
 type WithPreferenceFile<V> = (p: PreferenceFile) => Promise<{ value?: V, save: boolean }>;
 
@@ -44,7 +44,7 @@ export const FilePreferenceStoreFactory: PreferenceStoreFactory = ctx => new Fil
  * Note: this implementation attempts to lock the preference file before reading or writing to it
  * but it is not intended for production usage.
  */
-export class FilePreferenceStore extends AbstractPreferenceStore {
+export class FilePreferenceStore extends AbstractVersionedPreferenceStore {
 
     constructor(context: HandlerContext,
                 private readonly filePath: string = path.join(os.homedir(), ".atomist", "prefs", "client.prefs.json")) {
@@ -63,6 +63,7 @@ export class FilePreferenceStore extends AbstractPreferenceStore {
                         namespace,
                         value: prefs[key].value,
                         ttl: prefs[key].ttl,
+                        version: prefs[key].version,
                     },
                 };
             } else {
@@ -76,14 +77,25 @@ export class FilePreferenceStore extends AbstractPreferenceStore {
 
     protected async doPut(pref: Preference): Promise<void> {
         return this.doWithPreferenceFile<void>(async prefs => {
-            const key = this.scopeKey(pref.name, pref.namespace);
-            prefs[key] = {
-                name: pref.name,
-                value: pref.value,
-                ttl: typeof pref.ttl === "number" ? Date.now() + pref.ttl : undefined,
+            this.write(prefs, pref);
+            return {
+                save: true,
             };
+        });
+    }
+
+    protected async doPutIfVersion(pref: Preference, version: number): Promise<boolean> {
+        return this.doWithPreferenceFile<boolean>(async prefs => {
+            if (this.version(prefs[this.scopeKey(pref.name, pref.namespace)]) !== version) {
+                return {
+                    save: false,
+                    value: false,
+                };
+            }
+            this.write(prefs, pref);
             return {
                 save: true,
+                value: true,
             };
         });
     }
@@ -113,6 +125,16 @@ export class FilePreferenceStore extends AbstractPreferenceStore {
         });
     }
 
+    private write(prefs: PreferenceFile, pref: Preference): void {
+        const key = this.scopeKey(pref.name, pref.namespace);
+        prefs[key] = {
+            name: pref.name,
+            value: pref.value,
+            ttl: typeof pref.ttl === "number" ? Date.now() + pref.ttl : undefined,
+            version: (prefs[key]?.version || 0) + 1,
+        };
+    }
+
     private async read(): Promise<PreferenceFile> {
         return (await fs.readJson(this.filePath)) as PreferenceFile;
     }
@@ -18,7 +18,7 @@ import { HandlerContext } from "@atomist/automation-client/lib/HandlerContext";
 import { PreferenceStoreFactory } from "@atomist/sdm/lib/api/context/preferenceStore";
 import * as _ from "lodash";
 import {
-    AbstractPreferenceStore,
+    AbstractVersionedPreferenceStore,
     Preference,
 } from "./AbstractPreferenceStore";
 
@@ -31,7 +31,7 @@ export const InMemoryPreferenceStoreFactory: PreferenceStoreFactory = ctx => new
  * PreferenceStore implementation that simply stores preferences in-memory.
  * Note: This is implementation is not intended for production usage.
  */
-export class InMemoryPreferenceStore extends AbstractPreferenceStore {
+export class InMemoryPreferenceStore extends AbstractVersionedPreferenceStore {
 
     private readonly store: { [key: string]: Preference } = {};
 
@@ -49,9 +49,19 @@ export class InMemoryPreferenceStore extends AbstractPreferenceStore {
         this.store[key] = {
             ...pref,
             ttl: typeof pref.ttl === "number" ? Date.now() + pref.ttl : undefined,
+            version: (this.store[key]?.version || 0) + 1,
         };
     }
 
+    protected async doPutIfVersion(pref: Preference, version: number): Promise<boolean> {
+        const key = this.scopeKey(pref.name, pref.namespace);
+        if (this.version(this.store[key]) !== version) {
+            return false;
+        }
+        await this.doPut(pref);
+        return true;
+    }
+
     protected async doList(namespace: string): Promise<Preference[]> {
         const values: Preference[] = [];
         _.forEach(this.store, (v, k) => {
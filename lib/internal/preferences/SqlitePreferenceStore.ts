@@ -0,0 +1,209 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { HandlerContext } from "@atomist/automation-client/lib/HandlerContext";
+import { logger } from "@atomist/automation-client/lib/util/logger";
+import { PreferenceStoreFactory } from "@atomist/sdm/lib/api/context/preferenceStore";
+// tslint:disable-next-line:no-implicit-dependencies
+import * as BetterSqlite3 from "better-sqlite3";
+import * as fs from "fs-extra";
+import * as _ from "lodash";
+import * as os from "os";
+import * as path from "path";
+import {
+    AbstractVersionedPreferenceStore,
+    Preference,
+} from "./AbstractPreferenceStore";
+
+interface PreferenceRow {
+    namespace: string;
+    name: string;
+    value: string;
+    ttl: number | null;
+    version: number;
+}
+
+/** Schema version recorded in the database's user_version */
+const SchemaVersion = 1;
+
+/** Open databases by file path with the number of stores using them */
+const databases: Record<string, { db: BetterSqlite3.Database, references: number }> = {};
+
+/**
+ * Factory to create a new SqlitePreferenceStore instance
+ */
+export const SqlitePreferenceStoreFactory: PreferenceStoreFactory = ctx => new SqlitePreferenceStore(ctx);
+
+/**
+ * PreferenceStore implementation that stores preferences in a local SQLite database.
+ * Preferences of a namespace are looked up via the primary key index and expired
+ * preferences get removed on write.  When the database is created, preferences
+ * of an existing FilePreferenceStore file are migrated into it.
+ * Note: the database is shared by all SDM processes on the same host but not across hosts.
+ * This store requires the optional dependency better-sqlite3.
+ */
+export class SqlitePreferenceStore extends AbstractVersionedPreferenceStore {
+
+    private db: BetterSqlite3.Database;
+
+    constructor(context: HandlerContext,
+                private readonly filePath: string = path.join(os.homedir(), ".atomist", "prefs", "client.prefs.db"),
+                private readonly migrationFilePath: string = path.join(os.homedir(), ".atomist", "prefs", "client.prefs.json")) {
+        super(context);
+        this.db = this.init();
+    }
+
+    /**
+     * Release the database shared by all stores using the same file.
+     * The database is closed once all stores using it are closed.
+     */
+    public close(): void {
+        if (!this.db) {
+            return;
+        }
+        this.db = undefined;
+        const database = databases[this.filePath];
+        if (--database.references === 0) {
+            database.db.close();
+            delete databases[this.filePath];
+        }
+    }
+
+    protected async doGet(name: string, namespace: string): Promise<Preference | undefined> {
+        const row = this.db.prepare("SELECT * FROM preferences WHERE namespace = ? AND name = ?")
+            .get(namespace, name) as PreferenceRow;
+        return toPreference(row);
+    }
+
+    protected async doPut(pref: Preference): Promise<void> {
+        this.write(pref);
+    }
+
+    protected async doPutIfVersion(pref: Preference, version: number): Promise<boolean> {
+        return this.db.transaction(() => {
+            const row = this.db.prepare("SELECT * FROM preferences WHERE namespace = ? AND name = ?")
+                .get(pref.namespace, pref.name) as PreferenceRow;
+            if (this.version(toPreference(row)) !== version) {
+                return false;
+            }
+            this.write(pref);
+            return true;
+        }).immediate();
+    }
+
+    protected async doList(namespace: string): Promise<Preference[]> {
+        const rows = (!namespace ?
+            this.db.prepare("SELECT * FROM preferences").all() :
+            this.db.prepare("SELECT * FROM preferences WHERE namespace = ?").all(namespace)) as PreferenceRow[];
+        return rows.map(toPreference);
+    }
+
+    protected async doDelete(name: string, namespace: string): Promise<void> {
+        this.db.prepare("DELETE FROM preferences WHERE namespace = ? AND name = ?").run(namespace, name);
+    }
+
+    private write(pref: Preference): void {
+        this.db.transaction(() => {
+            this.db.prepare(`INSERT INTO preferences (namespace, name, value, ttl, version) VALUES (?, ?, ?, ?, 1)
+ON CONFLICT (namespace, name) DO UPDATE SET value = excluded.value, ttl = excluded.ttl, version = preferences.version + 1`)
+                .run(pref.namespace || "", pref.name, pref.value, typeof pref.ttl === "number" ? Date.now() + pref.ttl : undefined);
+            this.db.prepare("DELETE FROM preferences WHERE ttl < ?").run(Date.now());
+        }).immediate();
+    }
+
+    private init(): BetterSqlite3.Database {
+        if (!!databases[this.filePath]) {
+            databases[this.filePath].references++;
+            return databases[this.filePath].db;
+        }
+        fs.ensureDirSync(path.dirname(this.filePath));
+        const db = new (loadBetterSqlite3())(this.filePath);
+        db.pragma("journal_mode = WAL");
+        db.transaction(() => {
+            if (db.pragma("user_version", { simple: true }) >= SchemaVersion) {
+                return;
+            }
+            db.exec(`CREATE TABLE IF NOT EXISTS preferences (
+    namespace TEXT NOT NULL,
+    name TEXT NOT NULL,
+    value TEXT,
+    ttl INTEGER,
+    version INTEGER NOT NULL,
+    PRIMARY KEY (namespace, name)
+);
+CREATE INDEX IF NOT EXISTS preferences_ttl ON preferences (ttl);`);
+            migrate(db, this.migrationFilePath);
+            db.pragma(`user_version = ${SchemaVersion}`);
+        }).immediate();
+        db.prepare("DELETE FROM preferences WHERE ttl < ?").run(Date.now());
+        databases[this.filePath] = { db, references: 1 };
+        return db;
+    }
+}
+
+/**
+ * Load better-sqlite3 only when a store gets created as it is an
+ * optional dependency.
+ */
+function loadBetterSqlite3(): typeof BetterSqlite3 {
+    try {
+        // tslint:disable-next-line:no-implicit-dependencies
+        return require("better-sqlite3");
+    } catch (e) {
+        throw new Error(`SqlitePreferenceStore requires the optional dependency better-sqlite3, which failed to load: ${e.message}`);
+    }
+}
+
+/**
+ * Copy the preferences of a FilePreferenceStore file into the database.
+ * Expired preferences are skipped; the file itself is left untouched.
+ */
+function migrate(db: BetterSqlite3.Database, file: string): void {
+    if (!fs.existsSync(file)) {
+        return;
+    }
+    let prefs: Record<string, { name: string, value: string, ttl?: number, version?: number }>;
+    try {
+        prefs = fs.readJsonSync(file);
+    } catch (e) {
+        logger.warn(`Failed to read preference file '${file}' for migration: ${e.message}`);
+        return;
+    }
+    const insert = db.prepare("INSERT OR IGNORE INTO preferences (namespace, name, value, ttl, version) VALUES (?, ?, ?, ?, ?)");
+    let count = 0;
+    _.forEach(prefs, (pref, key) => {
+        if (!pref || (!!pref.ttl && pref.ttl < Date.now())) {
+            return;
+        }
+        const namespace = key.includes("_$_") ? key.split("_$_")[0] : "";
+        insert.run(namespace, pref.name, pref.value, pref.ttl, pref.version || 1);
+        count++;
+    });
+    logger.info(`Migrated ${count} preferences from '${file}'`);
+}
+
+function toPreference(row: PreferenceRow | undefined): Preference | undefined {
+    if (!row) {
+        return undefined;
+    }
+    return {
+        name: row.name,
+        namespace: row.namespace,
+        value: row.value,
+        ttl: row.ttl || undefined,
+        version: row.version,
+    };
+}
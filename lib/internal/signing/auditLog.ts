@@ -0,0 +1,215 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { logger } from "@atomist/automation-client/lib/util/logger";
+import * as crypto from "crypto";
+import * as fs from "fs-extra";
+import * as _ from "lodash";
+import * as os from "os";
+import * as path from "path";
+import * as readline from "readline";
+
+/**
+ * Configuration of the goal signature audit log.  The log is written
+ * to the local file system of each SDM replica, so it only contains
+ * the decisions of that replica and should be placed on a persistent
+ * volume to survive restarts.
+ */
+export interface GoalSignatureAuditLogOptions {
+    /** Record sign and verify decisions; defaults to false */
+    enabled?: boolean;
+    /** Path of the audit log file; defaults to ~/.atomist/log/goal-signature-audit.log */
+    path?: string;
+    /** Size in bytes after which the audit log file is rotated; defaults to 10 MB */
+    maxSize?: number;
+    /** Number of rotated audit log files to keep; defaults to 5 */
+    maxFiles?: number;
+}
+
+const DefaultMaxSize = 10 * 1024 * 1024;
+const DefaultMaxFiles = 5;
+
+/** Pending writes by audit log file, chained to preserve the order of entries */
+const pendingWrites = new Map<string, Promise<void>>();
+
+/**
+ * Single sign or verify decision in the audit log
+ */
+export interface GoalSignatureAuditEntry {
+    /** Time of the decision in milliseconds since epoch */
+    ts: number;
+    operation: "sign" | "verify";
+    outcome: "signed" | "unsigned" | "verified" | "invalid" | "missing";
+    goalSetId: string;
+    uniqueName: string;
+    /** Goal state of the signed or verified transition */
+    state: string;
+    /** Registration that last updated the goal, i.e., the signing SDM */
+    registration?: string;
+    keyId?: string;
+    keyName?: string;
+    algorithm?: string;
+    /** SHA-256 hash of the normalized goal payload */
+    payloadHash: string;
+}
+
+/**
+ * Return the path of the audit log file.
+ */
+export function goalSignatureAuditLogPath(options?: GoalSignatureAuditLogOptions): string {
+    return options?.path || path.join(os.homedir(), ".atomist", "log", "goal-signature-audit.log");
+}
+
+/**
+ * Append the entries to the audit log, one JSON document per line,
+ * if the audit log is enabled.  Entries are written asynchronously
+ * in the order they are recorded, rotating the log file when it
+ * exceeds its maximum size.  Failing to write them does not fail
+ * signing or verification.
+ */
+export function recordGoalSignatureAudit(options: GoalSignatureAuditLogOptions | undefined,
+                                         ...entries: GoalSignatureAuditEntry[]): void {
+    if (!options?.enabled || entries.length === 0) {
+        return;
+    }
+    const file = goalSignatureAuditLogPath(options);
+    const lines = entries.map(e => `${JSON.stringify(e)}\n`).join("");
+    const write = (pendingWrites.get(file) || Promise.resolve()).then(() => appendAuditLog(file, lines, options));
+    pendingWrites.set(file, write);
+    // tslint:disable-next-line:no-floating-promises
+    write.then(() => {
+        if (pendingWrites.get(file) === write) {
+            pendingWrites.delete(file);
+        }
+    });
+}
+
+/**
+ * Wait for all entries recorded so far to be written to the audit log.
+ */
+export async function flushGoalSignatureAudit(options: GoalSignatureAuditLogOptions | undefined): Promise<void> {
+    await pendingWrites.get(goalSignatureAuditLogPath(options));
+}
+
+/**
+ * Read the audit log entries of a goal set in the order they were
+ * recorded, including the entries of rotated audit log files.
+ */
+export async function readGoalSignatureAudit(options: GoalSignatureAuditLogOptions | undefined,
+                                             goalSetId: string): Promise<GoalSignatureAuditEntry[]> {
+    await flushGoalSignatureAudit(options);
+    const file = goalSignatureAuditLogPath(options);
+    const entries: GoalSignatureAuditEntry[] = [];
+    for (const logFile of auditLogFiles(file, options).reverse()) {
+        if (!(await fs.pathExists(logFile))) {
+            continue;
+        }
+        await readLines(logFile, line => {
+            if (!line.trim() || !line.includes(goalSetId)) {
+                return;
+            }
+            try {
+                const entry = JSON.parse(line);
+                if (entry.goalSetId === goalSetId) {
+                    entries.push(entry);
+                }
+            } catch (e) {
+                logger.warn(`Skipping invalid goal signature audit log entry: ${line}`);
+            }
+        });
+    }
+    return entries;
+}
+
+/**
+ * Format the signature chain of a goal set: per goal, every state
+ * transition with the SDM and key that signed it and the outcome of
+ * its verifications.
+ */
+export function formatGoalSignatureChain(entries: GoalSignatureAuditEntry[]): string {
+    const lines: string[] = [];
+    _.forEach(_.groupBy(entries, "uniqueName"), (goalEntries, uniqueName) => {
+        lines.push(uniqueName);
+        for (const e of goalEntries) {
+            const key = !!e.keyName || !!e.keyId ? ` key=${e.keyName || ""}${!!e.keyId ? `(${e.keyId})` : ""} ${e.algorithm || ""}` : "";
+            lines.push(`  ${new Date(e.ts).toISOString()} ${e.state} ${e.operation} ${e.outcome}${
+                !!e.registration ? ` by ${e.registration}` : ""}${key.trimRight()} sha256=${e.payloadHash.slice(0, 12)}`);
+        }
+    });
+    return lines.join("\n");
+}
+
+/**
+ * Hash of the normalized goal recorded in the audit log.
+ */
+export function payloadHash(normalizedGoal: string): string {
+    return crypto.createHash("sha256").update(normalizedGoal).digest("hex");
+}
+
+/**
+ * Audit log file followed by its rotated files, newest first.
+ */
+function auditLogFiles(file: string, options: GoalSignatureAuditLogOptions | undefined): string[] {
+    const maxFiles = options?.maxFiles ?? DefaultMaxFiles;
+    return [file, ..._.range(1, maxFiles + 1).map(i => `${file}.${i}`)];
+}
+
+async function appendAuditLog(file: string, lines: string, options: GoalSignatureAuditLogOptions): Promise<void> {
+    try {
+        await fs.ensureDir(path.dirname(file));
+        await rotateAuditLog(file, Buffer.byteLength(lines), options);
+        await fs.appendFile(file, lines, { mode: 0o600 });
+    } catch (e) {
+        logger.warn(`Failed to write goal signature audit log '${file}': ${e.message}`);
+    }
+}
+
+/**
+ * Rotate the audit log file if appending the provided number of
+ * bytes would exceed its maximum size, dropping the oldest file.
+ */
+async function rotateAuditLog(file: string, size: number, options: GoalSignatureAuditLogOptions): Promise<void> {
+    let current: number;
+    try {
+        current = (await fs.stat(file)).size;
+    } catch (e) {
+        return;
+    }
+    if (current === 0 || current + size <= (options.maxSize ?? DefaultMaxSize)) {
+        return;
+    }
+    const files = auditLogFiles(file, options);
+    await fs.remove(files[files.length - 1]);
+    for (let i = files.length - 2; i >= 0; i--) {
+        if (await fs.pathExists(files[i])) {
+            await fs.move(files[i], files[i + 1], { overwrite: true });
+        }
+    }
+}
+
+/**
+ * Call the provided function for every line of the file without
+ * reading the whole file into memory.
+ */
+async function readLines(file: string, onLine: (line: string) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const input = fs.createReadStream(file, "utf8");
+        input.on("error", reject);
+        readline.createInterface({ input, crlfDelay: Infinity })
+            .on("line", onLine)
+            .on("close", resolve);
+    });
+}
@@ -0,0 +1,60 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    GoalSigningAlgorithm,
+    GoalSigningKey,
+    GoalVerificationKey,
+} from "@atomist/sdm/lib/api/machine/SigningKeys";
+import * as crypto from "crypto";
+
+/**
+ * Ed25519 based GoalSigningAlgorithm
+ *
+ * Considerably faster than RSA for signing while using much shorter
+ * keys and signatures.  Requires Node.js 12 or later.
+ */
+export const Ed25519GoalSigningAlgorithm: GoalSigningAlgorithm<string> = {
+
+    name: "ed25519",
+
+    sign: (goal: string, key: GoalSigningKey<string>) => {
+        assertEd25519Support();
+        const signature = crypto.sign(undefined, Buffer.from(goal), {
+            key: key.privateKey,
+            passphrase: key.passphrase,
+        });
+        return signature.toString("base64");
+    },
+
+    verify: (goal: string, signatureString: string, key: GoalVerificationKey<string>) => {
+        assertEd25519Support();
+        const signature = Buffer.from(signatureString, "base64");
+        // crypto.verify returns a boolean, despite its typings
+        const verified: unknown = crypto.verify(undefined, Buffer.from(goal), key.publicKey, signature);
+        return verified === true;
+    },
+};
+
+/**
+ * Throw an error if the Node.js runtime doesn't support Ed25519, which
+ * was added together with one-shot signing in Node.js 12.
+ */
+export function assertEd25519Support(): void {
+    if (typeof crypto.sign !== "function" || typeof crypto.verify !== "function") {
+        throw new Error(`Goal signing algorithm '${Ed25519GoalSigningAlgorithm.name}' requires Node.js 12 or later, running ${process.version}`);
+    }
+}
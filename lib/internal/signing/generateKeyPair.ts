@@ -0,0 +1,99 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { GoalSigningKey } from "@atomist/sdm/lib/api/machine/SigningKeys";
+import * as crypto from "crypto";
+import { EcdsaGoalSigningAlgorithm } from "./ecdsaGoalSigning";
+import {
+    assertEd25519Support,
+    Ed25519GoalSigningAlgorithm,
+} from "./ed25519GoalSigning";
+import { RsaGoalSigningAlgorithm } from "./rsaGoalSigning";
+
+/**
+ * Options to generate goal signing key pairs
+ */
+export interface GenerateGoalSigningKeyPairOptions {
+    /** Name of the key; defaults to the algorithm name */
+    name?: string;
+    /** Passphrase to encrypt the private key with */
+    passphrase?: string;
+    /** Modulus length of RSA keys; defaults to 4096 */
+    modulusLength?: number;
+}
+
+/**
+ * PEM encoding of public and private key, optionally encrypting the
+ * private key
+ */
+interface PemKeyPairEncoding {
+    publicKeyEncoding: { type: "spki", format: "pem" };
+    privateKeyEncoding: { type: "pkcs8", format: "pem", cipher?: string, passphrase?: string };
+}
+
+declare module "crypto" {
+    /** Ed25519 keys are supported since Node.js 12, which the Node.js typings in use predate */
+    function generateKeyPairSync(type: "ed25519", options: PemKeyPairEncoding): KeyPairSyncResult<string, string>;
+}
+
+/**
+ * Generate a key pair for one of the built-in goal signing
+ * algorithms.  Public and private key are PEM encoded, in SPKI and
+ * PKCS#8 format respectively, so the returned key can be used as
+ * signing key in the goal signing configuration.
+ *
+ * @param algorithm Name of the goal signing algorithm
+ * @param options Name and passphrase of the key
+ * @return Goal signing key with its algorithm
+ */
+export function generateGoalSigningKeyPair(algorithm: string = Ed25519GoalSigningAlgorithm.name,
+                                           options: GenerateGoalSigningKeyPairOptions = {}): GoalSigningKey<string> {
+    if (typeof crypto.generateKeyPairSync !== "function") {
+        throw new Error(`Generating goal signing key pairs requires Node.js 10.12 or later, running ${process.version}`);
+    }
+    const encoding: PemKeyPairEncoding = {
+        publicKeyEncoding: { type: "spki", format: "pem" },
+        privateKeyEncoding: {
+            type: "pkcs8",
+            format: "pem",
+            ...(!!options.passphrase ? { cipher: "aes-256-cbc", passphrase: options.passphrase } : {}),
+        },
+    };
+
+    let keyPair: crypto.KeyPairSyncResult<string, string>;
+    switch (algorithm.toLowerCase()) {
+        case Ed25519GoalSigningAlgorithm.name:
+            assertEd25519Support();
+            keyPair = crypto.generateKeyPairSync("ed25519", encoding);
+            break;
+        case EcdsaGoalSigningAlgorithm.name:
+            keyPair = crypto.generateKeyPairSync("ec", { namedCurve: "P-256", ...encoding });
+            break;
+        case RsaGoalSigningAlgorithm.name:
+            keyPair = crypto.generateKeyPairSync("rsa", { modulusLength: options.modulusLength || 4096, ...encoding });
+            break;
+        default:
+            throw new Error(`Unable to generate key pair for unknown goal signing algorithm '${algorithm}'`);
+    }
+
+    return {
+        name: options.name || algorithm.toLowerCase(),
+        algorithm: algorithm.toLowerCase(),
+        publicKey: keyPair.publicKey,
+        privateKey: keyPair.privateKey,
+        passphrase: options.passphrase,
+    };
+}
@@ -30,20 +30,136 @@ import {
     GoalSigningScope,
     GoalVerificationKey,
 } from "@atomist/sdm/lib/api/machine/SigningKeys";
+import * as crypto from "crypto";
 import * as fs from "fs-extra";
 import * as stringify from "json-stable-stringify";
+import * as _ from "lodash";
 import * as path from "path";
 import { DeepPartial } from "ts-essentials";
 import { SdmGoalState } from "../../typings/types";
 import { toArray } from "../../util/misc/array";
+import {
+    GoalSignatureAuditEntry,
+    GoalSignatureAuditLogOptions,
+    payloadHash,
+    recordGoalSignatureAudit,
+} from "./auditLog";
+import { EcdsaGoalSigningAlgorithm } from "./ecdsaGoalSigning";
+import { Ed25519GoalSigningAlgorithm } from "./ed25519GoalSigning";
 import { RsaGoalSigningAlgorithm } from "./rsaGoalSigning";
 
+// tslint:disable:max-file-line-count
+
 export interface SignatureMixin {
     signature: string;
 }
 
 export const DefaultGoalSigningAlgorithm = RsaGoalSigningAlgorithm;
 
+/**
+ * Key of the goal data entry carrying the key ID of the goal
+ * signature and the signatures of additional signing keys
+ */
+export const GoalSignatureDataKey = "@atomist/sdm/signature";
+
+/**
+ * Time in milliseconds verification keys keep verifying goals after
+ * their `notAfter` date, unless configured otherwise
+ */
+export const DefaultVerificationGracePeriod = 60 * 60 * 1000;
+
+/**
+ * Built-in algorithms resolved by the `algorithm` name of signing and
+ * verification keys.  Algorithms configured in the goal signing
+ * configuration take precedence.
+ */
+export const GoalSigningAlgorithms: Array<GoalSigningAlgorithm<any>> = [
+    RsaGoalSigningAlgorithm,
+    Ed25519GoalSigningAlgorithm,
+    EcdsaGoalSigningAlgorithm,
+];
+
+/**
+ * Identifier and validity window of a signing or verification key.
+ * Dates can be provided as Date, ISO 8601 string or milliseconds
+ * since epoch.
+ */
+export interface GoalKeyValidity {
+    /**
+     * Identifier of the key used to match signing and verification
+     * keys; defaults to a fingerprint of the public key
+     */
+    keyId?: string;
+    /** The key does not sign or verify goals before this date */
+    notBefore?: Date | string | number;
+    /**
+     * The key does not sign goals after this date and stops verifying
+     * goals once the verification grace period passed
+     */
+    notAfter?: Date | string | number;
+}
+
+/**
+ * Goal data entry carrying the key ID of the goal signature and the
+ * signatures of additional signing keys.  The entry is part of the
+ * signed goal, so SDMs not supporting key IDs verify the goal
+ * signature as before.
+ */
+export interface GoalSignatureData {
+    /** ID of the key that created the goal signature */
+    keyId: string;
+    /**
+     * Signatures of additional signing keys, e.g., during key
+     * rotation.  They sign the goal with this entry only carrying the
+     * key ID.
+     */
+    signatures?: Array<{ keyId: string, signature: string }>;
+}
+
+export type RotatingGoalSigningKey = GoalSigningKey<any> & GoalKeyValidity;
+export type RotatingGoalVerificationKey = GoalVerificationKey<any> & GoalKeyValidity;
+
+/**
+ * Goal signing configuration supporting key rotation.
+ *
+ * Goals are signed with every signing key currently valid.  The
+ * signature of the key that became valid first is stored as goal
+ * signature, so SDMs not supporting key rotation can verify it.  The
+ * ID of that key and the signatures of the other keys are stored in
+ * the goal data, see [[GoalSignatureData]], so verification picks
+ * the keys by ID.  Key validity is checked at the time of signing
+ * and receiving a goal, never against the `ts` of the goal, which
+ * the signer controls.  To rotate the signing key:
+ *
+ * 1. publish the new public key as verification key to all SDMs,
+ * 2. add the new key to the signing keys so that goals get signed
+ *    with the old and new key for a grace period, and
+ * 3. retire the old key by setting its `notAfter` date to the end of
+ *    the grace period.
+ *
+ * Goals signed during the grace period carry signatures of both
+ * keys, so they verify on SDMs that have either key.  See
+ * [[rotateGoalSigningKey]].
+ */
+export interface RotatingGoalSigningConfiguration extends GoalSigningConfiguration {
+    signingKey?: RotatingGoalSigningKey;
+    /**
+     * Keys to sign goals with when the signing key is not valid,
+     * e.g., the previous key during key rotation
+     */
+    signingKeys?: RotatingGoalSigningKey | RotatingGoalSigningKey[];
+    verificationKeys?: RotatingGoalVerificationKey | RotatingGoalVerificationKey[];
+    /**
+     * Time in milliseconds verification keys keep verifying goals
+     * after their `notAfter` date, so that goals signed just before
+     * the key retired verify while they are in flight; defaults to
+     * one hour
+     */
+    verificationGracePeriod?: number;
+    /** Local audit log of all sign and verify decisions */
+    auditLog?: GoalSignatureAuditLogOptions;
+}
+
 /**
  * AutomationEventListener that verifies incoming SDM goals against a set of configurable
  * verification public keys.
@@ -53,7 +169,7 @@ export const DefaultGoalSigningAlgorithm = RsaGoalSigningAlgorithm;
  */
 export class GoalSigningAutomationEventListener implements GraphClientListener {
 
-    constructor(private readonly gsc: GoalSigningConfiguration) {
+    constructor(private readonly gsc: RotatingGoalSigningConfiguration) {
         this.initVerificationKeys();
     }
 
@@ -72,9 +188,9 @@ export class GoalSigningAutomationEventListener implements GraphClientListener {
     private initVerificationKeys(): void {
         this.gsc.verificationKeys = toArray(this.gsc.verificationKeys) || [];
 
-        // If signing key is set, also use it to verify
-        if (!!this.gsc.signingKey) {
-            this.gsc.verificationKeys.push(this.gsc.signingKey);
+        // If signing keys are set, also use them to verify
+        for (const signingKey of signingKeys(this.gsc)) {
+            this.gsc.verificationKeys.push(signingKey);
         }
 
         // Load the Atomist public key
@@ -91,31 +207,29 @@ export class GoalSigningAutomationEventListener implements GraphClientListener {
  * @param ctx
  */
 export async function verifyGoal(goal: SdmGoalEvent & DeepPartial<SignatureMixin>,
-                                 gsc: GoalSigningConfiguration,
+                                 gsc: RotatingGoalSigningConfiguration,
                                  ctx: HandlerContext): Promise<void> {
     if (!!gsc && gsc.enabled === true && !!goal && isInScope(gsc.scope, ctx) && !isGoalRejected(goal)) {
         if (!!goal.signature) {
 
             const message = normalizeGoal(goal);
+            const gracePeriod = gsc.verificationGracePeriod !== undefined ? gsc.verificationGracePeriod : DefaultVerificationGracePeriod;
+            const now = Date.now();
+            const verificationKeys = toArray(gsc.verificationKeys || []).filter(k => isKeyValid(k, now, gracePeriod));
+            const verifiedWith = verifySignatures(goal, verificationKeys, gsc);
 
-            let verifiedWith: GoalVerificationKey<any>;
-            for (const key of toArray(gsc.verificationKeys)) {
-                if (findAlgorithm(key, gsc).verify(message, goal.signature, key)) {
-                    verifiedWith = key;
-                    break;
-                }
-            }
-
+            recordGoalSignatureAudit(gsc.auditLog, auditEntry(goal, message, "verify", !!verifiedWith ? "verified" : "invalid", verifiedWith));
             if (!!verifiedWith) {
                 logger.debug(
                     `Verified signature for incoming goal '${goal.uniqueName}' of '${goal.goalSetId}' with key '${
-                    verifiedWith.name}' and algorithm '${verifiedWith.algorithm || DefaultGoalSigningAlgorithm.name}'`);
+                    verifiedWith.name}' (${keyId(verifiedWith)}) and algorithm '${verifiedWith.algorithm || DefaultGoalSigningAlgorithm.name}'`);
             } else {
                 await rejectGoal("signature invalid", goal, ctx);
                 throw new Error("SDM goal signature invalid. Rejecting goal!");
             }
 
         } else {
+            recordGoalSignatureAudit(gsc.auditLog, auditEntry(goal, normalizeGoal(goal), "verify", "missing"));
             await rejectGoal("signature missing", goal, ctx);
             throw new Error("SDM goal signature is missing. Rejecting goal!");
         }
@@ -123,19 +237,204 @@ export async function verifyGoal(goal: SdmGoalEvent & DeepPartial<SignatureMixin
 }
 
 /**
- * Add a signature to a goal
+ * Add a signature to a goal with every signing key currently valid.
+ * The goal signature is created with the key that became valid
+ * first; its key ID and the signatures of the other keys are stored
+ * in the goal data, see [[GoalSignatureData]].  If the goal data is
+ * not a JSON object, the goal only gets the plain goal signature.
  * @param goal
  * @param gsc
  */
 export function signGoal(goal: SdmGoalMessage,
-                         gsc: GoalSigningConfiguration): SdmGoalMessage & SignatureMixin {
-    if (!!gsc && gsc.enabled === true && !!gsc.signingKey) {
-        (goal as any).signature = findAlgorithm(gsc.signingKey, gsc).sign(normalizeGoal(goal), gsc.signingKey);
-        logger.debug(`Signed goal '${goal.uniqueName}' of '${goal.goalSetId}'`);
-        return goal as any;
+                         gsc: RotatingGoalSigningConfiguration): SdmGoalMessage & SignatureMixin {
+    if (!!gsc && gsc.enabled === true) {
+        const now = Date.now();
+        const keys = _.sortBy(signingKeys(gsc).filter(k => isKeyValid(k, now)),
+            k => k.notBefore !== undefined ? toTime(k.notBefore) : -Infinity);
+        if (keys.length > 0) {
+            const [key, ...additionalKeys] = keys;
+            const data = parseGoalData(goal.data);
+            if (!!data) {
+                const keyData: GoalSignatureData = { keyId: keyId(key) };
+                const unsignedData = { ...data, [GoalSignatureDataKey]: keyData };
+                const additionalMessage = normalizeGoal({ ...goal, data: JSON.stringify(unsignedData) });
+                const signatures = additionalKeys.map(k => ({ keyId: keyId(k), signature: findAlgorithm(k, gsc).sign(additionalMessage, k) }));
+                goal.data = JSON.stringify(signatures.length > 0
+                    ? { ...unsignedData, [GoalSignatureDataKey]: { ...keyData, signatures } }
+                    : unsignedData);
+            } else {
+                logger.debug(`Data of goal '${goal.uniqueName}' of '${goal.goalSetId}' is not a JSON object. Signing without key ID`);
+            }
+            const message = normalizeGoal(goal);
+            (goal as any).signature = findAlgorithm(key, gsc).sign(message, key);
+            recordGoalSignatureAudit(gsc.auditLog, auditEntry(goal, message, "sign", "signed", key));
+            logger.debug(`Signed goal '${goal.uniqueName}' of '${goal.goalSetId}' with key(s) '${keys.map(keyId).join(", ")}'`);
+        } else if (signingKeys(gsc).length > 0) {
+            recordGoalSignatureAudit(gsc.auditLog, auditEntry(goal, normalizeGoal(goal), "sign", "unsigned"));
+            logger.warn(`No valid goal signing key configured. Goal '${goal.uniqueName}' of '${goal.goalSetId}' not signed`);
+        }
+    }
+    return goal as any;
+}
+
+/**
+ * Rotate the signing key of the provided configuration.  The new key
+ * starts signing goals and gets published as verification key
+ * immediately.  The previous signing key keeps signing goals until
+ * the end of the grace period and is retired afterwards.
+ *
+ * @param gsc Current goal signing configuration
+ * @param newKey Key to sign goals with from now on
+ * @param gracePeriod Time in milliseconds to sign goals with both keys
+ * @param now Start of the rotation in milliseconds since epoch
+ * @return New goal signing configuration
+ */
+export function rotateGoalSigningKey(gsc: RotatingGoalSigningConfiguration,
+                                     newKey: RotatingGoalSigningKey,
+                                     gracePeriod: number,
+                                     now: number = Date.now()): RotatingGoalSigningConfiguration {
+    const notAfter = new Date(now + gracePeriod);
+    const retire = <K extends GoalKeyValidity>(k: K): K =>
+        k.notAfter !== undefined && toTime(k.notAfter) < notAfter.getTime() ? k : { ...k, notAfter };
+    const previousKeys = signingKeys(gsc);
+    const previousKeyIds = previousKeys.map(keyId);
+    const signingKey = { ...newKey, notBefore: newKey.notBefore || new Date(now) };
+    return {
+        ...gsc,
+        signingKey,
+        signingKeys: previousKeys.filter(k => keyId(k) !== keyId(newKey)).map(retire),
+        verificationKeys: [
+            ...toArray(gsc.verificationKeys || []).map(k => previousKeyIds.includes(keyId(k)) ? retire(k) : k),
+            { name: signingKey.name, publicKey: signingKey.publicKey, algorithm: signingKey.algorithm, keyId: keyId(signingKey) },
+        ],
+    };
+}
+
+/**
+ * Return the ID of the key as provided or derived from its public
+ * key.
+ */
+export function keyId(key: RotatingGoalVerificationKey): string {
+    if (!!key.keyId) {
+        return key.keyId;
+    } else if (typeof key.publicKey === "string") {
+        return crypto.createHash("sha256").update(key.publicKey.trim()).digest("hex").slice(0, 16);
     } else {
-        return goal as any;
+        return key.name;
+    }
+}
+
+/**
+ * Determine if the key can sign or verify goals at the provided
+ * time.  Verification keys keep verifying goals for the grace period
+ * after their `notAfter` date.
+ */
+export function isKeyValid(key: GoalKeyValidity, now: number = Date.now(), gracePeriod: number = 0): boolean {
+    if (key.notBefore !== undefined && toTime(key.notBefore) > now) {
+        return false;
+    } else if (key.notAfter !== undefined && toTime(key.notAfter) + gracePeriod < now) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Verify the signatures of the goal.  If the goal data carries the
+ * key ID of the goal signature, the goal signature is verified with
+ * that key and additional signatures with their keys.  Otherwise the
+ * goal was signed by an SDM not supporting key IDs and all keys are
+ * tried.
+ * @return key that verified a signature, undefined if no signature verified
+ */
+function verifySignatures(goal: SdmGoalEvent & DeepPartial<SignatureMixin>,
+                          keys: RotatingGoalVerificationKey[],
+                          gsc: RotatingGoalSigningConfiguration): RotatingGoalVerificationKey | undefined {
+    const message = normalizeGoal(goal);
+    const data = parseGoalData(goal.data);
+    const signatureData: GoalSignatureData = data?.[GoalSignatureDataKey];
+    if (!signatureData?.keyId) {
+        return keys.find(k => verifySignature(message, goal.signature, k, gsc));
+    }
+
+    const key = keys.find(k => keyId(k) === signatureData.keyId);
+    if (!!key && verifySignature(message, goal.signature, key, gsc)) {
+        return key;
+    }
+    const unsignedData = { ...data, [GoalSignatureDataKey]: { keyId: signatureData.keyId } };
+    const additionalMessage = normalizeGoal({ ...goal, data: JSON.stringify(unsignedData) });
+    for (const signature of toArray(signatureData.signatures || [])) {
+        const additionalKey = keys.find(k => keyId(k) === signature.keyId);
+        if (!!additionalKey && verifySignature(additionalMessage, signature.signature, additionalKey, gsc)) {
+            return additionalKey;
+        }
     }
+    return undefined;
+}
+
+/**
+ * Verify the signature with the key.  Errors verifying the signature,
+ * e.g., because of a malformed key or an algorithm not supported by
+ * this Node.js version, are logged and count as not verified so that
+ * one broken key doesn't prevent verification with the others.
+ */
+function verifySignature(message: string,
+                         signature: string,
+                         key: RotatingGoalVerificationKey,
+                         gsc: RotatingGoalSigningConfiguration): boolean {
+    try {
+        return findAlgorithm(key, gsc).verify(message, signature, key);
+    } catch (e) {
+        logger.warn(`Failed to verify goal signature with key '${key.name}' (${keyId(key)}): ${e.message}`);
+        return false;
+    }
+}
+
+/**
+ * Parse the goal data, treating missing data as empty object.
+ * @return goal data or undefined if it is not a JSON object
+ */
+function parseGoalData(data: string | undefined): Record<string, any> | undefined {
+    if (!data) {
+        return {};
+    }
+    try {
+        const parsed = JSON.parse(data);
+        return !!parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : undefined;
+    } catch (e) {
+        return undefined;
+    }
+}
+
+function signingKeys(gsc: RotatingGoalSigningConfiguration): RotatingGoalSigningKey[] {
+    return [
+        ...(!!gsc.signingKey ? [gsc.signingKey] : []),
+        ...toArray(gsc.signingKeys || []),
+    ];
+}
+
+function auditEntry(goal: SdmGoalMessage | SdmGoalEvent,
+                    message: string,
+                    operation: GoalSignatureAuditEntry["operation"],
+                    outcome: GoalSignatureAuditEntry["outcome"],
+                    key?: RotatingGoalVerificationKey): GoalSignatureAuditEntry {
+    const provenance = toArray(goal.provenance || []);
+    return {
+        ts: Date.now(),
+        operation,
+        outcome,
+        goalSetId: goal.goalSetId,
+        uniqueName: goal.uniqueName,
+        state: goal.state,
+        registration: provenance.length > 0 ? provenance[0].registration : goal.registration,
+        keyId: !!key ? keyId(key) : undefined,
+        keyName: key?.name,
+        algorithm: !!key ? (key.algorithm || DefaultGoalSigningAlgorithm.name).toLowerCase() : undefined,
+        payloadHash: payloadHash(message),
+    };
+}
+
+function toTime(date: Date | string | number): number {
+    return new Date(date).getTime();
 }
 
 async function rejectGoal(reason: string,
@@ -153,7 +452,7 @@ async function rejectGoal(reason: string,
 
 function findAlgorithm(key: GoalVerificationKey<any> | GoalSigningKey<any>,
                        gsc: GoalSigningConfiguration): GoalSigningAlgorithm<any> {
-    const algorithm = [...toArray(gsc.algorithms || []), DefaultGoalSigningAlgorithm]
+    const algorithm = [...toArray(gsc.algorithms || []), ...GoalSigningAlgorithms]
         .find(a => a.name.toLowerCase() === (key.algorithm || DefaultGoalSigningAlgorithm.name).toLowerCase());
     if (!algorithm) {
         throw new Error(
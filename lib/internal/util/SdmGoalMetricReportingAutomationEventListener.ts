@@ -16,6 +16,7 @@
 
 import { AutomationClient } from "@atomist/automation-client/lib/automationClient";
 import { EventIncoming } from "@atomist/automation-client/lib/internal/transport/RequestProcessor";
+import { registerShutdownHook } from "@atomist/automation-client/lib/internal/util/shutdown";
 import { AutomationEventListenerSupport } from "@atomist/automation-client/lib/server/AutomationEventListener";
 import {
     defaultStatsDClientOptions,
@@ -26,17 +27,34 @@ import * as cluster from "cluster";
 import * as _ from "lodash";
 import { shouldHandle } from "../delivery/goals/support/validateGoal";
 
+let goalMetricStatsD: StatsDClient | undefined;
+
+/**
+ * StatsD client used to report goal metrics, undefined if StatsD is
+ * not enabled or the SDM has not started yet.
+ */
+export function goalMetricStatsDClient(): StatsDClient | undefined {
+    return goalMetricStatsD;
+}
+
 /**
  * Automation listener that reports goal round trip metrics to StatsD.
+ * The StatsD client it creates on startup is shared with other goal
+ * metrics, see [[goalMetricStatsDClient]].
  */
 export class SdmGoalMetricReportingAutomationEventListener extends AutomationEventListenerSupport {
 
     private statsd: StatsDClient;
 
     public async startupSuccessful(client: AutomationClient): Promise<void> {
-        if (cluster.isMaster && client.configuration.statsd.enabled) {
+        if (client.configuration.statsd.enabled) {
             this.statsd = client.configuration.statsd.client.factory.create(
                 defaultStatsDClientOptions(client.configuration));
+            goalMetricStatsD = this.statsd;
+            registerShutdownHook(async () => {
+                goalMetricStatsD = undefined;
+                return new Promise<number>(resolve => this.statsd.close(() => resolve(0)));
+            }, 5000, "close goal metric StatsD client");
         }
     }
 
@@ -19,6 +19,7 @@ import {
     deepMergeConfigs,
 } from "@atomist/automation-client/lib/configuration";
 import { NoParameters } from "@atomist/automation-client/lib/SmartParameters";
+import { logger } from "@atomist/automation-client/lib/util/logger";
 import { ExtensionPack } from "@atomist/sdm/lib/api/machine/ExtensionPack";
 import { SoftwareDeliveryMachine } from "@atomist/sdm/lib/api/machine/SoftwareDeliveryMachine";
 import { SoftwareDeliveryMachineConfiguration } from "@atomist/sdm/lib/api/machine/SoftwareDeliveryMachineOptions";
@@ -45,9 +46,11 @@ import {
     GoalCreator,
     GoalData,
 } from "../configure";
+import { explainPlanCommand } from "./explainPlan";
 import { decorateSoftwareDeliveryMachine } from "./mapCommand";
 import {
     GoalMaker,
+    GoalTemplates,
     mapGoals,
 } from "./mapGoals";
 import { PushTestMaker } from "./mapPushTests";
@@ -56,6 +59,11 @@ import {
     camelCase,
     watchPaths,
 } from "./util";
+import {
+    formatYamlValidationErrors,
+    validateYaml,
+    YamlValidationError,
+} from "./validateYaml";
 
 export interface YamlSoftwareDeliveryMachineConfiguration {
     extensionPacks?: ExtensionPack[];
@@ -111,6 +119,13 @@ export interface ConfigureYamlOptions<G extends DeliveryGoals> {
     };
 
     target?: Target;
+
+    /**
+     * Validate the yaml files against the JSON Schema before creating
+     * any goals; defaults to true.  Unknown properties are only logged
+     * as warnings.
+     */
+    validate?: boolean;
 }
 
 async function createExtensions(cwd: string,
@@ -168,6 +183,12 @@ async function createExtensions(cwd: string,
             cancellation: {
                 enabled: true,
             },
+            retry: {
+                enabled: true,
+            },
+            approvalExpiry: {
+                enabled: true,
+            },
         }),
         githubGoalStatusSupport(),
     ]));
@@ -178,6 +199,9 @@ async function createExtensions(cwd: string,
  *
  * When providing more than one yaml file, files are being loaded
  * in provided order with later files overwriting earlier ones.
+ *
+ * Goals can extend goal templates defined in the `templates` section
+ * of any of the files.
  */
 export async function configureYaml<G extends DeliveryGoals>(patterns: string | string[],
                                                              options: ConfigureYamlOptions<G> = {}): Promise<Configuration> {
@@ -237,14 +261,34 @@ async function createGoalData<G extends DeliveryGoals>(patterns: string | string
     const files = await resolvePaths(cwd, patterns, true);
 
     const goalData: GoalData = {};
+    const rules: any[] = [];
 
+    const contents: Record<string, string> = {};
+    const problems: YamlValidationError[] = [];
     for (const file of files) {
+        contents[file] = await fs.readFile(path.join(cwd, file), { encoding: "UTF-8" });
+        if (options.validate !== false) {
+            problems.push(...validateYaml(file, contents[file]));
+        }
+    }
+    const [warnings, errors] = _.partition(problems, p => p.severity === "warning");
+    if (warnings.length > 0) {
+        logger.warn(`Unknown properties in yaml configuration:\n${formatYamlValidationErrors(warnings)}`);
+    }
+    if (errors.length > 0) {
+        throw new Error(`Invalid yaml configuration:\n${formatYamlValidationErrors(errors)}`);
+    }
+
+    // Collect goal templates of all files before mapping any goals
+    const documents = files.map(file => yaml.safeLoadAll(contents[file]));
+    const templates: GoalTemplates = {};
+    for (const config of _.flatten(documents)) {
+        if (!!config?.templates) {
+            Object.assign(templates, _.mapValues(config.templates, camelCase));
+        }
+    }
 
-        const configs = yaml.safeLoadAll(
-            await fs.readFile(
-                path.join(cwd, file),
-                { encoding: "UTF-8" },
-            ));
+    for (const configs of documents) {
 
         for (const config of configs) {
 
@@ -263,8 +307,8 @@ async function createGoalData<G extends DeliveryGoals>(patterns: string | string
                 if (config.hasOwnProperty(k)) {
                     const value = config[k];
 
-                    // Ignore two special keys used to set up the SDM
-                    if (k === "name" || k === "configuration" || k === "skill") {
+                    // Ignore special keys used to set up the SDM
+                    if (k === "name" || k === "configuration" || k === "skill" || k === "templates") {
                         continue;
                     }
 
@@ -276,17 +320,29 @@ async function createGoalData<G extends DeliveryGoals>(patterns: string | string
                             additionalGoals,
                             goalMakers,
                             options.tests || {},
-                            testMakers);
+                            testMakers,
+                            templates);
                     }
 
                     if (k === "rules") {
-                        await mapRules(value, goalData, sdm, options, additionalGoals, goalMakers, testMakers);
+                        rules.push(...toArray(value));
+                        await mapRules(value, goalData, sdm, options, additionalGoals, goalMakers, testMakers, templates);
                     }
                 }
             }
         }
     }
 
+    // Allow to explain which rules and goals apply to a push without planning goals
+    if (rules.length > 0) {
+        sdm.addCommand(explainPlanCommand(sdm, {
+            rules,
+            goalData,
+            tests: options.tests,
+            testMakers,
+        }));
+    }
+
     return goalData;
 }
 
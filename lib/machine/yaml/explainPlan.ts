@@ -0,0 +1,354 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    MappedParameter,
+    MappedParameters,
+    Parameters,
+} from "@atomist/automation-client/lib/decorators";
+import { HandlerContext } from "@atomist/automation-client/lib/HandlerContext";
+import { GitHubRepoRef } from "@atomist/automation-client/lib/operations/common/GitHubRepoRef";
+import { ProjectOperationCredentials } from "@atomist/automation-client/lib/operations/common/ProjectOperationCredentials";
+import { minimalClone } from "@atomist/sdm/lib/api-helper/goal/minimalClone";
+import { toRepoTargetingParametersMaker } from "@atomist/sdm/lib/api-helper/machine/handlerRegistrations";
+import { RepoTargetingParameters } from "@atomist/sdm/lib/api-helper/machine/RepoTargetingParameters";
+import {
+    slackErrorMessage,
+    slackInfoMessage,
+    slackWarningMessage,
+} from "@atomist/sdm/lib/api-helper/misc/slack/messages";
+import { GitHubRepoTargets } from "@atomist/sdm/lib/api/command/target/GitHubRepoTargets";
+import { NoPreferenceStore } from "@atomist/sdm/lib/api/context/preferenceStore";
+import { createSkillContext } from "@atomist/sdm/lib/api/context/skillContext";
+import { StatefulPushListenerInvocation } from "@atomist/sdm/lib/api/dsl/goalContribution";
+import { Goal } from "@atomist/sdm/lib/api/goal/Goal";
+import { Goals } from "@atomist/sdm/lib/api/goal/Goals";
+import { SoftwareDeliveryMachine } from "@atomist/sdm/lib/api/machine/SoftwareDeliveryMachine";
+import { PushTest } from "@atomist/sdm/lib/api/mapping/PushTest";
+import { CommandHandlerRegistration } from "@atomist/sdm/lib/api/registration/CommandHandlerRegistration";
+import {
+    bold,
+    codeBlock,
+    codeLine,
+} from "@atomist/slack-messages";
+import * as _ from "lodash";
+import {
+    fetchBranchTips,
+    fetchPushForCommit,
+    tipOfBranch,
+} from "../../util/graph/queryCommits";
+import { toArray } from "../../util/misc/array";
+import {
+    GoalData,
+    GoalStructure,
+} from "../configure";
+import {
+    mapTest,
+    PushTestMaker,
+} from "./mapPushTests";
+import { camelCase } from "./util";
+
+/**
+ * Rules and push tests to explain the plan of a push for
+ */
+export interface ExplainPlanOptions {
+    /** Rules as defined in the yaml files */
+    rules: any[];
+    /** Goal data created from the rules by [[mapRules]] */
+    goalData: GoalData;
+    /** Additional push tests available to the rules */
+    tests?: Record<string, PushTest>;
+    /** Push test extensions available to the rules */
+    testMakers?: Record<string, PushTestMaker>;
+}
+
+/**
+ * Evaluation of a single push test, including the evaluation of its
+ * sub-tests for `and`, `or` and `not`
+ */
+export interface PushTestExplanation {
+    name: string;
+    result: boolean;
+    /** Whether this test decided the result of its parent */
+    decisive: boolean;
+    /** Error raised evaluating the test; such tests evaluate to false */
+    error?: string;
+    children?: PushTestExplanation[];
+}
+
+/**
+ * Goal planned by a rule and the goals it has to wait for
+ */
+export interface GoalExplanation {
+    name: string;
+    dependsOn: string[];
+}
+
+/**
+ * Evaluation of a single rule
+ */
+export interface RuleExplanation {
+    name: string;
+    matched: boolean;
+    /** Name of the push test that decided the rule, undefined if the rule has no tests */
+    decidedBy?: string;
+    test?: PushTestExplanation;
+    /** Names of the rules this rule depends on */
+    dependsOn: string[];
+    goals: GoalExplanation[];
+}
+
+/**
+ * Explanation which rules match a push and the goal set they plan
+ */
+export interface PlanExplanation {
+    rules: RuleExplanation[];
+    /** Goals of all matching rules */
+    goals: GoalExplanation[];
+}
+
+/**
+ * Evaluate all rules and their push tests against the push without
+ * planning or scheduling any goals.
+ *
+ * @param options Rules and push tests to evaluate
+ * @param pli Invocation of the push to evaluate the rules for
+ * @return Evaluation of every rule and the resulting goal set
+ */
+export async function explainPlan(options: ExplainPlanOptions, pli: StatefulPushListenerInvocation): Promise<PlanExplanation> {
+    const rules: RuleExplanation[] = [];
+    const goalsByRule: Record<string, string[]> = {};
+
+    for (const rule of camelCase(toArray(options.rules))) {
+        let test: PushTestExplanation;
+        const tests = toArray(rule.tests || rule.test || []);
+        if (tests.length === 1) {
+            test = await explainTest(tests[0], pli, options);
+        } else if (tests.length > 1) {
+            test = await explainTest({ and: tests }, pli, options);
+        }
+        const matched = !test || test.result;
+        const dependsOn = toArray<string>(rule.dependsOn || []);
+
+        const goals: GoalExplanation[] = [];
+        const structure: GoalStructure = options.goalData[rule.name];
+        let previous = _.flatten(dependsOn.map(d => goalsByRule[d] || []));
+        for (const step of toArray(structure?.goals || [])) {
+            const names = goalNames(step);
+            goals.push(...names.map(name => ({ name, dependsOn: previous })));
+            previous = names;
+        }
+        goalsByRule[rule.name] = goals.map(g => g.name);
+
+        rules.push({
+            name: rule.name,
+            matched,
+            decidedBy: !!test ? decisiveTest(test).name : undefined,
+            test,
+            dependsOn,
+            goals,
+        });
+    }
+
+    return {
+        rules,
+        goals: _.uniqBy(_.flatten(rules.filter(r => r.matched).map(r => r.goals)), "name"),
+    };
+}
+
+/**
+ * Explain the plan of the push of a commit.  The project is cloned
+ * read-only to evaluate the push tests against it.
+ */
+export async function explainPlanForCommit(sdm: SoftwareDeliveryMachine,
+                                           options: ExplainPlanOptions,
+                                           commit: { owner: string, repo: string, branch: string, sha: string, providerId: string },
+                                           context: HandlerContext,
+                                           credentials: ProjectOperationCredentials): Promise<PlanExplanation> {
+    const id = GitHubRepoRef.from({
+        owner: commit.owner,
+        repo: commit.repo,
+        sha: commit.sha,
+        branch: commit.branch,
+    });
+    const push = await fetchPushForCommit(context, id, commit.providerId);
+    if (!push) {
+        throw new Error(`No push found for commit ${commit.sha} of ${commit.owner}/${commit.repo}/${commit.branch}`);
+    }
+    return sdm.configuration.sdm.projectLoader.doWithProject({
+        credentials,
+        id,
+        context,
+        readOnly: true,
+        cloneOptions: minimalClone(push, { detachHead: true }),
+    }, async project => explainPlan(options, {
+        project,
+        credentials,
+        id,
+        push,
+        context,
+        addressChannels: undefined,
+        configuration: sdm.configuration,
+        preferences: NoPreferenceStore,
+        facts: {},
+        skill: createSkillContext(context),
+    }));
+}
+
+/**
+ * Format the plan explanation as tree, one line per rule, push test
+ * and goal.
+ */
+export function formatPlanExplanation(plan: PlanExplanation): string {
+    const lines: string[] = [];
+    const formatTest = (test: PushTestExplanation, indent: string) => {
+        lines.push(`${indent}${test.result ? "+" : "-"} ${test.name}${test.decisive ? " *" : ""}${
+            !!test.error ? ` (error: ${test.error})` : ""}`);
+        (test.children || []).forEach(c => formatTest(c, `${indent}  `));
+    };
+    const formatGoal = (goal: GoalExplanation, indent: string) => {
+        lines.push(`${indent}${goal.name}${goal.dependsOn.length > 0 ? ` <- ${goal.dependsOn.join(", ")}` : ""}`);
+    };
+
+    for (const rule of plan.rules) {
+        lines.push(`${rule.matched ? "+" : "-"} rule ${rule.name}: ${rule.matched ? "matched" : "not matched"}${
+            !!rule.decidedBy ? ` (decided by ${rule.decidedBy})` : " (no tests)"}`);
+        if (rule.dependsOn.length > 0) {
+            lines.push(`    depends on rules ${rule.dependsOn.join(", ")}`);
+        }
+        if (!!rule.test) {
+            lines.push("    tests");
+            formatTest(rule.test, "      ");
+        }
+        if (rule.goals.length > 0) {
+            lines.push("    goals");
+            rule.goals.forEach(g => formatGoal(g, "      "));
+        }
+    }
+    lines.push("");
+    if (plan.goals.length > 0) {
+        lines.push("goal set");
+        plan.goals.forEach(g => formatGoal(g, "  "));
+    } else {
+        lines.push("no goals planned");
+    }
+    return lines.join("\n");
+}
+
+@Parameters()
+export class ExplainPlanParameters {
+
+    @MappedParameter(MappedParameters.GitHubRepositoryProvider)
+    public providerId: string;
+
+}
+
+/**
+ * Command to explain which rules match a commit and which goals would
+ * be planned for it, without planning them.
+ */
+export function explainPlanCommand(sdm: SoftwareDeliveryMachine,
+                                   options: ExplainPlanOptions): CommandHandlerRegistration<ExplainPlanParameters & RepoTargetingParameters> {
+    return {
+        name: "ExplainPlan",
+        description: "Explain which rules and goals apply to a commit",
+        paramsMaker: toRepoTargetingParametersMaker(ExplainPlanParameters, GitHubRepoTargets),
+        intent: `explain plan ${sdm.configuration.name.replace("@", "")}`,
+        listener: async ci => {
+            const repoRef = ci.parameters.targets.repoRef;
+            let branch = repoRef.branch;
+            let sha = repoRef.sha;
+            try {
+                if (!branch || !sha) {
+                    const repoData = await fetchBranchTips(ci.context, {
+                        providerId: ci.parameters.providerId,
+                        owner: repoRef.owner,
+                        repo: repoRef.repo,
+                    });
+                    branch = branch || repoData.defaultBranch;
+                    sha = sha || tipOfBranch(repoData, branch);
+                }
+            } catch (e) {
+                return ci.context.messageClient.respond(slackWarningMessage("Explain Plan", e.message, ci.context));
+            }
+
+            const slug = `${repoRef.owner}/${repoRef.repo}/${branch}`;
+            let plan: PlanExplanation;
+            try {
+                plan = await explainPlanForCommit(
+                    sdm,
+                    options,
+                    { owner: repoRef.owner, repo: repoRef.repo, branch, sha, providerId: ci.parameters.providerId },
+                    ci.context,
+                    ci.credentials);
+            } catch (e) {
+                return ci.context.messageClient.respond(slackErrorMessage(
+                    "Explain Plan",
+                    `Failed to explain plan of ${codeLine(sha.slice(0, 7))} of ${bold(slug)}: ${e.message}`,
+                    ci.context));
+            }
+            return ci.context.messageClient.respond(
+                slackInfoMessage(
+                    "Explain Plan",
+                    `Plan of ${codeLine(sha.slice(0, 7))} of ${bold(slug)}:\n${codeBlock(formatPlanExplanation(plan))}`));
+        },
+    };
+}
+
+async function explainTest(test: any,
+                           pli: StatefulPushListenerInvocation,
+                           options: ExplainPlanOptions): Promise<PushTestExplanation> {
+    const t = typeof test !== "string" && !Array.isArray(test) && typeof test !== "function" ? camelCase(test) : test;
+    if (!!t && (!!t.and || !!t.or)) {
+        const operator = !!t.and ? "and" : "or";
+        const children: PushTestExplanation[] = [];
+        for (const child of toArray(t[operator])) {
+            children.push(await explainTest(child, pli, options));
+        }
+        // an and is decided by its first failing test and an or by its first passing test; without such a test all tests decide
+        const decidingValue = operator === "or";
+        const result = operator === "and" ? children.every(c => c.result) : children.some(c => c.result);
+        const deciding = children.find(c => c.result === decidingValue);
+        if (!!deciding) {
+            deciding.decisive = true;
+        } else {
+            children.forEach(c => c.decisive = true);
+        }
+        return { name: operator, result, decisive: false, children };
+    } else if (!!t && !!t.not) {
+        const child = await explainTest(t.not, pli, options);
+        child.decisive = true;
+        return { name: "not", result: !child.result, decisive: false, children: [child] };
+    }
+
+    let pt: PushTest;
+    try {
+        pt = await mapTest(t, options.tests || {}, options.testMakers || {});
+        return { name: pt.name, result: !!(await pt.mapping(pli)), decisive: false };
+    } catch (e) {
+        return { name: !!pt ? pt.name : JSON.stringify(test), result: false, decisive: false, error: e.message };
+    }
+}
+
+/** Follow the decisive sub-tests down to the push test that decided the result */
+function decisiveTest(test: PushTestExplanation): PushTestExplanation {
+    const child = (test.children || []).find(c => c.decisive);
+    return !!child ? decisiveTest(child) : test;
+}
+
+function goalNames(step: Goal | Goals | Array<Goal | Goals>): string[] {
+    return _.flatten(toArray(step).map(g => (g as Goals).goals ? (g as Goals).goals.map(sg => sg.name) : [(g as Goal).name]));
+}
@@ -26,6 +26,7 @@ import { ImmaterialGoals } from "@atomist/sdm/lib/api/goal/common/Immaterial";
 import { Locking } from "@atomist/sdm/lib/api/goal/common/Locking";
 import { Queue } from "@atomist/sdm/lib/api/goal/common/Queue";
 import { Goal } from "@atomist/sdm/lib/api/goal/Goal";
+import { Goals } from "@atomist/sdm/lib/api/goal/Goals";
 import { GoalWithFulfillment } from "@atomist/sdm/lib/api/goal/GoalWithFulfillment";
 import { SdmGoalEvent } from "@atomist/sdm/lib/api/goal/SdmGoalEvent";
 import { SoftwareDeliveryMachine } from "@atomist/sdm/lib/api/machine/SoftwareDeliveryMachine";
@@ -38,7 +39,13 @@ import {
     cachePut,
     cacheRestore,
 } from "../../goal/cache/goalCaching";
+import {
+    withApprovalPolicy,
+    withPreApprovalPolicy,
+} from "../../goal/common/approval";
+import { withRetry } from "../../goal/common/retry";
 import { skill } from "../../goal/common/skill";
+import { withTimeout } from "../../goal/common/timeout";
 import { action } from "../../goal/container/action";
 import {
     container,
@@ -49,13 +56,18 @@ import {
     GoalContainerSpec,
 } from "../../goal/container/container";
 import { execute } from "../../goal/container/execute";
+import { matrix } from "../../goal/container/matrix";
+import { goalParameters } from "../../pack/goal-state/goalParameters";
 import { toArray } from "../../util/misc/array";
 import { DeliveryGoals } from "../configure";
 import {
     mapTests,
     PushTestMaker,
 } from "./mapPushTests";
-import { resolvePlaceholder } from "./resolvePlaceholder";
+import {
+    resolveParameterPlaceholder,
+    resolvePlaceholder,
+} from "./resolvePlaceholder";
 import { camelCase } from "./util";
 
 // tslint:disable:max-file-line-count
@@ -63,12 +75,19 @@ import { camelCase } from "./util";
 export type GoalMaker<G extends Record<string, any> = {}> =
     (sdm: SoftwareDeliveryMachine, params: G) => Promise<Goal> | Goal;
 
+/**
+ * Partial goal definitions from the `templates` sections of the yaml
+ * files, keyed by template name
+ */
+export type GoalTemplates = Record<string, any>;
+
 type MapGoal = (goals: any,
                 sdm: SoftwareDeliveryMachine,
                 additionalGoals: DeliveryGoals,
                 goalMakers: Record<string, GoalMaker>,
                 additionalTests: Record<string, PushTest>,
-                extensionTests: Record<string, PushTestMaker>) => Promise<Goal | Goal[]>;
+                extensionTests: Record<string, PushTestMaker>,
+                templates: GoalTemplates) => Promise<Goal | Goal[] | Goals>;
 
 const MapContainer: MapGoal = async (goals: any,
                                      sdm: SoftwareDeliveryMachine,
@@ -103,6 +122,14 @@ const MapContainer: MapGoal = async (goals: any,
                 parameters: goals.parameters,
                 fulfillment: goals.fulfillment,
             });
+        if (!!goals.matrix) {
+            addDetails(g, goals);
+            return matrix(g as Container, {
+                matrix: goals.matrix,
+                failFast: goals.failFast,
+                maxParallel: goals.maxParallel,
+            });
+        }
         return g;
     }
 
@@ -172,7 +199,8 @@ const MapReferenced: MapGoal = async (goals: any,
                                       additionalGoals: DeliveryGoals,
                                       goalMakers: Record<string, GoalMaker>,
                                       additionalTests: Record<string, PushTest>,
-                                      extensionTests: Record<string, PushTestMaker>) => {
+                                      extensionTests: Record<string, PushTestMaker>,
+                                      templates: GoalTemplates) => {
     const ref = goals.ref;
     if (!!ref && ref.includes("/")) {
         const parameters = goals.parameters || {};
@@ -184,7 +212,8 @@ const MapReferenced: MapGoal = async (goals: any,
                 additionalGoals,
                 goalMakers,
                 additionalTests,
-                extensionTests);
+                extensionTests,
+                templates);
         }
     }
 
@@ -269,45 +298,123 @@ export async function mapGoals(sdm: SoftwareDeliveryMachine,
                                additionalGoals: DeliveryGoals,
                                goalMakers: Record<string, GoalMaker>,
                                additionalTests: Record<string, PushTest>,
-                               extensionTests: Record<string, PushTestMaker>): Promise<Goal | Goal[]> {
+                               extensionTests: Record<string, PushTestMaker>,
+                               templates: GoalTemplates = {}): Promise<Goal | Goal[] | Goals> {
     if (Array.isArray(goals)) {
         const newGoals: any[] = [];
         for (const g of toArray(goals)) {
-            newGoals.push(await mapGoals(sdm, g, additionalGoals, goalMakers, additionalTests, extensionTests));
+            newGoals.push(await mapGoals(sdm, g, additionalGoals, goalMakers, additionalTests, extensionTests, templates));
         }
         return newGoals;
     } else {
+        const definition = !!goals?.extends ? await extendGoalTemplates(goals, templates) : goals;
         let goal;
         for (const mapGoal of MapGoals) {
-            goal = await mapGoal(goals, sdm, additionalGoals, goalMakers, additionalTests, extensionTests);
+            goal = await mapGoal(definition, sdm, additionalGoals, goalMakers, additionalTests, extensionTests, templates);
             if (!!goal) {
-                if (!Array.isArray(goal)) {
-                    addDetails(goal, goals);
+                // Matrix container goals already got their details
+                if (!Array.isArray(goal) && !(goal instanceof Goals)) {
+                    addDetails(goal, definition);
 
                     // Container goal handle their own caching
                     if (!(goal instanceof Container)) {
-                        addCaching(goal, goals);
+                        addCaching(goal, definition);
                     }
                 }
                 return goal;
             }
         }
+        throw new Error(`Unable to construct goal from '${stringify(definition)}'`);
+    }
+}
+
+/**
+ * Create the goal definition from the templates it extends.  Templates
+ * are deep merged in order, followed by the goal definition itself;
+ * arrays of named objects are merged by name, other arrays are
+ * replaced.  Before merging, `parameters.` placeholders in the
+ * templates are replaced with the parameters of the goal, falling
+ * back to the parameters of the templates.  All other placeholders
+ * are resolved when the goal executes.
+ */
+export async function extendGoalTemplates(goals: any, templates: GoalTemplates): Promise<any> {
+    const { extends: names, ...definition } = goals;
+    const template = _.cloneDeep(mergeGoalTemplates(names, templates, [], goals));
+    const parameters = mergeGoalDefinitions(
+        { parameters: template.parameters },
+        { parameters: definition.parameters }).parameters;
+    await resolvePlaceholders(template, value => resolveParameterPlaceholder(value, parameters || {}));
+    return mergeGoalDefinitions(template, definition);
+}
+
+function mergeGoalTemplates(names: string | string[],
+                            templates: GoalTemplates,
+                            extending: string[],
+                            goals: any): any {
+    const extended: any[] = [];
+    for (const name of toArray(names)) {
+        if (extending.includes(name)) {
+            throw new Error(`Cyclic extension of goal template '${name}': ${[...extending, name].join(" -> ")}`);
+        }
+        const template = templates[name];
+        if (!template) {
+            throw new Error(`Goal template '${name}' extended by '${goals.name || stringify(goals)}' not found`);
+        }
+        const { extends: parents, ...definition } = template;
+        extended.push(!!parents ?
+            mergeGoalDefinitions(mergeGoalTemplates(parents, templates, [...extending, name], template), definition) :
+            definition);
     }
+    return mergeGoalDefinitions(...extended);
+}
 
-    throw new Error(`Unable to construct goal from '${stringify(goals)}'`);
+function mergeGoalDefinitions(...definitions: any[]): any {
+    return _.mergeWith({}, ...definitions, mergeArrays);
+}
+
+/**
+ * Merge arrays of named objects, e.g., containers, env or volumes, by
+ * name, appending new elements.  All other arrays are replaced.
+ */
+function mergeArrays(objValue: any, srcValue: any): any {
+    if (!Array.isArray(srcValue)) {
+        return undefined;
+    }
+    const named = (v: any[]) => v.every(e => _.isPlainObject(e) && !!e.name);
+    if (!Array.isArray(objValue) || !named(objValue) || !named(srcValue)) {
+        return srcValue;
+    }
+    const merged = objValue.map(o => {
+        const s = srcValue.find(e => e.name === o.name);
+        return !!s ? _.mergeWith({}, o, s, mergeArrays) : o;
+    });
+    merged.push(...srcValue.filter(s => !objValue.some(o => o.name === s.name)));
+    return merged;
 }
 
 function addDetails(goal: Goal, goals: any): Goal {
     (goal as any).definition = _.cloneDeep(goal.definition);
-    if (goals.approval !== undefined) {
+    if (typeof goals.approval === "object") {
+        withApprovalPolicy(goal, goals.approval);
+    } else if (goals.approval !== undefined) {
         goal.definition.approvalRequired = goals.approval;
     }
-    if (goals.preApproval !== undefined) {
+    if (typeof goals.preApproval === "object") {
+        withPreApprovalPolicy(goal, goals.preApproval);
+    } else if (goals.preApproval !== undefined) {
         goal.definition.preApprovalRequired = goals.preApproval;
     }
-    if (goals.retry !== undefined) {
+    if (typeof goals.retry === "object") {
+        withRetry(goal, goals.retry);
+    } else if (goals.retry !== undefined) {
         goal.definition.retryFeasible = goals.retry;
     }
+    if (goals.timeout !== undefined) {
+        const timeout = goals.timeout;
+        withTimeout(goal, typeof timeout === "object" ?
+            { duration: timeout.duration, state: timeout.state, retryFeasible: timeout.retry } :
+            timeout);
+    }
     if (!!goals.descriptions) {
         const descriptions = goals.descriptions;
         goal.definition.canceledDescription = descriptions.canceled;
@@ -440,6 +547,7 @@ async function resolvePlaceholderContainerSpecCallback(r: ContainerRegistration,
                                                        g: Container,
                                                        e: SdmGoalEvent,
                                                        ctx: RepoContext): Promise<GoalContainerSpec> {
-    await resolvePlaceholders(r as any, value => resolvePlaceholder(value, e, ctx, (ctx as any).parameters));
+    const parameters = { ...goalParameters(e as SdmGoalEvent & { parameters?: string }), ...((ctx as any).parameters || {}) };
+    await resolvePlaceholders(r as any, value => resolvePlaceholder(value, e, ctx, parameters));
     return r;
 }
@@ -81,8 +81,17 @@ const IsBranch: CreatePushTest = async test => {
     return undefined;
 };
 
+/**
+ * Determine if the push test is one of the string forms of the
+ * default branch push test, e.g., `is_default_branch` or
+ * `ToDefaultBranch`.
+ */
+export function isDefaultBranchTest(test: any): boolean {
+    return typeof test === "string" && ["isDefaultBranch", "toDefaultBranch"].includes(changeCase.camel(test));
+}
+
 const IsDefaultBranch: CreatePushTest = async test => {
-    if (["isDefaultBranch", "toDefaultBranch"].includes(changeCase.camel(test))) {
+    if (isDefaultBranchTest(test)) {
         return ToDefaultBranch;
     }
     return undefined;
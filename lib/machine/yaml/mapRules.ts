@@ -23,6 +23,7 @@ import {
 import { ConfigureYamlOptions } from "./configureYaml";
 import {
     GoalMaker,
+    GoalTemplates,
     mapGoals,
 } from "./mapGoals";
 import {
@@ -37,7 +38,8 @@ export async function mapRules(rules: any,
                                options: ConfigureYamlOptions<any>,
                                additionalGoals: DeliveryGoals,
                                goalMakers: Record<string, GoalMaker>,
-                               testMakers: Record<string, PushTestMaker>): Promise<void> {
+                               testMakers: Record<string, PushTestMaker>,
+                               templates: GoalTemplates = {}): Promise<void> {
 
     for (const rule of camelCase(toArray(rules))) {
         if (!rule.name) {
@@ -58,7 +60,8 @@ export async function mapRules(rules: any,
             additionalGoals,
             goalMakers,
             options.tests || {},
-            testMakers);
+            testMakers,
+            templates);
         const dependsOn = rule.dependsOn;
 
         goalData[rule.name] = {
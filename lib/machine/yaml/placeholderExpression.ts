@@ -0,0 +1,281 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as moment from "moment";
+
+/**
+ * Resolve the value of a path like `push.after.sha` or
+ * `parameters.images[0].name`, provided as its segments.
+ */
+export type PathResolver = (path: Array<string | number>) => Promise<any>;
+
+type ExpressionFunction = (...args: any[]) => any;
+
+/**
+ * Functions available in placeholder expressions.  When used after a
+ * pipe, e.g., `${push.branch | lower}`, the piped value is passed as
+ * first argument.
+ */
+export const PlaceholderFunctions: Record<string, ExpressionFunction> = {
+    lower: (s: any) => str(s)?.toLowerCase(),
+    upper: (s: any) => str(s)?.toUpperCase(),
+    trim: (s: any) => str(s)?.trim(),
+    replace: (s: any, search: string, replacement: string = "") => str(s)?.split(str(search)).join(str(replacement)),
+    substring: (s: any, start: number, end?: number) => str(s)?.substring(start, end),
+    short: (s: any, length: number = 7) => str(s)?.slice(0, length),
+    default: (v: any, defaultValue: any) => v === undefined || v === null || v === "" ? defaultValue : v,
+    json: (v: any) => JSON.stringify(v),
+    date: (...args: any[]) => {
+        const [value, format] = args.length < 2 ? [Date.now(), args[0]] : args;
+        return moment.utc(typeof value === "string" && /^\d+$/.test(value) ? +value : value).format(format);
+    },
+};
+
+/** Parsed placeholder expression */
+export type PlaceholderExpression =
+    { type: "literal", value: any } |
+    { type: "path", segments: Array<string | number> } |
+    { type: "call", name: string, args: PlaceholderExpression[] } |
+    { type: "not", operand: PlaceholderExpression } |
+    { type: "binary", operator: "==" | "!=" | "&&" | "||", left: PlaceholderExpression, right: PlaceholderExpression } |
+    { type: "conditional", test: PlaceholderExpression, consequent: PlaceholderExpression, alternate: PlaceholderExpression };
+
+interface Token {
+    type: "string" | "number" | "identifier" | "punctuation";
+    value: string;
+}
+
+const UnsafeSegments = ["__proto__", "prototype", "constructor"];
+
+/**
+ * Evaluate a placeholder expression.  Expressions support paths,
+ * string and number literals, `==`, `!=`, `&&`, `||`, `!`, the
+ * conditional operator `test ? a : b`, calls of the
+ * [[PlaceholderFunctions]] and pipes into them.  No other code can be
+ * executed.
+ *
+ * @param expression Expression without the surrounding `${}`, or the parsed expression
+ * @param resolve Resolver for the paths used in the expression
+ * @return Value of the expression, undefined if it references paths that do not exist
+ */
+export async function evaluateExpression(expression: string | PlaceholderExpression, resolve: PathResolver): Promise<any> {
+    return evaluate(typeof expression === "string" ? parseExpression(expression) : expression, resolve);
+}
+
+/**
+ * Parse the placeholder expression, throwing an error if it is not
+ * valid.
+ */
+export function parseExpression(expression: string): PlaceholderExpression {
+    const tokens = tokenize(expression);
+    let position = 0;
+
+    const peek = (value?: string): boolean =>
+        position < tokens.length && (value === undefined || (tokens[position].type === "punctuation" && tokens[position].value === value));
+    const expect = (value: string): void => {
+        if (!peek(value)) {
+            throw new Error(`Expected '${value}' in expression '${expression}'`);
+        }
+        position++;
+    };
+
+    const parseConditional = (): PlaceholderExpression => {
+        const test = parseBinary(0);
+        if (peek("?")) {
+            position++;
+            const consequent = parseConditional();
+            expect(":");
+            const alternate = parseConditional();
+            return { type: "conditional", test, consequent, alternate };
+        }
+        return test;
+    };
+
+    const precedence: string[][] = [["||"], ["&&"], ["==", "!="]];
+    const parseBinary = (level: number): PlaceholderExpression => {
+        if (level >= precedence.length) {
+            return parsePipe();
+        }
+        let left = parseBinary(level + 1);
+        while (precedence[level].some(peek)) {
+            const operator = tokens[position++].value as any;
+            left = { type: "binary", operator, left, right: parseBinary(level + 1) };
+        }
+        return left;
+    };
+
+    const parsePipe = (): PlaceholderExpression => {
+        let value = parseUnary();
+        while (peek("|")) {
+            position++;
+            const name = parseIdentifier();
+            const args = peek("(") ? parseArguments() : [];
+            value = { type: "call", name, args: [value, ...args] };
+        }
+        return value;
+    };
+
+    const parseUnary = (): PlaceholderExpression => {
+        if (peek("!")) {
+            position++;
+            return { type: "not", operand: parseUnary() };
+        }
+        return parsePrimary();
+    };
+
+    const parseIdentifier = (): string => {
+        if (position >= tokens.length || tokens[position].type !== "identifier") {
+            throw new Error(`Expected identifier in expression '${expression}'`);
+        }
+        return tokens[position++].value;
+    };
+
+    const parseArguments = (): PlaceholderExpression[] => {
+        expect("(");
+        const args: PlaceholderExpression[] = [];
+        while (!peek(")")) {
+            args.push(parseConditional());
+            if (!peek(")")) {
+                expect(",");
+            }
+        }
+        expect(")");
+        return args;
+    };
+
+    const parsePrimary = (): PlaceholderExpression => {
+        if (position >= tokens.length) {
+            throw new Error(`Unexpected end of expression '${expression}'`);
+        }
+        const token = tokens[position];
+        if (token.type === "string") {
+            position++;
+            return { type: "literal", value: token.value };
+        } else if (token.type === "number") {
+            position++;
+            return { type: "literal", value: +token.value };
+        } else if (peek("(")) {
+            position++;
+            const nested = parseConditional();
+            expect(")");
+            return nested;
+        } else if (token.type === "identifier") {
+            const name = parseIdentifier();
+            if (["true", "false", "null"].includes(name)) {
+                return { type: "literal", value: JSON.parse(name) };
+            } else if (peek("(")) {
+                return { type: "call", name, args: parseArguments() };
+            }
+            const segments: Array<string | number> = [name];
+            while (peek(".") || peek("[")) {
+                if (tokens[position++].value === ".") {
+                    segments.push(parseIdentifier());
+                } else {
+                    const index = tokens[position++];
+                    if (!index || (index.type !== "string" && index.type !== "number")) {
+                        throw new Error(`Expected string or number index in expression '${expression}'`);
+                    }
+                    segments.push(index.type === "number" ? +index.value : index.value);
+                    expect("]");
+                }
+            }
+            return { type: "path", segments };
+        }
+        throw new Error(`Unexpected '${token.value}' in expression '${expression}'`);
+    };
+
+    const node = parseConditional();
+    if (position < tokens.length) {
+        throw new Error(`Unexpected '${tokens[position].value}' in expression '${expression}'`);
+    }
+    return node;
+}
+
+async function evaluate(node: PlaceholderExpression, resolve: PathResolver): Promise<any> {
+    switch (node.type) {
+        case "literal":
+            return node.value;
+        case "path":
+            if (node.segments.some(s => UnsafeSegments.includes(s as string))) {
+                throw new Error(`Invalid path '${node.segments.join(".")}'`);
+            }
+            return resolve(node.segments);
+        case "not":
+            return !(await evaluate(node.operand, resolve));
+        case "conditional":
+            return (await evaluate(node.test, resolve)) ?
+                evaluate(node.consequent, resolve) :
+                evaluate(node.alternate, resolve);
+        case "binary":
+            const left = await evaluate(node.left, resolve);
+            switch (node.operator) {
+                case "&&":
+                    return left && evaluate(node.right, resolve);
+                case "||":
+                    return left || evaluate(node.right, resolve);
+                case "==":
+                    return left === await evaluate(node.right, resolve);
+                case "!=":
+                    return left !== await evaluate(node.right, resolve);
+            }
+            break;
+        case "call":
+            if (!PlaceholderFunctions.hasOwnProperty(node.name)) {
+                throw new Error(`Unknown function '${node.name}'`);
+            }
+            const args = [];
+            for (const arg of node.args) {
+                args.push(await evaluate(arg, resolve));
+            }
+            return PlaceholderFunctions[node.name](...args);
+    }
+    return undefined;
+}
+
+function tokenize(expression: string): Token[] {
+    const tokenExpression = /\s*(?:("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|(-?\d+(?:\.\d+)?)|([a-zA-Z_$][\w$-]*)|(==|!=|&&|\|\||[|!?:.,()[\]]))/y;
+    const tokens: Token[] = [];
+    let position = 0;
+    while (position < expression.length) {
+        if (/^\s+$/.test(expression.slice(position))) {
+            break;
+        }
+        tokenExpression.lastIndex = position;
+        const match = tokenExpression.exec(expression);
+        if (!match) {
+            throw new Error(`Unexpected character '${expression.slice(position).trim()[0]}' in expression '${expression}'`);
+        }
+        if (match[1] !== undefined) {
+            const quoted = match[1];
+            tokens.push({
+                type: "string",
+                value: quoted.slice(1, -1).replace(/\\(.)/g, "$1"),
+            });
+        } else if (match[2] !== undefined) {
+            tokens.push({ type: "number", value: match[2] });
+        } else if (match[3] !== undefined) {
+            tokens.push({ type: "identifier", value: match[3] });
+        } else {
+            tokens.push({ type: "punctuation", value: match[4] });
+        }
+        position = tokenExpression.lastIndex;
+    }
+    return tokens;
+}
+
+function str(value: any): string | undefined {
+    return value === undefined || value === null ? undefined : String(value);
+}
@@ -20,15 +20,31 @@ import { SdmGoalEvent } from "@atomist/sdm/lib/api/goal/SdmGoalEvent";
 import * as _ from "lodash";
 import * as os from "os";
 import { getGoalVersion } from "../../internal/delivery/build/local/projectVersioner";
+import {
+    evaluateExpression,
+    parseExpression,
+    PlaceholderExpression,
+} from "./placeholderExpression";
 import { camelCase } from "./util";
 
+/**
+ * Replace all placeholders in the value.  Placeholders are either
+ * simple lookups like `${push.after.sha}`, optionally with a default
+ * value `${parameters.tag:latest}` or the optional prefix
+ * `${!parameters.tag}`, or expressions like
+ * `${push.branch | replace("/", "-") | lower}` or
+ * `${push.branch == "master" ? "latest" : push.after.sha | short}`.
+ * Environment variables are available through the `env.` namespace,
+ * the values of matrix cells through the `matrix.` namespace.
+ * @see evaluateExpression
+ */
 // tslint:disable-next-line:cyclomatic-complexity
 export async function resolvePlaceholder(value: string,
                                          goal: SdmGoalEvent,
                                          ctx: Pick<RepoContext, "configuration" | "context" | "skill">,
                                          parameters: Record<string, any>,
                                          raiseError: boolean = true): Promise<string> {
-    const placeholderExpression = /\$\{([!.a-zA-Z_-]+)([.:0-9a-zA-Z-_ \" ]*)\}/g;
+    const placeholderExpression = placeholderRegExp();
     if (!placeholderExpression.test(value)) {
         return value;
     }
@@ -39,36 +55,43 @@ export async function resolvePlaceholder(value: string,
     // tslint:disable-next-line:no-conditional-assignment
     while (result = placeholderExpression.exec(currentValue)) {
         const fm = result[0];
-        const placeholder = result[1].startsWith("!") ? result[1].slice(1) : result[1];
-        const optional = result[1].startsWith("!");
-        let envValue = _.get(goal, placeholder) ||
-            _.get(ctx.configuration, placeholder) ||
-            _.get(ctx.configuration, camelCase(placeholder)) ||
-            _.get(ctx.context, placeholder) ||
-            _.get(ctx.context, camelCase(placeholder)) ||
-            _.get({ parameters }, placeholder) ||
-            _.get({ parameters }, camelCase(placeholder)) ||
-            _.get({ skill: ctx.skill }, placeholder) ||
-            _.get({ skill: ctx.skill}, camelCase(placeholder));
-
-        if (placeholder === "home") {
-            envValue = os.userInfo().homedir;
-        } else if (placeholder === "push.after.version" && !!goal) {
-            envValue = await getGoalVersion({
-                context: ctx.context,
-                owner: goal.repo.owner,
-                repo: goal.repo.name,
-                providerId: goal.repo.providerId,
-                branch: goal.branch,
-                sha: goal.sha,
-            });
+        const simple = SimplePlaceholderExpression.exec(result[1]);
+        let envValue;
+        let defaultValue;
+        let optional = false;
+        if (!!simple) {
+            const placeholder = simple[1].startsWith("!") ? simple[1].slice(1) : simple[1];
+            optional = simple[1].startsWith("!");
+            envValue = await lookupPlaceholder(placeholder, goal, ctx, parameters);
+            defaultValue = simple[2] ? simple[2].trim().slice(1) : undefined;
+        } else if (PlaceholderExpressionIndicator.test(result[1])) {
+            let expression: PlaceholderExpression;
+            try {
+                expression = parseExpression(result[1]);
+            } catch (e) {
+                // Not an expression, e.g., some shell parameter expansion
+                continue;
+            }
+            try {
+                envValue = await evaluateExpression(expression,
+                    async segments => lookupPlaceholder(segments, goal, ctx, parameters));
+            } catch (e) {
+                if (raiseError) {
+                    throw new Error(`Placeholder '${result[1]}' can't be resolved: ${e.message}`);
+                }
+                continue;
+            }
+            if (typeof envValue === "number" || typeof envValue === "boolean") {
+                envValue = envValue.toString();
+            }
+        } else {
+            continue;
         }
-        const defaultValue = result[2] ? result[2].trim().slice(1) : undefined;
 
         if (typeof envValue === "string") {
             currentValue = currentValue.split(fm).join(envValue);
             placeholderExpression.lastIndex = 0;
-        } else if (typeof envValue === "object" && value === fm) {
+        } else if (typeof envValue === "object" && envValue !== null && value === fm) {
             return envValue;
         } else if (defaultValue) {
             currentValue = currentValue.split(fm).join(defaultValue);
@@ -84,3 +107,69 @@ export async function resolvePlaceholder(value: string,
     }
     return currentValue;
 }
+
+/**
+ * Replace only the placeholders of parameters that are defined, e.g.,
+ * `${parameters.version}`.  All other placeholders as well as default
+ * values and optional placeholders of undefined parameters are left
+ * untouched to be resolved when the goal executes.
+ */
+export async function resolveParameterPlaceholder(value: string, parameters: Record<string, any>): Promise<string> {
+    return value.replace(placeholderRegExp(), (fm, placeholder) => {
+        const simple = SimplePlaceholderExpression.exec(placeholder);
+        const path = !!simple ? simple[1].replace(/^!/, "") : "";
+        if (!path.startsWith("parameters.")) {
+            return fm;
+        }
+        const parameter = _.get({ parameters }, path) ?? _.get({ parameters }, camelCase(path));
+        if (["string", "number", "boolean"].includes(typeof parameter)) {
+            return `${parameter}`;
+        }
+        return fm;
+    });
+}
+
+/** Placeholder with its content, which may contain quoted strings */
+function placeholderRegExp(): RegExp {
+    return /\$\{((?:"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[^{}"'$]|\$(?!\{))+)\}/g;
+}
+
+/** Placeholder consisting of a path with optional default value */
+const SimplePlaceholderExpression = /^([!.a-zA-Z_-]+)([.:0-9a-zA-Z-_ \" ]*)$/;
+
+/** Placeholder that is a path with indexes or uses operators or functions */
+const PlaceholderExpressionIndicator = /^\s*[a-zA-Z_$][\w$-]*(\.[\w$-]+|\[[^\]]*\])*\s*$|[|()?]|==|!=|&&/;
+
+async function lookupPlaceholder(placeholder: string | Array<string | number>,
+                                 goal: SdmGoalEvent,
+                                 ctx: Pick<RepoContext, "configuration" | "context" | "skill">,
+                                 parameters: Record<string, any>): Promise<any> {
+    const path = typeof placeholder === "string" ? placeholder : placeholder.join(".");
+    const camelCasePath = typeof placeholder === "string" ? camelCase(placeholder) :
+        placeholder.map(p => typeof p === "string" ? camelCase(p) : p);
+    if (path === "home") {
+        return os.userInfo().homedir;
+    } else if (path === "push.after.version" && !!goal) {
+        return getGoalVersion({
+            context: ctx.context,
+            owner: goal.repo.owner,
+            repo: goal.repo.name,
+            providerId: goal.repo.providerId,
+            branch: goal.branch,
+            sha: goal.sha,
+        });
+    } else if (path.startsWith("env.")) {
+        return process.env[path.slice("env.".length)];
+    }
+    return _.get(goal, placeholder) ||
+        _.get(ctx.configuration, placeholder) ||
+        _.get(ctx.configuration, camelCasePath) ||
+        _.get(ctx.context, placeholder) ||
+        _.get(ctx.context, camelCasePath) ||
+        _.get({ parameters }, placeholder) ||
+        _.get({ parameters }, camelCasePath) ||
+        _.get({ matrix: parameters?.matrix }, placeholder) ||
+        _.get({ matrix: parameters?.matrix }, camelCasePath) ||
+        _.get({ skill: ctx.skill }, placeholder) ||
+        _.get({ skill: ctx.skill }, camelCasePath);
+}
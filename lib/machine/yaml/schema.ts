@@ -16,6 +16,8 @@
 
 import { Parameterized } from "@atomist/sdm/lib/api/goal/GoalWithFulfillment";
 
+// tslint:disable:max-file-line-count
+
 export const AtomistYamlFileName = "atomist.yaml";
 
 export interface AtomistYaml {
@@ -68,3 +70,471 @@ export interface AtomistYaml {
 export interface PackageUse extends Parameterized {
     use: string;
 }
+
+const stringOrArray = {
+    if: { type: "array" },
+    then: { type: "array", items: { type: "string" } },
+    else: { type: "string" },
+};
+
+const stringOrRegExp = {
+    if: { type: "object" },
+    then: {
+        type: "object",
+        properties: { regexp: { type: "string" } },
+        required: ["regexp"],
+        additionalProperties: false,
+    },
+    else: { type: "string" },
+};
+
+const globPatterns = {
+    globPattern: stringOrArray,
+    globPatterns: stringOrArray,
+    pattern: stringOrArray,
+    patterns: stringOrArray,
+};
+
+const cacheKey = {
+    classifier: { type: "string" },
+    key: { type: "string" },
+    restoreKeys: { type: "array", items: { type: "string" } },
+};
+
+const goalProperties = {
+    name: { type: "string" },
+    extends: stringOrArray,
+    use: { type: "string" },
+    ref: { type: "string" },
+    parameters: { type: "object" },
+    containers: { type: "array", items: { $ref: "#/definitions/container" }, minItems: 1 },
+    initContainers: { type: "array", items: { $ref: "#/definitions/container" } },
+    volumes: {
+        type: "array",
+        items: {
+            type: "object",
+            properties: { name: { type: "string" } },
+            required: ["name"],
+        },
+    },
+    matrix: {
+        type: "object",
+        minProperties: 1,
+        additionalProperties: {
+            if: { type: "array" },
+            then: { type: "array", items: { type: ["string", "number", "boolean"] }, minItems: 1 },
+            else: { type: ["string", "number", "boolean"] },
+        },
+    },
+    failFast: { type: "boolean" },
+    maxParallel: { type: "integer", minimum: 1 },
+    execute: {
+        type: "object",
+        properties: {
+            name: { type: "string" },
+            command: { type: "string" },
+            cmd: { type: "string" },
+            args: stringOrArray,
+            secrets: {},
+        },
+        additionalProperties: false,
+    },
+    action: { type: "string" },
+    fulfillment: { type: "object" },
+    secrets: {},
+    input: { type: "array", items: { $ref: "#/definitions/cacheInput" } },
+    output: { type: "array", items: { $ref: "#/definitions/cacheOutput" } },
+    approval: { $ref: "#/definitions/approval" },
+    preApproval: { $ref: "#/definitions/approval" },
+    retry: {
+        if: { type: "object" },
+        then: {
+            type: "object",
+            properties: {
+                maxAttempts: { type: "integer", minimum: 1 },
+                backoff: {
+                    type: "object",
+                    properties: {
+                        initial: { type: ["string", "number"] },
+                        multiplier: { type: "number", minimum: 1 },
+                        max: { type: ["string", "number"] },
+                    },
+                    additionalProperties: false,
+                },
+                phases: { type: "array", items: { type: "string" } },
+                exitCodes: { type: "array", items: { type: "integer" } },
+            },
+            required: ["maxAttempts"],
+            additionalProperties: false,
+        },
+        else: { type: "boolean" },
+    },
+    timeout: {
+        if: { type: "object" },
+        then: {
+            type: "object",
+            properties: {
+                duration: { type: ["string", "number"] },
+                state: { enum: ["canceled", "failure"] },
+                retry: { type: "boolean" },
+            },
+            required: ["duration"],
+            additionalProperties: false,
+        },
+        else: { type: ["string", "number"] },
+    },
+    descriptions: {
+        type: "object",
+        properties: {
+            canceled: { type: "string" },
+            completed: { type: "string" },
+            failed: { type: "string" },
+            planned: { type: "string" },
+            requested: { type: "string" },
+            stopped: { type: "string" },
+            waitingForApproval: { type: "string" },
+            waitingForPreApproval: { type: "string" },
+            inProcess: { type: "string" },
+        },
+        additionalProperties: false,
+    },
+    fetch: { type: "number" },
+    concurrent: { type: "number" },
+    goals: stringOrArray,
+};
+
+/**
+ * JSON Schema of goals.yaml and atomist.yaml documents.  Documents
+ * are validated after their keys have been camel-cased, so
+ * `depends_on` and `dependsOn` are both valid property names.  The
+ * `default-branch-test` format is provided by [[validateYaml]] and
+ * accepts the same names of the default branch push test as
+ * [[mapTest]].
+ */
+export const AtomistYamlSchema = {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    title: "Atomist goals.yaml and atomist.yaml",
+    type: "object",
+    definitions: {
+        pushTest: {
+            if: { type: "string" },
+            then: {
+                type: "string",
+                format: "default-branch-test",
+            },
+            else: {
+                type: "object",
+                minProperties: 1,
+                properties: {
+                    hasFile: { type: "string" },
+                    isRepo: { type: "string" },
+                    isBranch: { type: "string" },
+                    hasCommit: { type: "string" },
+                    isGoal: { $ref: "#/definitions/goalTest" },
+                    onGoal: { $ref: "#/definitions/goalTest" },
+                    isOutput: { $ref: "#/definitions/outputTest" },
+                    onOutput: { $ref: "#/definitions/outputTest" },
+                    isSkillConfigured: {
+                        type: "object",
+                        properties: {
+                            hasCommit: { type: "string" },
+                            hasFile: { type: "string" },
+                            isBranch: { type: "string" },
+                            isDefaultBranch: { type: "boolean" },
+                        },
+                        additionalProperties: false,
+                    },
+                    isMaterialChange: {
+                        type: "object",
+                        properties: {
+                            directories: stringOrArray,
+                            extensions: stringOrArray,
+                            files: stringOrArray,
+                            ...globPatterns,
+                        },
+                        additionalProperties: false,
+                    },
+                    hasFileContaining: {
+                        type: "object",
+                        properties: {
+                            content: { type: "string" },
+                            ...globPatterns,
+                        },
+                        required: ["content"],
+                        additionalProperties: false,
+                    },
+                    hasResourceProvider: {
+                        type: "object",
+                        properties: {
+                            type: { type: "string" },
+                            name: { type: "string" },
+                        },
+                        required: ["type"],
+                        additionalProperties: false,
+                    },
+                    not: { $ref: "#/definitions/pushTest" },
+                    and: { $ref: "#/definitions/pushTests" },
+                    or: { $ref: "#/definitions/pushTests" },
+                    use: { type: "string" },
+                    parameters: { type: "object" },
+                },
+                additionalProperties: false,
+            },
+        },
+        pushTests: {
+            if: { type: "array" },
+            then: { type: "array", items: { $ref: "#/definitions/pushTest" } },
+            else: { $ref: "#/definitions/pushTest" },
+        },
+        goalTest: {
+            type: "object",
+            properties: {
+                name: stringOrRegExp,
+                state: { type: "string" },
+                test: { $ref: "#/definitions/pushTests" },
+                output: stringOrRegExp,
+                data: stringOrRegExp,
+            },
+            additionalProperties: false,
+        },
+        outputTest: {
+            type: "object",
+            properties: {
+                classifier: stringOrRegExp,
+                type: { type: "string" },
+                test: { $ref: "#/definitions/pushTests" },
+            },
+            additionalProperties: false,
+        },
+        approval: {
+            if: { type: "object" },
+            then: {
+                type: "object",
+                properties: {
+                    required: { type: "integer", minimum: 1 },
+                    users: { type: "array", items: { type: "string" } },
+                    teams: { type: "array", items: { type: "string" } },
+                    excludeCommitAuthor: { type: "boolean" },
+                    expiry: { type: ["string", "number"] },
+                    window: {
+                        if: { type: "array" },
+                        then: { type: "array", items: { $ref: "#/definitions/changeWindow" } },
+                        else: { $ref: "#/definitions/changeWindow" },
+                    },
+                },
+                additionalProperties: false,
+            },
+            else: { type: "boolean" },
+        },
+        changeWindow: {
+            type: "object",
+            properties: {
+                days: stringOrArray,
+                start: { type: "string", pattern: "^\\d{1,2}:\\d{2}$" },
+                end: { type: "string", pattern: "^\\d{1,2}:\\d{2}$" },
+                timezone: { type: "string" },
+            },
+            additionalProperties: false,
+        },
+        cacheInput: {
+            type: "object",
+            properties: cacheKey,
+            required: ["classifier"],
+            additionalProperties: false,
+        },
+        cacheOutput: {
+            type: "object",
+            properties: {
+                ...cacheKey,
+                type: { type: "string" },
+                pattern: {
+                    type: "object",
+                    properties: {
+                        globPattern: stringOrArray,
+                        directory: { type: "string" },
+                    },
+                    additionalProperties: false,
+                    minProperties: 1,
+                    maxProperties: 1,
+                },
+            },
+            required: ["classifier", "pattern"],
+            additionalProperties: false,
+        },
+        container: {
+            type: "object",
+            properties: {
+                name: { type: "string" },
+                image: { type: "string" },
+                command: { type: "array", items: { type: "string" } },
+                args: { type: "array", items: { type: "string" } },
+                env: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: { name: { type: "string" } },
+                        required: ["name"],
+                    },
+                },
+                workingDir: { type: "string" },
+                volumeMounts: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            name: { type: "string" },
+                            mountPath: { type: "string" },
+                        },
+                        required: ["name", "mountPath"],
+                    },
+                },
+                secrets: {},
+                readinessProbe: {
+                    type: "object",
+                    properties: {
+                        tcpSocket: {
+                            type: "object",
+                            properties: { port: { type: "integer" } },
+                            required: ["port"],
+                        },
+                        httpGet: {
+                            type: "object",
+                            properties: { path: { type: "string" }, port: { type: "integer" } },
+                            required: ["port"],
+                        },
+                        exec: {
+                            type: "object",
+                            properties: { command: { type: "array", items: { type: "string" } } },
+                            required: ["command"],
+                        },
+                        periodSeconds: { type: "number", exclusiveMinimum: 0 },
+                        timeoutSeconds: { type: "number", exclusiveMinimum: 0 },
+                        failureThreshold: { type: "integer", minimum: 1 },
+                    },
+                    minProperties: 1,
+                },
+                resources: {
+                    type: "object",
+                    properties: {
+                        cpu: { type: ["number", "string"] },
+                        memory: { type: ["number", "string"] },
+                        requests: { type: "object" },
+                        limits: { type: "object" },
+                    },
+                },
+                timeout: { type: ["number", "string"] },
+                test: { $ref: "#/definitions/pushTests" },
+            },
+            required: ["name", "image"],
+        },
+        goal: {
+            type: "object",
+            anyOf: [
+                { required: ["use"] },
+                { required: ["ref"] },
+                { required: ["containers"] },
+                { required: ["execute"] },
+                { required: ["action"] },
+                { required: ["extends"] },
+            ],
+            properties: goalProperties,
+            additionalProperties: false,
+        },
+        template: {
+            type: "object",
+            properties: goalProperties,
+            additionalProperties: false,
+        },
+        goals: {
+            if: { type: "array" },
+            then: { type: "array", items: { $ref: "#/definitions/goals" } },
+            else: { $ref: "#/definitions/goal" },
+        },
+        package: {
+            type: "object",
+            properties: {
+                use: { type: "string" },
+                parameters: { type: "object" },
+            },
+            required: ["use"],
+            additionalProperties: false,
+        },
+        rule: {
+            type: "object",
+            properties: {
+                name: { type: "string" },
+                goals: { $ref: "#/definitions/goals" },
+                test: { $ref: "#/definitions/pushTests" },
+                tests: { $ref: "#/definitions/pushTests" },
+                dependsOn: stringOrArray,
+            },
+            required: ["name", "goals"],
+            additionalProperties: false,
+        },
+    },
+    properties: {
+        name: { type: "string" },
+        configuration: { type: "object" },
+        skill: {
+            type: "object",
+            properties: {
+                namespace: { type: "string" },
+                name: { type: "string" },
+                title: { type: "string" },
+                displayName: { type: "string" },
+                version: { type: "string" },
+                description: { type: "string" },
+                documentation: { type: "string" },
+                longDescription: { type: "string" },
+                category: { type: "array", items: { type: "string" } },
+                technology: { type: "array", items: { type: "string" } },
+                author: { type: "string" },
+                license: { type: "string" },
+                homepage: { type: "string" },
+                repository: { type: "string" },
+                icon: { type: "string" },
+                package: {
+                    if: { type: "array" },
+                    then: { type: "array", items: { $ref: "#/definitions/package" } },
+                    else: { $ref: "#/definitions/package" },
+                },
+                runtime: {
+                    type: "object",
+                    properties: {
+                        timeout: { type: "number" },
+                        memory: { enum: [128, 256, 512, 1024, 2048] },
+                        entryPoint: { type: "string" },
+                        name: { enum: ["nodejs10", "python37", "go113"] },
+                    },
+                    additionalProperties: false,
+                },
+            },
+        },
+        commands: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: {
+                    name: { type: "string" },
+                    description: { type: "string" },
+                    pattern: { type: "string" },
+                },
+                required: ["name"],
+                additionalProperties: false,
+            },
+        },
+        subscriptions: { type: "array", items: { type: "string" } },
+        ingesters: { type: "array", items: { type: "string" } },
+        goals: { $ref: "#/definitions/goals" },
+        templates: {
+            type: "object",
+            additionalProperties: { $ref: "#/definitions/template" },
+        },
+        rules: {
+            if: { type: "array" },
+            then: { type: "array", items: { $ref: "#/definitions/rule" } },
+            else: { $ref: "#/definitions/rule" },
+        },
+    },
+    additionalProperties: false,
+};
@@ -0,0 +1,182 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as Ajv from "ajv";
+import * as yaml from "js-yaml";
+import * as _ from "lodash";
+import * as YAML from "yaml";
+import {
+    Node,
+    Pair,
+} from "yaml/types";
+import { isDefaultBranchTest } from "./mapPushTests";
+import { AtomistYamlSchema } from "./schema";
+import { camelCase } from "./util";
+
+/**
+ * Problem found when validating a yaml file
+ */
+export interface YamlValidationError {
+    /** Name of the yaml file */
+    file: string;
+    /** 1-based line of the problem */
+    line: number;
+    /** 1-based column of the problem */
+    column: number;
+    /** JSON pointer to the offending value, empty for syntax errors */
+    path: string;
+    /** Description of the problem */
+    message: string;
+    /**
+     * Unknown properties are reported as warnings as extensions may
+     * use them; all other problems are errors
+     */
+    severity: "error" | "warning";
+}
+
+let validator: Ajv.ValidateFunction;
+
+/**
+ * Validate all documents of the yaml file against the
+ * [[AtomistYamlSchema]].  Schema errors of all documents are reported
+ * at once, located by line and column in the file.  On syntax errors,
+ * only the first one is reported.  Unknown properties are reported
+ * with severity `warning`.
+ *
+ * @param file Name of the file used in the reported errors
+ * @param content Content of the yaml file
+ * @return All problems found, empty if the file is valid
+ */
+export function validateYaml(file: string, content: string): YamlValidationError[] {
+    if (!validator) {
+        validator = new Ajv({ allErrors: true, jsonPointers: true, verbose: true })
+            .addFormat("default-branch-test", isDefaultBranchTest)
+            .compile(AtomistYamlSchema);
+    }
+    // Syntax errors are reported by the same parser used to load the documents
+    try {
+        yaml.safeLoadAll(content);
+    } catch (e) {
+        return [{
+            file,
+            line: _.get(e, "mark.line", 0) + 1,
+            column: _.get(e, "mark.column", 0) + 1,
+            path: "",
+            message: e.reason || e.message,
+            severity: "error",
+        }];
+    }
+
+    const lines = lineOffsets(content);
+    const errors: YamlValidationError[] = [];
+    for (const doc of YAML.parseAllDocuments(content, { merge: true })) {
+        const data = doc.toJSON();
+        if (data === undefined || data === null) {
+            continue;
+        }
+        if (!validator(camelCase(data))) {
+            for (const e of validator.errors.filter(isReportable)) {
+                const segments = e.dataPath.split("/").slice(1).map(s => s.replace(/~1/g, "/").replace(/~0/g, "~"));
+                let message = e.message;
+                let severity: YamlValidationError["severity"] = "error";
+                if (e.keyword === "additionalProperties") {
+                    const property = (e.params as Ajv.AdditionalPropertiesParams).additionalProperty;
+                    segments.push(property);
+                    message = `unknown property '${property}'`;
+                    severity = "warning";
+                } else if (e.keyword === "anyOf") {
+                    const required = _.flatten((e.schema as any[]).map(s => s.required || []));
+                    message = `should have one of properties ${required.map(r => `'${r}'`).join(", ")}`;
+                }
+                const position = locate(doc.contents as Node, segments, doc.range ? doc.range[0] : 0);
+                errors.push({
+                    file,
+                    ...linePosition(lines, position),
+                    path: e.dataPath,
+                    message,
+                    severity,
+                });
+            }
+        }
+    }
+    return _.sortBy(_.uniqWith(errors, _.isEqual), "line", "column");
+}
+
+/**
+ * Format validation errors as one line per error, prefixed with file
+ * name, line and column.
+ */
+export function formatYamlValidationErrors(errors: YamlValidationError[]): string {
+    return errors.map(e => `${e.file}:${e.line}:${e.column}: ${!!e.path ? `${e.path} ` : ""}${e.message}`).join("\n");
+}
+
+/**
+ * Errors of the branches of conditional and alternative schemas are
+ * reported on their own, so drop the summary errors.  Branch errors
+ * of `anyOf` only repeat the required properties.
+ */
+function isReportable(e: Ajv.ErrorObject): boolean {
+    return e.keyword !== "if" && !/\/anyOf\/\d+\//.test(e.schemaPath);
+}
+
+/**
+ * Find the character offset of the node at path, falling back to the
+ * closest ancestor that exists in the yaml.  Keys are matched in
+ * their original and camel-cased form.
+ */
+function locate(node: Node, segments: string[], fallback: number): number {
+    let offset = !!node && !!node.range ? node.range[0] : fallback;
+    let current: any = node;
+    for (const segment of segments) {
+        if (!current || !Array.isArray(current.items)) {
+            break;
+        }
+        if (current.type === "SEQ" || current.type === "FLOW_SEQ") {
+            current = current.items[+segment];
+            if (!!current && !!current.range) {
+                offset = current.range[0];
+            }
+        } else {
+            const pair: Pair = current.items.find((p: Pair) => {
+                const key = _.get(p, "key.value", p.key);
+                return key === segment || camelCase(String(key)) === segment;
+            });
+            if (!pair) {
+                break;
+            }
+            if (!!pair.key && !!(pair.key as Node).range) {
+                offset = (pair.key as Node).range[0];
+            }
+            current = pair.value;
+        }
+    }
+    return offset;
+}
+
+function lineOffsets(content: string): number[] {
+    const offsets = [0];
+    for (let i = 0; i < content.length; i++) {
+        if (content[i] === "\n") {
+            offsets.push(i + 1);
+        }
+    }
+    return offsets;
+}
+
+function linePosition(lines: number[], offset: number): { line: number, column: number } {
+    const index = _.sortedLastIndex(lines, offset) - 1;
+    return { line: index + 1, column: offset - lines[index] + 1 };
+}
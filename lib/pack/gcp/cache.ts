@@ -19,6 +19,8 @@ import { GoalInvocation } from "@atomist/sdm/lib/api/goal/GoalInvocation";
 import { CacheConfiguration } from "@atomist/sdm/lib/api/machine/SoftwareDeliveryMachineOptions";
 import { Storage } from "@google-cloud/storage";
 import { GoalCacheArchiveStore } from "../../goal/cache/CompressingGoalCache";
+import { GoalCacheArchive } from "../../goal/cache/goalCaching";
+import { shouldRecordAccess } from "../../goal/cache/retention";
 
 export interface GoogleCloudStorageCacheConfiguration extends CacheConfiguration {
     cache?: {
@@ -68,6 +70,39 @@ export class GoogleCloudStorageGoalCacheArchiveStore implements GoalCacheArchive
         await this.gcs(gi, classifier, async (storage, bucket, cachePath) => storage.bucket(bucket).file(cachePath).download({
             destination: targetArchivePath,
         }), "retrieve");
+        const cacheConfig = getCacheConfig(gi);
+        const archivePath = getCachePath(cacheConfig, classifier);
+        if (!shouldRecordAccess(`gs://${cacheConfig.bucket}/${archivePath}`)) {
+            return;
+        }
+        try {
+            await new Storage().bucket(cacheConfig.bucket).file(archivePath).setMetadata({
+                metadata: { lastAccessed: new Date().toISOString() },
+            });
+        } catch (e) {
+            gi.progressLog.write(`Failed to record access of cache archive: ${e.message}`);
+        }
+    }
+
+    public async list(gi: GoalInvocation, classifierPrefix: string): Promise<GoalCacheArchive[]> {
+        const cacheConfig = getCacheConfig(gi);
+        const prefix = [cacheConfig.path, classifierPrefix].join("/");
+        const storage = new Storage();
+        try {
+            const files = await doWithRetry(() => storage.bucket(cacheConfig.bucket).getFiles({ prefix }), "list cache archives");
+            return files[0]
+                .filter(f => f.name.endsWith(`/${archiveName}`))
+                .map(f => ({
+                    classifier: f.name.slice(cacheConfig.path.length + 1, -(archiveName.length + 1)),
+                    uri: `gs://${cacheConfig.bucket}/${f.name}`,
+                    size: +f.metadata.size,
+                    lastModified: new Date(f.metadata.updated),
+                    lastAccessed: !!f.metadata.metadata?.lastAccessed ? new Date(f.metadata.metadata.lastAccessed) : undefined,
+                }));
+        } catch (e) {
+            gi.progressLog.write(`Failed to list cache archives gs://${cacheConfig.bucket}/${prefix}: ${e.message}`);
+        }
+        return [];
     }
 
     private async gcs(gi: GoalInvocation, classifier: string, op: GcsOp, verb: string): Promise<string> {
@@ -93,9 +128,11 @@ export class GoogleCloudStorageGoalCacheArchiveStore implements GoalCacheArchive
 
 }
 
+const archiveName = "cache.tar.gz";
+
 /** Construct object path for cache configuration and classifier. */
 export function getCachePath(cacheConfig: CacheConfig, classifier: string = "default"): string {
-    return [cacheConfig.path, classifier, "cache.tar.gz"].join("/");
+    return [cacheConfig.path, classifier, archiveName].join("/");
 }
 
 /**
@@ -0,0 +1,209 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { HandlerContext } from "@atomist/automation-client/lib/HandlerContext";
+import { guid } from "@atomist/automation-client/lib/internal/util/string";
+import { buttonForCommand } from "@atomist/automation-client/lib/spi/message/MessageClient";
+import { LoggingProgressLog } from "@atomist/sdm/lib/api-helper/log/LoggingProgressLog";
+import {
+    slackFooter,
+    slackInfoMessage,
+    slackSuccessMessage,
+    slackTs,
+} from "@atomist/sdm/lib/api-helper/misc/slack/messages";
+import { createSkillContext } from "@atomist/sdm/lib/api/context/skillContext";
+import { GoalInvocation } from "@atomist/sdm/lib/api/goal/GoalInvocation";
+import { SoftwareDeliveryMachine } from "@atomist/sdm/lib/api/machine/SoftwareDeliveryMachine";
+import { CommandHandlerRegistration } from "@atomist/sdm/lib/api/registration/CommandHandlerRegistration";
+import {
+    Attachment,
+    codeLine,
+    italic,
+} from "@atomist/slack-messages";
+import * as _ from "lodash";
+import {
+    cacheStore,
+    GoalCacheArchive,
+    sanitizeClassifier,
+} from "../../goal/cache/goalCaching";
+import { lastUsed } from "../../goal/cache/retention";
+import { formatDuration } from "../../util/misc/time";
+
+/**
+ * List the goal cache archives of the current workspace.
+ *
+ * @param sdm The software delivery machine whose cache should be listed
+ * @param ctx Context of the command invocation
+ * @param classifier Optional classifier to restrict the listing to
+ * @param olderThan Optional time in milliseconds; only archives not used for at least that long are returned
+ * @return Archives, most recently used first
+ */
+export async function listGoalCacheArchives(sdm: SoftwareDeliveryMachine,
+                                            ctx: HandlerContext,
+                                            classifier?: string,
+                                            olderThan?: number): Promise<GoalCacheArchive[]> {
+    const gi = cacheInvocation(sdm, ctx);
+    const goalCache = cacheStore(gi);
+    if (!goalCache.list) {
+        return [];
+    }
+    const prefix = `${ctx.workspaceId}/${!!classifier ? sanitizeClassifier(classifier) : ""}`;
+    const now = Date.now();
+    return _.sortBy((await goalCache.list(gi, prefix))
+        .filter(a => !classifier || a.classifier === prefix || a.classifier.startsWith(`${prefix}/`))
+        .filter(a => !olderThan || now - lastUsed(a) >= olderThan), a => -lastUsed(a));
+}
+
+/**
+ * Delete the goal cache archives of the current workspace matching
+ * the classifier and age.
+ *
+ * @return Deleted archives
+ */
+export async function purgeGoalCacheArchives(sdm: SoftwareDeliveryMachine,
+                                             ctx: HandlerContext,
+                                             classifier?: string,
+                                             olderThan?: number): Promise<GoalCacheArchive[]> {
+    const gi = cacheInvocation(sdm, ctx);
+    const goalCache = cacheStore(gi);
+    const archives = await listGoalCacheArchives(sdm, ctx, classifier, olderThan);
+    for (const archive of archives) {
+        await goalCache.remove(gi, archive.classifier);
+    }
+    return archives;
+}
+
+/**
+ * List goal cache archives with their size and last use.
+ */
+export function listGoalCacheCommand(sdm: SoftwareDeliveryMachine): CommandHandlerRegistration<{ classifier: string, msgId: string }> {
+    return {
+        name: "ListGoalCache",
+        description: "List goal cache entries",
+        parameters: {
+            classifier: { required: false, description: "Only list entries of this classifier" },
+            msgId: { required: false, displayable: false },
+        },
+        intent: `list goal cache ${sdm.configuration.name.replace("@", "")}`,
+        listener: async ci => {
+            const id = ci.parameters.msgId || guid();
+            const archives = await listGoalCacheArchives(sdm, ci.context, ci.parameters.classifier);
+            const now = Date.now();
+            const attachments: Attachment[] = archives.map(a => ({
+                text: `${codeLine(displayClassifier(a, ci.context))} ${formatSize(a.size)}, last used ${
+                    italic(lastUsed(a) > 0 ? `${formatDuration(now - lastUsed(a))} ago` : "unknown")}`,
+                fallback: a.classifier,
+                actions: [
+                    buttonForCommand({ text: "Purge" }, purgeGoalCacheCommand(sdm).name, {
+                        classifier: displayClassifier(a, ci.context),
+                    }),
+                ],
+            }));
+
+            const msg = slackInfoMessage(
+                "Goal Cache",
+                attachments.length > 0 ?
+                    `Found ${attachments.length} goal cache ${attachments.length === 1 ? "entry" : "entries"} using ${
+                        formatSize(_.sumBy(archives, a => a.size || 0))}:` :
+                    "No goal cache entries found");
+            if (attachments.length > 0) {
+                msg.attachments[0].footer = undefined;
+                msg.attachments[0].ts = undefined;
+                msg.attachments.push(...attachments);
+            }
+            const lastAttachment = msg.attachments[msg.attachments.length - 1];
+            lastAttachment.footer = slackFooter();
+            lastAttachment.ts = slackTs();
+            lastAttachment.actions = [
+                ...(lastAttachment.actions || []),
+                buttonForCommand({ text: "Refresh" }, "ListGoalCache", { classifier: ci.parameters.classifier, msgId: id }),
+            ];
+
+            await ci.context.messageClient.respond(msg, { id });
+        },
+    };
+}
+
+/**
+ * Purge goal cache archives by classifier and/or age.
+ */
+export function purgeGoalCacheCommand(sdm: SoftwareDeliveryMachine): CommandHandlerRegistration<{ classifier: string, olderThan: string }> {
+    return {
+        name: "PurgeGoalCache",
+        description: "Purge goal cache entries by classifier and/or age",
+        parameters: {
+            classifier: { required: false, description: "Classifier of the entries to purge" },
+            olderThan: {
+                required: false,
+                description: "Purge entries not used for at least this many hours",
+                pattern: /^[0-9]+(\.[0-9]+)?$/,
+            },
+        },
+        intent: `purge goal cache ${sdm.configuration.name.replace("@", "")}`,
+        listener: async ci => {
+            if (!ci.parameters.classifier && !ci.parameters.olderThan) {
+                await ci.context.messageClient.respond(
+                    slackInfoMessage("Purge Goal Cache", "Please provide a classifier and/or an age to purge goal cache entries"));
+                return;
+            }
+            const olderThan = !!ci.parameters.olderThan ? +ci.parameters.olderThan * 60 * 60 * 1000 : undefined;
+            const archives = await purgeGoalCacheArchives(sdm, ci.context, ci.parameters.classifier, olderThan);
+            await ci.context.messageClient.respond(
+                slackSuccessMessage(
+                    "Purge Goal Cache",
+                    `Successfully purged ${archives.length} goal cache ${archives.length === 1 ? "entry" : "entries"} freeing ${
+                        formatSize(_.sumBy(archives, a => a.size || 0))}`));
+        },
+    };
+}
+
+/**
+ * Goal cache stores operate in the context of a goal invocation.
+ * Create one from the command context; there is no goal or repository
+ * to operate on.
+ */
+function cacheInvocation(sdm: SoftwareDeliveryMachine, ctx: HandlerContext): GoalInvocation {
+    return {
+        configuration: sdm.configuration,
+        context: ctx,
+        progressLog: new LoggingProgressLog("goal-cache", "debug"),
+        skill: createSkillContext(ctx),
+        preferences: undefined,
+        addressChannels: undefined,
+        credentials: undefined,
+        id: undefined,
+        goal: undefined,
+        sdmGoal: undefined,
+        goalEvent: undefined,
+    };
+}
+
+function displayClassifier(archive: GoalCacheArchive, ctx: HandlerContext): string {
+    return archive.classifier.startsWith(`${ctx.workspaceId}/`) ?
+        archive.classifier.slice(ctx.workspaceId.length + 1) : archive.classifier;
+}
+
+/** Format size in bytes for humans. */
+export function formatSize(size: number): string {
+    const units = ["B", "KB", "MB", "GB", "TB"];
+    let value = size || 0;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value = value / 1024;
+        unit++;
+    }
+    return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
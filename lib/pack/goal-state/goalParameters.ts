@@ -0,0 +1,111 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    Goal,
+    GoalDefinition,
+} from "@atomist/sdm/lib/api/goal/Goal";
+import { Parameterized } from "@atomist/sdm/lib/api/goal/GoalWithFulfillment";
+import * as _ from "lodash";
+
+/**
+ * Goal definition with the parameters planned with the goal
+ */
+export type ParameterizedGoalDefinition = GoalDefinition & Parameterized;
+
+/**
+ * Parameters of the goal definition that are planned with the goal.
+ */
+export function goalDefinitionParameters(goal: Goal): Record<string, any> {
+    return (goal.definition as ParameterizedGoalDefinition).parameters || {};
+}
+
+/**
+ * Store the value in the parameters of the goal definition so that it
+ * is planned with the goal and available from the parameters of the
+ * goal event, see [[goalParameter]].  Undefined properties of the
+ * value are omitted.
+ *
+ * @param goal Goal to store the parameter on
+ * @param key Key of the parameter
+ * @param value Value of the parameter
+ * @param definition Additional properties of the goal definition to set
+ * @return The provided goal
+ */
+export function withGoalParameter<G extends Goal>(goal: G,
+                                                  key: string,
+                                                  value: object,
+                                                  definition: Partial<GoalDefinition> = {}): G {
+    const parameterized: ParameterizedGoalDefinition = {
+        ...goal.definition,
+        ...definition,
+        parameters: {
+            ...goalDefinitionParameters(goal),
+            [key]: _.omitBy(value, _.isUndefined),
+        },
+    };
+    // the definition is read-only for users of the goal, replace rather than mutate it as it may be shared
+    return Object.assign(goal, { definition: parameterized });
+}
+
+/**
+ * Parse the parameters of the goal event, treating missing or invalid
+ * parameters as empty object.
+ */
+export function goalParameters(goal: { parameters?: string }): Record<string, any> {
+    return parseGoalJson(goal.parameters);
+}
+
+/**
+ * Read a parameter from the parameters of the goal event.
+ *
+ * @return Parameter value, undefined if the goal has no such parameter or its parameters are invalid
+ */
+export function goalParameter<T>(goal: { parameters?: string }, key: string): T | undefined {
+    return goalParameters(goal)[key] || undefined;
+}
+
+/**
+ * Parse the data of the goal event, treating missing or invalid data
+ * as empty object.
+ */
+export function goalData(goal: { data?: string }): Record<string, any> {
+    return parseGoalJson(goal.data);
+}
+
+/**
+ * Merge the value into the goal data under the provided key.
+ *
+ * @param data Current goal data
+ * @param key Key to store the value under
+ * @param value Value to store
+ * @return Updated goal data
+ */
+export function withGoalData(data: string | undefined, key: string, value: any): string {
+    return JSON.stringify({ ...parseGoalJson(data), [key]: value });
+}
+
+function parseGoalJson(json: string | undefined): Record<string, any> {
+    if (!json) {
+        return {};
+    }
+    try {
+        const parsed = JSON.parse(json);
+        return _.isPlainObject(parsed) ? parsed : {};
+    } catch (e) {
+        return {};
+    }
+}
@@ -0,0 +1,360 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { configurationValue } from "@atomist/automation-client/lib/configuration";
+import {
+    MappedParameter,
+    MappedParameters,
+    Parameter,
+    Parameters,
+} from "@atomist/automation-client/lib/decorators";
+import { HandlerContext } from "@atomist/automation-client/lib/HandlerContext";
+import { QueryNoCacheOptions } from "@atomist/automation-client/lib/spi/graph/GraphClient";
+import { Maker } from "@atomist/automation-client/lib/util/constructionUtils";
+import { toRepoTargetingParametersMaker } from "@atomist/sdm/lib/api-helper/machine/handlerRegistrations";
+import { RepoTargetingParameters } from "@atomist/sdm/lib/api-helper/machine/RepoTargetingParameters";
+import {
+    slackInfoMessage,
+    slackWarningMessage,
+} from "@atomist/sdm/lib/api-helper/misc/slack/messages";
+import { GitHubRepoTargets } from "@atomist/sdm/lib/api/command/target/GitHubRepoTargets";
+import { RepoTargets } from "@atomist/sdm/lib/api/machine/RepoTargets";
+import { SoftwareDeliveryMachine } from "@atomist/sdm/lib/api/machine/SoftwareDeliveryMachine";
+import { CommandHandlerRegistration } from "@atomist/sdm/lib/api/registration/CommandHandlerRegistration";
+import {
+    bold,
+    codeBlock,
+} from "@atomist/slack-messages";
+import * as _ from "lodash";
+import {
+    CompletedSdmGoalSets,
+    SdmGoalHistory,
+    SdmGoalState,
+} from "../../typings/types";
+import {
+    formatDuration,
+    parseDuration,
+} from "../../util/misc/time";
+
+/**
+ * Goal sets to analyze
+ */
+export interface GoalSetAnalyticsOptions {
+    owner: string;
+    repo: string;
+    providerId?: string;
+    /** Only analyze goal sets of this branch; defaults to all branches */
+    branch?: string;
+    /** Start of the time window in milliseconds since epoch */
+    since: number;
+    /** End of the time window in milliseconds since epoch; defaults to now */
+    until?: number;
+}
+
+/**
+ * Duration percentiles in milliseconds
+ */
+export interface DurationPercentiles {
+    p50: number;
+    p90: number;
+    p95: number;
+    max: number;
+}
+
+/**
+ * Statistics of all executions of a goal
+ */
+export interface GoalStatistics {
+    name: string;
+    /** Number of completed executions */
+    count: number;
+    failures: number;
+    /** Ratio of failed to completed executions */
+    failureRate: number;
+    /** Percentiles of the time from in process to completion, undefined if no execution started */
+    duration?: DurationPercentiles;
+    /** Total milliseconds spent waiting for pre-approval and approval */
+    approvalWait: number;
+}
+
+/**
+ * Analytics of the completed goal sets within a time window
+ */
+export interface GoalSetAnalytics {
+    since: number;
+    until: number;
+    /** Number of completed goal sets */
+    goalSets: number;
+    /** Number of goal sets per final state */
+    states: Record<string, number>;
+    goals: GoalStatistics[];
+    /** Goal with the most failures, undefined if no goal failed */
+    mostFailingGoal?: string;
+    /** Total milliseconds goals spent waiting for pre-approval and approval */
+    approvalWait: number;
+}
+
+export type GoalSetAnalyticsFormat = "chat" | "json" | "csv";
+
+const CompletedStates = [SdmGoalState.success, SdmGoalState.failure, SdmGoalState.stopped, SdmGoalState.skipped, SdmGoalState.canceled];
+const ApprovalStates = [SdmGoalState.waiting_for_pre_approval, SdmGoalState.waiting_for_approval];
+
+/**
+ * Query the completed goal sets of the repository and the history
+ * of their goals, and compute their analytics.
+ */
+export async function goalSetAnalytics(ctx: HandlerContext, options: GoalSetAnalyticsOptions): Promise<GoalSetAnalytics> {
+    const goalSets = await completedGoalSets(ctx, options);
+    const goals = await goalHistory(ctx, goalSets.map(gs => gs.goalSetId));
+    return analyzeGoalSets(goalSets, goals, options);
+}
+
+/**
+ * Compute the analytics from completed goal sets and all versions of
+ * their goals.
+ */
+export function analyzeGoalSets(goalSets: Array<Pick<CompletedSdmGoalSets.SdmGoalSet, "goalSetId" | "state">>,
+                                goals: Array<Pick<SdmGoalHistory.SdmGoal, "goalSetId" | "uniqueName" | "name" | "state" | "ts">>,
+                                window: { since: number, until?: number }): GoalSetAnalytics {
+    const goalSetIds = goalSets.map(gs => gs.goalSetId);
+    const executions = _.groupBy(
+        goals.filter(g => goalSetIds.includes(g.goalSetId)),
+        g => `${g.goalSetId}:${g.uniqueName}`);
+
+    const statistics: Record<string, { count: number, failures: number, durations: number[], approvalWait: number }> = {};
+    _.forEach(executions, events => {
+        const sorted = _.sortBy(events, "ts");
+        const last = sorted[sorted.length - 1];
+        const stats = statistics[last.name] = statistics[last.name] || { count: 0, failures: 0, durations: [], approvalWait: 0 };
+        sorted.forEach((e, i) => {
+            if (ApprovalStates.includes(e.state) && i < sorted.length - 1) {
+                stats.approvalWait += sorted[i + 1].ts - e.ts;
+            }
+        });
+        if (!CompletedStates.includes(last.state)) {
+            return;
+        }
+        stats.count++;
+        if (last.state === SdmGoalState.failure) {
+            stats.failures++;
+        }
+        const started = sorted.find(e => e.state === SdmGoalState.in_process);
+        if (!!started) {
+            stats.durations.push(last.ts - started.ts);
+        }
+    });
+
+    const goalStatistics: GoalStatistics[] = _.map(statistics, (s, name) => ({
+        name,
+        count: s.count,
+        failures: s.failures,
+        failureRate: s.count > 0 ? s.failures / s.count : 0,
+        duration: s.durations.length > 0 ? percentiles(s.durations) : undefined,
+        approvalWait: s.approvalWait,
+    })).sort((s1, s2) => s1.name.localeCompare(s2.name));
+    const mostFailing = _.orderBy(goalStatistics.filter(s => s.failures > 0), ["failures", "failureRate", "name"], ["desc", "desc", "asc"])[0];
+
+    return {
+        since: window.since,
+        until: window.until || Date.now(),
+        goalSets: goalSets.length,
+        states: _.countBy(goalSets, "state"),
+        goals: goalStatistics,
+        mostFailingGoal: mostFailing?.name,
+        approvalWait: _.sumBy(goalStatistics, "approvalWait"),
+    };
+}
+
+/**
+ * Format the analytics as JSON, CSV with one line per goal, or a
+ * summary for chat.
+ */
+export function formatGoalSetAnalytics(analytics: GoalSetAnalytics, format: GoalSetAnalyticsFormat): string {
+    if (format === "json") {
+        return JSON.stringify(analytics, undefined, 2);
+    } else if (format === "csv") {
+        const rows = analytics.goals.map(g => [
+            csvValue(g.name),
+            g.count,
+            g.failures,
+            g.failureRate.toFixed(4),
+            g.duration?.p50 ?? "",
+            g.duration?.p90 ?? "",
+            g.duration?.p95 ?? "",
+            g.duration?.max ?? "",
+            g.approvalWait,
+        ].join(","));
+        return ["goal,count,failures,failureRate,p50,p90,p95,max,approvalWait", ...rows].join("\n");
+    }
+
+    const duration = (d: number | undefined) => d === undefined ? "-" : formatDuration(d);
+    const table = [["goal", "runs", "failure rate", "p50", "p90", "p95", "approval wait"]];
+    table.push(...analytics.goals.map(g => [
+        g.name,
+        `${g.count}`,
+        `${Math.round(g.failureRate * 100)}%`,
+        duration(g.duration?.p50),
+        duration(g.duration?.p90),
+        duration(g.duration?.p95),
+        duration(g.approvalWait),
+    ]));
+    const widths = table[0].map((c, i) => _.max(table.map(r => r[i].length)));
+    const lines = table.map(r => r.map((c, i) => _.padEnd(c, widths[i])).join("  ").trimRight());
+    const states = _.map(analytics.states, (count, state) => `${count} ${state}`).join(", ");
+    return [
+        `${analytics.goalSets} goal sets${!!states ? ` (${states})` : ""}`,
+        `Most frequently failing goal: ${analytics.mostFailingGoal || "none"}`,
+        `Time waiting for approval: ${duration(analytics.approvalWait)}`,
+        "",
+        ...lines,
+    ].join("\n");
+}
+
+@Parameters()
+class GoalSetAnalyticsParameters {
+
+    @MappedParameter(MappedParameters.GitHubRepositoryProvider)
+    public providerId: string;
+
+    @Parameter({ required: false, description: "Time window like 7d or 12h; defaults to 7d" })
+    public window: string = "7d";
+
+    @Parameter({ required: false, pattern: /^(chat|json|csv)$/, description: "Output format: chat, json or csv" })
+    public format: GoalSetAnalyticsFormat = "chat";
+}
+
+/**
+ * Report goal duration percentiles, failure rates and approval wait
+ * times of the completed goal sets of a repository or branch
+ */
+export function goalSetAnalyticsCommand(sdm: SoftwareDeliveryMachine,
+                                        repoTargets: Maker<RepoTargets> = GitHubRepoTargets)
+    : CommandHandlerRegistration<GoalSetAnalyticsParameters & RepoTargetingParameters> {
+    return {
+        name: "GoalSetAnalytics",
+        description: "Show analytics of completed goal sets of a repository or branch",
+        intent: `goal set analytics ${sdm.configuration.name.replace("@", "")}`,
+        paramsMaker: toRepoTargetingParametersMaker(GoalSetAnalyticsParameters, repoTargets),
+        listener: async ci => {
+            const repoRef = ci.parameters.targets.repoRef;
+            const slug = `${repoRef.owner}/${repoRef.repo}${!!repoRef.branch ? `/${repoRef.branch}` : ""}`;
+            let window: number;
+            try {
+                window = parseDuration(ci.parameters.window || "7d");
+            } catch (e) {
+                return ci.context.messageClient.respond(
+                    slackWarningMessage("Goal Set Analytics", `Invalid time window ${bold(ci.parameters.window)}`, ci.context));
+            }
+            const analytics = await goalSetAnalytics(ci.context, {
+                owner: repoRef.owner,
+                repo: repoRef.repo,
+                providerId: ci.parameters.providerId,
+                branch: repoRef.branch,
+                since: Date.now() - window,
+            });
+
+            const format = ci.parameters.format || "chat";
+            if (format === "chat") {
+                return ci.context.messageClient.respond(
+                    slackInfoMessage(
+                        "Goal Set Analytics",
+                        `Goal sets of ${bold(slug)} in the last ${formatDuration(window)}:\n${
+                            codeBlock(formatGoalSetAnalytics(analytics, "chat"))}`));
+            }
+            return ci.context.messageClient.respond({
+                content: formatGoalSetAnalytics(analytics, format),
+                fileName: `goal-set-analytics-${slug.replace(/\//g, "-")}.${format}`,
+                fileType: format,
+                title: `Goal set analytics of ${slug}`,
+            });
+        },
+    };
+}
+
+async function completedGoalSets(ctx: HandlerContext, options: GoalSetAnalyticsOptions): Promise<CompletedSdmGoalSets.SdmGoalSet[]> {
+    const until = options.until || Date.now();
+    const fetch = 100;
+    const goalSets: CompletedSdmGoalSets.SdmGoalSet[] = [];
+    let offset = 0;
+    while (true) {
+        const results = await ctx.graphClient.query<CompletedSdmGoalSets.Query, CompletedSdmGoalSets.Variables>({
+            name: "CompletedSdmGoalSets",
+            variables: {
+                fetch,
+                offset,
+                owner: options.owner,
+                repo: options.repo,
+                providerId: options.providerId,
+                branch: !!options.branch ? [options.branch] : undefined,
+            },
+            options: {
+                ...QueryNoCacheOptions,
+                log: configurationValue("sdm.query.logging", false),
+            },
+        });
+        const page = results?.SdmGoalSet || [];
+        goalSets.push(...page.filter(gs => gs.ts >= options.since && gs.ts <= until));
+        if (page.length < fetch || page[page.length - 1].ts < options.since) {
+            break;
+        }
+        offset += fetch;
+    }
+    return goalSets;
+}
+
+async function goalHistory(ctx: HandlerContext, goalSetIds: string[]): Promise<SdmGoalHistory.SdmGoal[]> {
+    const fetch = 200;
+    const goals: SdmGoalHistory.SdmGoal[] = [];
+    for (const ids of _.chunk(goalSetIds, 25)) {
+        let offset = 0;
+        while (true) {
+            const results = await ctx.graphClient.query<SdmGoalHistory.Query, SdmGoalHistory.Variables>({
+                name: "SdmGoalHistory",
+                variables: {
+                    goalSetId: ids,
+                    fetch,
+                    offset,
+                },
+                options: {
+                    ...QueryNoCacheOptions,
+                    log: configurationValue("sdm.query.logging", false),
+                },
+            });
+            const page = results?.SdmGoal || [];
+            goals.push(...page);
+            if (page.length < fetch) {
+                break;
+            }
+            offset += fetch;
+        }
+    }
+    return goals;
+}
+
+function percentiles(values: number[]): DurationPercentiles {
+    const sorted = [...values].sort((a, b) => a - b);
+    const rank = (p: number) => sorted[Math.max(0, Math.ceil(p / 100 * sorted.length) - 1)];
+    return {
+        p50: rank(50),
+        p90: rank(90),
+        p95: rank(95),
+        max: sorted[sorted.length - 1],
+    };
+}
+
+function csvValue(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, "\"\"")}"` : value;
+}
@@ -25,6 +25,7 @@ import {
     cancelGoalSetsCommand,
     listPendingGoalSetsCommand,
 } from "./cancelGoals";
+import { goalSetAnalyticsCommand } from "./goalSetAnalytics";
 import { manageGoalSetsTrigger } from "./manageGoalSets";
 import { resetGoalsCommand } from "./resetGoals";
 import { setGoalStateCommand } from "./setGoalState";
@@ -48,6 +49,16 @@ export interface GoalStateOptions {
          */
         state?: SdmGoalState.canceled | SdmGoalState.failure;
     };
+    /** Configure the automatic retry of failed goals with a retry policy */
+    retry?: {
+        /** Enable re-requesting failed goals according to their retry policy */
+        enabled?: boolean;
+    };
+    /** Configure the expiry of goals waiting for approval with an approval policy */
+    approvalExpiry?: {
+        /** Enable canceling goals whose approval expired according to their approval policy */
+        enabled?: boolean;
+    };
 }
 
 /**
@@ -65,14 +76,23 @@ export function goalStateSupport(options?: GoalStateOptions): ExtensionPack {
                 sdm.addCommand(resetGoalsCommand(sdm));
                 sdm.addCommand(cancelGoalSetsCommand(sdm));
                 sdm.addCommand(listPendingGoalSetsCommand(sdm));
+                sdm.addCommand(goalSetAnalyticsCommand(sdm));
 
                 if ((cluster.isMaster || !_.get(sdm.configuration, "cluster.enabled")) &&
                     !process.env.ATOMIST_ISOLATED_GOAL &&
-                    !!options && !!options.cancellation && !!options.cancellation.enabled) {
-                    logger.debug(`Timeout based goal cancellation enabled for this SDM`);
+                    (!!options?.cancellation?.enabled || !!options?.retry?.enabled || !!options?.approvalExpiry?.enabled)) {
+                    if (!!options.cancellation?.enabled) {
+                        logger.debug(`Timeout based goal cancellation enabled for this SDM`);
+                    }
+                    if (!!options.retry?.enabled) {
+                        logger.debug(`Automatic goal retry enabled for this SDM`);
+                    }
+                    if (!!options.approvalExpiry?.enabled) {
+                        logger.debug(`Goal approval expiry enabled for this SDM`);
+                    }
                     sdm.addTriggeredListener({
                         trigger: { interval: 1000 * 30 },
-                        listener: manageGoalSetsTrigger(options.cancellation),
+                        listener: manageGoalSetsTrigger(options.cancellation, options.retry, options.approvalExpiry),
                     });
                 }
             }
@@ -37,9 +37,20 @@ import {
 import { TriggeredListener } from "@atomist/sdm/lib/api/listener/TriggeredListener";
 import { SoftwareDeliveryMachine } from "@atomist/sdm/lib/api/machine/SoftwareDeliveryMachine";
 import * as _ from "lodash";
+import { goalApprovalPolicy } from "../../goal/common/approval";
 import {
+    goalRetryPolicy,
+    goalRetryState,
+    isRetryableFailure,
+    retryDelay,
+    withRetryState,
+} from "../../goal/common/retry";
+import { goalTimeout } from "../../goal/common/timeout";
+import {
+    FailedSdmGoals,
     InProcessSdmGoals,
     SdmGoalState,
+    WaitingForApprovalSdmGoals,
 } from "../../typings/types";
 import { formatDuration } from "../../util/misc/time";
 import { pendingGoalSets } from "./cancelGoals";
@@ -49,7 +60,9 @@ import { GoalStateOptions } from "./goalState";
  * TriggeredListener that queries pending goal sets and updates their state according to state of
  * goals
  */
-export function manageGoalSetsTrigger(options?: GoalStateOptions["cancellation"]): TriggeredListener {
+export function manageGoalSetsTrigger(options?: GoalStateOptions["cancellation"],
+                                      retry?: GoalStateOptions["retry"],
+                                      approvalExpiry?: GoalStateOptions["approvalExpiry"]): TriggeredListener {
     return async li => {
         const workspaceIds = li.sdm.configuration.workspaceIds;
         if (!!workspaceIds && workspaceIds.length > 0) {
@@ -92,7 +105,15 @@ export function manageGoalSetsTrigger(options?: GoalStateOptions["cancellation"]
                         } as any;
 
                         await manageGoalSets(li.sdm, ctx);
-                        await timeoutInProcessGoals(li.sdm, ctx, options);
+                        if (!!options?.enabled) {
+                            await timeoutInProcessGoals(li.sdm, ctx, options);
+                        }
+                        if (!!approvalExpiry?.enabled) {
+                            await expireApprovals(li.sdm, ctx);
+                        }
+                        if (!!retry?.enabled) {
+                            await retryFailedGoals(li.sdm, ctx);
+                        }
                     } catch (e) {
                         logger.debug("Error managing pending goal sets: %s", e.stack);
                     }
@@ -129,13 +150,18 @@ export async function manageGoalSets(sdm: SoftwareDeliveryMachine,
     }
 }
 
+/**
+ * Cancel or fail in-process goals of this SDM that timed out.  Goals
+ * can define their own timeout, see [[withTimeout]]; all other goals
+ * time out after the configured cancellation timeout.
+ */
 export async function timeoutInProcessGoals(sdm: SoftwareDeliveryMachine,
                                             ctx: HandlerContext,
                                             options?: GoalStateOptions["cancellation"]): Promise<void> {
-    const timeout = !!options && !!options.timeout
+    const defaultTimeout = !!options && !!options.timeout
         ? options.timeout
         : _.get(sdm.configuration, "sdm.goal.inProcessTimeout", 1000 * 60 * 60);
-    const end = Date.now() - timeout;
+    const now = Date.now();
 
     const gs = (await ctx.graphClient.query<InProcessSdmGoals.Query, InProcessSdmGoals.Variables>({
         name: "InProcessSdmGoals",
@@ -148,12 +174,16 @@ export async function timeoutInProcessGoals(sdm: SoftwareDeliveryMachine,
         },
     })).SdmGoal;
 
-    const state = !!options && !!options.state ? options.state : SdmGoalState.canceled;
+    const defaultState = !!options && !!options.state ? options.state : SdmGoalState.canceled;
 
     for (const goal of gs) {
-        if (goal.ts < end) {
+        const goalTimeoutDefinition = goalTimeout(goal);
+        const timeout = goalTimeoutDefinition?.duration || defaultTimeout;
+        const state = goalTimeoutDefinition?.state || defaultState;
+        if (goal.ts < now - timeout) {
             logger.debug(
-                `Canceling goal '${goal.uniqueName}' of goal set '${goal.goalSetId}' because it timed out after '${formatDuration(timeout)}'`);
+                `${state === SdmGoalState.canceled ? "Canceling" : "Failing"} goal '${goal.uniqueName}' of goal set '${
+                    goal.goalSetId}' because it timed out after '${formatDuration(timeout)}'`);
             let description = `${state === SdmGoalState.canceled ? "Canceled" : "Failed"}: ${goal.name}`;
             if (!!goal.descriptions) {
                 if (state === SdmGoalState.canceled && !!goal.descriptions.canceled) {
@@ -162,9 +192,10 @@ export async function timeoutInProcessGoals(sdm: SoftwareDeliveryMachine,
                     description = goal.descriptions.failed;
                 }
             }
+            const retryFeasible = goalTimeoutDefinition?.retryFeasible;
             await updateGoal(
                 ctx,
-                goal as any,
+                (retryFeasible !== undefined ? { ...goal, retryFeasible } : goal) as any,
                 {
                     state,
                     description,
@@ -174,6 +205,93 @@ export async function timeoutInProcessGoals(sdm: SoftwareDeliveryMachine,
     }
 }
 
+/**
+ * Cancel goals of this SDM that waited for approval or pre-approval
+ * longer than the expiry of their approval policy, see
+ * [[withApprovalPolicy]].
+ */
+export async function expireApprovals(sdm: SoftwareDeliveryMachine,
+                                      ctx: HandlerContext): Promise<void> {
+    const now = Date.now();
+
+    const gs = (await ctx.graphClient.query<WaitingForApprovalSdmGoals.Query, WaitingForApprovalSdmGoals.Variables>({
+        name: "WaitingForApprovalSdmGoals",
+        variables: {
+            registration: [sdm.configuration.name],
+        },
+        options: {
+            ...QueryNoCacheOptions,
+            log: configurationValue("sdm.query.logging", false),
+        },
+    })).SdmGoal;
+
+    for (const goal of gs) {
+        const expiry = goalApprovalPolicy(goal)?.expiry as number;
+        if (!expiry || goal.ts >= now - expiry) {
+            continue;
+        }
+        const approval = goal.state === SdmGoalState.waiting_for_pre_approval ? "start" : "approval";
+        logger.debug(`Canceling goal '${goal.uniqueName}' of goal set '${goal.goalSetId}' because its ${
+            approval} expired after '${formatDuration(expiry)}'`);
+        await updateGoal(
+            ctx,
+            goal as any,
+            {
+                state: SdmGoalState.canceled,
+                description: goal.descriptions?.canceled || `Canceled: ${goal.name}`,
+                phase: `${approval} expired after ${formatDuration(expiry)}`,
+            });
+    }
+}
+
+/**
+ * Re-request failed goals of this SDM according to their retry
+ * policy, see [[withRetry]].  A goal is retried once the backoff
+ * delay after its failure passed; the attempt count is recorded in
+ * the goal data.
+ */
+export async function retryFailedGoals(sdm: SoftwareDeliveryMachine,
+                                       ctx: HandlerContext): Promise<void> {
+    const now = Date.now();
+
+    const gs = (await ctx.graphClient.query<FailedSdmGoals.Query, FailedSdmGoals.Variables>({
+        name: "FailedSdmGoals",
+        variables: {
+            registration: [sdm.configuration.name],
+        },
+        options: {
+            ...QueryNoCacheOptions,
+            log: configurationValue("sdm.query.logging", false),
+        },
+    })).SdmGoal;
+
+    for (const goal of gs) {
+        const policy = goalRetryPolicy(goal);
+        if (!policy) {
+            continue;
+        }
+        const { attempt } = goalRetryState(goal);
+        if (attempt >= policy.maxAttempts || !isRetryableFailure(policy, goal)) {
+            continue;
+        }
+        const delay = retryDelay(policy, attempt);
+        if (goal.ts > now - delay) {
+            continue;
+        }
+        logger.debug(`Retrying goal '${goal.uniqueName}' of goal set '${goal.goalSetId}' after '${
+            formatDuration(delay)}' as attempt ${attempt + 1} of ${policy.maxAttempts}`);
+        await updateGoal(
+            ctx,
+            goal as any,
+            {
+                state: SdmGoalState.requested,
+                description: goal.descriptions?.requested || `Retrying: ${goal.name}`,
+                phase: `attempt ${attempt + 1} of ${policy.maxAttempts}`,
+                data: withRetryState(goal.data, { attempt: attempt + 1 }),
+            });
+    }
+}
+
 class TriggeredMessageClient extends AbstractWebSocketMessageClient {
 
     constructor(ws: WebSocketLifecycle,
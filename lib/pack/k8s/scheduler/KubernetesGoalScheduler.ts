@@ -25,12 +25,18 @@ import {
     AutomationContextAware,
     HandlerContext,
 } from "@atomist/automation-client/lib/HandlerContext";
+import { guid } from "@atomist/automation-client/lib/internal/util/string";
+import { QueryNoCacheOptions } from "@atomist/automation-client/lib/spi/graph/GraphClient";
 import { logger } from "@atomist/automation-client/lib/util/logger";
 import { doWithRetry } from "@atomist/automation-client/lib/util/retry";
+import { updateGoal } from "@atomist/sdm/lib/api-helper/goal/storeGoals";
+import { LoggingProgressLog } from "@atomist/sdm/lib/api-helper/log/LoggingProgressLog";
+import { createSkillContext } from "@atomist/sdm/lib/api/context/skillContext";
 import { ExecuteGoalResult } from "@atomist/sdm/lib/api/goal/ExecuteGoalResult";
 import { GoalInvocation } from "@atomist/sdm/lib/api/goal/GoalInvocation";
 import { SdmGoalEvent } from "@atomist/sdm/lib/api/goal/SdmGoalEvent";
 import { GoalScheduler } from "@atomist/sdm/lib/api/goal/support/GoalScheduler";
+import { SoftwareDeliveryMachineConfiguration } from "@atomist/sdm/lib/api/machine/SoftwareDeliveryMachineOptions";
 import { ServiceRegistrationGoalDataKey } from "@atomist/sdm/lib/api/registration/ServiceRegistration";
 import * as k8s from "@kubernetes/client-node";
 import * as cluster from "cluster";
@@ -38,13 +44,40 @@ import * as fs from "fs-extra";
 import * as stringify from "json-stringify-safe";
 import * as _ from "lodash";
 import * as os from "os";
-import { k8sErrMsg } from "../../../goal/container/k8s";
+import {
+    k8sErrMsg,
+    K8sSidecarContainer,
+} from "../../../goal/container/k8s";
+import {
+    containerGoalName,
+    plannedGoalSuffix,
+} from "../../../goal/container/util";
+import {
+    SdmGoalsByGoalSetIdAndUniqueName,
+    SdmGoalState,
+} from "../../../typings/types";
 import { toArray } from "../../../util/misc/array";
+import { K8sObjectApi } from "../kubernetes/api";
 import {
     loadKubeClusterConfig,
     loadKubeConfig,
 } from "../kubernetes/config";
 import { K8sNamespaceFile } from "../support/namespace";
+import {
+    concurrencyGroups,
+    ConcurrencyGroupsAnnotation,
+    dequeueJob,
+    enqueueJob,
+    goalQueueName,
+    isJobRunning,
+    jobConcurrencyGroups,
+    KubernetesGoalConcurrency,
+    QueuedGoalJob,
+    readQueue,
+    releasableJobs,
+    updateQueuePosition,
+    withQueueLock,
+} from "./queue";
 import {
     K8sServiceRegistrationType,
     K8sServiceSpec,
@@ -56,6 +89,11 @@ import {
 export interface KubernetesGoalSchedulerOptions {
     isolateAll?: boolean;
     podSpec?: k8s.V1Pod;
+    /**
+     * Limit the number of concurrently running goal jobs; goals exceeding
+     * the limits are queued.  Defaults to sdm.k8s.job.concurrency.
+     */
+    concurrency?: KubernetesGoalConcurrency;
 }
 
 /**
@@ -64,6 +102,10 @@ export interface KubernetesGoalSchedulerOptions {
  * It reuses the podSpec of the deployed SDM to create a new jobSpec from.
  * Subclasses may change the spec and job creation behavior by overwriting beforeCreation
  * and/or afterCreation methods.
+ *
+ * If concurrency limits are configured, jobs are put into a FIFO queue stored in
+ * ConfigMaps and only created once all their concurrency groups have a free slot.
+ * Queued jobs are released when running jobs complete, by any replica of the SDM.
  */
 export class KubernetesGoalScheduler implements GoalScheduler {
 
@@ -98,6 +140,18 @@ export class KubernetesGoalScheduler implements GoalScheduler {
         const jobSpec = await this.beforeCreation(gi, defaultJobSpec);
         const jobDesc = `k8s job '${jobSpec.metadata.namespace}:${jobSpec.metadata.name}' for goal '${goalEvent.uniqueName}'`;
 
+        if (hasSidecarContainers(jobSpec)) {
+            try {
+                await checkSidecarContainerSupport(kc);
+            } catch (e) {
+                gi.progressLog.write(e.message);
+                return {
+                    code: 1,
+                    message: `Failed to schedule ${jobDesc}: ${e.message}`,
+                };
+            }
+        }
+
         gi.progressLog.write(`/--`);
         gi.progressLog.write(
             `Scheduling k8s job '${jobSpec.metadata.namespace}:${jobSpec.metadata.name}' for goal '${goalEvent.name} (${goalEvent.uniqueName})'`);
@@ -122,17 +176,13 @@ export class KubernetesGoalScheduler implements GoalScheduler {
             // This is ok to ignore as it just means the job doesn't exist
         }
 
-        try {
-            logger.debug(`Job spec for ${jobDesc}: ${JSON.stringify(jobSpec)}`);
-            // Previous deletion might not have completed; hence the retry here
-            const jobResult = (await doWithRetry<{ body: k8s.V1Job }>(
-                () => batch.createNamespacedJob(jobSpec.metadata.namespace, jobSpec),
-                `Scheduling ${jobDesc}`)).body;
-
-            await this.afterCreation(gi, jobResult);
+        const concurrency = this.concurrency(gi.configuration);
+        if (!!concurrency) {
+            return this.enqueue(gi, jobSpec, concurrency);
+        }
 
-            logger.info(`Scheduled ${jobDesc} with result: ${stringify(jobResult.status)}`);
-            logger.log("silly", stringify(jobResult));
+        try {
+            await this.createJob(jobSpec, gi);
         } catch (e) {
             logger.error(`Failed to schedule ${jobDesc}: ${stringify(e.body)}`);
             return {
@@ -169,6 +219,53 @@ export class KubernetesGoalScheduler implements GoalScheduler {
         return;
     }
 
+    /**
+     * Release queued goal jobs that fit into their concurrency groups.
+     * @return the goal jobs that remain queued or undefined if the queue is
+     * currently locked by another SDM process
+     */
+    public async release(configuration: Configuration): Promise<QueuedGoalJob[] | undefined> {
+        const podNs = await readNamespace();
+        const queue = goalQueueName(sanitizeName(configuration.name));
+        return withQueueLock(podNs, queue, async () => {
+            const queued = await readQueue(podNs, queue);
+            if (queued.length === 0) {
+                return [];
+            }
+            const running = (await listJobs(`atomist.com/creator=${sanitizeName(configuration.name)}`))
+                .filter(isJobRunning)
+                .map(jobConcurrencyGroups);
+            const released = releasableJobs(queued, running);
+            for (const job of released) {
+                if (!(await dequeueJob(podNs, job.name))) {
+                    continue;
+                }
+                const gi = await queuedGoalInvocation(configuration, job);
+                try {
+                    await this.createJob(job.job, gi);
+                    if (!!gi) {
+                        await updateGoal(gi.context, gi.goalEvent, {
+                            state: SdmGoalState.in_process,
+                            phase: "scheduled",
+                            description: gi.goalEvent.descriptions?.inProcess || `Working: ${gi.goalEvent.name}`,
+                        });
+                    }
+                } catch (e) {
+                    logger.error(`Failed to schedule queued k8s job '${job.job.metadata.name}': ${k8sErrMsg(e)}`);
+                    if (!!gi) {
+                        await updateGoal(gi.context, gi.goalEvent, {
+                            state: SdmGoalState.failure,
+                            description: `Failed to schedule goal`,
+                        });
+                    }
+                }
+            }
+            const remaining = queued.filter(q => !released.includes(q));
+            await updateQueuePositions(configuration, podNs, remaining);
+            return remaining;
+        });
+    }
+
     public async initialize(configuration: Configuration): Promise<void> {
         const podName = process.env.ATOMIST_POD_NAME || os.hostname();
         const podNs = await readNamespace();
@@ -199,6 +296,17 @@ export class KubernetesGoalScheduler implements GoalScheduler {
                 }
             }, cleanupInterval).unref();
         }
+
+        if (!!this.concurrency(configuration)) {
+            const queueInterval = configuration.sdm.k8s?.job?.queueInterval || 1000 * 10;
+            setInterval(async () => {
+                try {
+                    await this.release(configuration);
+                } catch (e) {
+                    logger.warn(`Failed releasing queued goal Kubernetes jobs: ${k8sErrMsg(e)}`);
+                }
+            }, queueInterval).unref();
+        }
     }
 
     /**
@@ -207,6 +315,177 @@ export class KubernetesGoalScheduler implements GoalScheduler {
     protected async cleanUp(configuration: Configuration): Promise<void> {
         return cleanupJobs(configuration);
     }
+
+    private concurrency(configuration: Configuration): KubernetesGoalConcurrency | undefined {
+        const concurrency: KubernetesGoalConcurrency = this.options.concurrency || _.get(configuration, "sdm.k8s.job.concurrency");
+        if (!concurrency || (!concurrency.max && (concurrency.groups || []).length === 0)) {
+            return undefined;
+        }
+        return concurrency;
+    }
+
+    private async createJob(jobSpec: k8s.V1Job, gi?: GoalInvocation): Promise<void> {
+        const kc = loadKubeConfig();
+        const jobDesc = `k8s job '${jobSpec.metadata.namespace}:${jobSpec.metadata.name}'`;
+
+        logger.debug(`Job spec for ${jobDesc}: ${JSON.stringify(jobSpec)}`);
+        // Previous deletion might not have completed; hence the retry here
+        const jobResult = await doWithRetry(() => createK8sJob(kc, jobSpec), `Scheduling ${jobDesc}`);
+
+        if (!!gi) {
+            await this.afterCreation(gi, jobResult);
+        }
+
+        logger.info(`Scheduled ${jobDesc} with result: ${stringify(jobResult.status)}`);
+        logger.log("silly", stringify(jobResult));
+    }
+
+    private async enqueue(gi: GoalInvocation,
+                          jobSpec: k8s.V1Job,
+                          concurrency: KubernetesGoalConcurrency): Promise<ExecuteGoalResult> {
+        const { goalEvent } = gi;
+        const podNs = jobSpec.metadata.namespace;
+        const queue = goalQueueName(sanitizeName(gi.configuration.name));
+        const jobDesc = `k8s job '${jobSpec.metadata.namespace}:${jobSpec.metadata.name}' for goal '${goalEvent.uniqueName}'`;
+
+        const groups = concurrencyGroups(goalEvent, concurrency);
+        jobSpec.metadata.annotations = {
+            ...(jobSpec.metadata.annotations || {}),
+            [ConcurrencyGroupsAnnotation]: JSON.stringify(groups),
+        };
+        const queued: QueuedGoalJob = {
+            name: `${jobSpec.metadata.name}-queued`,
+            ts: Date.now(),
+            goal: {
+                goalSetId: goalEvent.goalSetId,
+                uniqueName: goalEvent.uniqueName,
+                workspaceId: gi.context.workspaceId,
+            },
+            position: 0,
+            groups,
+            job: jobSpec,
+        };
+
+        try {
+            await enqueueJob(podNs, queue, queued);
+            const remaining = (await this.release(gi.configuration)) || (await readQueue(podNs, queue));
+            const position = remaining.findIndex(q => q.name === queued.name) + 1;
+            if (position === 0) {
+                await gi.progressLog.flush();
+                return {
+                    code: 0,
+                    message: `Scheduled ${jobDesc}`,
+                };
+            }
+            await updateQueuePosition(podNs, queued.name, position);
+            gi.progressLog.write(`Queued ${jobDesc} at position ${position}`);
+            await gi.progressLog.flush();
+            return {
+                code: 0,
+                state: SdmGoalState.in_process,
+                phase: "queued",
+                description: queuedDescription(goalEvent, position),
+            };
+        } catch (e) {
+            logger.error(`Failed to queue ${jobDesc}: ${stringify(e.body)}`);
+            return {
+                code: 1,
+                message: `Failed to queue ${jobDesc}: ${k8sErrMsg(e)}`,
+            };
+        }
+    }
+}
+
+/**
+ * Update the description of queued goals whose queue position changed
+ * since it was last reported.  Goals still being queued report their
+ * position themselves.
+ */
+async function updateQueuePositions(configuration: Configuration, namespace: string, queued: QueuedGoalJob[]): Promise<void> {
+    for (let i = 0; i < queued.length; i++) {
+        const job = queued[i];
+        if (job.position === 0 || job.position === i + 1) {
+            continue;
+        }
+        try {
+            const gi = await queuedGoalInvocation(configuration, job);
+            if (!!gi) {
+                await updateGoal(gi.context, gi.goalEvent, {
+                    state: SdmGoalState.in_process,
+                    phase: "queued",
+                    description: queuedDescription(gi.goalEvent, i + 1),
+                });
+            }
+            await updateQueuePosition(namespace, job.name, i + 1);
+        } catch (e) {
+            logger.warn(`Failed to update queue position of goal '${job.goal.uniqueName}': ${k8sErrMsg(e)}`);
+        }
+    }
+}
+
+/**
+ * Rebuild the invocation of a queued goal from its current goal event,
+ * so that any SDM replica can release the goal, including replicas
+ * that did not queue it or were restarted since.
+ * @return goal invocation or undefined if the goal can't be read
+ */
+async function queuedGoalInvocation(configuration: Configuration, job: QueuedGoalJob): Promise<GoalInvocation | undefined> {
+    const { goalSetId, uniqueName, workspaceId } = job.goal;
+    try {
+        const id = guid();
+        const context: HandlerContext & AutomationContextAware = {
+            graphClient: configuration.graphql.client.factory.create(workspaceId, configuration),
+            messageClient: undefined,
+            workspaceId,
+            correlationId: id,
+            trigger: undefined,
+            invocationId: id,
+            context: {
+                name: configuration.name,
+                version: configuration.version,
+                operation: "ReleaseQueuedGoal",
+                ts: Date.now(),
+                workspaceId,
+                workspaceName: workspaceId,
+                correlationId: id,
+                invocationId: id,
+            },
+        };
+        const result = await context.graphClient.query<SdmGoalsByGoalSetIdAndUniqueName.Query, SdmGoalsByGoalSetIdAndUniqueName.Variables>({
+            name: "SdmGoalsByGoalSetIdAndUniqueName",
+            variables: { goalSetId: [goalSetId], uniqueName: [uniqueName] },
+            options: QueryNoCacheOptions,
+        });
+        const goalEvent = _.maxBy(result?.SdmGoal || [], g => g.ts) as SdmGoalEvent;
+        if (!goalEvent) {
+            logger.warn(`Queued goal '${uniqueName}' of goal set '${goalSetId}' not found`);
+            return undefined;
+        }
+        const sdmConfiguration = configuration as SoftwareDeliveryMachineConfiguration;
+        return {
+            configuration: sdmConfiguration,
+            context,
+            goalEvent,
+            sdmGoal: goalEvent,
+            goal: undefined,
+            progressLog: new LoggingProgressLog(goalEvent.name, "debug"),
+            id: sdmConfiguration.sdm.repoRefResolver.repoRefFromSdmGoal(goalEvent),
+            skill: createSkillContext(context),
+            credentials: undefined,
+            addressChannels: undefined,
+            preferences: undefined,
+        };
+    } catch (e) {
+        logger.warn(`Failed to read queued goal '${uniqueName}' of goal set '${goalSetId}': ${e.message}`);
+        return undefined;
+    }
+}
+
+/**
+ * Description of a goal waiting in the goal queue
+ */
+export function queuedDescription(goalEvent: SdmGoalEvent, position: number): string {
+    return `${goalEvent.name} queued (position ${position})`;
 }
 
 /**
@@ -245,14 +524,18 @@ async function cleanupJobs(configuration: Configuration): Promise<void> {
 
 /** Unique name for goal to use in k8s job spec. */
 function k8sJobGoalName(goalEvent: SdmGoalEvent): string {
-    return goalEvent.uniqueName.split("#")[0].toLowerCase();
+    return containerGoalName(goalEvent);
 }
 
-/** Unique name for job to use in k8s job spec. */
+/**
+ * Unique name for job to use in k8s job spec.  The index of planned
+ * goals is kept when the name is truncated.
+ */
 export function k8sJobName(podSpec: k8s.V1Pod, goalEvent: SdmGoalEvent): string {
-    const goalName = k8sJobGoalName(goalEvent);
+    const goalName = goalEvent.uniqueName.split("#")[0].toLowerCase();
+    const suffix = plannedGoalSuffix(goalEvent);
     return `${podSpec.spec.containers[0].name}-job-${goalEvent.goalSetId.slice(0, 7)}-${goalName}`
-        .slice(0, 63).replace(/[^a-z0-9]*$/, "");
+        .slice(0, 63 - suffix.length).replace(/[^a-z0-9]*$/, "") + suffix;
 }
 
 /**
@@ -494,6 +777,54 @@ function rewriteCachePath(jobSpec: k8s.V1Job, workspaceId: string): void {
     });
 }
 
+/**
+ * Check if the job runs sidecar containers, i.e., init containers
+ * that keep running, see [[k8sReadinessSidecar]].
+ */
+export function hasSidecarContainers(jobSpec: k8s.V1Job): boolean {
+    return (jobSpec.spec?.template?.spec?.initContainers || []).some(c => (c as K8sSidecarContainer).restartPolicy === "Always");
+}
+
+/**
+ * Check if the Kubernetes version supports sidecar containers, which
+ * were added in Kubernetes 1.29.  Older API servers reject init
+ * containers with a readiness probe and don't know their restart
+ * policy.
+ */
+export function supportsSidecarContainers(version: Pick<k8s.VersionInfo, "major" | "minor">): boolean {
+    // Minor versions of some distributions carry a suffix, e.g., "29+"
+    const major = parseInt(version.major, 10);
+    const minor = parseInt(version.minor, 10);
+    return major > 1 || (major === 1 && minor >= 29);
+}
+
+/**
+ * Read the version of the Kubernetes API server and throw an error
+ * if it doesn't support sidecar containers.
+ */
+async function checkSidecarContainerSupport(kc: k8s.KubeConfig): Promise<void> {
+    const version = (await kc.makeApiClient(k8s.VersionApi).getCode()).body;
+    if (!supportsSidecarContainers(version)) {
+        throw new Error(`Containers with readiness probes require Kubernetes 1.29 or later but the cluster runs ${version.gitVersion}`);
+    }
+}
+
+/**
+ * Create the job.  The job is sent as is rather than through the
+ * generated Kubernetes client, whose object serializer drops all
+ * properties its models don't know, like the restart policy and
+ * startup probe of sidecar containers, see [[K8sSidecarContainer]].
+ *
+ * @param kc Kubernetes configuration to create the API client from
+ * @param jobSpec Spec of the job to create
+ * @return Created job
+ */
+export async function createK8sJob(kc: k8s.KubeConfig, jobSpec: k8s.V1Job): Promise<k8s.V1Job> {
+    const client = kc.makeApiClient(K8sObjectApi);
+    const response = await client.create({ apiVersion: "batch/v1", kind: "Job", ...jobSpec });
+    return response.body as k8s.V1Job;
+}
+
 /**
  * Checks if one of the provided values is configured in ATOMIST_GOAL_SCHEDULER or -
  * for backwards compatibility reasons - ATOMIST_GOAL_LAUNCHER.
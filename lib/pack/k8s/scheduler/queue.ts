@@ -0,0 +1,348 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { guid } from "@atomist/automation-client/lib/internal/util/string";
+import { logger } from "@atomist/automation-client/lib/util/logger";
+import { SdmGoalEvent } from "@atomist/sdm/lib/api/goal/SdmGoalEvent";
+import * as k8s from "@kubernetes/client-node";
+import * as _ from "lodash";
+import { k8sErrMsg } from "../../../goal/container/k8s";
+import { toArray } from "../../../util/misc/array";
+import { loadKubeConfig } from "../kubernetes/config";
+import { patchHeaders } from "../kubernetes/patch";
+
+/**
+ * Group of goals that may only run a limited number of k8s jobs at the same time
+ */
+export interface ConcurrencyGroup {
+    /** Name of the group */
+    name: string;
+    /** Maximum number of concurrently running jobs of goals in this group */
+    max: number;
+    /** Names or unique names of goals in this group; defaults to all goals */
+    goals?: string | string[];
+    /**
+     * Limit concurrency per environment, repository, branch or goal set
+     * instead of across all goals in this group.
+     */
+    per?: "environment" | "repo" | "branch" | "goalSet";
+}
+
+/**
+ * Concurrency limits of goal jobs scheduled by the KubernetesGoalScheduler
+ */
+export interface KubernetesGoalConcurrency {
+    /** Maximum number of concurrently running goal jobs of this SDM */
+    max?: number;
+    /** Additional limits for groups of goals */
+    groups?: ConcurrencyGroup[];
+}
+
+/**
+ * Concurrency group a goal job counts against
+ */
+export interface ConcurrencyGroupLimit {
+    key: string;
+    max: number;
+}
+
+/**
+ * Goal job waiting for a free slot in all its concurrency groups.  It
+ * stores everything needed to release the job and update its goal, so
+ * that any SDM replica can release it.
+ */
+export interface QueuedGoalJob {
+    /** Name of the ConfigMap storing the queued job */
+    name: string;
+    /** Timestamp the goal was queued */
+    ts: number;
+    goal: {
+        goalSetId: string;
+        uniqueName: string;
+        /** Workspace of the goal, used to read and update the goal */
+        workspaceId: string;
+    };
+    /**
+     * Queue position last reported in the goal description, 0 while
+     * the goal is being queued
+     */
+    position: number;
+    groups: ConcurrencyGroupLimit[];
+    job: k8s.V1Job;
+}
+
+/** Annotation on goal jobs listing the concurrency groups the job counts against */
+export const ConcurrencyGroupsAnnotation = "atomist.com/concurrency-groups";
+
+/** Label of ConfigMaps storing queued goal jobs */
+export const GoalQueueLabel = "atomist.com/goal-queue";
+
+/**
+ * Determine the concurrency groups of the provided goal.  The SDM wide limit
+ * is represented by the group 'sdm'.
+ */
+export function concurrencyGroups(goal: SdmGoalEvent, concurrency: KubernetesGoalConcurrency): ConcurrencyGroupLimit[] {
+    const groups: ConcurrencyGroupLimit[] = [];
+    if (!!concurrency.max) {
+        groups.push({ key: "sdm", max: concurrency.max });
+    }
+    for (const group of (concurrency.groups || [])) {
+        const goals = toArray(group.goals || []);
+        if (goals.length > 0 && !goals.some(g => g === goal.name || g === goal.uniqueName)) {
+            continue;
+        }
+        let partition: string;
+        switch (group.per) {
+            case "environment":
+                partition = goal.environment;
+                break;
+            case "repo":
+                partition = `${goal.repo.owner}/${goal.repo.name}`;
+                break;
+            case "branch":
+                partition = `${goal.repo.owner}/${goal.repo.name}/${goal.branch}`;
+                break;
+            case "goalSet":
+                partition = goal.goalSetId;
+                break;
+        }
+        groups.push({ key: !!partition ? `${group.name}:${partition}` : group.name, max: group.max });
+    }
+    return groups;
+}
+
+/**
+ * Select the queued jobs that can be released in FIFO order without exceeding
+ * the limit of any of their concurrency groups.  Jobs blocked by a full group
+ * don't hold back jobs of other groups.
+ * @param queued queued jobs ordered by their queue position
+ * @param running concurrency groups of the currently running jobs
+ */
+export function releasableJobs(queued: QueuedGoalJob[], running: ConcurrencyGroupLimit[][]): QueuedGoalJob[] {
+    const counts: Record<string, number> = {};
+    running.forEach(groups => groups.forEach(g => counts[g.key] = (counts[g.key] || 0) + 1));
+    const released: QueuedGoalJob[] = [];
+    for (const job of queued) {
+        if (job.groups.every(g => (counts[g.key] || 0) < g.max)) {
+            job.groups.forEach(g => counts[g.key] = (counts[g.key] || 0) + 1);
+            released.push(job);
+        }
+    }
+    return released;
+}
+
+/**
+ * Check if the provided job is still running, i.e. has neither completed nor failed
+ */
+export function isJobRunning(job: k8s.V1Job): boolean {
+    return !job.status?.completionTime &&
+        !(job.status?.conditions || []).some(c => ["Complete", "Failed"].includes(c.type) && c.status === "True");
+}
+
+/**
+ * Concurrency groups stored on the provided goal job
+ */
+export function jobConcurrencyGroups(job: k8s.V1Job): ConcurrencyGroupLimit[] {
+    const groups = job.metadata?.annotations?.[ConcurrencyGroupsAnnotation];
+    if (!groups) {
+        return [];
+    }
+    try {
+        return JSON.parse(groups);
+    } catch (e) {
+        logger.warn(`Failed to parse concurrency groups of k8s job '${job.metadata.name}': ${e.message}`);
+        return [];
+    }
+}
+
+/**
+ * Name of the goal queue of the SDM with the provided sanitized name
+ */
+export function goalQueueName(sdmName: string): string {
+    return `${sdmName.toLowerCase().replace(/[^a-z0-9.-]/g, "-")}-goal-queue`;
+}
+
+/**
+ * Store the job in the durable goal queue.  A job already queued under the
+ * same name is replaced.
+ */
+export async function enqueueJob(namespace: string, queue: string, job: QueuedGoalJob): Promise<void> {
+    const core = loadKubeConfig().makeApiClient(k8s.CoreV1Api);
+    const configMap: k8s.V1ConfigMap = {
+        metadata: {
+            name: job.name,
+            namespace,
+            labels: {
+                [GoalQueueLabel]: queue,
+            },
+        },
+        data: {
+            ts: job.ts.toString(),
+            goal: JSON.stringify(job.goal),
+            position: job.position.toString(),
+            groups: JSON.stringify(job.groups),
+            job: JSON.stringify(job.job),
+        },
+    };
+    await dequeueJob(namespace, job.name);
+    await core.createNamespacedConfigMap(namespace, configMap);
+}
+
+/**
+ * Record the queue position last reported in the goal description of
+ * the queued job.  Jobs released in the meantime are ignored.
+ */
+export async function updateQueuePosition(namespace: string, name: string, position: number): Promise<void> {
+    const core = loadKubeConfig().makeApiClient(k8s.CoreV1Api);
+    try {
+        await core.patchNamespacedConfigMap(name, namespace, { data: { position: position.toString() } },
+            undefined, undefined, undefined, undefined, patchHeaders());
+    } catch (e) {
+        if (e.response?.statusCode !== 404) {
+            throw e;
+        }
+    }
+}
+
+/**
+ * Remove the job from the goal queue.
+ * @return true if the job was removed by this call, false if it wasn't queued
+ */
+export async function dequeueJob(namespace: string, name: string): Promise<boolean> {
+    return deleteConfigMap(namespace, name);
+}
+
+/**
+ * Read all queued jobs ordered by their queue position
+ */
+export async function readQueue(namespace: string, queue: string): Promise<QueuedGoalJob[]> {
+    const core = loadKubeConfig().makeApiClient(k8s.CoreV1Api);
+    const configMaps: k8s.V1ConfigMap[] = [];
+    let continu: string | undefined;
+    do {
+        const response = await core.listNamespacedConfigMap(namespace, undefined, undefined, continu, undefined,
+            `${GoalQueueLabel}=${queue}`);
+        configMaps.push(...response.body.items);
+        continu = response.body.metadata?._continue;
+    } while (continu);
+
+    const jobs: QueuedGoalJob[] = [];
+    for (const configMap of configMaps) {
+        try {
+            jobs.push({
+                name: configMap.metadata.name,
+                ts: +configMap.data.ts,
+                goal: JSON.parse(configMap.data.goal),
+                position: +configMap.data.position || 0,
+                groups: JSON.parse(configMap.data.groups),
+                job: JSON.parse(configMap.data.job),
+            });
+        } catch (e) {
+            logger.warn(`Failed to read queued goal job '${configMap.metadata.name}': ${e.message}`);
+        }
+    }
+    return _.sortBy(jobs, ["ts", "name"]);
+}
+
+/**
+ * Run the provided function while holding the lock of the goal queue.  The
+ * lock is a ConfigMap so that it is shared by all SDM replicas; locks older
+ * than the provided timeout are considered stale and taken over.  The lock
+ * records its owner so that a holder whose lock was taken over does not
+ * release the lock of the new owner.
+ * @return result of the function or undefined if the lock is held by somebody else
+ */
+export async function withQueueLock<T>(namespace: string,
+                                       queue: string,
+                                       fn: () => Promise<T>,
+                                       timeout: number = 60000): Promise<T | undefined> {
+    const core = loadKubeConfig().makeApiClient(k8s.CoreV1Api);
+    const name = `${queue}-lock`;
+    const owner = guid();
+    const lock = async (): Promise<boolean> => {
+        try {
+            await core.createNamespacedConfigMap(namespace, { metadata: { name, namespace }, data: { owner, ts: Date.now().toString() } });
+            return true;
+        } catch (e) {
+            if (e.response?.statusCode === 409) {
+                return false;
+            }
+            throw e;
+        }
+    };
+
+    if (!(await lock())) {
+        try {
+            const current = (await core.readNamespacedConfigMap(name, namespace)).body;
+            if (Date.now() - (+current.data?.ts || 0) < timeout) {
+                return undefined;
+            }
+            logger.debug(`Taking over stale goal queue lock '${namespace}:${name}'`);
+            await deleteConfigMap(namespace, name, current.metadata.resourceVersion);
+        } catch (e) {
+            logger.debug(`Failed to read goal queue lock '${namespace}:${name}': ${k8sErrMsg(e)}`);
+        }
+        if (!(await lock())) {
+            return undefined;
+        }
+    }
+    try {
+        return await fn();
+    } finally {
+        await releaseQueueLock(namespace, name, owner);
+    }
+}
+
+/**
+ * Delete the lock ConfigMap if it is still held by the provided owner.
+ * The deletion is conditional on the resource version that was read,
+ * so a lock taken over in the meantime is left alone.
+ */
+async function releaseQueueLock(namespace: string, name: string, owner: string): Promise<void> {
+    const core = loadKubeConfig().makeApiClient(k8s.CoreV1Api);
+    try {
+        const current = (await core.readNamespacedConfigMap(name, namespace)).body;
+        if (current.data?.owner !== owner) {
+            logger.debug(`Goal queue lock '${namespace}:${name}' was taken over, not releasing it`);
+            return;
+        }
+        await deleteConfigMap(namespace, name, current.metadata.resourceVersion);
+    } catch (e) {
+        if (e.response?.statusCode !== 404) {
+            logger.warn(`Failed to release goal queue lock '${namespace}:${name}': ${k8sErrMsg(e)}`);
+        }
+    }
+}
+
+/**
+ * Delete the ConfigMap, optionally only if it still has the provided
+ * resource version.
+ * @return true if the ConfigMap was deleted by this call, false if it didn't
+ *         exist or was modified
+ */
+async function deleteConfigMap(namespace: string, name: string, resourceVersion?: string): Promise<boolean> {
+    const core = loadKubeConfig().makeApiClient(k8s.CoreV1Api);
+    const body: k8s.V1DeleteOptions = !!resourceVersion ? { preconditions: { resourceVersion } } : undefined;
+    try {
+        await core.deleteNamespacedConfigMap(name, namespace, undefined, undefined, undefined, undefined, undefined, body);
+        return true;
+    } catch (e) {
+        if (e.response?.statusCode === 404 || (!!resourceVersion && e.response?.statusCode === 409)) {
+            return false;
+        }
+        throw e;
+    }
+}
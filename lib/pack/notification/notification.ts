@@ -20,6 +20,7 @@ import {
     Destination,
     MessageOptions,
 } from "@atomist/automation-client/lib/spi/message/MessageClient";
+import { logger } from "@atomist/automation-client/lib/util/logger";
 import { metadata } from "@atomist/sdm/lib/api-helper/misc/extensionPack";
 import {
     slackErrorMessage,
@@ -62,18 +63,48 @@ export type DestinationFactory = (goal: SdmGoalEvent, context: SdmContext) => Pr
  */
 export type NotificationFactory = (gi: GoalCompletionListenerInvocation) => Promise<{ message: any, options: MessageOptions }>;
 
+/**
+ * Goal states that notifications are sent for by default
+ */
+export const DefaultNotificationStates: SdmGoalState[] = [
+    SdmGoalState.failure,
+    SdmGoalState.waiting_for_approval,
+    SdmGoalState.waiting_for_pre_approval,
+    SdmGoalState.stopped,
+];
+
+/**
+ * Transport to deliver notifications through a channel other than chat, e.g., email or webhooks.
+ * Destinations and messages are created with the same DestinationFactory and NotificationFactory
+ * that are used for chat notifications.
+ */
+export interface NotificationTransport {
+    /** Name of the transport, used for logging */
+    name: string;
+    /** Only notify for goals in one of these states; defaults to all states */
+    states?: SdmGoalState[];
+    destination: DestinationFactory | DestinationFactory[];
+    notification: NotificationFactory;
+    /** Deliver the message created by the NotificationFactory to the destination */
+    send(message: any, destination: Destination, options: MessageOptions, gi: GoalCompletionListenerInvocation): Promise<void>;
+}
+
 /**
  * Options to configure the notification support
  */
 export interface NotificationOptions {
     destination?: DestinationFactory | DestinationFactory[];
     notification?: NotificationFactory;
+    /** Additional transports to send notifications with */
+    transports?: NotificationTransport | NotificationTransport[];
 }
 
 /**
  * Extension pack to send notifications on certain conditions.
  * Recipients and notification messages can be customized by providing options
  * with DestinationFactory and NotificationFactory.
+ * Notifications can additionally be sent via email, webhooks or MS Teams by
+ * providing NotificationTransports, e.g. emailTransport or teamsTransport.
  * @param options
  */
 export function notificationSupport(options: NotificationOptions = {}): ExtensionPack {
@@ -195,28 +226,143 @@ export function defaultNotificationFactory(updateGoalCommand: CommandHandlerRegi
 
 /**
  * GoalCompletionListener that delegates to the NotificationFactory and DestinationFactory to
- * create notifications and send them out.
+ * create notifications and send them out.  Chat notifications are sent via the message client;
+ * notifications of additional transports are sent by the transport itself.
  */
 export function notifyGoalCompletionListener(options: NotificationOptions): GoalCompletionListener {
+    const transports: NotificationTransport[] = toArray(options.transports || []);
+    if (!!options.notification) {
+        transports.unshift(chatTransport(options));
+    }
     return async gi => {
-        const { completedGoal, context } = gi;
+        let error: Error;
+        for (const transport of transports) {
+            if (!!transport.states && !transport.states.includes(gi.completedGoal.state)) {
+                continue;
+            }
+            try {
+                await notifyWithTransport(transport, gi);
+            } catch (e) {
+                logger.warn(`Failed to send ${transport.name} notification: ${e.message}`);
+                error = error || e;
+            }
+        }
+        if (!!error) {
+            throw error;
+        }
+    };
+}
 
-        const destinations: Destination[] = [];
+/**
+ * Summary of a goal notification independent of the chat message format
+ */
+export interface GoalNotificationSummary {
+    /** Title of the notification, e.g., 'Goal Failed' */
+    title: string;
+    /** Plain text description of the goal and its state */
+    text: string;
+    goal: {
+        name: string;
+        state: SdmGoalState;
+        url?: string;
+        goalSetId: string;
+        goalSetUrl: string;
+    };
+    repo: {
+        owner: string;
+        name: string;
+        branch: string;
+        url: string;
+    };
+    commit: {
+        sha: string;
+        message: string;
+        url: string;
+    };
+}
 
-        for (const destinationFactory of toArray(options.destination || [])) {
-            const newDestinations = await destinationFactory(completedGoal, gi);
-            if (!!newDestinations) {
-                destinations.push(...toArray(newDestinations));
-            }
+/**
+ * Create a format independent summary of the completed goal for transports
+ * that can't render Slack messages.
+ * @return undefined if the goal state doesn't warrant a notification
+ */
+export function goalNotificationSummary(gi: GoalCompletionListenerInvocation): GoalNotificationSummary | undefined {
+    const { completedGoal, context } = gi;
+    const description = goalStateDescription(completedGoal.state);
+    if (!description) {
+        return undefined;
+    }
+    const commitMsg = (completedGoal.push.after.message || "").split("\n")[0];
+    const slug = `${completedGoal.repo.owner}/${completedGoal.repo.name}/${completedGoal.branch}`;
+    return {
+        title: `Goal ${description.suffix}`,
+        text: `Goal ${completedGoal.name} on ${completedGoal.sha.slice(0, 7)} ${commitMsg} of ${slug} ${description.state}.`,
+        goal: {
+            name: completedGoal.name,
+            state: completedGoal.state,
+            url: completedGoal.url,
+            goalSetId: completedGoal.goalSetId,
+            goalSetUrl: `https://app.atomist.com/workspace/${context.workspaceId}/goalset/${completedGoal.goalSetId}`,
+        },
+        repo: {
+            owner: completedGoal.repo.owner,
+            name: completedGoal.repo.name,
+            branch: completedGoal.branch,
+            url: completedGoal.push.repo.url,
+        },
+        commit: {
+            sha: completedGoal.sha,
+            message: commitMsg,
+            url: completedGoal.push.after.url,
+        },
+    };
+}
+
+function chatTransport(options: NotificationOptions): NotificationTransport {
+    return {
+        name: "chat",
+        destination: options.destination || [],
+        notification: options.notification,
+        send: async (message, destination, messageOptions, gi) => {
+            await gi.context.messageClient.send(message, destination, messageOptions);
+        },
+    };
+}
+
+async function notifyWithTransport(transport: NotificationTransport, gi: GoalCompletionListenerInvocation): Promise<void> {
+    const destinations: Destination[] = [];
+
+    for (const destinationFactory of toArray(transport.destination || [])) {
+        const newDestinations = await destinationFactory(gi.completedGoal, gi);
+        if (!!newDestinations) {
+            destinations.push(...toArray(newDestinations));
         }
+    }
 
-        if (destinations.length > 0) {
-            const msg = await options.notification(gi);
-            for (const destination of destinations) {
-                await context.messageClient.send(msg.message, destination, msg.options);
-            }
+    if (destinations.length > 0) {
+        const msg = await transport.notification(gi);
+        if (!msg) {
+            return;
         }
-    };
+        for (const destination of destinations) {
+            await transport.send(msg.message, destination, msg.options, gi);
+        }
+    }
+}
+
+function goalStateDescription(state: SdmGoalState): { state: string, suffix: string } | undefined {
+    switch (state) {
+        case SdmGoalState.failure:
+            return { state: "has failed", suffix: "Failed" };
+        case SdmGoalState.waiting_for_approval:
+            return { state: "is waiting for approval", suffix: "Awaiting Approval" };
+        case SdmGoalState.waiting_for_pre_approval:
+            return { state: "is waiting to start", suffix: "Awaiting Start" };
+        case SdmGoalState.stopped:
+            return { state: "has stopped", suffix: "Stopped" };
+        default:
+            return undefined;
+    }
 }
 
 export function truncateCommitMessage(message: string): string {
@@ -0,0 +1,134 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Destination } from "@atomist/automation-client/lib/spi/message/MessageClient";
+import { SdmGoalState } from "../../typings/types";
+import { toArray } from "../../util/misc/array";
+import {
+    DefaultNotificationStates,
+    DestinationFactory,
+    goalNotificationSummary,
+    NotificationFactory,
+    NotificationTransport,
+} from "./notification";
+import { postJson } from "./webhook";
+
+export const TeamsUserAgent = "teams";
+
+/**
+ * Message Destination for an MS Teams incoming webhook
+ */
+export interface TeamsDestination extends Destination {
+    userAgent: "teams";
+    url: string;
+}
+
+/**
+ * Create a Destination that addresses the MS Teams incoming webhook at the provided URL.
+ */
+export function addressTeams(url: string): TeamsDestination {
+    return {
+        userAgent: TeamsUserAgent,
+        url,
+    };
+}
+
+/**
+ * Options to configure the MS Teams notification transport
+ */
+export interface TeamsTransportOptions {
+    /** Incoming webhook URLs of the MS Teams channels */
+    url?: string | string[];
+    /** Goal states to send cards for; defaults to DefaultNotificationStates */
+    states?: SdmGoalState[];
+    destination?: DestinationFactory | DestinationFactory[];
+    notification?: NotificationFactory;
+}
+
+/**
+ * Notification transport posting adaptive cards to MS Teams incoming webhooks.
+ */
+export function teamsTransport(options: TeamsTransportOptions): NotificationTransport {
+    return {
+        name: "teams",
+        states: options.states || DefaultNotificationStates,
+        destination: options.destination || (async () => toArray(options.url || []).map(addressTeams)),
+        notification: options.notification || defaultTeamsNotificationFactory,
+        send: async (message, destination: TeamsDestination, messageOptions, gi) => {
+            if (destination.userAgent !== TeamsUserAgent) {
+                return;
+            }
+            await postJson(destination.url, message, gi);
+        },
+    };
+}
+
+/**
+ * Default NotificationFactory creating an adaptive card message for the goal.
+ */
+export const defaultTeamsNotificationFactory: NotificationFactory = async gi => {
+    const summary = goalNotificationSummary(gi);
+    if (!summary) {
+        return undefined;
+    }
+    const actions = [{
+        type: "Action.OpenUrl",
+        title: "View Goal Set",
+        url: summary.goal.goalSetUrl,
+    }];
+    if (!!summary.goal.url) {
+        actions.unshift({
+            type: "Action.OpenUrl",
+            title: "View Goal",
+            url: summary.goal.url,
+        });
+    }
+    const card = {
+        $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+        type: "AdaptiveCard",
+        version: "1.2",
+        body: [{
+            type: "TextBlock",
+            text: summary.title,
+            size: "Medium",
+            weight: "Bolder",
+            color: summary.goal.state === SdmGoalState.failure ? "Attention" : "Default",
+        }, {
+            type: "TextBlock",
+            text: summary.text,
+            wrap: true,
+        }, {
+            type: "FactSet",
+            facts: [
+                { title: "Goal", value: summary.goal.name },
+                { title: "Repository", value: `[${summary.repo.owner}/${summary.repo.name}](${summary.repo.url})` },
+                { title: "Branch", value: summary.repo.branch },
+                { title: "Commit", value: `[${summary.commit.sha.slice(0, 7)}](${summary.commit.url})` },
+            ],
+        }],
+        actions,
+    };
+    return {
+        message: {
+            type: "message",
+            attachments: [{
+                contentType: "application/vnd.microsoft.card.adaptive",
+                content: card,
+            }],
+        },
+        options: {},
+    };
+};
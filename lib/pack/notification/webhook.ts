@@ -0,0 +1,134 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    defaultHttpClientFactory,
+    HttpClientFactory,
+    HttpMethod,
+} from "@atomist/automation-client/lib/spi/http/httpClient";
+import { Destination } from "@atomist/automation-client/lib/spi/message/MessageClient";
+import { SdmContext } from "@atomist/sdm/lib/api/context/SdmContext";
+import * as crypto from "crypto";
+import * as _ from "lodash";
+import { SdmGoalState } from "../../typings/types";
+import { toArray } from "../../util/misc/array";
+import {
+    DefaultNotificationStates,
+    DestinationFactory,
+    goalNotificationSummary,
+    NotificationFactory,
+    NotificationTransport,
+} from "./notification";
+
+export const WebhookUserAgent = "webhook";
+
+/**
+ * Header carrying the HMAC SHA-256 signature of the webhook payload
+ */
+export const WebhookSignatureHeader = "X-Atomist-Signature";
+
+/**
+ * Message Destination for a generic JSON webhook
+ */
+export interface WebhookDestination extends Destination {
+    userAgent: "webhook";
+    url: string;
+}
+
+/**
+ * Create a Destination that addresses the webhook at the provided URL.
+ */
+export function addressWebhook(url: string): WebhookDestination {
+    return {
+        userAgent: WebhookUserAgent,
+        url,
+    };
+}
+
+/**
+ * Options to configure the webhook notification transport
+ */
+export interface WebhookTransportOptions {
+    /** Webhook URLs to post notifications to */
+    url?: string | string[];
+    /** Secret to sign the payload with; the signature is sent in the X-Atomist-Signature header */
+    secret?: string;
+    /** Goal states to post notifications for; defaults to DefaultNotificationStates */
+    states?: SdmGoalState[];
+    destination?: DestinationFactory | DestinationFactory[];
+    notification?: NotificationFactory;
+}
+
+/**
+ * Notification transport posting JSON payloads to generic webhooks.
+ */
+export function webhookTransport(options: WebhookTransportOptions): NotificationTransport {
+    return {
+        name: "webhook",
+        states: options.states || DefaultNotificationStates,
+        destination: options.destination || (async () => toArray(options.url || []).map(addressWebhook)),
+        notification: options.notification || defaultWebhookNotificationFactory,
+        send: async (message, destination: WebhookDestination, messageOptions, gi) => {
+            if (destination.userAgent !== WebhookUserAgent) {
+                return;
+            }
+            await postJson(destination.url, message, gi, options.secret);
+        },
+    };
+}
+
+/**
+ * Default NotificationFactory creating a JSON payload describing the goal.
+ */
+export const defaultWebhookNotificationFactory: NotificationFactory = async gi => {
+    const summary = goalNotificationSummary(gi);
+    if (!summary) {
+        return undefined;
+    }
+    return {
+        message: {
+            type: "goal",
+            timestamp: Date.now(),
+            ...summary,
+        },
+        options: {},
+    };
+};
+
+/**
+ * Sign the payload with HMAC SHA-256 using the provided secret.
+ * @return signature in the form sha256=<hex digest>
+ */
+export function signPayload(payload: string, secret: string): string {
+    return `sha256=${crypto.createHmac("sha256", secret).update(payload).digest("hex")}`;
+}
+
+/**
+ * Post the payload as JSON to the URL, signing it if a secret is provided.
+ */
+export async function postJson(url: string, payload: any, ctx: SdmContext, secret?: string): Promise<void> {
+    const body = JSON.stringify(payload);
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (!!secret) {
+        headers[WebhookSignatureHeader] = signPayload(body, secret);
+    }
+    const httpClientFactory: HttpClientFactory = _.get(ctx, "configuration.http.client.factory") || defaultHttpClientFactory();
+    await httpClientFactory.create(url).exchange(url, {
+        method: HttpMethod.Post,
+        headers,
+        body,
+    });
+}
@@ -0,0 +1,268 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Configuration } from "@atomist/automation-client/lib/configuration";
+import { AutomationContextAware } from "@atomist/automation-client/lib/HandlerContext";
+import { registerShutdownHook } from "@atomist/automation-client/lib/internal/util/shutdown";
+import { logger } from "@atomist/automation-client/lib/util/logger";
+import {
+    descriptionFromState,
+    updateGoal,
+} from "@atomist/sdm/lib/api-helper/goal/storeGoals";
+import { ExecuteGoalResult } from "@atomist/sdm/lib/api/goal/ExecuteGoalResult";
+import { GoalInvocation } from "@atomist/sdm/lib/api/goal/GoalInvocation";
+import { GoalScheduler } from "@atomist/sdm/lib/api/goal/support/GoalScheduler";
+import {
+    ChildProcess,
+    spawn,
+} from "child_process";
+import * as _ from "lodash";
+import * as os from "os";
+import { SdmGoalState } from "../../typings/types";
+
+/**
+ * Options to configure the local process goal scheduler
+ */
+export interface ProcessGoalSchedulerOptions {
+    /** Schedule all goals in child processes, not only goals marked as isolated */
+    isolateAll?: boolean;
+    /** Maximum number of goal processes running at the same time; defaults to the number of CPUs */
+    maxConcurrency?: number;
+    /** Maximum number of concurrently running goal processes per goal name */
+    goalConcurrency?: Record<string, number>;
+    /** Maximum heap size of goal processes in MB */
+    maxMemory?: number;
+}
+
+/**
+ * Goal scheduled by the ProcessGoalScheduler, either running or waiting for a free worker
+ */
+export interface ScheduledProcessGoal {
+    name: string;
+    uniqueName: string;
+    goalSetId: string;
+    repo: string;
+    state: "running" | "queued";
+    /** Timestamp the goal got queued or started running */
+    since: number;
+    /** Position in the queue, starting at 1, for queued goals */
+    position?: number;
+    /** Process id of running goals */
+    pid?: number;
+}
+
+interface QueuedGoal {
+    gi: GoalInvocation;
+    since: number;
+    /** Goal was reported as queued and needs to be updated once it starts */
+    reported?: boolean;
+}
+
+interface RunningGoal extends QueuedGoal {
+    process: ChildProcess;
+}
+
+/**
+ * GoalScheduler implementation that runs goals in child processes of the SDM on the local host.
+ *
+ * Each goal is executed by starting the SDM again in single goal mode via
+ * ATOMIST_ISOLATED_GOAL; a goal process that crashes or runs out of memory
+ * fails its goal without affecting the SDM.  The number of goal processes is
+ * bounded by a worker pool; goals exceeding the pool or their per-goal-name
+ * concurrency limit are queued in FIFO order.
+ *
+ * Note: the worker pool is local to the SDM process; when running with cluster
+ * mode enabled every cluster worker maintains its own pool.
+ */
+export class ProcessGoalScheduler implements GoalScheduler {
+
+    private readonly queue: QueuedGoal[] = [];
+    private readonly running: RunningGoal[] = [];
+
+    constructor(private readonly options: ProcessGoalSchedulerOptions = {}) {
+    }
+
+    public async supports(gi: GoalInvocation): Promise<boolean> {
+        return !process.env.ATOMIST_ISOLATED_GOAL &&
+            (gi.goal.definition.isolated || this.options.isolateAll === true);
+    }
+
+    public async schedule(gi: GoalInvocation): Promise<ExecuteGoalResult> {
+        const { goalEvent } = gi;
+        this.queue.push({ gi, since: Date.now() });
+        this.dispatch();
+
+        const position = this.queue.findIndex(q => q.gi === gi) + 1;
+        if (position > 0) {
+            this.queue[position - 1].reported = true;
+            gi.progressLog.write(`Queued goal '${goalEvent.name} (${goalEvent.uniqueName})' at position ${position}`);
+            return {
+                code: 0,
+                state: SdmGoalState.in_process,
+                phase: "queued",
+                description: `${goalEvent.name} queued (position ${position})`,
+            };
+        }
+
+        const pid = this.running.find(r => r.gi === gi).process.pid;
+        gi.progressLog.write(`Started process ${pid} for goal '${goalEvent.name} (${goalEvent.uniqueName})'`);
+        return {
+            code: 0,
+            message: `Started process ${pid} for goal '${goalEvent.uniqueName}'`,
+        };
+    }
+
+    public async initialize(configuration: Configuration): Promise<void> {
+        registerShutdownHook(async () => {
+            this.queue.splice(0, this.queue.length);
+            this.running.forEach(r => r.process.kill());
+            return 0;
+        }, 2000, "kill goal processes");
+    }
+
+    /**
+     * Running and queued goals of this scheduler
+     */
+    public goals(): ScheduledProcessGoal[] {
+        const describe = (q: QueuedGoal, state: "running" | "queued"): ScheduledProcessGoal => ({
+            name: q.gi.goalEvent.name,
+            uniqueName: q.gi.goalEvent.uniqueName,
+            goalSetId: q.gi.goalEvent.goalSetId,
+            repo: `${q.gi.goalEvent.repo.owner}/${q.gi.goalEvent.repo.name}/${q.gi.goalEvent.branch}`,
+            state,
+            since: q.since,
+        });
+        return [
+            ...this.running.map(r => ({ ...describe(r, "running"), pid: r.process.pid })),
+            ...this.queue.map((q, i) => ({ ...describe(q, "queued"), position: i + 1 })),
+        ];
+    }
+
+    /**
+     * Extension point for sub classes to change how goal processes get started.
+     * By default the SDM is started again with the same arguments and the provided
+     * environment.
+     * @param gi goal invocation
+     * @param env environment for the goal process
+     */
+    protected startProcess(gi: GoalInvocation, env: NodeJS.ProcessEnv): ChildProcess {
+        const execArgv = [...process.execArgv];
+        if (!!this.options.maxMemory) {
+            execArgv.push(`--max-old-space-size=${this.options.maxMemory}`);
+        }
+        return spawn(process.execPath, [...execArgv, ...process.argv.slice(1)], {
+            env,
+            stdio: "inherit",
+        });
+    }
+
+    private dispatch(): void {
+        const maxConcurrency = this.options.maxConcurrency || os.cpus().length;
+        let i = 0;
+        while (i < this.queue.length && this.running.length < maxConcurrency) {
+            const name = this.queue[i].gi.goalEvent.name;
+            const limit = (this.options.goalConcurrency || {})[name];
+            if (limit !== undefined && this.running.filter(r => r.gi.goalEvent.name === name).length >= limit) {
+                i++;
+                continue;
+            }
+            const next = this.queue.splice(i, 1)[0];
+            this.start(next);
+        }
+    }
+
+    private start(queued: QueuedGoal): void {
+        const { gi } = queued;
+        const { goalEvent } = gi;
+        const env = goalProcessEnv(gi);
+        let child: ChildProcess;
+        try {
+            child = this.startProcess(gi, env);
+        } catch (e) {
+            // tslint:disable-next-line:no-floating-promises
+            this.failGoal(gi, `Failed to start goal process: ${e.message}`);
+            return;
+        }
+        const running: RunningGoal = { gi, since: Date.now(), process: child };
+        this.running.push(running);
+        logger.info(`Started process ${child.pid} for goal '${goalEvent.uniqueName}'`);
+        if (queued.reported) {
+            updateGoal(gi.context, goalEvent, {
+                state: SdmGoalState.in_process,
+                phase: "scheduled",
+                description: descriptionFromState(gi.goal, SdmGoalState.in_process, goalEvent),
+            }).catch(e => logger.warn(`Failed to update goal '${goalEvent.uniqueName}': ${e.message}`));
+        }
+
+        let exited = false;
+        const exit = async (reason?: string) => {
+            if (exited) {
+                return;
+            }
+            exited = true;
+            this.running.splice(this.running.indexOf(running), 1);
+            this.dispatch();
+            if (!!reason) {
+                logger.warn(`Process ${child.pid} for goal '${goalEvent.uniqueName}' ${reason}`);
+                await this.failGoal(gi, `Goal process ${reason}`);
+            } else {
+                logger.info(`Process ${child.pid} for goal '${goalEvent.uniqueName}' exited`);
+            }
+        };
+        child.on("error", err => exit(`failed: ${err.message}`));
+        child.on("exit", (code, signal) => {
+            if (!!signal) {
+                return exit(`was killed with ${signal}`);
+            } else if (code !== 0) {
+                return exit(`exited with code ${code}`);
+            } else {
+                return exit();
+            }
+        });
+    }
+
+    private async failGoal(gi: GoalInvocation, description: string): Promise<void> {
+        try {
+            await updateGoal(gi.context, gi.goalEvent, {
+                state: SdmGoalState.failure,
+                phase: "crashed",
+                description,
+            });
+        } catch (e) {
+            logger.error(`Failed to update goal '${gi.goalEvent.uniqueName}': ${e.message}`);
+        }
+    }
+}
+
+/**
+ * Environment variables that start an SDM in single-goal mode for the provided goal.
+ */
+export function goalProcessEnv(gi: GoalInvocation): NodeJS.ProcessEnv {
+    const { goalEvent, context } = gi;
+    const env: NodeJS.ProcessEnv = {
+        ...process.env,
+        ATOMIST_GOAL_TEAM: context.workspaceId,
+        ATOMIST_GOAL_TEAM_NAME: (context as any as AutomationContextAware).context?.workspaceName || context.workspaceId,
+        ATOMIST_GOAL_ID: (goalEvent as any).id,
+        ATOMIST_GOAL_SET_ID: goalEvent.goalSetId,
+        ATOMIST_GOAL_UNIQUE_NAME: goalEvent.uniqueName,
+        ATOMIST_CORRELATION_ID: context.correlationId,
+        ATOMIST_ISOLATED_GOAL: "true",
+    };
+    // Goal processes should not think they are cluster workers
+    delete env.NODE_UNIQUE_ID;
+    return _.omitBy(env, v => v === undefined);
+}
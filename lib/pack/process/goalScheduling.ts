@@ -0,0 +1,97 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { metadata } from "@atomist/sdm/lib/api-helper/misc/extensionPack";
+import {
+    slackFooter,
+    slackInfoMessage,
+    slackTs,
+} from "@atomist/sdm/lib/api-helper/misc/slack/messages";
+import { ExtensionPack } from "@atomist/sdm/lib/api/machine/ExtensionPack";
+import { SoftwareDeliveryMachine } from "@atomist/sdm/lib/api/machine/SoftwareDeliveryMachine";
+import { CommandHandlerRegistration } from "@atomist/sdm/lib/api/registration/CommandHandlerRegistration";
+import {
+    bold,
+    codeLine,
+    italic,
+    SlackMessage,
+} from "@atomist/slack-messages";
+import { toArray } from "../../util/misc/array";
+import { formatDuration } from "../../util/misc/time";
+import {
+    ProcessGoalScheduler,
+    ProcessGoalSchedulerOptions,
+} from "./ProcessGoalScheduler";
+
+/**
+ * Extension pack to schedule goals in child processes of the SDM on the local host
+ * when marked as isolated = true.
+ */
+export function processGoalSchedulingSupport(options: ProcessGoalSchedulerOptions = {}): ExtensionPack {
+    return {
+        ...metadata("process-goal-scheduling"),
+        configure: sdm => {
+            if (!process.env.ATOMIST_ISOLATED_GOAL) {
+                const scheduler = new ProcessGoalScheduler(options);
+                sdm.configuration.sdm.goalScheduler = [...toArray(sdm.configuration.sdm.goalScheduler || []), scheduler];
+                sdm.addCommand(listGoalQueueCommand(sdm, scheduler));
+            }
+        },
+    };
+}
+
+/**
+ * List running and queued goals of the provided ProcessGoalScheduler
+ * @param sdm
+ * @param scheduler
+ */
+export function listGoalQueueCommand(sdm: SoftwareDeliveryMachine,
+                                     scheduler: ProcessGoalScheduler): CommandHandlerRegistration {
+    return {
+        name: "ListGoalQueue",
+        description: "List running and queued goal processes",
+        intent: `list goal queue ${sdm.configuration.name.replace("@", "")}`,
+        listener: async ci => {
+            const goals = scheduler.goals();
+            let msg: SlackMessage;
+            if (goals.length > 0) {
+                const running = goals.filter(g => g.state === "running").length;
+                msg = slackInfoMessage(
+                    "Goal Queue",
+                    `${running} goal ${running === 1 ? "process is" : "processes are"} running and ${
+                        goals.length - running} ${goals.length - running === 1 ? "goal is" : "goals are"} queued:`);
+                msg.attachments[0].footer = undefined;
+                msg.attachments[0].ts = undefined;
+                msg.attachments.push(...goals.map(g => ({
+                    text: `${g.state === "running" ? `Running (pid ${g.pid})` : `Queued (position ${g.position})`} ${
+                        italic(g.name)} ${codeLine(g.goalSetId.slice(0, 7))} of ${bold(g.repo)} for ${
+                        formatDuration(Date.now() - g.since)}`,
+                    fallback: g.uniqueName,
+                })));
+            } else {
+                msg = slackInfoMessage(
+                    "Goal Queue",
+                    "No goal processes running or queued");
+            }
+
+            const lastAttachment = msg.attachments[msg.attachments.length - 1];
+            lastAttachment.footer = slackFooter();
+            lastAttachment.ts = slackTs();
+
+            await ci.context.messageClient.respond(msg);
+        },
+    };
+}
@@ -0,0 +1,260 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { doWithRetry } from "@atomist/automation-client/lib/util/retry";
+import { GoalInvocation } from "@atomist/sdm/lib/api/goal/GoalInvocation";
+import { CacheConfiguration } from "@atomist/sdm/lib/api/machine/SoftwareDeliveryMachineOptions";
+import {
+    Credentials,
+    S3,
+} from "aws-sdk";
+import * as fs from "fs-extra";
+import {
+    cacheArchiveName,
+    CompressionMethod,
+    GoalCacheArchiveStore,
+} from "../../goal/cache/CompressingGoalCache";
+import { GoalCacheArchive } from "../../goal/cache/goalCaching";
+import { shouldRecordAccess } from "../../goal/cache/retention";
+
+export interface S3CacheConfiguration extends CacheConfiguration {
+    cache?: {
+        /**
+         * S3 bucket to persist cache entries to.  If not provided, it
+         * defaults to "sdm-WORKSPACE_ID-SDM_NAME-goal-cache", with
+         * "WORKSPACE_ID" replaced with your Atomist workspace ID and
+         * "SDM_NAME" replaced with the name of the running SDM,
+         * converting letters to lower case and removing all
+         * characters that are not letters, numbers, and dashes (-).
+         * It makes no attempt to create this bucket, so make sure it
+         * exists before trying to use it.
+         */
+        bucket?: string;
+        /** Set to true to enable goal input/output caching */
+        enabled?: boolean;
+        /** Path prefix, defaults to "goal-cache". */
+        path?: string;
+        /**
+         * Endpoint of an S3-compatible service, e.g.,
+         * "http://minio:9000".  If not provided, the AWS S3 endpoint
+         * for the region is used.
+         */
+        endpoint?: string;
+        /**
+         * Region of the bucket.  If not provided, the AWS SDK
+         * resolves it from the environment.
+         */
+        region?: string;
+        /**
+         * Set to true to address objects as "ENDPOINT/BUCKET/KEY"
+         * rather than "BUCKET.ENDPOINT/KEY".  Most S3-compatible
+         * services, like MinIO, require this.  Defaults to true if
+         * an endpoint is provided, false otherwise.
+         */
+        pathStyle?: boolean;
+        /**
+         * Access key ID.  If not provided, credentials are resolved
+         * by the AWS SDK from the environment, i.e., the
+         * AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY environment
+         * variables, shared credentials file, or instance metadata.
+         */
+        accessKeyId?: string;
+        /** Secret access key, used with [[accessKeyId]]. */
+        secretAccessKey?: string;
+    };
+}
+
+type S3Op = (s: S3, b: string, p: string) => Promise<any>;
+
+export type S3CacheConfig = Required<Pick<Required<S3CacheConfiguration>["cache"], "bucket" | "enabled" | "path">> &
+    S3CacheConfiguration["cache"];
+
+/**
+ * Goal archive store that stores the compressed archives in an AWS
+ * S3 or S3-compatible bucket.  All failures are caught and logged.
+ * If retrieval fails, the error is rethrown so the cache-miss
+ * listeners will be invoked.
+ *
+ * Retrieving an archive records its access by writing an empty
+ * marker object next to it, whose modification time is the last
+ * access time of the archive.  The archive itself is never rewritten
+ * and the markers are part of the listing of the archives.
+ */
+export class S3GoalCacheArchiveStore implements GoalCacheArchiveStore {
+
+    /**
+     * @param s3Factory Function creating the S3 client from the cache configuration,
+     *                  useful for providing alternate clients in tests
+     * @param compression Compression method of the stored archives, determining their name
+     */
+    public constructor(private readonly s3Factory: (cacheConfig: S3CacheConfig) => S3 = createS3Client,
+                       private readonly compression: CompressionMethod = CompressionMethod.TAR) {
+    }
+
+    public async store(gi: GoalInvocation, classifier: string, archivePath: string): Promise<string> {
+        return this.s3(gi, classifier, async (s3, bucket, cachePath) => s3.upload({
+            Bucket: bucket,
+            Key: cachePath,
+            Body: fs.createReadStream(archivePath),
+        }).promise(), "store");
+    }
+
+    public async delete(gi: GoalInvocation, classifier: string): Promise<void> {
+        await this.s3(gi, classifier, async (s3, bucket, cachePath) => {
+            await s3.deleteObject({ Bucket: bucket, Key: cachePath }).promise();
+            await s3.deleteObject({ Bucket: bucket, Key: accessMarkerKey(cachePath) }).promise();
+        }, "delete");
+    }
+
+    public async retrieve(gi: GoalInvocation, classifier: string, targetArchivePath: string): Promise<void> {
+        await this.s3(gi, classifier, async (s3, bucket, cachePath) => new Promise((resolve, reject) => {
+            const out = fs.createWriteStream(targetArchivePath);
+            s3.getObject({ Bucket: bucket, Key: cachePath }).createReadStream()
+                .on("error", e => {
+                    out.destroy();
+                    fs.remove(targetArchivePath).then(() => reject(e), () => reject(e));
+                })
+                .pipe(out)
+                .on("error", reject)
+                .on("finish", resolve);
+        }), "retrieve");
+        const cacheConfig = getCacheConfig(gi);
+        const archivePath = getCachePath(cacheConfig, classifier, this.archiveName);
+        if (!shouldRecordAccess(`s3://${cacheConfig.bucket}/${archivePath}`)) {
+            return;
+        }
+        try {
+            await this.s3Factory(cacheConfig).putObject({
+                Bucket: cacheConfig.bucket,
+                Key: accessMarkerKey(archivePath),
+                Body: "",
+            }).promise();
+        } catch (e) {
+            gi.progressLog.write(`Failed to record access of cache archive: ${e.message}`);
+        }
+    }
+
+    public async list(gi: GoalInvocation, classifierPrefix: string): Promise<GoalCacheArchive[]> {
+        const cacheConfig = getCacheConfig(gi);
+        const prefix = [cacheConfig.path, classifierPrefix].join("/");
+        const s3 = this.s3Factory(cacheConfig);
+        try {
+            const objects: S3.Object[] = [];
+            let continuationToken: string;
+            do {
+                const page = await doWithRetry(() => s3.listObjectsV2({
+                    Bucket: cacheConfig.bucket,
+                    Prefix: prefix,
+                    ContinuationToken: continuationToken,
+                }).promise(), "list cache archives");
+                objects.push(...(page.Contents || []));
+                continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+            } while (continuationToken);
+            const accessed = new Map(objects.map(o => [o.Key, o.LastModified]));
+            const archiveName = this.archiveName;
+            return objects
+                .filter(o => o.Key.endsWith(`/${archiveName}`))
+                .map(o => ({
+                    classifier: o.Key.slice(cacheConfig.path.length + 1, -(archiveName.length + 1)),
+                    uri: `s3://${cacheConfig.bucket}/${o.Key}`,
+                    size: o.Size,
+                    lastModified: o.LastModified,
+                    lastAccessed: accessed.get(accessMarkerKey(o.Key)),
+                }));
+        } catch (e) {
+            gi.progressLog.write(`Failed to list cache archives s3://${cacheConfig.bucket}/${prefix}: ${e.message}`);
+        }
+        return [];
+    }
+
+    private get archiveName(): string {
+        return cacheArchiveName(this.compression);
+    }
+
+    private async s3(gi: GoalInvocation, classifier: string, op: S3Op, verb: string): Promise<string> {
+        const cacheConfig = getCacheConfig(gi);
+        const cachePath = getCachePath(cacheConfig, classifier, this.archiveName);
+        const s3 = this.s3Factory(cacheConfig);
+        const objectUri = `s3://${cacheConfig.bucket}/${cachePath}`;
+        const gerund = verb.replace(/e$/, "ing");
+        try {
+            gi.progressLog.write(`${gerund} cache archive ${objectUri}`);
+            await doWithRetry(() => op(s3, cacheConfig.bucket, cachePath), `${verb} cache archive`);
+            gi.progressLog.write(`${verb}d cache archive ${objectUri}`);
+            return objectUri;
+        } catch (e) {
+            e.message = `Failed to ${verb} cache archive ${objectUri}: ${e.message}`;
+            gi.progressLog.write(e.message);
+            if (verb === "retrieve") {
+                throw e;
+            }
+        }
+        return undefined;
+    }
+
+}
+
+/** Key of the object whose modification time records the last retrieval of an archive. */
+function accessMarkerKey(archiveKey: string): string {
+    return `${archiveKey}.accessed`;
+}
+
+/** Construct object key for cache configuration, classifier, and archive name. */
+export function getCachePath(cacheConfig: S3CacheConfig,
+                             classifier: string = "default",
+                             archiveName: string = cacheArchiveName()): string {
+    return [cacheConfig.path, classifier, archiveName].join("/");
+}
+
+/**
+ * Retrieve cache configuration and populate with default values.
+ */
+export function getCacheConfig(gi: GoalInvocation): S3CacheConfig {
+    const cacheConfig = gi.configuration.sdm.cache || {};
+    cacheConfig.enabled = cacheConfig.enabled || false;
+    cacheConfig.bucket = cacheConfig.bucket ||
+        `sdm-${gi.context.workspaceId}-${gi.configuration.name}-goal-cache`.toLowerCase().replace(/[^-a-z0-9]*/g, "")
+            .replace(/--+/g, "-");
+    cacheConfig.path = cacheConfig.path || "goal-cache";
+    return cacheConfig;
+}
+
+/**
+ * Create S3 client from the cache configuration.  Credentials are
+ * only set on the client if both the access key ID and secret are
+ * provided, otherwise the default AWS SDK credential provider chain
+ * is used.
+ */
+export function createS3Client(cacheConfig: S3CacheConfig): S3 {
+    const options: S3.ClientConfiguration = {
+        apiVersion: "2006-03-01",
+        signatureVersion: "v4",
+    };
+    if (cacheConfig.endpoint) {
+        options.endpoint = cacheConfig.endpoint;
+    }
+    if (cacheConfig.region) {
+        options.region = cacheConfig.region;
+    }
+    options.s3ForcePathStyle = (cacheConfig.pathStyle !== undefined) ? cacheConfig.pathStyle : !!cacheConfig.endpoint;
+    if (cacheConfig.accessKeyId && cacheConfig.secretAccessKey) {
+        options.credentials = new Credentials({
+            accessKeyId: cacheConfig.accessKeyId,
+            secretAccessKey: cacheConfig.secretAccessKey,
+        });
+    }
+    return new S3(options);
+}
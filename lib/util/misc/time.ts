@@ -22,3 +22,27 @@ export function formatDuration(duration: number, format: string = "d[d] h[h] m[m
 
     return moment.duration(duration, "millisecond").format(format, { trim: "both"});
 }
+
+/**
+ * Parse a duration like `90s`, `5m`, `1h30m` or `500ms` into
+ * milliseconds.  Numbers and numeric strings are taken as
+ * milliseconds.
+ */
+export function parseDuration(duration: number | string): number {
+    if (typeof duration === "number") {
+        return duration;
+    }
+    const value = duration.trim();
+    if (/^\d+$/.test(value)) {
+        return +value;
+    }
+    const units: Record<string, number> = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+    const parts = value.match(/(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)\s*/g);
+    if (!parts || parts.join("").trim() !== value.replace(/\s+$/, "")) {
+        throw new Error(`Invalid duration '${duration}'`);
+    }
+    return parts.reduce((total, part) => {
+        const [, amount, unit] = /(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)/.exec(part);
+        return total + +amount * units[unit];
+    }, 0);
+}
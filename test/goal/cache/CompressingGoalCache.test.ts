@@ -152,6 +152,32 @@ describe("goal/cache/CompressingGoalCache", () => {
             assert(await emptyProject.hasFile("test.txt"));
         });
 
+        it("should cache and retrieve with zstd", async () => {
+            const fakePushId = fakePush().id;
+            fakePushId.sha = "testing";
+            const fakeGoal = fakeGoalInvocation(fakePushId);
+            const testCache = new CompressingGoalCache(new FileSystemGoalCacheArchiveStore(), CompressionMethod.ZSTD);
+            fakeGoal.progressLog = new LoggingProgressLog("test", "debug");
+            fakeGoal.configuration.sdm.cache = { enabled: true, path: testDir(), store: testCache };
+
+            const options: GoalCacheOptions = {
+                entries: [{ classifier: "default", pattern: { directory: "bin" } }],
+                onCacheMiss: ErrorProjectListenerRegistration,
+            };
+            // when cache something
+            const project = await createTempProject(fakePushId);
+            await project.addFile("bin/run.sh", "#!/bin/sh");
+            await fs.chmod(path.join(project.baseDir, "bin", "run.sh"), 0o755);
+            await cachePut(options)
+                .listener(project as any as GitProject, fakeGoal, GoalProjectListenerEvent.after);
+            // it should find it in the cache
+            const emptyProject = await createTempProject(fakePushId);
+            await cacheRestore(options)
+                .listener(emptyProject as any as GitProject, fakeGoal, GoalProjectListenerEvent.before);
+            assert(await emptyProject.hasFile("bin/run.sh"));
+            assert((await fs.stat(path.join(emptyProject.baseDir, "bin", "run.sh"))).mode.toString(8).endsWith("755"));
+        });
+
         it("should cache and retrieve, excluding specific directories", async () => {
             const fakePushId = fakePush().id;
             fakePushId.sha = "testing";
@@ -320,6 +346,102 @@ describe("goal/cache/CompressingGoalCache", () => {
             assert(await emptyProject.hasFile("test.bat"));
         });
 
+        it("should cache and retrieve by key without overwriting other keys", async () => {
+            const fakePushId = fakePush().id;
+            fakePushId.sha = "testing";
+            const fakeGoal = fakeGoalInvocation(fakePushId);
+            const testCache = new CompressingGoalCache();
+            fakeGoal.progressLog = new LoggingProgressLog("test", "debug");
+            fakeGoal.configuration.sdm.cache = { enabled: true, path: testDir(), store: testCache };
+
+            const options: GoalCacheOptions = {
+                // tslint:disable-next-line:no-invalid-template-strings
+                entries: [{ classifier: "npm", key: "npm-${hashFiles(package-lock.json)}", pattern: { directory: "node_modules" } }],
+                onCacheMiss: ErrorProjectListenerRegistration,
+            };
+            const project1 = await createTempProject(fakePushId);
+            await project1.addFile("package-lock.json", "{\"lockfileVersion\":1}");
+            await project1.addFile("node_modules/one/index.js", "module.exports = 1;");
+            await cachePut(options)
+                .listener(project1 as any as GitProject, fakeGoal, GoalProjectListenerEvent.after);
+            const project2 = await createTempProject(fakePushId);
+            await project2.addFile("package-lock.json", "{\"lockfileVersion\":2}");
+            await project2.addFile("node_modules/two/index.js", "module.exports = 2;");
+            await cachePut(options)
+                .listener(project2 as any as GitProject, fakeGoal, GoalProjectListenerEvent.after);
+
+            const archives = await testCache.list(fakeGoal, `${fakeGoal.context.workspaceId}/npm/npm-`);
+            assert(archives.length === 2);
+
+            const emptyProject = await createTempProject(fakePushId);
+            await emptyProject.addFile("package-lock.json", "{\"lockfileVersion\":1}");
+            await cacheRestore(options)
+                .listener(emptyProject as any as GitProject, fakeGoal, GoalProjectListenerEvent.before);
+            assert(await emptyProject.hasFile("node_modules/one/index.js"));
+            assert(!await emptyProject.hasFile("node_modules/two/index.js"));
+        });
+
+        it("should restore most recent archive matching restore key", async () => {
+            const fakePushId = fakePush().id;
+            fakePushId.sha = "testing";
+            const fakeGoal = fakeGoalInvocation(fakePushId);
+            const testCache = new CompressingGoalCache();
+            fakeGoal.progressLog = new LoggingProgressLog("test", "debug");
+            fakeGoal.configuration.sdm.cache = { enabled: true, path: testDir(), store: testCache };
+
+            const putOptions: GoalCacheOptions = {
+                entries: [{ classifier: "npm", key: "npm-old", pattern: { globPattern: "**/*.txt" } }],
+            };
+            const project = await createTempProject(fakePushId);
+            await project.addFile("old.txt", "old");
+            await cachePut(putOptions)
+                .listener(project as any as GitProject, fakeGoal, GoalProjectListenerEvent.after);
+            await project.deleteFile("old.txt");
+            await project.addFile("newer.txt", "newer");
+            putOptions.entries[0].key = "npm-newer";
+            await cachePut(putOptions)
+                .listener(project as any as GitProject, fakeGoal, GoalProjectListenerEvent.after);
+            const olderTime = new Date(Date.now() - 60000);
+            await fs.utimes(path.join(fakeGoal.configuration.sdm.cache.path, fakeGoal.context.workspaceId, "npm", "npm-old", "cache.tar.gz"),
+                olderTime, olderTime);
+
+            const emptyProject = await createTempProject(fakePushId);
+            await cacheRestore({
+                entries: [{ classifier: "npm", key: "npm-missing", restoreKeys: ["yarn-", "npm-"] }],
+                onCacheMiss: ErrorProjectListenerRegistration,
+            }).listener(emptyProject as any as GitProject, fakeGoal, GoalProjectListenerEvent.before);
+            assert(await emptyProject.hasFile("newer.txt"));
+            assert(!await emptyProject.hasFile("old.txt"));
+        });
+
+        it("should call fallback when no restore key matches", async () => {
+            const fakePushId = fakePush().id;
+            fakePushId.sha = "testing";
+            const fakeGoal = fakeGoalInvocation(fakePushId);
+            const testCache = new CompressingGoalCache();
+            fakeGoal.progressLog = new LoggingProgressLog("test", "debug");
+            fakeGoal.configuration.sdm.cache = { enabled: true, path: testDir(), store: testCache };
+
+            const project = await createTempProject(fakePushId);
+            await project.addFile("test.txt", "test");
+            await cachePut({ entries: [{ classifier: "npm", key: "npm-a", pattern: { globPattern: "**/*.txt" } }] })
+                .listener(project as any as GitProject, fakeGoal, GoalProjectListenerEvent.after);
+
+            const fallback: GoalProjectListenerRegistration = {
+                name: "fallback",
+                listener: async p => {
+                    await p.addFile("fallback.txt", "test");
+                },
+            };
+            const emptyProject = await createTempProject(fakePushId);
+            await cacheRestore({
+                entries: [{ classifier: "npm", key: "yarn-a", restoreKeys: ["yarn-"] }],
+                onCacheMiss: fallback,
+            }).listener(emptyProject as any as GitProject, fakeGoal, GoalProjectListenerEvent.before);
+            assert(!await emptyProject.hasFile("test.txt"));
+            assert(await emptyProject.hasFile("fallback.txt"));
+        });
+
         it("should create specific archives and fallback", async () => {
             const fakePushId = fakePush().id;
             fakePushId.sha = "testing";
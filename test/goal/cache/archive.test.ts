@@ -0,0 +1,136 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { guid } from "@atomist/automation-client/lib/internal/util/string";
+import { LoggingProgressLog } from "@atomist/sdm/lib/api-helper/log/LoggingProgressLog";
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import * as assert from "power-assert";
+import * as tar from "tar";
+import {
+    createTarArchive,
+    extractTarArchive,
+    isInside,
+    isSafeTarEntry,
+    TarCompression,
+} from "../../../lib/goal/cache/archive";
+
+describe("goal/cache/archive", () => {
+
+    const dirs: string[] = [];
+    function testDir(): string {
+        const dir = path.join(os.tmpdir(), `sdm-core-test-${guid()}`);
+        dirs.push(dir);
+        return dir;
+    }
+    after(async () => {
+        try {
+            await Promise.all(dirs.map(d => fs.remove(d)));
+        } catch (e) { /* ignore */ }
+    });
+
+    const log = new LoggingProgressLog("test", "debug");
+
+    describe("isInside", () => {
+
+        it("should detect paths inside the directory", () => {
+            assert(isInside("/a/b", "/a/b"));
+            assert(isInside("/a/b", "/a/b/c/d"));
+            assert(isInside("/a/b", "/a/b/..c"));
+            assert(!isInside("/a/b", "/a"));
+            assert(!isInside("/a/b", "/a/bc"));
+            assert(!isInside("/a/b", "/a/b/../c"));
+        });
+
+    });
+
+    describe("isSafeTarEntry", () => {
+
+        it("should accept entries inside the base directory", () => {
+            assert(isSafeTarEntry("/base", "a/b.txt", { type: "File" }));
+            assert(isSafeTarEntry("/base", "a/link", { type: "SymbolicLink", linkpath: "../b.txt" }));
+            assert(isSafeTarEntry("/base", "a/hard", { type: "Link", linkpath: "a/b.txt" }));
+        });
+
+        it("should refuse entries outside the base directory", () => {
+            assert(!isSafeTarEntry("/base", "../a.txt", { type: "File" }));
+            assert(!isSafeTarEntry("/base", "a/../../b.txt", { type: "File" }));
+            assert(!isSafeTarEntry("/base", "/etc/passwd", { type: "File" }));
+            assert(!isSafeTarEntry("/base", "a/link", { type: "SymbolicLink", linkpath: "../../etc/passwd" }));
+            assert(!isSafeTarEntry("/base", "link", { type: "SymbolicLink", linkpath: "/etc/passwd" }));
+            assert(!isSafeTarEntry("/base", "hard", { type: "Link", linkpath: "../etc/passwd" }));
+        });
+
+    });
+
+    (["gzip", "zstd"] as TarCompression[]).forEach(compression => {
+
+        describe(`${compression} archives`, () => {
+
+            it("should round trip files, modes and symbolic links", async () => {
+                const src = testDir();
+                await fs.outputFile(path.join(src, "dir", "test.txt"), "test");
+                await fs.outputFile(path.join(src, "bin", "run.sh"), "#!/bin/sh\n");
+                await fs.chmod(path.join(src, "bin", "run.sh"), 0o755);
+                await fs.symlink(path.join("..", "dir", "test.txt"), path.join(src, "bin", "link.txt"));
+                const archive = path.join(testDir() + ".tar");
+                dirs.push(archive);
+
+                await createTarArchive(src, ["dir", "bin"], archive, compression);
+                const dest = testDir();
+                await fs.ensureDir(dest);
+                const refused = await extractTarArchive(archive, dest, compression, log);
+
+                assert.deepStrictEqual(refused, []);
+                assert(await fs.readFile(path.join(dest, "dir", "test.txt"), "utf8") === "test");
+                assert((await fs.stat(path.join(dest, "bin", "run.sh"))).mode.toString(8).endsWith("755"));
+                assert((await fs.lstat(path.join(dest, "bin", "link.txt"))).isSymbolicLink());
+                assert(await fs.readlink(path.join(dest, "bin", "link.txt")) === path.join("..", "dir", "test.txt"));
+                assert(await fs.readFile(path.join(dest, "bin", "link.txt"), "utf8") === "test");
+            });
+
+        });
+
+    });
+
+    describe("extractTarArchive", () => {
+
+        it("should refuse entries extracting outside the base directory", async () => {
+            const src = testDir();
+            await fs.outputFile(path.join(src, "outside.txt"), "outside");
+            await fs.outputFile(path.join(src, "inner", "ok.txt"), "ok");
+            await fs.symlink("/etc/passwd", path.join(src, "inner", "passwd"));
+            const archive = testDir() + ".tar.gz";
+            dirs.push(archive);
+            // preserve the relative path to create an entry outside the base directory
+            await tar.c({ cwd: path.join(src, "inner"), file: archive, gzip: true, preservePaths: true },
+                ["ok.txt", "passwd", "../outside.txt"]);
+
+            const base = testDir();
+            const dest = path.join(base, "dest");
+            await fs.ensureDir(dest);
+            const refused = await extractTarArchive(archive, dest, "gzip", log);
+
+            assert.deepStrictEqual(refused, ["passwd", "../outside.txt"]);
+            assert(await fs.pathExists(path.join(dest, "ok.txt")));
+            assert(!await fs.pathExists(path.join(base, "outside.txt")));
+            assert(!await fs.pathExists(path.join(dest, "passwd")));
+        });
+
+    });
+
+});
@@ -29,6 +29,7 @@ import {
 } from "@atomist/sdm/lib/api/goal/GoalInvocation";
 import { pushTest } from "@atomist/sdm/lib/api/mapping/PushTest";
 import { AnyPush } from "@atomist/sdm/lib/api/mapping/support/commonPushTests";
+import * as crypto from "crypto";
 import * as assert from "power-assert";
 import {
     cachePut,
@@ -36,10 +37,13 @@ import {
     cacheRestore,
     GoalCache,
     GoalCacheOptions,
+    resolveCacheKey,
     resolveClassifierPath,
     sanitizeClassifier,
 } from "../../../lib/goal/cache/goalCaching";
 
+// tslint:disable:max-file-line-count
+
 class TestGoalArtifactCache implements GoalCache {
     private id: RepoRef;
     private cacheFiles: File[];
@@ -250,6 +254,64 @@ describe("goalCaching", () => {
 
     });
 
+    describe("resolveCacheKey", () => {
+
+        const gi: any = {
+            configuration: {
+                sdm: {},
+            },
+            context: {
+                workspaceId: "TH3K1NK5",
+            },
+            goalEvent: {
+                branch: "preservation/society",
+                repo: {
+                    name: "village-green",
+                    owner: "TheKinks",
+                    providerId: "PyeReprise",
+                },
+                sha: "9932791f7adfd854b576125b058e9eb45b3da8b9",
+            },
+        };
+
+        function sha256(...parts: string[]): string {
+            const hash = crypto.createHash("sha256");
+            parts.forEach(part => hash.update(part));
+            return hash.digest("hex");
+        }
+
+        it("should replace and sanitize placeholders", async () => {
+            const p = InMemoryProject.of();
+            // tslint:disable-next-line:no-invalid-template-strings
+            const k = await resolveCacheKey("npm-${branch}", p, gi);
+            assert(k === "npm-preservation_society");
+        });
+
+        it("should hash matching files", async () => {
+            const p = InMemoryProject.of(
+                { path: "package-lock.json", content: "{}" },
+                { path: "package.json", content: "{\"name\":\"village-green\"}" },
+                { path: "README.md", content: "# Village Green\n" },
+            );
+            // tslint:disable-next-line:no-invalid-template-strings
+            const k = await resolveCacheKey("npm-${hashFiles(package.json, package-lock.json)}", p, gi);
+            assert(k === `npm-${sha256("package-lock.json", "{}", "package.json", "{\"name\":\"village-green\"}")}`);
+        });
+
+        it("should change hash when file content changes", async () => {
+            const p = InMemoryProject.of({ path: "package-lock.json", content: "{}" });
+            // tslint:disable-next-line:no-invalid-template-strings
+            const t = "${hashFiles(package-lock.json)}-${branch}";
+            const k1 = await resolveCacheKey(t, p, gi);
+            await p.addFile("package-lock.json", "{\"lockfileVersion\":1}");
+            const k2 = await resolveCacheKey(t, p, gi);
+            assert(k1 !== k2);
+            assert(k1.endsWith("-preservation_society"));
+            assert(k2.endsWith("-preservation_society"));
+        });
+
+    });
+
     describe("goalCaching", () => {
         let project;
         const testCache = new TestGoalArtifactCache();
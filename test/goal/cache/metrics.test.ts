@@ -0,0 +1,174 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { guid } from "@atomist/automation-client/lib/internal/util/string";
+import { GitProject } from "@atomist/automation-client/lib/project/git/GitProject";
+import { NodeFsLocalProject } from "@atomist/automation-client/lib/project/local/NodeFsLocalProject";
+import { fakeGoalInvocation } from "@atomist/sdm/lib/api-helper/testsupport/fakeGoalInvocation";
+import { fakePush } from "@atomist/sdm/lib/api-helper/testsupport/fakePush";
+import { GoalProjectListenerEvent } from "@atomist/sdm/lib/api/goal/GoalInvocation";
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import * as assert from "power-assert";
+import { CompressingGoalCache } from "../../../lib/goal/cache/CompressingGoalCache";
+import {
+    cachePut,
+    cacheRestore,
+} from "../../../lib/goal/cache/goalCaching";
+import {
+    formatGoalCacheMetric,
+    reportGoalCacheMetric,
+} from "../../../lib/goal/cache/metrics";
+import { SdmGoalMetricReportingAutomationEventListener } from "../../../lib/internal/util/SdmGoalMetricReportingAutomationEventListener";
+
+describe("goal/cache/metrics", () => {
+
+    interface Stat {
+        type: string;
+        stat: string;
+        value: number;
+        tags: string[];
+    }
+
+    function fakeStatsD(stats: Stat[]): any {
+        const record = (type: string) => (stat: string, value: number, sampleRate: number, tags: string[]) =>
+            stats.push({ type, stat, value, tags });
+        return {
+            enabled: true,
+            client: {
+                factory: {
+                    create: () => ({
+                        increment: record("increment"),
+                        timing: record("timing"),
+                        gauge: record("gauge"),
+                        close: () => { /* ignore */ },
+                    }),
+                },
+            },
+        };
+    }
+
+    async function startup(configuration: any): Promise<void> {
+        await new SdmGoalMetricReportingAutomationEventListener().startupSuccessful({ configuration } as any);
+    }
+
+    function fakeLog(lines: string[]): any {
+        return { write: (l: string) => lines.push(l) };
+    }
+
+    describe("formatGoalCacheMetric", () => {
+
+        it("should format restore hit", () => {
+            const l = formatGoalCacheMetric({
+                classifier: "npm",
+                operation: "restore",
+                hit: true,
+                size: 1024,
+                compressionTime: 12,
+                transferTime: 345,
+            });
+            assert(l === "Cache restore 'npm' hit size=1024 compression=12ms transfer=345ms");
+        });
+
+        it("should format restore miss and put", () => {
+            assert(formatGoalCacheMetric({ classifier: "npm", operation: "restore", hit: false }) === "Cache restore 'npm' miss");
+            assert(formatGoalCacheMetric({ classifier: "npm", operation: "put", size: 3 }) === "Cache put 'npm' size=3");
+        });
+
+    });
+
+    describe("reportGoalCacheMetric", () => {
+
+        it("should only write to progress log without statsd", () => {
+            const lines: string[] = [];
+            const gi: any = { configuration: { statsd: { enabled: false } }, goalEvent: { name: "build" }, progressLog: fakeLog(lines) };
+            reportGoalCacheMetric(gi, { classifier: "npm", operation: "restore", hit: false });
+            assert.deepStrictEqual(lines, ["Cache restore 'npm' miss"]);
+        });
+
+        it("should report to statsd", async () => {
+            const lines: string[] = [];
+            const stats: Stat[] = [];
+            const gi: any = {
+                configuration: { name: "@atomist/sdm", statsd: fakeStatsD(stats) },
+                goalEvent: { name: "build" },
+                progressLog: fakeLog(lines),
+            };
+            await startup(gi.configuration);
+            reportGoalCacheMetric(gi, { classifier: "npm", operation: "restore", hit: true, size: 10, compressionTime: 1, transferTime: 2 });
+            reportGoalCacheMetric(gi, { classifier: "npm", operation: "restore", hit: false });
+            const tags = ["atomist_goal:build", "atomist_cache_classifier:npm"];
+            assert.deepStrictEqual(stats, [
+                { type: "increment", stat: "counter.goal.cache.hit", value: 1, tags },
+                { type: "gauge", stat: "gauge.goal.cache.restore.size", value: 10, tags },
+                { type: "timing", stat: "timer.goal.cache.restore.compression", value: 1, tags },
+                { type: "timing", stat: "timer.goal.cache.restore.transfer", value: 2, tags },
+                { type: "increment", stat: "counter.goal.cache.miss", value: 1, tags },
+            ]);
+            assert(lines.length === 2);
+        });
+
+    });
+
+    describe("cache listeners", () => {
+
+        const dirs: string[] = [];
+        after(async () => {
+            try {
+                await Promise.all(dirs.map(d => fs.remove(d)));
+            } catch (e) { /* ignore */ }
+        });
+
+        it("should report put, hit and miss", async () => {
+            const fakePushId = fakePush().id;
+            fakePushId.sha = "testing";
+            const gi = fakeGoalInvocation(fakePushId);
+            const lines: string[] = [];
+            const stats: Stat[] = [];
+            gi.progressLog = fakeLog(lines);
+            gi.configuration.name = "@atomist/sdm";
+            gi.configuration.statsd = fakeStatsD(stats);
+            await startup(gi.configuration);
+            const cacheDir = path.join(os.tmpdir(), `sdm-core-test-${guid()}`);
+            const projectDir = path.join(os.tmpdir(), `sdm-core-test-${guid()}`);
+            dirs.push(cacheDir, projectDir);
+            gi.configuration.sdm.cache = { enabled: true, path: cacheDir, store: new CompressingGoalCache() };
+            await fs.ensureDir(projectDir);
+            const project = await NodeFsLocalProject.fromExistingDirectory(fakePushId, projectDir);
+            await project.addFile("test.txt", "test");
+
+            await cachePut({ entries: [{ classifier: "txt", pattern: { globPattern: "**/*.txt" } }] })
+                .listener(project as any as GitProject, gi, GoalProjectListenerEvent.after);
+            await cacheRestore({ entries: [{ classifier: "txt" }, { classifier: "missing" }] })
+                .listener(project as any as GitProject, gi, GoalProjectListenerEvent.before);
+
+            const metricLines = lines.filter(l => l.startsWith("Cache "));
+            assert(metricLines.length === 3);
+            assert(/^Cache put 'txt' size=\d+ compression=\d+ms transfer=\d+ms$/.test(metricLines[0]));
+            assert(/^Cache restore 'txt' hit size=\d+ compression=\d+ms transfer=\d+ms$/.test(metricLines[1]));
+            assert(metricLines[2] === "Cache restore 'missing' miss");
+            const counters = stats.filter(s => s.type === "increment").map(s => `${s.stat} ${s.tags[1]}`);
+            assert.deepStrictEqual(counters, [
+                "counter.goal.cache.put atomist_cache_classifier:txt",
+                "counter.goal.cache.hit atomist_cache_classifier:txt",
+                "counter.goal.cache.miss atomist_cache_classifier:missing",
+            ]);
+        });
+
+    });
+
+});
@@ -0,0 +1,194 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { guid } from "@atomist/automation-client/lib/internal/util/string";
+import { GitProject } from "@atomist/automation-client/lib/project/git/GitProject";
+import { NodeFsLocalProject } from "@atomist/automation-client/lib/project/local/NodeFsLocalProject";
+import { LoggingProgressLog } from "@atomist/sdm/lib/api-helper/log/LoggingProgressLog";
+import { fakeGoalInvocation } from "@atomist/sdm/lib/api-helper/testsupport/fakeGoalInvocation";
+import { fakePush } from "@atomist/sdm/lib/api-helper/testsupport/fakePush";
+import { GoalProjectListenerEvent } from "@atomist/sdm/lib/api/goal/GoalInvocation";
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import * as assert from "power-assert";
+import { CompressingGoalCache } from "../../../lib/goal/cache/CompressingGoalCache";
+import {
+    cachePut,
+    GoalCacheArchive,
+} from "../../../lib/goal/cache/goalCaching";
+import {
+    AccessRecordingInterval,
+    baseClassifier,
+    GoalCacheRetentionPolicy,
+    lastUsed,
+    selectArchivesToEvict,
+    shouldRecordAccess,
+} from "../../../lib/goal/cache/retention";
+
+describe("goal/cache/retention", () => {
+
+    const now = Date.parse("2020-02-20T12:00:00Z");
+    const hour = 60 * 60 * 1000;
+
+    function archive(classifier: string, hoursAgo: number, size: number = 100): GoalCacheArchive {
+        return { classifier, size, lastModified: new Date(now - hoursAgo * hour) };
+    }
+
+    describe("lastUsed", () => {
+
+        it("should prefer the most recent of access and modification", () => {
+            const a: GoalCacheArchive = {
+                classifier: "W/c",
+                lastModified: new Date(now - hour),
+                lastAccessed: new Date(now),
+            };
+            assert(lastUsed(a) === now);
+            assert(lastUsed({ ...a, lastAccessed: new Date(now - 2 * hour) }) === now - hour);
+            assert(lastUsed({ classifier: "W/c" }) === 0);
+        });
+
+    });
+
+    describe("baseClassifier", () => {
+
+        it("should strip the key", () => {
+            assert(baseClassifier({ classifier: "W/npm/npm-abc" }) === "W/npm");
+            assert(baseClassifier({ classifier: "W/npm" }) === "W/npm");
+            assert(baseClassifier({ classifier: "W" }) === "W");
+        });
+
+    });
+
+    describe("selectArchivesToEvict", () => {
+
+        it("should evict nothing without policy", () => {
+            const archives = [archive("W/a", 1), archive("W/b", 1000)];
+            assert.deepStrictEqual(selectArchivesToEvict(archives, undefined, now), []);
+            assert.deepStrictEqual(selectArchivesToEvict(archives, {}, now), []);
+        });
+
+        it("should evict archives older than max age", () => {
+            const archives = [archive("W/a", 1), archive("W/b", 25), archive("W/c", 23)];
+            const e = selectArchivesToEvict(archives, { maxAge: 24 * hour }, now);
+            assert.deepStrictEqual(e.map(a => a.classifier), ["W/b"]);
+        });
+
+        it("should use last access to determine age", () => {
+            const archives = [{ ...archive("W/a", 48), lastAccessed: new Date(now - hour) }, archive("W/b", 48)];
+            const e = selectArchivesToEvict(archives, { maxAge: 24 * hour }, now);
+            assert.deepStrictEqual(e.map(a => a.classifier), ["W/b"]);
+        });
+
+        it("should keep most recent entries per classifier", () => {
+            const archives = [
+                archive("W/npm/k1", 3),
+                archive("W/npm/k2", 1),
+                archive("W/npm/k3", 2),
+                archive("W/maven/k1", 5),
+                archive("W/default", 10),
+            ];
+            const e = selectArchivesToEvict(archives, { maxEntries: 2 }, now);
+            assert.deepStrictEqual(e.map(a => a.classifier), ["W/npm/k1"]);
+        });
+
+        it("should evict least recently used until under max size", () => {
+            const archives = [
+                archive("W/a", 1, 400),
+                archive("W/b", 3, 300),
+                archive("W/c", 2, 200),
+                archive("W/d", 4, 100),
+            ];
+            const e = selectArchivesToEvict(archives, { maxSize: 650 }, now);
+            assert.deepStrictEqual(e.map(a => a.classifier), ["W/d", "W/b"]);
+        });
+
+        it("should combine all policies", () => {
+            const archives = [
+                archive("W/npm/k1", 100, 10),
+                archive("W/npm/k2", 3, 10),
+                archive("W/npm/k3", 2, 10),
+                archive("W/npm/k4", 1, 10),
+                archive("W/big", 4, 1000),
+            ];
+            const e = selectArchivesToEvict(archives, { maxAge: 48 * hour, maxEntries: 2, maxSize: 100 }, now);
+            assert.deepStrictEqual(e.map(a => a.classifier), ["W/npm/k1", "W/npm/k2", "W/big"]);
+        });
+
+    });
+
+    describe("enforceRetentionPolicy", () => {
+
+        const cacheDirs: string[] = [];
+        after(async () => {
+            try {
+                await Promise.all(cacheDirs.map(d => fs.remove(d)));
+            } catch (e) { /* ignore */ }
+        });
+
+        async function storeArchives(retention: GoalCacheRetentionPolicy): Promise<string[]> {
+            const fakePushId = fakePush().id;
+            fakePushId.sha = "testing";
+            const gi = fakeGoalInvocation(fakePushId);
+            const cacheDir = path.join(os.tmpdir(), `sdm-core-test-${guid()}`);
+            cacheDirs.push(cacheDir);
+            const testCache = new CompressingGoalCache();
+            gi.progressLog = new LoggingProgressLog("test", "debug");
+            gi.configuration.sdm.cache = { enabled: true, path: cacheDir, store: testCache, retention };
+            const projectDir = path.join(os.tmpdir(), `sdm-core-test-${guid()}`);
+            cacheDirs.push(projectDir);
+            await fs.ensureDir(projectDir);
+            const project = await NodeFsLocalProject.fromExistingDirectory(fakePushId, projectDir);
+            await project.addFile("test.txt", "test");
+
+            for (const key of ["k1", "k2"]) {
+                await cachePut({ entries: [{ classifier: "npm", key, pattern: { globPattern: "**/*.txt" } }] })
+                    .listener(project as any as GitProject, gi, GoalProjectListenerEvent.after);
+                if (key === "k1") {
+                    const old = new Date(Date.now() - hour);
+                    await fs.utimes(path.join(cacheDir, gi.context.workspaceId, "npm", "k1", "cache.tar.gz"), old, old);
+                }
+            }
+
+            const archives = await testCache.list(gi, `${gi.context.workspaceId}/npm/`);
+            return archives.map(a => a.classifier.slice(gi.context.workspaceId.length + 1)).sort();
+        }
+
+        it("should evict archives when storing new ones", async () => {
+            const classifiers = await storeArchives({ maxEntries: 1, interval: 0 });
+            assert.deepStrictEqual(classifiers, ["npm/k2"]);
+        });
+
+        it("should enforce the policy at most once per interval", async () => {
+            const classifiers = await storeArchives({ maxEntries: 1 });
+            assert.deepStrictEqual(classifiers, ["npm/k1", "npm/k2"]);
+        });
+
+    });
+
+    describe("shouldRecordAccess", () => {
+
+        it("should record access at most once per interval", () => {
+            const uri = `s3://bucket/${guid()}/cache.tar.gz`;
+            assert(shouldRecordAccess(uri, now));
+            assert(!shouldRecordAccess(uri, now + 1000));
+            assert(shouldRecordAccess(`${uri}.other`, now + 1000));
+            assert(shouldRecordAccess(uri, now + AccessRecordingInterval));
+        });
+
+    });
+
+});
@@ -0,0 +1,170 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { goal } from "@atomist/sdm/lib/api/goal/GoalWithFulfillment";
+import { GoalApprovalRequestVote } from "@atomist/sdm/lib/api/registration/goalApprovalRequestVote";
+import * as assert from "power-assert";
+import {
+    approvalPolicyVoter,
+    GoalApprovalPolicy,
+    GoalApprovalPolicyParameterKey,
+    GoalApprovalPolicyVoteResult,
+    goalApprovals,
+    GoalPreApprovalPolicyParameterKey,
+    withApprovalPolicy,
+    withPreApprovalPolicy,
+} from "../../../lib/goal/common/approval";
+import { SdmGoalState } from "../../../lib/typings/types";
+
+describe("goal/common/approval", () => {
+
+    describe("withApprovalPolicy", () => {
+
+        it("should store policy and require approval", () => {
+            const g = withApprovalPolicy(goal({ uniqueName: "deploy" }), { required: 2, teams: ["ops"] });
+            assert.strictEqual(g.definition.approvalRequired, true);
+            assert.deepStrictEqual((g.definition as any).parameters[GoalApprovalPolicyParameterKey], { required: 2, teams: ["ops"] });
+        });
+
+        it("should store pre-approval policy", () => {
+            const g = withPreApprovalPolicy(goal({ uniqueName: "deploy" }), { users: ["jrday"] });
+            assert.strictEqual(g.definition.preApprovalRequired, true);
+            assert.deepStrictEqual((g.definition as any).parameters[GoalPreApprovalPolicyParameterKey], { users: ["jrday"] });
+        });
+
+        it("should reject invalid number of approvals", () => {
+            assert.throws(() => withApprovalPolicy(goal({ uniqueName: "deploy" }), { required: 0 }),
+                /Required approvals of goal 'deploy' must be a positive integer/);
+        });
+
+        it("should store expiry in milliseconds", () => {
+            const g = withApprovalPolicy(goal({ uniqueName: "deploy" }), { expiry: "24h", window: { days: "Mon-Thu" } });
+            assert.deepStrictEqual((g.definition as any).parameters[GoalApprovalPolicyParameterKey],
+                { expiry: 24 * 60 * 60 * 1000, window: { days: "Mon-Thu" } });
+        });
+
+        it("should reject invalid change window", () => {
+            assert.throws(() => withApprovalPolicy(goal({ uniqueName: "deploy" }), { window: [{ start: "25:00" }] }),
+                /Invalid time '25:00' in change window of goal 'deploy'/);
+        });
+
+    });
+
+    describe("approvalPolicyVoter", () => {
+
+        const logins: Record<string, string> = { jim: "jrday", jessica: "jessitron", cd: "cdupuis" };
+        let messages: any[];
+
+        beforeEach(() => {
+            messages = [];
+        });
+
+        function vote(policy: GoalApprovalPolicy | undefined,
+                      userId: string,
+                      data?: string,
+                      state: SdmGoalState = SdmGoalState.approved): Promise<GoalApprovalPolicyVoteResult> {
+            const parameters = !!policy ? JSON.stringify({
+                [state === SdmGoalState.approved ? GoalApprovalPolicyParameterKey : GoalPreApprovalPolicyParameterKey]: policy,
+            }) : undefined;
+            const provenance = { userId, ts: 1000 };
+            return approvalPolicyVoter()({
+                addressChannels: async (msg: any) => { messages.push(msg); },
+                goal: {
+                    state,
+                    parameters,
+                    data,
+                    approval: state === SdmGoalState.approved ? provenance : undefined,
+                    preApproval: state === SdmGoalState.pre_approved ? provenance : undefined,
+                    push: { after: { author: { login: "cdupuis" } } },
+                },
+                context: {
+                    invocationId: "123",
+                    graphClient: {
+                        query: async (o: any) => ({ ChatId: [{ person: { gitHubId: { login: logins[o.variables.screenName] } } }] }),
+                    },
+                },
+            } as any);
+        }
+
+        it("should grant goals without policy", async () => {
+            assert.strictEqual((await vote(undefined, "jim")).vote, GoalApprovalRequestVote.Granted);
+        });
+
+        it("should grant single approval by default", async () => {
+            const result = await vote({}, "jim");
+            assert.strictEqual(result.vote, GoalApprovalRequestVote.Granted);
+            assert.deepStrictEqual(goalApprovals(result), { approval: [{ userId: "jim", ts: 1000 }] });
+        });
+
+        it("should collect approvals until policy is satisfied", async () => {
+            const policy = { required: 2, users: ["jrday", "jessica"] };
+            const first = await vote(policy, "jim", "{\"foo\":\"bar\"}");
+            assert.strictEqual(first.vote, GoalApprovalRequestVote.Abstain);
+            assert.strictEqual(first.reason, "1 of 2 approvals");
+            assert.strictEqual(JSON.parse(first.data).foo, "bar");
+
+            const again = await vote(policy, "jim", first.data);
+            assert.strictEqual(again.vote, GoalApprovalRequestVote.Abstain);
+            assert.strictEqual(again.approvals, 1);
+
+            const second = await vote(policy, "jessica", first.data);
+            assert.strictEqual(second.vote, GoalApprovalRequestVote.Granted);
+            assert.deepStrictEqual(goalApprovals(second).approval.map(a => a.userId), ["jim", "jessica"]);
+        });
+
+        it("should deny users not allowed to approve", async () => {
+            const result = await vote({ required: 2, users: ["jrday"] }, "jessica");
+            assert.strictEqual(result.vote, GoalApprovalRequestVote.Denied);
+            assert.strictEqual(result.reason, "User jessica is not allowed to approve");
+            assert.strictEqual(result.data, undefined);
+        });
+
+        it("should deny commit author", async () => {
+            const result = await vote({ excludeCommitAuthor: true }, "cd");
+            assert.strictEqual(result.vote, GoalApprovalRequestVote.Denied);
+            assert.strictEqual(result.reason, "Commit author cd can not approve");
+            assert.strictEqual((await vote({ excludeCommitAuthor: true }, "jim")).vote, GoalApprovalRequestVote.Granted);
+        });
+
+        it("should record pre-approvals separately", async () => {
+            const data = JSON.stringify({ "@atomist/sdm/approvals": { approval: [{ userId: "jessica", ts: 1 }] } });
+            const result = await vote({ required: 2 }, "jim", data, SdmGoalState.pre_approved);
+            assert.strictEqual(result.vote, GoalApprovalRequestVote.Abstain);
+            assert.deepStrictEqual(goalApprovals(result), {
+                approval: [{ userId: "jessica", ts: 1 }],
+                preApproval: [{ userId: "jim", ts: 1000 }],
+            });
+        });
+
+        it("should deny approvals outside of change window", async () => {
+            const rac = (global as any).__runningAutomationClient;
+            (global as any).__runningAutomationClient = { configuration: { name: "@atomist/test-sdm", version: "1.0.0" } };
+            try {
+                // approvals are recorded at 1970-01-01T00:00:01Z, a Thursday
+                const result = await vote({ window: { days: "Mon-Wed", start: "09:00", end: "17:00" } }, "jim");
+                assert.strictEqual(result.vote, GoalApprovalRequestVote.Denied);
+                assert.strictEqual(result.reason, "Approval outside of change window Mon-Wed 09:00-17:00 UTC");
+                assert.strictEqual(messages.length, 1);
+                assert.strictEqual(messages[0].attachments[0].author_name, "Goal Approval");
+                assert.strictEqual((await vote({ window: { days: "Thu" } }, "jim")).vote, GoalApprovalRequestVote.Granted);
+            } finally {
+                (global as any).__runningAutomationClient = rac;
+            }
+        });
+
+    });
+
+});
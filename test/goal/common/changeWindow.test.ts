@@ -0,0 +1,91 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "power-assert";
+import {
+    ChangeWindow,
+    formatChangeWindow,
+    isInChangeWindow,
+    validateChangeWindow,
+} from "../../../lib/goal/common/changeWindow";
+
+describe("goal/common/changeWindow", () => {
+
+    const berlin: ChangeWindow = { days: "Mon-Thu", start: "09:00", end: "16:00", timezone: "Europe/Berlin" };
+
+    describe("isInChangeWindow", () => {
+
+        it("should respect days, times and time zone", () => {
+            // 2020-03-02 is a Monday; Berlin is UTC+1 in March
+            assert(isInChangeWindow(berlin, Date.UTC(2020, 2, 2, 8, 0)));
+            assert(isInChangeWindow(berlin, Date.UTC(2020, 2, 5, 14, 59)));
+            assert(!isInChangeWindow(berlin, Date.UTC(2020, 2, 2, 7, 59)));
+            assert(!isInChangeWindow(berlin, Date.UTC(2020, 2, 2, 15, 0)));
+            assert(!isInChangeWindow(berlin, Date.UTC(2020, 2, 6, 10, 0)));
+        });
+
+        it("should support overnight windows and day lists", () => {
+            const night: ChangeWindow = { days: ["Sat", "Sun"], start: "22:00", end: "06:00" };
+            assert(isInChangeWindow(night, Date.UTC(2020, 2, 7, 23, 0)));
+            assert(isInChangeWindow(night, Date.UTC(2020, 2, 8, 5, 0)));
+            assert(!isInChangeWindow(night, Date.UTC(2020, 2, 7, 12, 0)));
+            assert(!isInChangeWindow(night, Date.UTC(2020, 2, 9, 1, 0)));
+        });
+
+        it("should match any of multiple windows", () => {
+            const windows = [berlin, { days: "Fri", end: "12:00", timezone: "Europe/Berlin" }];
+            assert(isInChangeWindow(windows, Date.UTC(2020, 2, 6, 10, 0)));
+            assert(!isInChangeWindow(windows, Date.UTC(2020, 2, 6, 12, 0)));
+        });
+
+        it("should default to every day all day", () => {
+            assert(isInChangeWindow({}, Date.UTC(2020, 2, 8, 0, 0)));
+        });
+
+    });
+
+    describe("validateChangeWindow", () => {
+
+        it("should accept valid window", () => {
+            validateChangeWindow(berlin);
+            validateChangeWindow({ days: ["Sat", "Sunday"], end: "24:00" });
+        });
+
+        it("should reject invalid day", () => {
+            assert.throws(() => validateChangeWindow({ days: "Mon-Someday" }), /Invalid day 'Mon-Someday' in change window/);
+        });
+
+        it("should reject invalid time", () => {
+            assert.throws(() => validateChangeWindow({ start: "9am" }), /Invalid time '9am' in change window/);
+            assert.throws(() => validateChangeWindow({ end: "24:30" }), /Invalid time '24:30' in change window/);
+        });
+
+        it("should reject invalid time zone", () => {
+            assert.throws(() => validateChangeWindow({ timezone: "Mars/Olympus" }), /Invalid time zone 'Mars\/Olympus' in change window/);
+        });
+
+    });
+
+    describe("formatChangeWindow", () => {
+
+        it("should format windows", () => {
+            assert.strictEqual(formatChangeWindow(berlin), "Mon-Thu 09:00-16:00 Europe/Berlin");
+            assert.strictEqual(formatChangeWindow([berlin, { end: "12:00" }]), "Mon-Thu 09:00-16:00 Europe/Berlin or 00:00-12:00 UTC");
+        });
+
+    });
+
+});
@@ -0,0 +1,86 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { goal } from "@atomist/sdm/lib/api/goal/GoalWithFulfillment";
+import * as assert from "power-assert";
+import {
+    GoalRetryParameterKey,
+    goalRetryPolicy,
+    goalRetryState,
+    isRetryableFailure,
+    retryDelay,
+    withExitCode,
+    withRetry,
+    withRetryState,
+} from "../../../lib/goal/common/retry";
+
+describe("goal/common/retry", () => {
+
+    describe("withRetry", () => {
+
+        it("should store retry policy with goal parameters", () => {
+            const g = withRetry(goal({ uniqueName: "build" }), 3);
+            assert.strictEqual(g.definition.retryFeasible, true);
+            assert.deepStrictEqual((g.definition as any).parameters, { [GoalRetryParameterKey]: { maxAttempts: 3 } });
+        });
+
+        it("should parse backoff durations", () => {
+            const g = withRetry(goal({ uniqueName: "build" }), {
+                maxAttempts: 5,
+                backoff: { initial: "10s", max: "5m" },
+                exitCodes: [137],
+            });
+            assert.deepStrictEqual((g.definition as any).parameters[GoalRetryParameterKey], {
+                maxAttempts: 5,
+                backoff: { initial: 10 * 1000, max: 5 * 60 * 1000 },
+                exitCodes: [137],
+            });
+        });
+
+        it("should reject invalid policies", () => {
+            assert.throws(() => withRetry(goal({ uniqueName: "build" }), 0),
+                /Maximum attempts of goal 'build' must be a positive integer/);
+            assert.throws(() => withRetry(goal({ uniqueName: "build" }), { maxAttempts: 2, phases: ["("] }),
+                /Invalid retry phase '\(' of goal 'build'/);
+        });
+
+    });
+
+    it("should read retry policy and state from goal event", () => {
+        assert.strictEqual(goalRetryPolicy({}), undefined);
+        assert.deepStrictEqual(goalRetryPolicy({ parameters: JSON.stringify({ [GoalRetryParameterKey]: { maxAttempts: 2 } }) }),
+            { maxAttempts: 2 });
+        assert.deepStrictEqual(goalRetryState({}), { attempt: 1 });
+        assert.deepStrictEqual(goalRetryState({ data: withRetryState("{\"foo\":\"bar\"}", { attempt: 3 }) }), { attempt: 3 });
+    });
+
+    it("should back off exponentially", () => {
+        const policy = { maxAttempts: 10, backoff: { initial: 1000, multiplier: 3, max: "1m" } };
+        assert.deepStrictEqual([1, 2, 3, 4, 5].map(a => retryDelay(policy, a)), [1000, 3000, 9000, 27000, 60000]);
+        assert.deepStrictEqual([1, 2].map(a => retryDelay({ maxAttempts: 3 }, a)), [30000, 60000]);
+    });
+
+    it("should match retryable failures", () => {
+        assert(isRetryableFailure({ maxAttempts: 2 }, { phase: "anything" }));
+        const policy = { maxAttempts: 2, phases: ["^network"], exitCodes: [137, 143] };
+        assert(isRetryableFailure(policy, { phase: "network timeout" }));
+        assert(!isRetryableFailure(policy, { phase: "compile error" }));
+        assert(isRetryableFailure(policy, { data: withExitCode(undefined, 137) }));
+        assert(!isRetryableFailure(policy, { data: withExitCode(undefined, 1) }));
+        assert(!isRetryableFailure(policy, {}));
+    });
+
+});
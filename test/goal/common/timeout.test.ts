@@ -0,0 +1,65 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { goal } from "@atomist/sdm/lib/api/goal/GoalWithFulfillment";
+import * as assert from "power-assert";
+import {
+    goalTimeout,
+    GoalTimeoutParameterKey,
+    withTimeout,
+} from "../../../lib/goal/common/timeout";
+import { SdmGoalState } from "../../../lib/typings/types";
+
+describe("goal/common/timeout", () => {
+
+    it("should store timeout with goal parameters", () => {
+        const g = goal({ uniqueName: "lint" });
+        (g.definition as any).parameters = { foo: "bar" };
+        const result = withTimeout(g, "5m");
+        assert.strictEqual(result, g);
+        assert.deepStrictEqual((g.definition as any).parameters, {
+            foo: "bar",
+            [GoalTimeoutParameterKey]: { duration: 5 * 60 * 1000 },
+        });
+    });
+
+    it("should store full timeout definition", () => {
+        const g = withTimeout(goal({ uniqueName: "integration-test" }), {
+            duration: "2h",
+            state: SdmGoalState.failure,
+            retryFeasible: true,
+        });
+        assert.deepStrictEqual((g.definition as any).parameters[GoalTimeoutParameterKey], {
+            duration: 2 * 60 * 60 * 1000,
+            state: SdmGoalState.failure,
+            retryFeasible: true,
+        });
+    });
+
+    it("should reject invalid timeout state", () => {
+        assert.throws(() => withTimeout(goal({ uniqueName: "lint" }), { duration: 1000, state: SdmGoalState.success as any }),
+            /Timeout state of goal 'lint' must be 'canceled' or 'failure'/);
+    });
+
+    it("should read timeout from goal event", () => {
+        assert.strictEqual(goalTimeout({}), undefined);
+        assert.strictEqual(goalTimeout({ parameters: "{\"foo\":\"bar\"}" }), undefined);
+        assert.strictEqual(goalTimeout({ parameters: "not json" }), undefined);
+        assert.deepStrictEqual(goalTimeout({ parameters: JSON.stringify({ [GoalTimeoutParameterKey]: { duration: "10m", state: "failure" } }) }),
+            { duration: 10 * 60 * 1000, state: "failure" });
+    });
+
+});
@@ -30,6 +30,7 @@ import {
 } from "../../../lib/goal/container/container";
 import {
     containerDockerOptions,
+    dockerHostAddress,
     dockerTmpDir,
     executeDockerJob,
 } from "../../../lib/goal/container/docker";
@@ -151,6 +152,84 @@ describe("goal/container/docker", () => {
             assert.deepStrictEqual(o, e);
         });
 
+        it("should publish readiness probe port", () => {
+            const c = {
+                image: "townes/tecumseh-valley:4.55",
+                name: "townes",
+                ports: [
+                    {
+                        containerPort: 1238,
+                    },
+                ],
+                readinessProbe: {
+                    tcpSocket: {
+                        port: 2247,
+                    },
+                },
+            };
+            const r = {
+                containers: [c],
+            };
+            const o = containerDockerOptions(c, r);
+            const e = ["-p=1238", "-p=2247"];
+            assert.deepStrictEqual(o, e);
+        });
+
+        it("should not publish readiness probe port twice", () => {
+            const c = {
+                image: "townes/tecumseh-valley:4.55",
+                name: "townes",
+                ports: [
+                    {
+                        containerPort: 1238,
+                    },
+                ],
+                readinessProbe: {
+                    httpGet: {
+                        path: "/health",
+                        port: 1238,
+                    },
+                },
+            };
+            const r = {
+                containers: [c],
+            };
+            const o = containerDockerOptions(c, r);
+            const e = ["-p=1238"];
+            assert.deepStrictEqual(o, e);
+        });
+
+        it("should handle resources", () => {
+            const c = {
+                image: "townes/tecumseh-valley:4.55",
+                name: "townes",
+                resources: {
+                    cpu: "500m",
+                    memory: "512Mi",
+                },
+            };
+            const r = {
+                containers: [c],
+            };
+            const o = containerDockerOptions(c, r);
+            const e = ["--cpus=0.5", "--memory=536870912"];
+            assert.deepStrictEqual(o, e);
+        });
+
+        it("should throw an error for invalid resources", () => {
+            const c = {
+                image: "townes/tecumseh-valley:4.55",
+                name: "townes",
+                resources: {
+                    memory: "a lot",
+                },
+            };
+            const r = {
+                containers: [c],
+            };
+            assert.throws(() => containerDockerOptions(c, r), /Invalid container memory resource 'a lot'/);
+        });
+
         it("should handle volumes", () => {
             const c = {
                 image: "townes/tecumseh-valley:4.55",
@@ -190,6 +269,24 @@ describe("goal/container/docker", () => {
 
     });
 
+    describe("dockerHostAddress", () => {
+
+        it("should map wildcard address to loopback", () => {
+            const o = "0.0.0.0:32768\n[::]:32768\n";
+            assert.deepStrictEqual(dockerHostAddress(o), { host: "127.0.0.1", port: 32768 });
+        });
+
+        it("should return host address", () => {
+            const o = "192.168.99.100:49153\n";
+            assert.deepStrictEqual(dockerHostAddress(o), { host: "192.168.99.100", port: 49153 });
+        });
+
+        it("should return undefined if port is not published", () => {
+            assert(dockerHostAddress("") === undefined);
+        });
+
+    });
+
     describe("executeDockerJob", () => {
 
         const fakeId = fakePush().id;
@@ -439,6 +536,85 @@ describe("goal/container/docker", () => {
             assert(x.message === "Successfully completed container job");
         }).timeout(15000);
 
+        it("should wait for sidecar readiness", async () => {
+            const r = {
+                containers: [
+                    {
+                        args: ["test -f /atm/home/ready"],
+                        command: ["sh", "-c"],
+                        image: containerTestImage,
+                        name: "alpine0",
+                    },
+                    {
+                        args: ["sleep 2; touch /atm/home/ready; sleep 20"],
+                        command: ["sh", "-c"],
+                        image: containerTestImage,
+                        name: "alpine1",
+                        readinessProbe: {
+                            exec: {
+                                command: ["test", "-f", "/atm/home/ready"],
+                            },
+                        },
+                    },
+                ],
+            };
+            const e = executeDockerJob(goal, r);
+            const egr = await e(goalInvocation);
+            assert(egr, "ExecuteGoal did not return a value");
+            const x = egr as ExecuteGoalResult;
+            assert(x.code === 0, logData);
+            assert(x.message === "Successfully completed container job");
+        }).timeout(15000);
+
+        it("should report when sidecar does not become ready", async () => {
+            const r = {
+                containers: [
+                    {
+                        args: ["true"],
+                        image: containerTestImage,
+                        name: "alpine0",
+                    },
+                    {
+                        args: ["sleep", "20"],
+                        image: containerTestImage,
+                        name: "alpine1",
+                        readinessProbe: {
+                            failureThreshold: 2,
+                            tcpSocket: {
+                                port: 5432,
+                            },
+                        },
+                    },
+                ],
+            };
+            const e = executeDockerJob(goal, r);
+            const egr = await e(goalInvocation);
+            assert(egr, "ExecuteGoal did not return a value");
+            const x = egr as ExecuteGoalResult;
+            assert(x.code === 1, logData);
+            assert(x.message.includes("Container 'sdm-alpine1-27c20de-container' not ready after 2 readiness checks"));
+        }).timeout(15000);
+
+        it("should kill container exceeding its timeout", async () => {
+            const r = {
+                containers: [
+                    {
+                        args: ["sleep", "20"],
+                        image: containerTestImage,
+                        name: "alpine",
+                        timeout: "2s",
+                    },
+                ],
+            };
+            const e = executeDockerJob(goal, r);
+            const egr = await e(goalInvocation);
+            assert(egr, "ExecuteGoal did not return a value");
+            const x = egr as ExecuteGoalResult;
+            assert(x.code === 1, logData);
+            assert(x.message === "Docker container 'sdm-alpine-27c20de-container' exceeded timeout of 2s");
+            assert(x.phase === "timed out");
+        }).timeout(15000);
+
         it("should use the registration callback", async () => {
             const r = {
                 callback: async () => {
@@ -43,6 +43,9 @@ import {
     executeK8sJob,
     K8sContainerRegistration,
     k8sFulfillmentCallback,
+    k8sReadinessProbe,
+    k8sReadinessSidecar,
+    k8sResources,
 } from "../../../lib/goal/container/k8s";
 import { loadKubeConfig } from "../../../lib/pack/k8s/kubernetes/config";
 import { KubernetesGoalScheduler } from "../../../lib/pack/k8s/scheduler/KubernetesGoalScheduler";
@@ -1632,6 +1635,98 @@ dGe21S9sMOqyEp9D8geeXkg3VAItxuXbLIBfKL45kwSvB6fEFtQnJEOrT4YXSRDY
 
     });
 
+    describe("k8sReadinessProbe", () => {
+
+        it("should make defaults explicit", () => {
+            const p = k8sReadinessProbe({ tcpSocket: { port: 5432 } });
+            const e = {
+                periodSeconds: 1,
+                timeoutSeconds: 1,
+                failureThreshold: 60,
+                tcpSocket: { port: 5432 },
+            };
+            assert.deepStrictEqual(p, e);
+        });
+
+        it("should convert http probe", () => {
+            const p = k8sReadinessProbe({ httpGet: { port: 8080 }, periodSeconds: 5, failureThreshold: 12 });
+            const e = {
+                periodSeconds: 5,
+                timeoutSeconds: 1,
+                failureThreshold: 12,
+                httpGet: { path: "/", port: 8080 },
+            };
+            assert.deepStrictEqual(p, e);
+        });
+
+        it("should convert exec probe", () => {
+            const p = k8sReadinessProbe({ exec: { command: ["redis-cli", "ping"] }, timeoutSeconds: 3 });
+            const e = {
+                periodSeconds: 1,
+                timeoutSeconds: 3,
+                failureThreshold: 60,
+                exec: { command: ["redis-cli", "ping"] },
+            };
+            assert.deepStrictEqual(p, e);
+        });
+
+    });
+
+    describe("k8sResources", () => {
+
+        it("should use resources as requests and limits", () => {
+            const r = k8sResources({ cpu: 0.5, memory: "512Mi" });
+            const e = {
+                requests: { cpu: "0.5", memory: "512Mi" },
+                limits: { cpu: "0.5", memory: "512Mi" },
+            };
+            assert.deepStrictEqual(r, e);
+        });
+
+        it("should only set provided resources", () => {
+            const r = k8sResources({ cpu: "250m" });
+            const e = {
+                requests: { cpu: "250m" },
+                limits: { cpu: "250m" },
+            };
+            assert.deepStrictEqual(r, e);
+        });
+
+        it("should throw an error for invalid resources", () => {
+            assert.throws(() => k8sResources({ memory: "a lot" }), /Invalid container memory resource 'a lot'/);
+        });
+
+    });
+
+    describe("k8sReadinessSidecar", () => {
+
+        it("should create restartable init container with startup probe", () => {
+            const c = {
+                image: "postgres:12",
+                name: "postgres",
+                readinessProbe: {
+                    tcpSocket: { port: 5432 },
+                },
+            };
+            const s = k8sReadinessSidecar(c);
+            const p = {
+                periodSeconds: 1,
+                timeoutSeconds: 1,
+                failureThreshold: 60,
+                tcpSocket: { port: 5432 },
+            };
+            const e = {
+                image: "postgres:12",
+                name: "postgres",
+                restartPolicy: "Always",
+                startupProbe: p,
+                readinessProbe: p,
+            };
+            assert.deepStrictEqual(s, e);
+        });
+
+    });
+
     describe("executeK8sJob", () => {
 
         const fakeId = fakePush().id;
@@ -0,0 +1,221 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SdmGoalEvent } from "@atomist/sdm/lib/api/goal/SdmGoalEvent";
+import * as assert from "power-assert";
+import { Container } from "../../../lib/goal/container/container";
+import {
+    isSameMatrix,
+    matrix,
+    Matrix,
+    matrixCellName,
+    matrixCellParameters,
+    matrixCells,
+    matrixPlan,
+    matrixState,
+    matrixSummary,
+} from "../../../lib/goal/container/matrix";
+import { SdmGoalState } from "../../../lib/typings/types";
+
+describe("goal/container/matrix", () => {
+
+    describe("matrixCells", () => {
+
+        it("should expand all combinations", () => {
+            const c = matrixCells({ node: [10, 12, 14], database: ["postgres", "mysql"] });
+            assert.deepStrictEqual(c, [
+                { node: "10", database: "postgres" },
+                { node: "10", database: "mysql" },
+                { node: "12", database: "postgres" },
+                { node: "12", database: "mysql" },
+                { node: "14", database: "postgres" },
+                { node: "14", database: "mysql" },
+            ]);
+        });
+
+        it("should accept single values", () => {
+            const c = matrixCells({ node: 12, database: ["postgres", "mysql"], ci: true });
+            assert.deepStrictEqual(c, [
+                { node: "12", database: "postgres", ci: "true" },
+                { node: "12", database: "mysql", ci: "true" },
+            ]);
+        });
+
+        it("should reject empty matrices and dimensions", () => {
+            assert.throws(() => matrixCells({}), /Matrix has no dimensions/);
+            assert.throws(() => matrixCells({ node: [] }), /Matrix dimension 'node' has no values/);
+        });
+
+    });
+
+    describe("matrixCellName", () => {
+
+        it("should append the cell values", () => {
+            assert.strictEqual(matrixCellName("test", { node: "10", database: "postgres" }), "test (10, postgres)");
+        });
+
+    });
+
+    describe("matrixPlan", () => {
+
+        it("should plan all cells concurrently", () => {
+            const p = matrixPlan("test", { matrix: { node: [10, 12] } });
+            assert.deepStrictEqual(p, {
+                matrix_0: {
+                    goals: [{
+                        details: { displayName: "test (10)" },
+                        parameters: { "matrix": { node: "10" }, "@atomist/sdm/matrix": { index: 0, failFast: true } },
+                    }],
+                },
+                matrix_1: {
+                    goals: [{
+                        details: { displayName: "test (12)" },
+                        parameters: { "matrix": { node: "12" }, "@atomist/sdm/matrix": { index: 1, failFast: true } },
+                    }],
+                },
+            });
+        });
+
+        it("should distribute cells over max parallel lanes", () => {
+            const p = matrixPlan("test", { matrix: { node: [10, 12, 14], database: ["postgres", "mysql"] }, maxParallel: 4 });
+            assert.deepStrictEqual(Object.keys(p), ["matrix_0", "matrix_1", "matrix_2", "matrix_3"]);
+            const lanes = Object.keys(p).map(k => (p[k].goals as any[]).map(g => g.parameters["@atomist/sdm/matrix"].index));
+            assert.deepStrictEqual(lanes, [[0, 4], [1, 5], [2], [3]]);
+        });
+
+        it("should keep parameters of the goal", () => {
+            const p = matrixPlan("test", { matrix: { node: 10 }, failFast: false }, {
+                "@atomist/sdm/retry": { maxAttempts: 2 },
+            });
+            assert.deepStrictEqual((p.matrix_0.goals as any[])[0].parameters, {
+                "@atomist/sdm/retry": { maxAttempts: 2 },
+                "matrix": { node: "10" },
+                "@atomist/sdm/matrix": { index: 0, failFast: false },
+            });
+        });
+
+    });
+
+    describe("matrixCellParameters", () => {
+
+        it("should read the matrix parameters of planned goals", () => {
+            const parameters = JSON.stringify({ "matrix": { node: "10" }, "@atomist/sdm/matrix": { index: 2, failFast: false } });
+            assert.deepStrictEqual(matrixCellParameters({ uniqueName: "test#sdm:2", parameters }), { index: 2, failFast: false });
+            assert.strictEqual(matrixCellParameters({ uniqueName: "test", parameters }), undefined);
+            assert.strictEqual(matrixCellParameters({ uniqueName: "test#sdm:2", parameters: "{}" }), undefined);
+            assert.strictEqual(matrixCellParameters({ uniqueName: "test#sdm:2" }), undefined);
+        });
+
+    });
+
+    describe("isSameMatrix", () => {
+
+        const parameters = JSON.stringify({ "@atomist/sdm/matrix": { index: 0, failFast: true } });
+
+        it("should match cells of the same matrix", () => {
+            assert(isSameMatrix(
+                { goalSetId: "abc", uniqueName: "test#sdm:0", parameters },
+                { goalSetId: "abc", uniqueName: "test#sdm:3", parameters }));
+        });
+
+        it("should not match other goals", () => {
+            assert(!isSameMatrix(
+                { goalSetId: "abc", uniqueName: "test#sdm:0", parameters },
+                { goalSetId: "abc", uniqueName: "lint#sdm:3", parameters }));
+            assert(!isSameMatrix(
+                { goalSetId: "abc", uniqueName: "test#sdm:0", parameters },
+                { goalSetId: "def", uniqueName: "test#sdm:3", parameters }));
+            assert(!isSameMatrix(
+                { goalSetId: "abc", uniqueName: "test#sdm:0", parameters },
+                { goalSetId: "abc", uniqueName: "test#sdm:3" }));
+        });
+
+    });
+
+    describe("matrixState", () => {
+
+        const s = (...states: SdmGoalState[]) => states.map(state => ({ state }));
+
+        it("should be in process until all cells completed", () => {
+            assert.strictEqual(matrixState(s(SdmGoalState.success, SdmGoalState.in_process), true), SdmGoalState.in_process);
+            assert.strictEqual(matrixState(s(SdmGoalState.planned, SdmGoalState.requested), true), SdmGoalState.in_process);
+            assert.strictEqual(matrixState(s(SdmGoalState.failure, SdmGoalState.in_process), false), SdmGoalState.in_process);
+        });
+
+        it("should fail fast", () => {
+            assert.strictEqual(matrixState(s(SdmGoalState.failure, SdmGoalState.in_process), true), SdmGoalState.failure);
+        });
+
+        it("should aggregate completed cells", () => {
+            assert.strictEqual(matrixState(s(SdmGoalState.success, SdmGoalState.success), true), SdmGoalState.success);
+            assert.strictEqual(matrixState(s(SdmGoalState.success, SdmGoalState.skipped), false), SdmGoalState.failure);
+            assert.strictEqual(matrixState(s(SdmGoalState.canceled, SdmGoalState.success), false), SdmGoalState.failure);
+        });
+
+    });
+
+    describe("matrixSummary", () => {
+
+        it("should count cells by state", () => {
+            const cells = [SdmGoalState.success, SdmGoalState.in_process, SdmGoalState.success, SdmGoalState.failure]
+                .map(state => ({ state }));
+            assert.strictEqual(matrixSummary(cells), "2 of 4 succeeded, 1 in process, 1 failure");
+        });
+
+    });
+
+    describe("matrix", () => {
+
+        it("should plan cells and add the matrix goal", async () => {
+            const c = new Container({ displayName: "test", uniqueName: "test-plan" });
+            const gs = matrix(c, { matrix: { node: [10, 12] } });
+            assert.strictEqual(gs.goals.length, 2);
+            assert.strictEqual(gs.goals[0], c);
+            const m = gs.goals[1] as Matrix;
+            assert(m instanceof Matrix);
+            assert.strictEqual(m.uniqueName, "test-plan-matrix");
+            assert.strictEqual(m.name, "test");
+            const p = await c.plan(undefined, undefined) as any;
+            assert.deepStrictEqual(Object.keys(p), ["matrix_0", "matrix_1"]);
+            assert.strictEqual(p.matrix_1.goals[0].details.displayName, "test (12)");
+        });
+
+        it("should select its cells in matrix order", () => {
+            const c = new Container({ displayName: "test", uniqueName: "test-cells" });
+            const m = matrix(c, { matrix: { node: [10, 12] } }).goals[1] as Matrix;
+            const cell = (uniqueName: string, index: number, goalSetId: string = "abc"): SdmGoalEvent => ({
+                goalSetId,
+                uniqueName,
+                parameters: JSON.stringify({ "@atomist/sdm/matrix": { index, failFast: true } }),
+            }) as any;
+            const goals = [
+                cell("test-cells#sdm:1", 0),
+                cell("test-cells#sdm:0", 1),
+                cell("test-cells#sdm:2", 2, "def"),
+                cell("lint#sdm:0", 0),
+                { goalSetId: "abc", uniqueName: "test-cells-matrix" } as any,
+            ];
+            assert.deepStrictEqual(m.cells("abc", goals).map(g => g.uniqueName), ["test-cells#sdm:1", "test-cells#sdm:0"]);
+        });
+
+        it("should reject an invalid matrix", () => {
+            const c = new Container({ displayName: "test", uniqueName: "test-invalid" });
+            assert.throws(() => matrix(c, { matrix: { node: [] } }), /Matrix dimension 'node' has no values/);
+        });
+
+    });
+
+});
@@ -0,0 +1,120 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as http from "http";
+import * as net from "net";
+import * as assert from "power-assert";
+import {
+    httpReadinessCheck,
+    tcpReadinessCheck,
+    waitForReadiness,
+} from "../../../lib/goal/container/readiness";
+
+describe("goal/container/readiness", () => {
+
+    describe("waitForReadiness", () => {
+
+        let logData = "";
+        const log: any = { write: (d: string) => logData += d };
+
+        beforeEach(() => { logData = ""; });
+
+        it("should return once the check succeeds", async () => {
+            let checks = 0;
+            const check = async () => ++checks > 2;
+            await waitForReadiness("postgres", { periodSeconds: 0.01 }, check, log);
+            assert(checks === 3);
+            assert(logData.includes("Container 'postgres' is ready"));
+        });
+
+        it("should treat check errors as not ready", async () => {
+            let checks = 0;
+            const check = async () => {
+                if (++checks < 2) {
+                    throw new Error("not running");
+                }
+                return true;
+            };
+            await waitForReadiness("postgres", { periodSeconds: 0.01 }, check, log);
+            assert(checks === 2);
+        });
+
+        it("should throw an error when failure threshold is reached", async () => {
+            let checks = 0;
+            const check = async () => ++checks < 0;
+            try {
+                await waitForReadiness("postgres", { periodSeconds: 0.01, failureThreshold: 3 }, check, log);
+                assert.fail("should have thrown an error");
+            } catch (e) {
+                assert(e.message === "Container 'postgres' not ready after 3 readiness checks");
+            }
+            assert(checks === 3);
+        });
+
+    });
+
+    describe("tcpReadinessCheck", () => {
+
+        it("should succeed when port accepts connections", async () => {
+            const server = net.createServer(socket => socket.end());
+            await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+            const port = (server.address() as net.AddressInfo).port;
+            try {
+                assert(await tcpReadinessCheck("127.0.0.1", port)(1000));
+            } finally {
+                server.close();
+            }
+        });
+
+        it("should fail when port does not accept connections", async () => {
+            const server = net.createServer();
+            await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+            const port = (server.address() as net.AddressInfo).port;
+            await new Promise(resolve => server.close(resolve));
+            assert(!(await tcpReadinessCheck("127.0.0.1", port)(1000)));
+        });
+
+    });
+
+    describe("httpReadinessCheck", () => {
+
+        let server: http.Server;
+        let port: number;
+
+        before(async () => {
+            server = http.createServer((req, res) => {
+                res.statusCode = req.url === "/health" ? 200 : 503;
+                res.end();
+            });
+            await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+            port = (server.address() as net.AddressInfo).port;
+        });
+
+        after(() => {
+            server.close();
+        });
+
+        it("should succeed on successful response", async () => {
+            assert(await httpReadinessCheck("127.0.0.1", port, "/health")(1000));
+        });
+
+        it("should fail on error response", async () => {
+            assert(!(await httpReadinessCheck("127.0.0.1", port)(1000)));
+        });
+
+    });
+
+});
@@ -0,0 +1,106 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "power-assert";
+import {
+    containerTimeout,
+    cpuCount,
+    isContainerResources,
+    memoryBytes,
+} from "../../../lib/goal/container/resources";
+
+describe("goal/container/resources", () => {
+
+    describe("cpuCount", () => {
+
+        it("should return number of CPUs", () => {
+            assert(cpuCount(2) === 2);
+            assert(cpuCount(0.5) === 0.5);
+            assert(cpuCount("1.5") === 1.5);
+        });
+
+        it("should convert millicores", () => {
+            assert(cpuCount("500m") === 0.5);
+            assert(cpuCount("250m") === 0.25);
+        });
+
+        it("should throw an error for invalid values", () => {
+            assert.throws(() => cpuCount("two"), /Invalid container CPU resource 'two'/);
+            assert.throws(() => cpuCount("1Gi"), /Invalid container CPU resource '1Gi'/);
+        });
+
+    });
+
+    describe("memoryBytes", () => {
+
+        it("should return number of bytes", () => {
+            assert(memoryBytes(1048576) === 1048576);
+            assert(memoryBytes("1048576") === 1048576);
+        });
+
+        it("should convert binary suffixes", () => {
+            assert(memoryBytes("512Mi") === 536870912);
+            assert(memoryBytes("2Gi") === 2147483648);
+            assert(memoryBytes("1.5Ki") === 1536);
+        });
+
+        it("should convert decimal suffixes", () => {
+            assert(memoryBytes("512M") === 512000000);
+            assert(memoryBytes("2G") === 2000000000);
+            assert(memoryBytes("64k") === 64000);
+        });
+
+        it("should throw an error for invalid values", () => {
+            assert.throws(() => memoryBytes("512mb"), /Invalid container memory resource '512mb'/);
+            assert.throws(() => memoryBytes("lots"), /Invalid container memory resource 'lots'/);
+        });
+
+    });
+
+    describe("isContainerResources", () => {
+
+        it("should detect container resources", () => {
+            assert(isContainerResources({ cpu: 1 }));
+            assert(isContainerResources({ memory: "1Gi" }));
+        });
+
+        it("should reject Kubernetes resources", () => {
+            assert(!isContainerResources({ limits: { cpu: "1" } }));
+            assert(!isContainerResources(undefined));
+        });
+
+    });
+
+    describe("containerTimeout", () => {
+
+        it("should return undefined without timeout", () => {
+            assert(containerTimeout({}) === undefined);
+        });
+
+        it("should parse durations", () => {
+            assert(containerTimeout({ timeout: 30000 }) === 30000);
+            assert(containerTimeout({ timeout: "5m" }) === 300000);
+            assert(containerTimeout({ timeout: "1h30m" }) === 5400000);
+        });
+
+        it("should throw an error for invalid timeouts", () => {
+            assert.throws(() => containerTimeout({ timeout: "soon" }), /Invalid duration 'soon'/);
+            assert.throws(() => containerTimeout({ timeout: 0 }), /Invalid container timeout '0'/);
+        });
+
+    });
+
+});
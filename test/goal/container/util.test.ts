@@ -25,10 +25,24 @@ import {
 } from "../../../lib/goal/container/container";
 import {
     containerEnvVars,
+    containerGoalName,
 } from "../../../lib/goal/container/util";
 
 describe("goal/container/util", () => {
 
+    describe("containerGoalName", () => {
+
+        it("should return the lower case goal name", () => {
+            assert.strictEqual(containerGoalName({ uniqueName: "Sundown.ts#L74" }), "sundown.ts");
+        });
+
+        it("should append the index of planned goals", () => {
+            assert.strictEqual(containerGoalName({ uniqueName: "Sundown.ts#L74#sdm:3" }), "sundown.ts-3");
+            assert.strictEqual(containerGoalName({ uniqueName: "test#sdm:0" }), "test-0");
+        });
+
+    });
+
     describe("containerEnvVars", () => {
 
         it("should add k8s service to goal event data", async () => {
@@ -20,7 +20,11 @@ import * as fs from "fs-extra";
 import * as os from "os";
 import * as path from "path";
 import { FilePreferenceStore } from "../../../lib/internal/preferences/FilePreferenceStore";
-import { assertPreferences } from "./preferences";
+import {
+    assertConcurrentIncrements,
+    assertPreferences,
+    assertVersionedPreferences,
+} from "./preferences";
 
 describe("FilePreferenceStore", () => {
 
@@ -38,4 +42,19 @@ describe("FilePreferenceStore", () => {
         await fs.unlink(p);
     }).timeout(5000);
 
+    it("should correctly handle versioned preferences", async () => {
+        const p = path.join(os.homedir(), ".atomist", "prefs", `client.prefs-${formatDate()}.json`);
+        const prefs = new FilePreferenceStore({ configuration: { name: "my-sdm" } } as any, p);
+        await assertVersionedPreferences(prefs);
+        await assertVersionedPreferences(prefs, PreferenceScope.Sdm);
+        await fs.unlink(p);
+    }).timeout(5000);
+
+    it("should increment concurrently", async () => {
+        const p = path.join(os.homedir(), ".atomist", "prefs", `client.prefs-${formatDate()}.json`);
+        const prefs = new FilePreferenceStore({ configuration: { name: "my-sdm" } } as any, p);
+        await assertConcurrentIncrements(prefs, 3);
+        await fs.unlink(p);
+    }).timeout(20000);
+
 });
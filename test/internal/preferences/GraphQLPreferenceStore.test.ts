@@ -18,6 +18,8 @@
 
 import { PreferenceScope } from "@atomist/sdm/lib/api/context/preferenceStore";
 import * as _ from "lodash";
+import * as assert from "power-assert";
+import { isVersionedPreferenceStore } from "../../../lib/internal/preferences/AbstractPreferenceStore";
 import { GraphQLPreferenceStore } from "../../../lib/internal/preferences/GraphQLPreferenceStore";
 import { assertPreferences } from "./preferences";
 
@@ -67,4 +69,10 @@ describe("GraphQLPreferenceStore", () => {
         await assertPreferences(prefs, PreferenceScope.Sdm);
     }).timeout(5000);
 
+    it("should not support versioned preferences", async () => {
+        const store = {};
+        const prefs = new GraphQLPreferenceStore(ctx(store) as any);
+        assert(!isVersionedPreferenceStore(prefs));
+    });
+
 });
@@ -16,7 +16,11 @@
 
 import { PreferenceScope } from "@atomist/sdm/lib/api/context/preferenceStore";
 import { InMemoryPreferenceStore } from "../../../lib/internal/preferences/InMemoryPreferenceStore";
-import { assertPreferences } from "./preferences";
+import {
+    assertConcurrentIncrements,
+    assertPreferences,
+    assertVersionedPreferences,
+} from "./preferences";
 
 describe("InMemoryPreferenceStore", () => {
 
@@ -30,4 +34,15 @@ describe("InMemoryPreferenceStore", () => {
         await assertPreferences(prefs, PreferenceScope.Sdm);
     }).timeout(5000);
 
+    it("should correctly handle versioned preferences", async () => {
+        const prefs = new InMemoryPreferenceStore({ configuration: { name: "my-sdm" } } as any);
+        await assertVersionedPreferences(prefs);
+        await assertVersionedPreferences(prefs, PreferenceScope.Sdm);
+    });
+
+    it("should increment concurrently", async () => {
+        const prefs = new InMemoryPreferenceStore({ configuration: { name: "my-sdm" } } as any);
+        await assertConcurrentIncrements(prefs, 10);
+    });
+
 });
@@ -0,0 +1,88 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { guid } from "@atomist/automation-client/lib/internal/util/string";
+import { PreferenceScope } from "@atomist/sdm/lib/api/context/preferenceStore";
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import * as assert from "power-assert";
+import { SqlitePreferenceStore } from "../../../lib/internal/preferences/SqlitePreferenceStore";
+import {
+    assertConcurrentIncrements,
+    assertPreferences,
+    assertVersionedPreferences,
+} from "./preferences";
+
+describe("SqlitePreferenceStore", () => {
+
+    let dir: string;
+    let prefs: SqlitePreferenceStore;
+    const ctx = { configuration: { name: "my-sdm" } } as any;
+
+    beforeEach(() => {
+        dir = path.join(os.tmpdir(), `sdm-core-test-${guid()}`);
+        prefs = new SqlitePreferenceStore(ctx, path.join(dir, "prefs.db"), path.join(dir, "prefs.json"));
+    });
+
+    afterEach(async () => {
+        prefs.close();
+        await fs.remove(dir);
+    });
+
+    it("should correctly handle preferences", async () => {
+        await assertPreferences(prefs);
+    }).timeout(5000);
+
+    it("should correctly handle scoped preferences", async () => {
+        await assertPreferences(prefs, PreferenceScope.Sdm);
+    }).timeout(5000);
+
+    it("should correctly handle versioned preferences", async () => {
+        await assertVersionedPreferences(prefs);
+        await assertVersionedPreferences(prefs, PreferenceScope.Sdm);
+        await assertConcurrentIncrements(prefs, 10);
+    });
+
+    it("should keep shared database open until all stores are closed", async () => {
+        const other = new SqlitePreferenceStore(ctx, path.join(dir, "prefs.db"), path.join(dir, "prefs.json"));
+        await other.put("foo", "bar");
+        other.close();
+        other.close();
+        assert.strictEqual(await prefs.get("foo"), "bar");
+    });
+
+    it("should migrate preference file once", async () => {
+        prefs.close();
+        await fs.outputJson(path.join(dir, "prefs.json"), {
+            "foo": { name: "foo", value: "\"bar\"" },
+            "my-sdm_$_counter": { name: "counter", value: "5", version: 5 },
+            "my-sdm_$_expired": { name: "expired", value: "true", ttl: Date.now() - 1000 },
+        });
+        await fs.remove(path.join(dir, "prefs.db"));
+        const migrated = new SqlitePreferenceStore(ctx, path.join(dir, "prefs.db"), path.join(dir, "prefs.json"));
+        assert.strictEqual(await migrated.get("foo"), "bar");
+        assert.deepStrictEqual(await migrated.getVersioned("counter", { scope: PreferenceScope.Sdm }), { value: 5, version: 5 });
+        assert.deepStrictEqual(await migrated.list(PreferenceScope.Sdm), [{ key: "counter", value: 5 }]);
+
+        migrated.close();
+        await fs.outputJson(path.join(dir, "prefs.json"), { other: { name: "other", value: "1" } });
+        prefs = new SqlitePreferenceStore(ctx, path.join(dir, "prefs.db"), path.join(dir, "prefs.json"));
+        assert.strictEqual(await prefs.get("other"), undefined);
+        assert.strictEqual(await prefs.get("foo"), "bar");
+    });
+
+});
@@ -15,6 +15,8 @@
  */
 
 import { PreferenceScope } from "@atomist/sdm/lib/api/context/preferenceStore";
+import * as assert from "power-assert";
+import { isVersionedPreferenceStore } from "../../../lib/internal/preferences/AbstractPreferenceStore";
 import { TeamConfigurationPreferenceStore } from "../../../lib/internal/preferences/TeamConfigurationPreferenceStore";
 import { assertPreferences } from "./preferences";
 
@@ -71,4 +73,10 @@ describe("TeamConfigurationPreferenceStore", () => {
         await assertPreferences(prefs, PreferenceScope.Sdm);
     }).timeout(5000);
 
+    it("should not support versioned preferences", async () => {
+        const store = {};
+        const prefs = new TeamConfigurationPreferenceStore(ctx(store) as any);
+        assert(!isVersionedPreferenceStore(prefs));
+    });
+
 });
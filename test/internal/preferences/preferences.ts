@@ -19,6 +19,7 @@ import {
     PreferenceStore,
 } from "@atomist/sdm/lib/api/context/preferenceStore";
 import * as assert from "power-assert";
+import { VersionedPreferenceStore } from "../../../lib/internal/preferences/AbstractPreferenceStore";
 
 function sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
@@ -52,3 +53,32 @@ export async function assertPreferences(prefs: PreferenceStore, scope?: Preferen
         { scope: scope === PreferenceScope.Sdm ? PreferenceScope.Workspace : PreferenceScope.Sdm })),
     );
 }
+
+export async function assertVersionedPreferences(prefs: VersionedPreferenceStore, scope?: PreferenceScope): Promise<void> {
+    assert(!(await prefs.getVersioned("counter", { scope })));
+    assert.strictEqual(await prefs.increment("counter", { scope }), 1);
+    assert.strictEqual(await prefs.increment("counter", { scope, by: 5 }), 6);
+    assert.strictEqual(await prefs.get("counter", { scope }), 6);
+
+    assert(await prefs.putIfVersion("lock", { owner: "worker-1" }, 0, { scope }));
+    assert(!(await prefs.putIfVersion("lock", { owner: "worker-2" }, 0, { scope })));
+    const lock = await prefs.getVersioned<{ owner: string }>("lock", { scope });
+    assert.deepStrictEqual(lock.value, { owner: "worker-1" });
+    assert(lock.version > 0);
+
+    await prefs.put("lock", { owner: "worker-3" }, { scope });
+    assert(!(await prefs.putIfVersion("lock", { owner: "worker-1" }, lock.version, { scope })));
+    const updated = await prefs.update<{ owner: string, count?: number }>("lock", v => ({ ...v, count: 1 }), { scope });
+    assert.deepStrictEqual(updated, { owner: "worker-3", count: 1 });
+    assert.deepStrictEqual(await prefs.get("lock", { scope }), { owner: "worker-3", count: 1 });
+
+    await prefs.delete("lock", { scope });
+    assert(!(await prefs.getVersioned("lock", { scope })));
+    assert(await prefs.putIfVersion("lock", { owner: "worker-2" }, 0, { scope }));
+}
+
+export async function assertConcurrentIncrements(prefs: VersionedPreferenceStore, count: number): Promise<void> {
+    const values = await Promise.all(Array.from({ length: count }, () => prefs.increment("builds")));
+    assert.deepStrictEqual(values.sort((a, b) => a - b), Array.from({ length: count }, (v, i) => i + 1));
+    assert.strictEqual(await prefs.get("builds"), count);
+}
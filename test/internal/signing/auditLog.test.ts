@@ -0,0 +1,161 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { guid } from "@atomist/automation-client/lib/internal/util/string";
+import { GoalSigningScope } from "@atomist/sdm/lib/api/machine/SigningKeys";
+import * as crypto from "crypto";
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import * as assert from "power-assert";
+import {
+    flushGoalSignatureAudit,
+    formatGoalSignatureChain,
+    readGoalSignatureAudit,
+} from "../../../lib/internal/signing/auditLog";
+import { generateGoalSigningKeyPair } from "../../../lib/internal/signing/generateKeyPair";
+import {
+    normalizeGoal,
+    RotatingGoalSigningConfiguration,
+    signGoal,
+    verifyGoal,
+} from "../../../lib/internal/signing/goalSigning";
+import { SdmGoalState } from "../../../lib/typings/types";
+
+describe("internal/signing/auditLog", () => {
+
+    let dir: string;
+    let gsc: RotatingGoalSigningConfiguration;
+    const ctx = { context: { name: "Test SDM" }, graphClient: { mutate: async () => undefined } } as any;
+
+    const goal = (goalSetId: string, uniqueName: string, state: SdmGoalState): any => ({
+        uniqueName,
+        name: uniqueName,
+        goalSetId,
+        state,
+        registration: "@atomist/test",
+        repo: { owner: "atomist", name: "sdm", providerId: "github" },
+        provenance: [{ registration: "@atomist/test-job", name: "FulfillGoalOnRequested", version: "1.0.0" }],
+    });
+
+    beforeEach(async () => {
+        dir = path.join(os.tmpdir(), `sdm-core-test-${guid()}`);
+        gsc = {
+            enabled: true,
+            scope: GoalSigningScope.All,
+            signingKey: { ...generateGoalSigningKeyPair("ed25519"), name: "test", keyId: "test-key" },
+            auditLog: { enabled: true, path: path.join(dir, "audit.log") },
+        };
+        gsc.verificationKeys = [gsc.signingKey];
+    });
+
+    afterEach(async () => {
+        await fs.remove(dir);
+    });
+
+    it("should record sign and verify decisions", async () => {
+        const build = signGoal(goal("gs1", "build", SdmGoalState.in_process), gsc);
+        await verifyGoal(build as any, gsc, ctx);
+        signGoal(goal("gs2", "build", SdmGoalState.requested), gsc);
+        const tampered = { ...signGoal(goal("gs1", "deploy", SdmGoalState.requested), gsc), environment: "prod" };
+        try {
+            await verifyGoal(tampered as any, gsc, ctx);
+            assert.fail();
+        } catch (e) {
+            assert.strictEqual(e.message, "SDM goal signature invalid. Rejecting goal!");
+        }
+        try {
+            await verifyGoal(goal("gs1", "deploy", SdmGoalState.requested), gsc, ctx);
+            assert.fail();
+        } catch (e) {
+            assert.strictEqual(e.message, "SDM goal signature is missing. Rejecting goal!");
+        }
+
+        const entries = await readGoalSignatureAudit(gsc.auditLog, "gs1");
+        assert.deepStrictEqual(entries.map(e => [e.uniqueName, e.operation, e.outcome]), [
+            ["build", "sign", "signed"],
+            ["build", "verify", "verified"],
+            ["deploy", "sign", "signed"],
+            ["deploy", "verify", "invalid"],
+            ["deploy", "verify", "missing"],
+        ]);
+        const [signed, verified] = entries;
+        assert.strictEqual(signed.keyId, "test-key");
+        assert.strictEqual(signed.keyName, "test");
+        assert.strictEqual(signed.algorithm, "ed25519");
+        assert.strictEqual(signed.state, SdmGoalState.in_process);
+        assert.strictEqual(signed.registration, "@atomist/test-job");
+        assert.strictEqual(signed.payloadHash, crypto.createHash("sha256").update(normalizeGoal(build)).digest("hex"));
+        assert.strictEqual(verified.payloadHash, signed.payloadHash);
+        assert.strictEqual(entries[3].keyId, undefined);
+        assert.notStrictEqual(entries[3].payloadHash, entries[2].payloadHash);
+
+        assert.strictEqual((await readGoalSignatureAudit(gsc.auditLog, "gs2")).length, 1);
+        assert.deepStrictEqual(await readGoalSignatureAudit(gsc.auditLog, "gs3"), []);
+    });
+
+    it("should not record unless enabled", async () => {
+        gsc.auditLog = { path: gsc.auditLog.path };
+        signGoal(goal("gs1", "build", SdmGoalState.in_process), gsc);
+        await flushGoalSignatureAudit(gsc.auditLog);
+        assert(!(await fs.pathExists(gsc.auditLog.path)));
+    });
+
+    it("should rotate the audit log", async () => {
+        gsc.auditLog = { ...gsc.auditLog, maxSize: 1024, maxFiles: 2 };
+        for (let i = 0; i < 12; i++) {
+            signGoal(goal(`gs${i}`, "build", SdmGoalState.in_process), gsc);
+        }
+        await flushGoalSignatureAudit(gsc.auditLog);
+        assert(await fs.pathExists(`${gsc.auditLog.path}.1`));
+        assert(await fs.pathExists(`${gsc.auditLog.path}.2`));
+        assert(!(await fs.pathExists(`${gsc.auditLog.path}.3`)));
+        for (const file of [gsc.auditLog.path, `${gsc.auditLog.path}.1`, `${gsc.auditLog.path}.2`]) {
+            assert((await fs.stat(file)).size <= 1024);
+        }
+        assert.deepStrictEqual(await readGoalSignatureAudit(gsc.auditLog, "gs0"), []);
+        assert.strictEqual((await readGoalSignatureAudit(gsc.auditLog, "gs11")).length, 1);
+    });
+
+    it("should format signature chain", async () => {
+        const entries = [{
+            ts: Date.UTC(2020, 2, 1, 10, 0, 0),
+            operation: "sign",
+            outcome: "signed",
+            goalSetId: "gs1",
+            uniqueName: "build",
+            state: "in_process",
+            registration: "@atomist/test-job",
+            keyId: "test-key",
+            keyName: "test",
+            algorithm: "ed25519",
+            payloadHash: "0123456789abcdef",
+        }, {
+            ts: Date.UTC(2020, 2, 1, 10, 0, 1),
+            operation: "verify",
+            outcome: "missing",
+            goalSetId: "gs1",
+            uniqueName: "deploy",
+            state: "requested",
+            payloadHash: "fedcba9876543210",
+        }] as any;
+        assert.strictEqual(formatGoalSignatureChain(entries), `build
+  2020-03-01T10:00:00.000Z in_process sign signed by @atomist/test-job key=test(test-key) ed25519 sha256=0123456789ab
+deploy
+  2020-03-01T10:00:01.000Z requested verify missing sha256=fedcba987654`);
+    });
+
+});
@@ -0,0 +1,131 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { InMemoryProject } from "@atomist/automation-client/lib/project/mem/InMemoryProject";
+import { Goal } from "@atomist/sdm/lib/api/goal/Goal";
+import * as assert from "power-assert";
+import {
+    explainPlan,
+    explainPlanCommand,
+    formatPlanExplanation,
+} from "../../../lib/machine/yaml/explainPlan";
+
+describe("machine/yaml/explainPlan", () => {
+
+    const version = new Goal({ uniqueName: "version" });
+    const build = new Goal({ uniqueName: "build" });
+    const lint = new Goal({ uniqueName: "lint" });
+    const deploy = new Goal({ uniqueName: "deploy" });
+
+    const rules = [{
+        name: "build",
+        tests: [{ has_file: "package.json" }, { or: [{ is_branch: "^release$" }, { not: { has_file: "Dockerfile" } }] }],
+        goals: [version, [build, lint]],
+    }, {
+        name: "deploy",
+        depends_on: "build",
+        test: { and: [{ has_file: "Dockerfile" }, { is_branch: "^master$" }] },
+        goals: [deploy],
+    }, {
+        name: "always",
+        goals: [],
+    }];
+    const goalData = {
+        build: { goals: [version, [build, lint]] },
+        deploy: { dependsOn: "build", goals: [deploy] },
+        always: { goals: [] },
+    };
+    const pli = (branch: string): any => ({
+        project: InMemoryProject.of({ path: "package.json", content: "{}" }),
+        push: { branch },
+        facts: {},
+    });
+
+    it("should explain matching and not matching rules", async () => {
+        const plan = await explainPlan({ rules, goalData }, pli("master"));
+
+        const [buildRule, deployRule, alwaysRule] = plan.rules;
+        assert(buildRule.matched);
+        assert(buildRule.test.name === "and");
+        assert.deepStrictEqual(buildRule.test.children.map(c => c.result), [true, true]);
+        assert.deepStrictEqual(buildRule.test.children[1].children.map(c => [c.result, c.decisive]), [[false, false], [true, true]]);
+        assert.deepStrictEqual(buildRule.goals, [
+            { name: "version", dependsOn: [] },
+            { name: "build", dependsOn: ["version"] },
+            { name: "lint", dependsOn: ["version"] },
+        ]);
+
+        assert(!deployRule.matched);
+        assert(deployRule.decidedBy === deployRule.test.children[0].name);
+        assert(deployRule.test.children[0].decisive);
+        assert(!deployRule.test.children[1].decisive);
+        assert.deepStrictEqual(deployRule.dependsOn, ["build"]);
+        assert.deepStrictEqual(deployRule.goals, [{ name: "deploy", dependsOn: ["version", "build", "lint"] }]);
+
+        assert(alwaysRule.matched);
+        assert(alwaysRule.decidedBy === undefined);
+
+        assert.deepStrictEqual(plan.goals.map(g => g.name), ["version", "build", "lint"]);
+    });
+
+    it("should report failing push tests", async () => {
+        const plan = await explainPlan({
+            rules: [{ name: "build", test: { use: "nope" }, goals: [build] }],
+            goalData: { build: { goals: [build] } },
+        }, pli("master"));
+        assert(!plan.rules[0].matched);
+        assert(plan.rules[0].test.error === "Unable to construct push test from '{\"use\":\"nope\"}'");
+        assert.deepStrictEqual(plan.goals, []);
+    });
+
+    it("should format plan as tree", async () => {
+        const plan = await explainPlan({ rules, goalData }, pli("release"));
+        const lines = formatPlanExplanation(plan).split("\n");
+        assert.deepStrictEqual(lines[0], "+ rule build: matched (decided by HasFile(package.json))");
+        assert(lines.includes("        + or *"));
+        assert(lines.includes("          + Project branch matches regular expression /^release$/ *"));
+        assert(lines.includes("      lint <- version"));
+        assert(lines.includes("- rule deploy: not matched (decided by HasFile(Dockerfile))"));
+        assert(lines.includes("      deploy <- version, build, lint"));
+        assert(lines.includes("+ rule always: matched (no tests)"));
+        assert.deepStrictEqual(lines.slice(-4), ["goal set", "  version", "  build <- version", "  lint <- version"]);
+    });
+
+    it("should respond with an error if the plan cannot be explained", async () => {
+        const messages: any[] = [];
+        const configuration = { name: "@atomist/test-sdm", version: "1.0.0" };
+        const rac = (global as any).__runningAutomationClient;
+        (global as any).__runningAutomationClient = { configuration };
+        try {
+            await explainPlanCommand({ configuration } as any, { rules, goalData }).listener({
+                parameters: {
+                    providerId: "github",
+                    targets: { repoRef: { owner: "atomist", repo: "sdm-core", branch: "master", sha: "abcdef0123456789abcdef0123456789abcdef01" } },
+                },
+                context: {
+                    invocationId: "1nv0c4t10n",
+                    graphClient: { query: async () => ({ Commit: [] }) },
+                    messageClient: { respond: async (m: any) => messages.push(m) },
+                },
+            } as any);
+        } finally {
+            (global as any).__runningAutomationClient = rac;
+        }
+        assert.strictEqual(messages.length, 1);
+        assert(messages[0].attachments[0].text.startsWith("Failed to explain plan of `abcdef0` of *atomist/sdm-core/master*: Could not find commit"));
+    });
+
+});
@@ -17,11 +17,14 @@
 import { defaultHttpClientFactory } from "@atomist/automation-client/lib/spi/http/httpClient";
 import { ImmaterialGoals } from "@atomist/sdm/lib/api/goal/common/Immaterial";
 import { Locking } from "@atomist/sdm/lib/api/goal/common/Locking";
+import { Goals } from "@atomist/sdm/lib/api/goal/Goals";
 import { goal } from "@atomist/sdm/lib/api/goal/GoalWithFulfillment";
 import * as assert from "power-assert";
 import { Container } from "../../../lib/goal/container/container";
 import { DockerContainerRegistration } from "../../../lib/goal/container/docker";
+import { Matrix } from "../../../lib/goal/container/matrix";
 import {
+    extendGoalTemplates,
     GoalMaker,
     mapGoals,
 } from "../../../lib/machine/yaml/mapGoals";
@@ -118,12 +121,15 @@ describe("machine/yaml/mapGoals", () => {
                 approval: true,
                 preApproval: true,
                 retry: true,
+                timeout: { duration: "2h", state: "failure", retry: true },
                 descriptions: {
                     completed: "What am awesome mongo goal",
                 },
             } as any;
             const goals = await mapGoals(undefined, yaml, {}, {}, {}, {}) as Container;
             assert.deepStrictEqual(goals.definition.retryFeasible, true);
+            assert.deepStrictEqual((goals.definition as any).parameters["@atomist/sdm/timeout"],
+                { duration: 2 * 60 * 60 * 1000, state: "failure", retryFeasible: true });
             assert.deepStrictEqual(goals.definition.approvalRequired, true);
             assert.deepStrictEqual(goals.definition.preApprovalRequired, true);
             assert.deepStrictEqual(goals.definition.completedDescription, (yaml as any).descriptions.completed);
@@ -133,6 +139,68 @@ describe("machine/yaml/mapGoals", () => {
             assert.deepStrictEqual(goals.projectListeners.length, 2);
         });
 
+        it("should map container goal approval policy", async () => {
+            const yaml = {
+                name: "deploy",
+                containers: [{
+                    name: "kubectl",
+                    image: "bitnami/kubectl:latest",
+                }],
+                approval: { required: 2, teams: ["ops"], excludeCommitAuthor: true },
+                preApproval: true,
+            } as any;
+            const goals = await mapGoals(undefined, yaml, {}, {}, {}, {}) as Container;
+            assert.deepStrictEqual(goals.definition.approvalRequired, true);
+            assert.deepStrictEqual(goals.definition.preApprovalRequired, true);
+            assert.deepStrictEqual((goals.definition as any).parameters["@atomist/sdm/approval"],
+                { required: 2, teams: ["ops"], excludeCommitAuthor: true });
+        });
+
+        it("should map container goal retry policy", async () => {
+            const yaml = {
+                name: "mongo-retry",
+                containers: [{
+                    name: "mongo",
+                    image: "mongo:latest",
+                }],
+                retry: { maxAttempts: 3, backoff: { initial: "1m" }, exitCodes: [137] },
+            } as any;
+            const goals = await mapGoals(undefined, yaml, {}, {}, {}, {}) as Container;
+            assert.deepStrictEqual(goals.definition.retryFeasible, true);
+            assert.deepStrictEqual((goals.definition as any).parameters["@atomist/sdm/retry"],
+                { maxAttempts: 3, backoff: { initial: 60 * 1000 }, exitCodes: [137] });
+        });
+
+        it("should map container goal matrix", async () => {
+            const yaml = {
+                name: "test",
+                containers: [{
+                    name: "node",
+                    // tslint:disable-next-line:no-invalid-template-strings
+                    image: "node:${matrix.node}",
+                }],
+                matrix: { node: [10, 12, 14], database: ["postgres", "mysql"] },
+                failFast: false,
+                maxParallel: 2,
+                retry: true,
+            } as any;
+            const goals = await mapGoals(undefined, yaml, {}, {}, {}, {}) as Goals;
+            assert.strictEqual(goals.goals.length, 2);
+            const c = goals.goals[0] as Container;
+            assert(c instanceof Container);
+            assert.strictEqual(c.definition.retryFeasible, true);
+            assert(goals.goals[1] instanceof Matrix);
+            assert.deepStrictEqual((goals.goals[1] as Matrix).options, {
+                matrix: { node: [10, 12, 14], database: ["postgres", "mysql"] },
+                failFast: false,
+                maxParallel: 2,
+            });
+            const plan = await c.plan(undefined, undefined) as any;
+            assert.deepStrictEqual(Object.keys(plan), ["matrix_0", "matrix_1"]);
+            assert.deepStrictEqual(plan.matrix_0.goals.map((g: any) => g.details.displayName),
+                ["test (10, postgres)", "test (12, postgres)", "test (14, postgres)"]);
+        });
+
         it("should map goals from array", async () => {
             const sampleGoal1 = goal({ displayName: "Sample Goal1" });
             const sampleGoal2 = goal({ displayName: "Sample Goal2" });
@@ -170,4 +238,104 @@ describe("machine/yaml/mapGoals", () => {
 
     });
 
+    describe("extendGoalTemplates", () => {
+
+        const templates = {
+            node: {
+                containers: [{
+                    name: "node",
+                    // tslint:disable-next-line:no-invalid-template-strings
+                    image: "node:${parameters.version}",
+                    args: ["npm", "test"],
+                    env: [{ name: "NODE_ENV", value: "test" }],
+                }],
+                parameters: { version: "12" },
+                approval: true,
+            },
+            lint: {
+                extends: "node",
+                containers: [{
+                    name: "node",
+                    args: ["npm", "run", "lint"],
+                }],
+            },
+            cyclic: { extends: "cycle" },
+            cycle: { extends: "cyclic" },
+        };
+
+        it("should deep merge template with overrides", async () => {
+            const definition = await extendGoalTemplates({
+                extends: "node",
+                name: "test",
+                containers: [
+                    { name: "node", image: "node:14", args: ["npm", "ci"], env: [{ name: "CI", value: "true" }] },
+                    { name: "mongo", image: "mongo" },
+                ],
+            }, templates);
+            assert.deepStrictEqual(definition, {
+                name: "test",
+                containers: [{
+                    name: "node",
+                    image: "node:14",
+                    args: ["npm", "ci"],
+                    env: [{ name: "NODE_ENV", value: "test" }, { name: "CI", value: "true" }],
+                }, {
+                    name: "mongo",
+                    image: "mongo",
+                }],
+                parameters: { version: "12" },
+                approval: true,
+            });
+        });
+
+        it("should substitute parameters of goal and template", async () => {
+            const defaulted = await extendGoalTemplates({ extends: "lint", name: "lint" }, templates);
+            assert(defaulted.containers[0].image === "node:12");
+            assert.deepStrictEqual(defaulted.containers[0].args, ["npm", "run", "lint"]);
+            assert(defaulted.containers.length === 1);
+            const overridden = await extendGoalTemplates({ extends: "lint", name: "lint", parameters: { version: "14" } }, templates);
+            assert(overridden.containers[0].image === "node:14");
+            assert.deepStrictEqual(overridden.parameters, { version: "14" });
+            assert(templates.node.containers[0].image.startsWith("node:$"));
+        });
+
+        it("should leave other placeholders for goal execution", async () => {
+            const definition = await extendGoalTemplates({ extends: "sha", name: "sha" }, {
+                sha: {
+                    containers: [{
+                        name: "sha",
+                        image: "alpine",
+                        // tslint:disable-next-line:no-invalid-template-strings
+                        args: ["echo", "${push.after.sha:none}", "${env.HOME}", "${!parameters.unknown}"],
+                    }],
+                },
+            });
+            // tslint:disable-next-line:no-invalid-template-strings
+            assert.deepStrictEqual(definition.containers[0].args, ["echo", "${push.after.sha:none}", "${env.HOME}", "${!parameters.unknown}"]);
+        });
+
+        it("should fail for unknown and cyclic templates", async () => {
+            try {
+                await extendGoalTemplates({ extends: "python", name: "test" }, templates);
+                assert.fail();
+            } catch (e) {
+                assert.deepStrictEqual(e.message, "Goal template 'python' extended by 'test' not found");
+            }
+            try {
+                await extendGoalTemplates({ extends: "cyclic", name: "test" }, templates);
+                assert.fail();
+            } catch (e) {
+                assert.deepStrictEqual(e.message, "Cyclic extension of goal template 'cyclic': cyclic -> cycle -> cyclic");
+            }
+        });
+
+        it("should map container goal extending template", async () => {
+            const goals = await mapGoals(undefined, { extends: "lint", name: "lint" }, {}, {}, {}, {}, templates) as Container;
+            assert(goals instanceof Container);
+            assert(goals.definition.approvalRequired === true);
+            assert(goals.registrations[0].containers[0].image === "node:12");
+        });
+
+    });
+
 });
@@ -0,0 +1,103 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as _ from "lodash";
+import * as assert from "power-assert";
+import {
+    evaluateExpression,
+    parseExpression,
+} from "../../../lib/machine/yaml/placeholderExpression";
+
+describe("machine/yaml/placeholderExpression", () => {
+
+    const data = {
+        push: {
+            branch: "Feature/Foo",
+            after: { sha: "4b1d2c3e4f5a6b7c", timestamp: "2020-03-04T05:06:07Z" },
+        },
+        parameters: {
+            "images": [{ name: "node", tags: ["12", "14"] }],
+            "node-version": "14",
+            "count": 3,
+        },
+    };
+    const resolve = async (path: Array<string | number>) => _.get(data, path);
+    const evaluate = (expression: string) => evaluateExpression(expression, resolve);
+
+    describe("evaluateExpression", () => {
+
+        it("should resolve paths", async () => {
+            assert(await evaluate("push.branch") === "Feature/Foo");
+            assert(await evaluate("parameters.images[0].tags[1]") === "14");
+            assert(await evaluate("parameters['node-version']") === "14");
+            assert(await evaluate("parameters.node-version") === "14");
+            assert(await evaluate("push.nope.nothing") === undefined);
+        });
+
+        it("should call string functions", async () => {
+            assert(await evaluate("lower(push.branch)") === "feature/foo");
+            assert(await evaluate("push.branch | upper") === "FEATURE/FOO");
+            assert(await evaluate("push.branch | replace('/', '-') | lower") === "feature-foo");
+            assert(await evaluate("push.branch | substring(0, 7)") === "Feature");
+            assert(await evaluate("push.after.sha | short") === "4b1d2c3");
+            assert(await evaluate("push.after.sha | short(4)") === "4b1d");
+            assert(await evaluate("'  x ' | trim") === "x");
+            assert(await evaluate("push.tag | default('latest')") === "latest");
+            assert(await evaluate("parameters.images[0].tags | json") === "[\"12\",\"14\"]");
+        });
+
+        it("should format dates", async () => {
+            assert(await evaluate("push.after.timestamp | date('YYYYMMDD-HHmm')") === "20200304-0506");
+            assert(/^\d{4}-\d{2}-\d{2}$/.test(await evaluate("date('YYYY-MM-DD')")));
+        });
+
+        it("should evaluate conditionals", async () => {
+            assert(await evaluate("push.branch == 'master' ? 'latest' : push.after.sha | short") === "4b1d2c3");
+            assert(await evaluate("push.branch != 'master' && parameters.count == 3") === true);
+            assert(await evaluate("push.tag || 'none'") === "none");
+            assert(await evaluate("!push.tag ? (push.branch | lower) : 'tag'") === "feature/foo");
+            assert(await evaluate("parameters.count == 3 ? \"three\" : \"other\"") === "three");
+        });
+
+        it("should refuse unsafe paths and unknown functions", async () => {
+            await assertRejects(evaluate("push.constructor"), "Invalid path 'push.constructor'");
+            await assertRejects(evaluate("push.branch | eval"), "Unknown function 'eval'");
+            await assertRejects(evaluate("toString(push)"), "Unknown function 'toString'");
+        });
+
+    });
+
+    describe("parseExpression", () => {
+
+        it("should fail on invalid expressions", () => {
+            assert.throws(() => parseExpression("push.branch |"), /Expected identifier/);
+            assert.throws(() => parseExpression("a ? b"), /Expected ':'/);
+            assert.throws(() => parseExpression("#ARGS[@]"), /Unexpected character '#'/);
+            assert.throws(() => parseExpression("a b"), /Unexpected 'b'/);
+        });
+
+    });
+
+    async function assertRejects(promise: Promise<any>, message: string): Promise<void> {
+        try {
+            await promise;
+            assert.fail();
+        } catch (e) {
+            assert.deepStrictEqual(e.message, message);
+        }
+    }
+
+});
@@ -15,7 +15,10 @@
  */
 
 import * as assert from "power-assert";
-import { resolvePlaceholder } from "../../../lib/machine/yaml/resolvePlaceholder";
+import {
+    resolveParameterPlaceholder,
+    resolvePlaceholder,
+} from "../../../lib/machine/yaml/resolvePlaceholder";
 
 describe("machine/yaml/resolvePlaceholder", () => {
 
@@ -141,6 +144,82 @@ describe("machine/yaml/resolvePlaceholder", () => {
             assert.deepStrictEqual(result, "foo:latest/bar");
         });
 
+        const goal: any = {
+            branch: "feature/Add-Things",
+            push: { after: { sha: "8c4bd6a1f0d1b2c3" }, repo: { owner: "atomist", name: "sdm" } },
+        };
+
+        it("should evaluate expressions", async () => {
+            // tslint:disable-next-line:no-invalid-template-strings
+            const value = "${push.repo.owner | upper}/${branch | replace(\"/\", \"-\") | lower}:${branch == \"master\" ? \"latest\" : push.after.sha | short}";
+            const result = await resolvePlaceholder(value, goal, { configuration: {} } as any, {});
+            assert.deepStrictEqual(result, "ATOMIST/feature-add-things:8c4bd6a");
+        });
+
+        it("should resolve environment variables and JSON paths into parameters", async () => {
+            process.env.SDM_CORE_TEST_VALUE = "from-env";
+            try {
+                // tslint:disable-next-line:no-invalid-template-strings
+                const value = "${env.SDM_CORE_TEST_VALUE}-${parameters.images[1].name}-${parameters[\"node-version\"] | default(\"12\")}";
+                const result = await resolvePlaceholder(value, goal, { configuration: {} } as any, {
+                    images: [{ name: "node" }, { name: "mongo" }],
+                });
+                assert.deepStrictEqual(result, "from-env-mongo-12");
+            } finally {
+                delete process.env.SDM_CORE_TEST_VALUE;
+            }
+        });
+
+        it("should resolve matrix values", async () => {
+            // tslint:disable-next-line:no-invalid-template-strings
+            const value = "node:${matrix.node}-${matrix.database_name}-${matrix.node == \"14\" ? \"latest\" : \"lts\"}";
+            const result = await resolvePlaceholder(value, goal, { configuration: {} } as any, {
+                matrix: { node: "14", databaseName: "postgres" },
+            });
+            assert.deepStrictEqual(result, "node:14-postgres-latest");
+        });
+
+        it("should leave shell parameter expansion untouched", async () => {
+            // tslint:disable-next-line:no-invalid-template-strings
+            const value = "echo ${#ARGS[@]} ${1} ${push.repo.name}";
+            const result = await resolvePlaceholder(value, goal, { configuration: {} } as any, {});
+            // tslint:disable-next-line:no-invalid-template-strings
+            assert.deepStrictEqual(result, "echo ${#ARGS[@]} ${1} sdm");
+        });
+
+        it("should fail for unknown function", async () => {
+            try {
+                // tslint:disable-next-line:no-invalid-template-strings
+                await resolvePlaceholder("${branch | reverse}", goal, { configuration: {} } as any, {});
+                assert.fail();
+            } catch (e) {
+                assert.deepStrictEqual(e.message, "Placeholder 'branch | reverse' can't be resolved: Unknown function 'reverse'");
+            }
+            // tslint:disable-next-line:no-invalid-template-strings
+            const value = await resolvePlaceholder("${branch | reverse}", goal, { configuration: {} } as any, {}, false);
+            // tslint:disable-next-line:no-invalid-template-strings
+            assert.deepStrictEqual(value, "${branch | reverse}");
+        });
+
+    });
+
+    describe("resolveParameterPlaceholder", () => {
+
+        it("should only replace defined parameters", async () => {
+            // tslint:disable-next-line:no-invalid-template-strings
+            const value = "${parameters.image}:${parameters.tag:latest} ${!parameters.flag} ${parameters.missing:x} ${!parameters.none}";
+            const result = await resolveParameterPlaceholder(value, { image: "node", tag: 12, flag: true });
+            // tslint:disable-next-line:no-invalid-template-strings
+            assert.deepStrictEqual(result, "node:12 true ${parameters.missing:x} ${!parameters.none}");
+        });
+
+        it("should leave other placeholders for goal execution", async () => {
+            // tslint:disable-next-line:no-invalid-template-strings
+            const value = "${env.HOME} ${home} ${push.after.sha:abc} ${!push.branch} ${parameters.tag | upper} ${parameters.nested}";
+            const result = await resolveParameterPlaceholder(value, { tag: "v1", nested: { a: 1 } });
+            assert.deepStrictEqual(result, value);
+        });
+
     });
 
 });
@@ -0,0 +1,216 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "power-assert";
+import {
+    formatYamlValidationErrors,
+    validateYaml,
+} from "../../../lib/machine/yaml/validateYaml";
+
+describe("machine/yaml/validateYaml", () => {
+
+    describe("validateYaml", () => {
+
+        it("should accept valid goals.yaml", () => {
+            const content = `
+configuration:
+  some_value: 1
+goals:
+  - containers:
+      - name: build
+        image: node:12
+        args: ["npm", "ci"]
+    name: build
+    input:
+      - classifier: npm
+        key: npm-\${hashFiles(package-lock.json)}
+        restore_keys: ["npm-"]
+    output:
+      - classifier: lib
+        pattern:
+          glob_pattern: "lib/**/*.js"
+rules:
+  - name: build
+    test:
+      - is_default_branch
+      - has_file: package.json
+      - not:
+          is_branch: gh-pages
+      - is_material_change:
+          extensions: [ts, js]
+    goals:
+      - use: build
+      - - use: lock
+        - ref: atomist/npm-goal/npm-publish
+    depends_on: [other]
+  - name: other
+    goals:
+      use: immaterial
+`;
+            assert.deepStrictEqual(validateYaml("goals.yaml", content), []);
+        });
+
+        it("should accept valid atomist.yaml", () => {
+            const content = `
+skill:
+  name: npm-skill
+  title: npm
+  category: [CODE_MAINTENANCE]
+  runtime:
+    memory: 512
+    name: nodejs10
+---
+subscriptions:
+  - "@atomist/skill/onPush"
+`;
+            assert.deepStrictEqual(validateYaml("atomist.yaml", content), []);
+        });
+
+        it("should accept the push tests mapTest accepts", () => {
+            const content = `
+rules:
+  name: build
+  test:
+    - IS_DEFAULT_BRANCH
+    - ToDefaultBranch
+    - not: is default branch
+  goals:
+    use: build
+`;
+            assert.deepStrictEqual(validateYaml("goals.yaml", content), []);
+            const errors = validateYaml("goals.yaml", "rules:\n  name: build\n  test:\n    is_default_branch: true\n  goals:\n    use: build\n");
+            assert.deepStrictEqual(errors.map(e => `${e.line}:${e.column} ${e.message}`), ["4:5 unknown property 'isDefaultBranch'"]);
+        });
+
+        it("should accept goal templates", () => {
+            const content = `
+templates:
+  node:
+    containers:
+      - name: node
+        image: node:\${parameters.version}
+    parameters:
+      version: "12"
+goals:
+  extends: node
+  name: build
+`;
+            assert.deepStrictEqual(validateYaml("goals.yaml", content), []);
+            const errors = validateYaml("goals.yaml", "templates:\n  node:\n    use: x\n    extend: y\n");
+            assert.deepStrictEqual(errors.map(e => `${e.line}:${e.column} ${e.message}`), ["4:5 unknown property 'extend'"]);
+        });
+
+        it("should accept container goal matrix", () => {
+            const content = `
+goals:
+  name: test
+  containers:
+    - name: node
+      image: node:\${matrix.node}
+  matrix:
+    node: [10, 12, 14]
+    database: [postgres, mysql]
+  fail_fast: false
+  max_parallel: 2
+`;
+            assert.deepStrictEqual(validateYaml("goals.yaml", content), []);
+            const errors = validateYaml("goals.yaml",
+                "goals:\n  name: test\n  containers:\n    - name: node\n      image: node\n  matrix:\n    node: []\n  max_parallel: 0\n");
+            assert.deepStrictEqual(errors.map(e => `${e.line}:${e.column} ${e.message}`), [
+                "7:5 should NOT have fewer than 1 items",
+                "8:3 should be >= 1",
+            ]);
+        });
+
+        it("should report all errors with line and column", () => {
+            const content = `rules:
+  - name: build
+    tests: is_master
+    goals:
+      - uze: build
+  - goals:
+      - containers:
+          - name: test
+        name: test
+        aproval: true
+---
+goalz: []
+`;
+            const errors = validateYaml("goals.yaml", content);
+            assert.deepStrictEqual(errors.map(e => `${e.line}:${e.column} ${e.message}`), [
+                `3:5 should match format "default-branch-test"`,
+                "5:9 unknown property 'uze'",
+                "5:9 should have one of properties 'use', 'ref', 'containers', 'execute', 'action', 'extends'",
+                "6:5 should have required property 'name'",
+                "8:13 should have required property 'image'",
+                "10:9 unknown property 'aproval'",
+                "12:1 unknown property 'goalz'",
+            ]);
+            assert(errors.every(e => e.file === "goals.yaml"));
+            assert.deepStrictEqual(errors.filter(e => e.severity === "warning").map(e => e.message), [
+                "unknown property 'uze'",
+                "unknown property 'aproval'",
+                "unknown property 'goalz'",
+            ]);
+        });
+
+        it("should report syntax errors", () => {
+            const content = `goals:
+  - use: build
+rules:
+  - name: x
+     goals: y
+`;
+            const errors = validateYaml("goals.yaml", content);
+            assert(errors.length === 1);
+            assert(errors[0].line === 5);
+            assert(errors[0].message === "bad indentation of a mapping entry");
+            assert(errors[0].path === "");
+            assert(errors[0].severity === "error");
+        });
+
+        it("should locate errors of snake-cased properties", () => {
+            const content = `goals:
+  containers:
+    - name: build
+      image: node
+      init_containers: []
+  name: build
+  init_containers:
+    - name: init
+`;
+            const errors = validateYaml("goals.yaml", content);
+            assert.deepStrictEqual(errors.map(e => `${e.line}:${e.column} ${e.path} ${e.message}`), [
+                "8:7 /goals/initContainers/0 should have required property 'image'",
+            ]);
+        });
+
+    });
+
+    describe("formatYamlValidationErrors", () => {
+
+        it("should format errors", () => {
+            const s = formatYamlValidationErrors([
+                { file: "goals.yaml", line: 3, column: 5, path: "/rules/0", message: "should have required property 'name'", severity: "error" },
+                { file: "goals.yaml", line: 1, column: 1, path: "", message: "Nested mappings are not allowed", severity: "error" },
+            ]);
+            assert(s === `goals.yaml:3:5: /rules/0 should have required property 'name'
+goals.yaml:1:1: Nested mappings are not allowed`);
+        });
+
+    });
+
+});
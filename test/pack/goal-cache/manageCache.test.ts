@@ -0,0 +1,131 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { guid } from "@atomist/automation-client/lib/internal/util/string";
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import * as assert from "power-assert";
+import { CompressingGoalCache } from "../../../lib/goal/cache/CompressingGoalCache";
+import {
+    formatSize,
+    listGoalCacheArchives,
+    purgeGoalCacheArchives,
+} from "../../../lib/pack/goal-cache/manageCache";
+
+describe("pack/goal-cache/manageCache", () => {
+
+    const hour = 60 * 60 * 1000;
+    let cacheDir: string;
+    let sdm: any;
+    const ctx: any = { workspaceId: "AR0UNDTH3W0RLD" };
+
+    async function addArchive(classifier: string, hoursAgo: number, content: string = "archive"): Promise<void> {
+        const archive = path.join(cacheDir, ...classifier.split("/"), "cache.tar.gz");
+        await fs.ensureDir(path.dirname(archive));
+        await fs.writeFile(archive, content);
+        const t = new Date(Date.now() - hoursAgo * hour);
+        await fs.utimes(archive, t, t);
+    }
+
+    beforeEach(async () => {
+        cacheDir = path.join(os.tmpdir(), `sdm-core-test-${guid()}`);
+        sdm = {
+            configuration: {
+                name: "@daft/punk",
+                sdm: {
+                    cache: {
+                        enabled: true,
+                        path: cacheDir,
+                        store: new CompressingGoalCache(),
+                    },
+                },
+            },
+        };
+        await addArchive("AR0UNDTH3W0RLD/npm/npm-abc", 1, "abc");
+        await addArchive("AR0UNDTH3W0RLD/npm/npm-def", 30, "defdef");
+        await addArchive("AR0UNDTH3W0RLD/npmrc", 2);
+        await addArchive("AR0UNDTH3W0RLD/maven", 50);
+        await addArchive("H4RD3RB3TT3R/npm/npm-abc", 1);
+    });
+
+    afterEach(async () => {
+        try {
+            await fs.remove(cacheDir);
+        } catch (e) { /* ignore */ }
+    });
+
+    describe("listGoalCacheArchives", () => {
+
+        it("should list all archives of workspace most recent first", async () => {
+            const archives = await listGoalCacheArchives(sdm, ctx);
+            assert.deepStrictEqual(archives.map(a => a.classifier), [
+                "AR0UNDTH3W0RLD/npm/npm-abc",
+                "AR0UNDTH3W0RLD/npmrc",
+                "AR0UNDTH3W0RLD/npm/npm-def",
+                "AR0UNDTH3W0RLD/maven",
+            ]);
+            assert(archives[0].size === 3);
+            assert(archives[2].size === 6);
+        });
+
+        it("should list archives of classifier", async () => {
+            const archives = await listGoalCacheArchives(sdm, ctx, "npm");
+            assert.deepStrictEqual(archives.map(a => a.classifier), [
+                "AR0UNDTH3W0RLD/npm/npm-abc",
+                "AR0UNDTH3W0RLD/npm/npm-def",
+            ]);
+        });
+
+        it("should list archives older than", async () => {
+            const archives = await listGoalCacheArchives(sdm, ctx, undefined, 24 * hour);
+            assert.deepStrictEqual(archives.map(a => a.classifier), [
+                "AR0UNDTH3W0RLD/npm/npm-def",
+                "AR0UNDTH3W0RLD/maven",
+            ]);
+        });
+
+    });
+
+    describe("purgeGoalCacheArchives", () => {
+
+        it("should purge archives by classifier and age", async () => {
+            const purged = await purgeGoalCacheArchives(sdm, ctx, "npm", 24 * hour);
+            assert.deepStrictEqual(purged.map(a => a.classifier), ["AR0UNDTH3W0RLD/npm/npm-def"]);
+            const archives = await listGoalCacheArchives(sdm, ctx);
+            assert.deepStrictEqual(archives.map(a => a.classifier), [
+                "AR0UNDTH3W0RLD/npm/npm-abc",
+                "AR0UNDTH3W0RLD/npmrc",
+                "AR0UNDTH3W0RLD/maven",
+            ]);
+            const otherWorkspace = await listGoalCacheArchives(sdm, { workspaceId: "H4RD3RB3TT3R" } as any);
+            assert(otherWorkspace.length === 1);
+        });
+
+    });
+
+    describe("formatSize", () => {
+
+        it("should format sizes", () => {
+            assert(formatSize(undefined) === "0 B");
+            assert(formatSize(512) === "512 B");
+            assert(formatSize(1536) === "1.5 KB");
+            assert(formatSize(5 * 1024 * 1024 * 1024) === "5.0 GB");
+        });
+
+    });
+
+});
@@ -0,0 +1,92 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { goal } from "@atomist/sdm/lib/api/goal/GoalWithFulfillment";
+import * as assert from "power-assert";
+import {
+    goalData,
+    goalDefinitionParameters,
+    goalParameter,
+    goalParameters,
+    withGoalData,
+    withGoalParameter,
+} from "../../../lib/pack/goal-state/goalParameters";
+
+describe("pack/goal-state/goalParameters", () => {
+
+    describe("withGoalParameter", () => {
+
+        it("should add the parameter without changing the original definition", () => {
+            const g = goal({ uniqueName: "build" });
+            const definition = g.definition;
+            const result = withGoalParameter(g, "@atomist/sdm/test", { foo: "bar", baz: undefined }, { retryFeasible: true });
+            assert.strictEqual(result, g);
+            assert.deepStrictEqual(goalDefinitionParameters(g), { "@atomist/sdm/test": { foo: "bar" } });
+            assert.strictEqual(g.definition.retryFeasible, true);
+            assert.deepStrictEqual(goalDefinitionParameters({ definition } as any), {});
+        });
+
+        it("should keep existing parameters", () => {
+            const g = withGoalParameter(goal({ uniqueName: "build" }), "a", { value: 1 });
+            withGoalParameter(g, "b", { value: 2 });
+            assert.deepStrictEqual(goalDefinitionParameters(g), { a: { value: 1 }, b: { value: 2 } });
+        });
+
+    });
+
+    describe("goalParameter", () => {
+
+        it("should read the parameter", () => {
+            assert.deepStrictEqual(goalParameter({ parameters: JSON.stringify({ a: { value: 1 } }) }, "a"), { value: 1 });
+        });
+
+        it("should return undefined for missing or invalid parameters", () => {
+            assert.strictEqual(goalParameter({}, "a"), undefined);
+            assert.strictEqual(goalParameter({ parameters: "{" }, "a"), undefined);
+            assert.strictEqual(goalParameter({ parameters: "null" }, "a"), undefined);
+            assert.strictEqual(goalParameter({ parameters: JSON.stringify({ b: 1 }) }, "a"), undefined);
+        });
+
+    });
+
+    describe("goalParameters", () => {
+
+        it("should treat missing or invalid parameters as empty object", () => {
+            assert.deepStrictEqual(goalParameters({}), {});
+            assert.deepStrictEqual(goalParameters({ parameters: "{" }), {});
+            assert.deepStrictEqual(goalParameters({ parameters: "[1]" }), {});
+            assert.deepStrictEqual(goalParameters({ parameters: JSON.stringify({ a: 1 }) }), { a: 1 });
+        });
+
+    });
+
+    describe("goalData", () => {
+
+        it("should treat missing or invalid data as empty object", () => {
+            assert.deepStrictEqual(goalData({}), {});
+            assert.deepStrictEqual(goalData({ data: "not json" }), {});
+            assert.deepStrictEqual(goalData({ data: "\"string\"" }), {});
+        });
+
+        it("should merge the value into the data", () => {
+            const data = withGoalData(JSON.stringify({ foo: "bar" }), "a", [1]);
+            assert.deepStrictEqual(JSON.parse(data), { foo: "bar", a: [1] });
+            assert.deepStrictEqual(JSON.parse(withGoalData("not json", "a", 1)), { a: 1 });
+        });
+
+    });
+
+});
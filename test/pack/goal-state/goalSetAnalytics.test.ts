@@ -0,0 +1,158 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "power-assert";
+import {
+    analyzeGoalSets,
+    formatGoalSetAnalytics,
+    goalSetAnalytics,
+} from "../../../lib/pack/goal-state/goalSetAnalytics";
+import { SdmGoalState } from "../../../lib/typings/types";
+
+describe("pack/goal-state/goalSetAnalytics", () => {
+
+    const s = 1000;
+
+    const goalSets = [
+        { goalSetId: "gs1", state: SdmGoalState.success, ts: 100 * s },
+        { goalSetId: "gs2", state: SdmGoalState.failure, ts: 200 * s },
+        { goalSetId: "gs3", state: SdmGoalState.failure, ts: 300 * s },
+    ];
+
+    function events(goalSetId: string, name: string, ...states: Array<[SdmGoalState, number]>): any[] {
+        return states.map(([state, ts]) => ({ goalSetId, uniqueName: `${name}#goals.ts:1`, name, state, ts: ts * s }));
+    }
+
+    const goals = [
+        ...events("gs1", "build", [SdmGoalState.requested, 0], [SdmGoalState.in_process, 10], [SdmGoalState.success, 70]),
+        ...events("gs1", "deploy", [SdmGoalState.requested, 70], [SdmGoalState.waiting_for_pre_approval, 70],
+            [SdmGoalState.requested, 370], [SdmGoalState.in_process, 380], [SdmGoalState.success, 400]),
+        ...events("gs2", "build", [SdmGoalState.requested, 0], [SdmGoalState.in_process, 5], [SdmGoalState.failure, 35]),
+        ...events("gs3", "build", [SdmGoalState.in_process, 0], [SdmGoalState.success, 120]),
+        ...events("gs3", "test", [SdmGoalState.in_process, 120], [SdmGoalState.failure, 130]),
+        ...events("gs4", "build", [SdmGoalState.in_process, 0], [SdmGoalState.failure, 10]),
+    ];
+
+    describe("analyzeGoalSets", () => {
+
+        it("should compute goal statistics", () => {
+            const analytics = analyzeGoalSets(goalSets, goals, { since: 0, until: 500 * s });
+            assert.deepStrictEqual(analytics, {
+                since: 0,
+                until: 500 * s,
+                goalSets: 3,
+                states: { success: 1, failure: 2 },
+                goals: [{
+                    name: "build",
+                    count: 3,
+                    failures: 1,
+                    failureRate: 1 / 3,
+                    duration: { p50: 60 * s, p90: 120 * s, p95: 120 * s, max: 120 * s },
+                    approvalWait: 0,
+                }, {
+                    name: "deploy",
+                    count: 1,
+                    failures: 0,
+                    failureRate: 0,
+                    duration: { p50: 20 * s, p90: 20 * s, p95: 20 * s, max: 20 * s },
+                    approvalWait: 300 * s,
+                }, {
+                    name: "test",
+                    count: 1,
+                    failures: 1,
+                    failureRate: 1,
+                    duration: { p50: 10 * s, p90: 10 * s, p95: 10 * s, max: 10 * s },
+                    approvalWait: 0,
+                }],
+                mostFailingGoal: "test",
+                approvalWait: 300 * s,
+            });
+        });
+
+        it("should handle no goal sets", () => {
+            const analytics = analyzeGoalSets([], goals, { since: 0, until: 1 });
+            assert.strictEqual(analytics.goalSets, 0);
+            assert.deepStrictEqual(analytics.goals, []);
+            assert.strictEqual(analytics.mostFailingGoal, undefined);
+        });
+
+    });
+
+    describe("formatGoalSetAnalytics", () => {
+
+        const analytics = analyzeGoalSets(goalSets, goals, { since: 0, until: 500 * s });
+
+        it("should format csv", () => {
+            assert.strictEqual(formatGoalSetAnalytics(analytics, "csv"), `goal,count,failures,failureRate,p50,p90,p95,max,approvalWait
+build,3,1,0.3333,60000,120000,120000,120000,0
+deploy,1,0,0.0000,20000,20000,20000,20000,300000
+test,1,1,1.0000,10000,10000,10000,10000,0`);
+        });
+
+        it("should format json", () => {
+            assert.deepStrictEqual(JSON.parse(formatGoalSetAnalytics(analytics, "json")), analytics);
+        });
+
+        it("should format chat summary", () => {
+            assert.strictEqual(formatGoalSetAnalytics(analytics, "chat"), `3 goal sets (1 success, 2 failure)
+Most frequently failing goal: test
+Time waiting for approval: 5m
+
+goal    runs  failure rate  p50  p90  p95  approval wait
+build   3     33%           1m   2m   2m   0s
+deploy  1     0%            20s  20s  20s  5m
+test    1     100%          10s  10s  10s  0s`);
+        });
+
+    });
+
+    describe("goalSetAnalytics", () => {
+
+        it("should query goal sets within time window and their goal history", async () => {
+            const queries: any[] = [];
+            const ctx = {
+                graphClient: {
+                    query: async (o: any) => {
+                        queries.push({ name: o.name, variables: o.variables });
+                        if (o.name === "CompletedSdmGoalSets") {
+                            return { SdmGoalSet: [...goalSets].reverse() };
+                        } else {
+                            return { SdmGoal: goals.filter(g => o.variables.goalSetId.includes(g.goalSetId)) };
+                        }
+                    },
+                },
+            } as any;
+            const analytics = await goalSetAnalytics(ctx, {
+                owner: "atomist",
+                repo: "sdm",
+                branch: "main",
+                since: 150 * s,
+                until: 500 * s,
+            });
+            assert.deepStrictEqual(queries, [{
+                name: "CompletedSdmGoalSets",
+                variables: { fetch: 100, offset: 0, owner: "atomist", repo: "sdm", providerId: undefined, branch: ["main"] },
+            }, {
+                name: "SdmGoalHistory",
+                variables: { goalSetId: ["gs3", "gs2"], fetch: 200, offset: 0 },
+            }]);
+            assert.strictEqual(analytics.goalSets, 2);
+            assert.deepStrictEqual(analytics.goals.map(g => [g.name, g.count, g.failures]), [["build", 2, 1], ["test", 1, 1]]);
+        });
+
+    });
+
+});
@@ -0,0 +1,211 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "power-assert";
+import {
+    GoalApprovalPolicyParameterKey,
+    GoalPreApprovalPolicyParameterKey,
+} from "../../../lib/goal/common/approval";
+import {
+    GoalRetryParameterKey,
+    withExitCode,
+    withRetryState,
+} from "../../../lib/goal/common/retry";
+import { GoalTimeoutParameterKey } from "../../../lib/goal/common/timeout";
+import {
+    expireApprovals,
+    retryFailedGoals,
+    timeoutInProcessGoals,
+} from "../../../lib/pack/goal-state/manageGoalSets";
+import { SdmGoalState } from "../../../lib/typings/types";
+
+describe("pack/goal-state/manageGoalSets", () => {
+
+    const minute = 60 * 1000;
+    const hour = 60 * minute;
+    const sdm = { configuration: { name: "@atomist/test-sdm" } } as any;
+
+    function goal(name: string,
+                  state: SdmGoalState,
+                  age: number,
+                  details: { parameters?: Record<string, any>, data?: string, phase?: string } = {}): any {
+        return {
+            name,
+            uniqueName: name,
+            goalSetId: "gs1",
+            state,
+            ts: Date.now() - age,
+            phase: details.phase,
+            data: details.data,
+            retryFeasible: false,
+            repo: { owner: "atomist", name: "sdm", providerId: "github" },
+            provenance: [],
+            parameters: !!details.parameters ? JSON.stringify(details.parameters) : undefined,
+        };
+    }
+
+    describe("timeoutInProcessGoals", () => {
+
+        const inProcess = SdmGoalState.in_process;
+
+        async function timeOut(goals: any[], options?: any): Promise<any[]> {
+            const updated: any[] = [];
+            const ctx = {
+                context: { name: "@atomist/test-sdm", version: "1.0.0", operation: "ManagePendingGoalSets" },
+                graphClient: {
+                    query: async () => ({ SdmGoal: goals }),
+                    mutate: async (o: any) => {
+                        updated.push(o.variables.goal);
+                    },
+                },
+            } as any;
+            await timeoutInProcessGoals(sdm, ctx, options);
+            return updated;
+        }
+
+        it("should apply the default timeout to goals without timeout", async () => {
+            const updated = await timeOut([goal("build", inProcess, 61 * minute), goal("test", inProcess, 59 * minute)]);
+            assert.deepStrictEqual(updated.map(g => [g.name, g.state, g.description, g.phase]), [
+                ["build", SdmGoalState.canceled, "Canceled: build", "1h timeout"],
+            ]);
+        });
+
+        it("should respect goal timeouts", async () => {
+            const updated = await timeOut([
+                goal("lint", inProcess, 6 * minute, { parameters: { [GoalTimeoutParameterKey]: { duration: 5 * minute } } }),
+                goal("integration-test", inProcess, 90 * minute, { parameters: { [GoalTimeoutParameterKey]: { duration: 2 * hour } } }),
+                goal("build", inProcess, 11 * minute),
+            ], { timeout: 10 * minute });
+            assert.deepStrictEqual(updated.map(g => [g.name, g.state, g.phase]), [
+                ["lint", SdmGoalState.canceled, "5m timeout"],
+                ["build", SdmGoalState.canceled, "10m timeout"],
+            ]);
+        });
+
+        it("should fail timed out goals as retry feasible", async () => {
+            const updated = await timeOut([
+                goal("deploy", inProcess, 31 * minute, {
+                    parameters: { [GoalTimeoutParameterKey]: { duration: 30 * minute, state: SdmGoalState.failure, retryFeasible: true } },
+                }),
+                goal("build", inProcess, 11 * minute, {
+                    parameters: { [GoalTimeoutParameterKey]: { duration: 10 * minute, state: SdmGoalState.failure } },
+                }),
+            ]);
+            assert.deepStrictEqual(updated.map(g => [g.name, g.state, g.description, g.retryFeasible]), [
+                ["deploy", SdmGoalState.failure, "Failed: deploy", true],
+                ["build", SdmGoalState.failure, "Failed: build", false],
+            ]);
+        });
+
+    });
+
+    describe("expireApprovals", () => {
+
+        it("should cancel goals whose approval expired", async () => {
+            const goals = [
+                goal("deploy-staging", SdmGoalState.waiting_for_approval, 25 * hour, {
+                    parameters: { [GoalApprovalPolicyParameterKey]: { expiry: 24 * hour } },
+                }),
+                goal("deploy-prod", SdmGoalState.waiting_for_pre_approval, 3 * hour, {
+                    parameters: { [GoalPreApprovalPolicyParameterKey]: { expiry: 2 * hour } },
+                }),
+                goal("deploy-test", SdmGoalState.waiting_for_approval, 1 * hour, {
+                    parameters: { [GoalApprovalPolicyParameterKey]: { expiry: 2 * hour } },
+                }),
+                goal("deploy-demo", SdmGoalState.waiting_for_approval, 100 * hour),
+            ];
+            const updated: any[] = [];
+            const ctx = {
+                context: { name: "@atomist/test-sdm", version: "1.0.0", operation: "ManagePendingGoalSets" },
+                graphClient: {
+                    query: async (o: any) => ({ SdmGoal: o.name === "WaitingForApprovalSdmGoals" ? goals : [] }),
+                    mutate: async (o: any) => {
+                        updated.push(o.variables.goal);
+                    },
+                },
+            } as any;
+            await expireApprovals(sdm, ctx);
+            assert.deepStrictEqual(updated.map(g => [g.name, g.state, g.phase]), [
+                ["deploy-staging", SdmGoalState.canceled, "approval expired after 1d"],
+                ["deploy-prod", SdmGoalState.canceled, "start expired after 2h"],
+            ]);
+        });
+
+    });
+
+    describe("retryFailedGoals", () => {
+
+        const failure = SdmGoalState.failure;
+
+        async function retry(goals: any[]): Promise<any[]> {
+            const updated: any[] = [];
+            const ctx = {
+                context: { name: "@atomist/test-sdm", version: "1.0.0", operation: "ManagePendingGoalSets" },
+                graphClient: {
+                    query: async (o: any) => {
+                        assert.strictEqual(o.name, "FailedSdmGoals");
+                        return { SdmGoal: goals };
+                    },
+                    mutate: async (o: any) => {
+                        updated.push(o.variables.goal);
+                    },
+                },
+            } as any;
+            await retryFailedGoals(sdm, ctx);
+            return updated;
+        }
+
+        it("should re-request failed goals after backoff", async () => {
+            const policy = { maxAttempts: 3, backoff: { initial: minute } };
+            const updated = await retry([
+                goal("build", failure, 2 * minute, { parameters: { [GoalRetryParameterKey]: policy } }),
+                goal("test", failure, 2 * minute, {
+                    parameters: { [GoalRetryParameterKey]: policy },
+                    data: withRetryState(undefined, { attempt: 3 }),
+                }),
+                goal("lint", failure, 2 * minute),
+            ]);
+            assert.deepStrictEqual(updated.map(g => [g.name, g.state, g.phase, JSON.parse(g.data)]), [
+                ["build", SdmGoalState.requested, "attempt 2 of 3", { [GoalRetryParameterKey]: { attempt: 2 } }],
+            ]);
+        });
+
+        it("should wait for the backoff delay", async () => {
+            const parameters = { [GoalRetryParameterKey]: { maxAttempts: 5, backoff: { initial: minute, multiplier: 2 } } };
+            const updated = await retry([
+                goal("build", failure, 3 * minute, { parameters, data: withRetryState(undefined, { attempt: 3 }) }),
+                goal("test", failure, 5 * minute, { parameters, data: withRetryState(undefined, { attempt: 3 }) }),
+            ]);
+            assert.deepStrictEqual(updated.map(g => [g.name, g.phase]), [["test", "attempt 4 of 5"]]);
+        });
+
+        it("should only retry matching failures", async () => {
+            const parameters = { [GoalRetryParameterKey]: { maxAttempts: 2, backoff: { initial: 0 }, phases: ["network"], exitCodes: [137] } };
+            const updated = await retry([
+                goal("build", failure, minute, { parameters, data: withExitCode(undefined, 137) }),
+                goal("test", failure, minute, { parameters, data: withExitCode(undefined, 1) }),
+                goal("deploy", failure, minute, { parameters, phase: "network unreachable" }),
+            ]);
+            assert.deepStrictEqual(updated.map(g => g.name), ["build", "deploy"]);
+            assert.deepStrictEqual(JSON.parse(updated[0].data), {
+                "@atomist/sdm/exitCode": 137,
+                "@atomist/sdm/retry": { attempt: 2 },
+            });
+        });
+
+    });
+
+});
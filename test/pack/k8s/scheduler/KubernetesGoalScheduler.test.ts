@@ -17,12 +17,18 @@
 import { HandlerContext } from "@atomist/automation-client/lib/HandlerContext";
 import { SdmGoalEvent } from "@atomist/sdm/lib/api/goal/SdmGoalEvent";
 import * as k8s from "@kubernetes/client-node";
+import * as http from "http";
+import * as net from "net";
 import * as assert from "power-assert";
+import { k8sReadinessSidecar } from "../../../../lib/goal/container/k8s";
 import {
     createJobSpec,
+    createK8sJob,
+    hasSidecarContainers,
     isConfiguredInEnv,
     k8sJobEnv,
     k8sJobName,
+    supportsSidecarContainers,
 } from "../../../../lib/pack/k8s/scheduler/KubernetesGoalScheduler";
 
 /* tslint:disable:max-file-line-count */
@@ -79,6 +85,91 @@ describe("pack/k8s/scheduler/KubernetesGoalScheduler", () => {
 
     });
 
+    describe("hasSidecarContainers", () => {
+
+        it("should find init containers that keep running", () => {
+            const job = (...initContainers: any[]): k8s.V1Job => ({ spec: { template: { spec: { containers: [], initContainers } } } });
+            assert(hasSidecarContainers(job({ name: "init" }, { name: "postgres", restartPolicy: "Always" })));
+            assert(!hasSidecarContainers(job({ name: "init" })));
+            assert(!hasSidecarContainers(job()));
+            assert(!hasSidecarContainers({ spec: { template: { spec: { containers: [] } } } }));
+        });
+
+    });
+
+    describe("createK8sJob", () => {
+
+        let server: http.Server;
+        let port: number;
+        const requests: Array<{ method: string, url: string, body: any }> = [];
+
+        before(async () => {
+            server = http.createServer((req, res) => {
+                let body = "";
+                req.on("data", chunk => body += chunk);
+                req.on("end", () => {
+                    requests.push({ method: req.method, url: req.url, body: !!body ? JSON.parse(body) : undefined });
+                    res.setHeader("Content-Type", "application/json");
+                    if (req.method === "GET" && req.url === "/apis/batch/v1") {
+                        res.end(JSON.stringify({ resources: [{ name: "jobs", namespaced: true, kind: "Job", verbs: ["create"] }] }));
+                    } else {
+                        res.statusCode = 201;
+                        res.end(body);
+                    }
+                });
+            });
+            await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+            port = (server.address() as net.AddressInfo).port;
+        });
+
+        after(() => {
+            server.close();
+        });
+
+        it("should keep the restart policy and startup probe of sidecar containers", async () => {
+            const kc = new k8s.KubeConfig();
+            kc.loadFromOptions({
+                clusters: [{ name: "test", server: `http://127.0.0.1:${port}`, skipTLSVerify: true }],
+                users: [{ name: "test" }],
+                contexts: [{ name: "test", cluster: "test", user: "test" }],
+                currentContext: "test",
+            });
+            const sidecar = k8sReadinessSidecar({
+                name: "postgres",
+                image: "postgres:12",
+                readinessProbe: { tcpSocket: { port: 5432 } },
+            } as any);
+            const job: k8s.V1Job = {
+                metadata: { name: "sdm-job-abc", namespace: "sdm" },
+                spec: { template: { spec: { containers: [{ name: "test", image: "node:12" }], initContainers: [sidecar] } } },
+            };
+            const created = await createK8sJob(kc, job);
+            const post = requests.find(r => r.method === "POST");
+            assert.strictEqual(post.url, "/apis/batch/v1/namespaces/sdm/jobs");
+            assert.strictEqual(post.body.kind, "Job");
+            assert.strictEqual(post.body.apiVersion, "batch/v1");
+            const initContainer = post.body.spec.template.spec.initContainers[0];
+            assert.strictEqual(initContainer.restartPolicy, "Always");
+            assert.deepStrictEqual(initContainer.startupProbe, sidecar.startupProbe);
+            assert.deepStrictEqual(initContainer.readinessProbe, sidecar.readinessProbe);
+            assert.strictEqual(created.metadata.name, "sdm-job-abc");
+        });
+
+    });
+
+    describe("supportsSidecarContainers", () => {
+
+        it("should require Kubernetes 1.29", () => {
+            assert(supportsSidecarContainers({ major: "1", minor: "29" }));
+            assert(supportsSidecarContainers({ major: "1", minor: "30+" }));
+            assert(supportsSidecarContainers({ major: "2", minor: "0" }));
+            assert(!supportsSidecarContainers({ major: "1", minor: "28+" }));
+            assert(!supportsSidecarContainers({ major: "1", minor: "15" }));
+            assert(!supportsSidecarContainers({ major: "", minor: "" }));
+        });
+
+    });
+
     describe("k8sJobName", () => {
 
         it("should return a job name", () => {
@@ -138,6 +229,44 @@ describe("pack/k8s/scheduler/KubernetesGoalScheduler", () => {
             assert(n === e);
         });
 
+        it("should keep the index of planned goals", () => {
+            const p: k8s.V1Pod = {
+                spec: {
+                    containers: [
+                        {
+                            name: "wild-horses",
+                        },
+                    ],
+                },
+            } as any;
+            const g: SdmGoalEvent = {
+                goalSetId: "abcdef0-123456789-abcdef",
+                uniqueName: "Sundown.ts#L74#sdm:3",
+            } as any;
+            const n = k8sJobName(p, g);
+            const e = "wild-horses-job-abcdef0-sundown.ts-3";
+            assert(n === e);
+        });
+
+        it("should keep the index of planned goals when truncating", () => {
+            const p: k8s.V1Pod = {
+                spec: {
+                    containers: [
+                        {
+                            name: "whos-gonna-ride-your-wild-horses",
+                        },
+                    ],
+                },
+            } as any;
+            const g: SdmGoalEvent = {
+                goalSetId: "abcdef0-123456789-abcdef",
+                uniqueName: "SomewhereNorthOfNashville.ts#L74#sdm:12",
+            } as any;
+            const n = k8sJobName(p, g);
+            const e = "whos-gonna-ride-your-wild-horses-job-abcdef0-somewherenortho-12";
+            assert(n === e);
+        });
+
     });
 
     describe("k8sJobEnv", () => {
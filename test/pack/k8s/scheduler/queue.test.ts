@@ -0,0 +1,153 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "power-assert";
+import {
+    concurrencyGroups,
+    ConcurrencyGroupsAnnotation,
+    goalQueueName,
+    isJobRunning,
+    jobConcurrencyGroups,
+    KubernetesGoalConcurrency,
+    QueuedGoalJob,
+    releasableJobs,
+} from "../../../../lib/pack/k8s/scheduler/queue";
+
+describe("pack/k8s/scheduler/queue", () => {
+
+    const goal = (name: string, environment: string = "1-staging/"): any => ({
+        name,
+        uniqueName: `${name}#goals.ts:42`,
+        environment,
+        goalSetId: "c7a6b1e2-3c4d",
+        branch: "main",
+        repo: { owner: "atomist", name: "sdm-core" },
+    });
+
+    const queued = (name: string, ...groups: Array<[string, number]>): QueuedGoalJob => ({
+        name,
+        ts: 0,
+        goal: { goalSetId: "c7a6b1e2-3c4d", uniqueName: name, workspaceId: "AW0RKSPC3" },
+        position: 0,
+        groups: groups.map(g => ({ key: g[0], max: g[1] })),
+        job: {},
+    });
+
+    describe("concurrencyGroups", () => {
+
+        const concurrency: KubernetesGoalConcurrency = {
+            max: 10,
+            groups: [
+                { name: "integration-test", max: 3, goals: "integration-test" },
+                { name: "deploy", max: 1, goals: ["deploy", "rollback"], per: "environment" },
+                { name: "repo", max: 2, per: "branch" },
+            ],
+        };
+
+        it("should add matching groups", () => {
+            assert.deepStrictEqual(concurrencyGroups(goal("integration-test"), concurrency), [
+                { key: "sdm", max: 10 },
+                { key: "integration-test", max: 3 },
+                { key: "repo:atomist/sdm-core/main", max: 2 },
+            ]);
+        });
+
+        it("should partition groups", () => {
+            assert.deepStrictEqual(concurrencyGroups(goal("rollback", "2-prod/"), concurrency), [
+                { key: "sdm", max: 10 },
+                { key: "deploy:2-prod/", max: 1 },
+                { key: "repo:atomist/sdm-core/main", max: 2 },
+            ]);
+        });
+
+        it("should match goals by unique name", () => {
+            assert.deepStrictEqual(concurrencyGroups(goal("build"), { groups: [{ name: "build", max: 1, goals: "build#goals.ts:42" }] }), [
+                { key: "build", max: 1 },
+            ]);
+        });
+
+        it("should return no groups without limits", () => {
+            assert.deepStrictEqual(concurrencyGroups(goal("build"), {}), []);
+        });
+
+    });
+
+    describe("releasableJobs", () => {
+
+        it("should release jobs in order up to the limit", () => {
+            const jobs = [queued("a", ["sdm", 3]), queued("b", ["sdm", 3]), queued("c", ["sdm", 3])];
+            assert.deepStrictEqual(releasableJobs(jobs, [[{ key: "sdm", max: 3 }]]).map(j => j.name), ["a", "b"]);
+        });
+
+        it("should not release jobs of full groups", () => {
+            const jobs = [queued("deploy-staging", ["deploy:staging", 1]), queued("test", ["integration-test", 3])];
+            const running = [[{ key: "deploy:staging", max: 1 }]];
+            assert.deepStrictEqual(releasableJobs(jobs, running).map(j => j.name), ["test"]);
+        });
+
+        it("should count jobs released in the same run", () => {
+            const jobs = [
+                queued("deploy-staging-1", ["deploy:staging", 1]),
+                queued("deploy-staging-2", ["deploy:staging", 1]),
+                queued("deploy-prod", ["deploy:prod", 1]),
+            ];
+            assert.deepStrictEqual(releasableJobs(jobs, []).map(j => j.name), ["deploy-staging-1", "deploy-prod"]);
+        });
+
+        it("should require a free slot in every group", () => {
+            const jobs = [queued("test", ["sdm", 2], ["integration-test", 3])];
+            assert.deepStrictEqual(releasableJobs(jobs, [[{ key: "sdm", max: 2 }], [{ key: "sdm", max: 2 }]]), []);
+        });
+
+    });
+
+    describe("isJobRunning", () => {
+
+        it("should detect running job", () => {
+            assert(isJobRunning({ status: { active: 1 } }));
+            assert(isJobRunning({}));
+        });
+
+        it("should detect completed and failed jobs", () => {
+            assert(!isJobRunning({ status: { completionTime: new Date() } }));
+            assert(!isJobRunning({ status: { conditions: [{ type: "Failed", status: "True" }] } as any }));
+        });
+
+    });
+
+    describe("jobConcurrencyGroups", () => {
+
+        it("should read groups from annotation", () => {
+            const job = { metadata: { name: "sdm-job", annotations: { [ConcurrencyGroupsAnnotation]: `[{"key":"sdm","max":3}]` } } };
+            assert.deepStrictEqual(jobConcurrencyGroups(job), [{ key: "sdm", max: 3 }]);
+        });
+
+        it("should ignore jobs without groups", () => {
+            assert.deepStrictEqual(jobConcurrencyGroups({ metadata: { name: "sdm-job" } }), []);
+            assert.deepStrictEqual(jobConcurrencyGroups({ metadata: { name: "sdm-job", annotations: { [ConcurrencyGroupsAnnotation]: "{" } } }), []);
+        });
+
+    });
+
+    describe("goalQueueName", () => {
+
+        it("should create valid name", () => {
+            assert.strictEqual(goalQueueName("atomist.K8s_SDM"), "atomist.k8s-sdm-goal-queue");
+        });
+
+    });
+
+});
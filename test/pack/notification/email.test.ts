@@ -0,0 +1,111 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "power-assert";
+import { SMTPServer } from "smtp-server";
+import {
+    addressEmail,
+    defaultEmailDestinationFactory,
+    emailTransport,
+} from "../../../lib/pack/notification/email";
+import { notifyGoalCompletionListener } from "../../../lib/pack/notification/notification";
+import { SdmGoalState } from "../../../lib/typings/types";
+import { goalCompletion } from "./goals";
+
+describe("notification/email", () => {
+
+    describe("defaultEmailDestinationFactory", () => {
+
+        it("should address all commit authors", async () => {
+            const destination = await defaultEmailDestinationFactory(goalCompletion(SdmGoalState.failure).completedGoal);
+            assert.deepStrictEqual(destination, addressEmail("jane@example.com", "joe@example.com"));
+        });
+
+        it("should not address anybody without emails", async () => {
+            const destination = await defaultEmailDestinationFactory({ push: { commits: [{ author: {} }] } } as any);
+            assert.strictEqual(destination, undefined);
+        });
+
+    });
+
+    describe("emailTransport", () => {
+
+        let server: SMTPServer;
+        let port: number;
+        let mails: Array<{ from: string, to: string[], data: string }>;
+
+        before(async () => {
+            mails = [];
+            server = new SMTPServer({
+                authOptional: true,
+                disabledCommands: ["STARTTLS"],
+                logger: false,
+                onData: (stream, session, callback) => {
+                    let data = "";
+                    stream.on("data", d => data += d.toString());
+                    stream.on("end", () => {
+                        mails.push({
+                            from: (session.envelope.mailFrom as any).address,
+                            to: session.envelope.rcptTo.map(r => r.address),
+                            data,
+                        });
+                        callback();
+                    });
+                },
+            });
+            await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+            port = (server as any).server.address().port;
+        });
+
+        after(async () => {
+            await new Promise(resolve => server.close(resolve));
+        });
+
+        beforeEach(() => {
+            mails = [];
+        });
+
+        it("should send email to the local SMTP sink", async () => {
+            const transport = emailTransport({
+                smtp: { host: "127.0.0.1", port, secure: false, ignoreTLS: true },
+                from: "sdm@example.com",
+            });
+            await notifyGoalCompletionListener({ transports: transport })(goalCompletion(SdmGoalState.failure));
+            assert.strictEqual(mails.length, 1);
+            assert.strictEqual(mails[0].from, "sdm@example.com");
+            assert.deepStrictEqual(mails[0].to, ["jane@example.com", "joe@example.com"]);
+            assert(mails[0].data.includes("Subject: [atomist/sdm-core] Goal Failed: build"));
+            assert(mails[0].data.includes("Goal build on abcdef0 Fix the build of atomist/sdm-core/main has failed."));
+            assert(mails[0].data.includes("https://app.atomist.com/workspace/AW0RKSPAC3/goalset/1234567890"));
+        });
+
+        it("should only send email for configured states", async () => {
+            const transport = emailTransport({
+                smtp: { host: "127.0.0.1", port, secure: false, ignoreTLS: true },
+                from: "sdm@example.com",
+                states: [SdmGoalState.waiting_for_approval],
+            });
+            const listener = notifyGoalCompletionListener({ transports: transport });
+            await listener(goalCompletion(SdmGoalState.failure));
+            assert.strictEqual(mails.length, 0);
+            await listener(goalCompletion(SdmGoalState.waiting_for_approval));
+            assert.strictEqual(mails.length, 1);
+            assert(mails[0].data.includes("Subject: [atomist/sdm-core] Goal Awaiting Approval: build"));
+        });
+
+    });
+
+});
@@ -0,0 +1,44 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { GoalCompletionListenerInvocation } from "@atomist/sdm/lib/api/listener/GoalCompletionListener";
+import { SdmGoalState } from "../../../lib/typings/types";
+
+export function goalCompletion(state: SdmGoalState): GoalCompletionListenerInvocation {
+    return {
+        completedGoal: {
+            name: "build",
+            state,
+            sha: "abcdef0123456789",
+            branch: "main",
+            goalSetId: "1234567890",
+            repo: { owner: "atomist", name: "sdm-core" },
+            push: {
+                after: { message: "Fix the build\n\nDetails", url: "https://github.com/atomist/sdm-core/commit/abcdef0" },
+                repo: { url: "https://github.com/atomist/sdm-core" },
+                commits: [
+                    { author: { person: { emails: [{ address: "jane@example.com" }] } } },
+                    { author: { person: { emails: [{ address: "jane@example.com" }] } } },
+                    { author: { person: {} } },
+                    { author: { person: { emails: [{ address: "joe@example.com" }] } } },
+                ],
+            },
+        },
+        context: {
+            workspaceId: "AW0RKSPAC3",
+        },
+    } as any;
+}
@@ -25,6 +25,7 @@ import { fail } from "power-assert";
 import {
     defaultDestinationFactory,
     NotificationOptions,
+    NotificationTransport,
     notifyGoalCompletionListener,
 } from "../../../lib/pack/notification/notification";
 import { SdmGoalState } from "../../../lib/typings/types";
@@ -219,6 +220,52 @@ describe("notification", () => {
 
         });
 
+        it("should send notifications with chat and additional transports", async () => {
+            const goal: SdmGoalEvent = {
+                state: SdmGoalState.failure,
+                name: "Build",
+            } as any;
+            const sent: string[] = [];
+            const transport = (name: string, states?: SdmGoalState[]): NotificationTransport => ({
+                name,
+                states,
+                destination: async () => ({ userAgent: name }),
+                notification: async gi => ({ message: `${gi.completedGoal.name} is ${gi.completedGoal.state}`, options: {} }),
+                send: async (msg, dest) => {
+                    if (name === "broken") {
+                        throw new Error("Connection refused");
+                    }
+                    sent.push(`${dest.userAgent}: ${msg}`);
+                },
+            });
+            const options: NotificationOptions = {
+                notification: async () => ({ message: "Chat message", options: {} }),
+                destination: async () => addressSlackUsers("123456", "joe"),
+                transports: [
+                    transport("broken"),
+                    transport("email", [SdmGoalState.failure]),
+                    transport("webhook", [SdmGoalState.stopped]),
+                ],
+            };
+
+            try {
+                await notifyGoalCompletionListener(options)({
+                    completedGoal: goal,
+                    context: {
+                        messageClient: {
+                            send: async (msg: string) => {
+                                sent.push(`chat: ${msg}`);
+                            },
+                        },
+                    },
+                } as any);
+                fail();
+            } catch (e) {
+                assert.deepStrictEqual(e.message, "Connection refused");
+            }
+            assert.deepStrictEqual(sent, ["chat: Chat message", "email: Build is failure"]);
+        });
+
     });
 
 });
@@ -0,0 +1,75 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "power-assert";
+import {
+    addressTeams,
+    defaultTeamsNotificationFactory,
+    teamsTransport,
+} from "../../../lib/pack/notification/teams";
+import { SdmGoalState } from "../../../lib/typings/types";
+import { goalCompletion } from "./goals";
+
+describe("notification/teams", () => {
+
+    describe("defaultTeamsNotificationFactory", () => {
+
+        it("should create adaptive card", async () => {
+            const gi = goalCompletion(SdmGoalState.failure);
+            gi.completedGoal.url = "https://ci.example.com/build/1";
+            const msg = await defaultTeamsNotificationFactory(gi);
+            assert.strictEqual(msg.message.type, "message");
+            assert.strictEqual(msg.message.attachments.length, 1);
+            const attachment = msg.message.attachments[0];
+            assert.strictEqual(attachment.contentType, "application/vnd.microsoft.card.adaptive");
+            assert.strictEqual(attachment.content.type, "AdaptiveCard");
+            assert.strictEqual(attachment.content.body[0].text, "Goal Failed");
+            assert.strictEqual(attachment.content.body[0].color, "Attention");
+            assert.strictEqual(attachment.content.body[1].text,
+                "Goal build on abcdef0 Fix the build of atomist/sdm-core/main has failed.");
+            assert.deepStrictEqual(attachment.content.actions.map((a: any) => a.url), [
+                "https://ci.example.com/build/1",
+                "https://app.atomist.com/workspace/AW0RKSPAC3/goalset/1234567890",
+            ]);
+        });
+
+        it("should not create card for successful goal", async () => {
+            const msg = await defaultTeamsNotificationFactory(goalCompletion(SdmGoalState.success));
+            assert.strictEqual(msg, undefined);
+        });
+
+    });
+
+    describe("teamsTransport", () => {
+
+        it("should address configured incoming webhooks", async () => {
+            const transport = teamsTransport({ url: ["https://outlook.office.com/webhook/1", "https://outlook.office.com/webhook/2"] });
+            const destinations = await (transport.destination as any)(goalCompletion(SdmGoalState.failure).completedGoal);
+            assert.deepStrictEqual(destinations, [
+                addressTeams("https://outlook.office.com/webhook/1"),
+                addressTeams("https://outlook.office.com/webhook/2"),
+            ]);
+            assert.deepStrictEqual(transport.states, [
+                SdmGoalState.failure,
+                SdmGoalState.waiting_for_approval,
+                SdmGoalState.waiting_for_pre_approval,
+                SdmGoalState.stopped,
+            ]);
+        });
+
+    });
+
+});
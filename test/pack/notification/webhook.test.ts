@@ -0,0 +1,110 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as assert from "power-assert";
+import { notifyGoalCompletionListener } from "../../../lib/pack/notification/notification";
+import {
+    signPayload,
+    webhookTransport,
+} from "../../../lib/pack/notification/webhook";
+import { SdmGoalState } from "../../../lib/typings/types";
+import { goalCompletion } from "./goals";
+
+describe("notification/webhook", () => {
+
+    let server: http.Server;
+    let url: string;
+    let requests: Array<{ headers: http.IncomingHttpHeaders, body: string }>;
+
+    before(async () => {
+        server = http.createServer((req, res) => {
+            let body = "";
+            req.on("data", d => body += d.toString());
+            req.on("end", () => {
+                requests.push({ headers: req.headers, body });
+                res.writeHead(200);
+                res.end();
+            });
+        });
+        await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    });
+
+    after(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        requests = [];
+    });
+
+    describe("signPayload", () => {
+
+        it("should create HMAC SHA-256 signature", () => {
+            assert.strictEqual(signPayload("{}", "secret"),
+                "sha256=77325902caca812dc259733aacd046b73817372c777b8d95b402647474516e13");
+            assert.notStrictEqual(signPayload("{}", "secret"), signPayload("{}", "other"));
+        });
+
+    });
+
+    describe("webhookTransport", () => {
+
+        it("should post signed JSON payload", async () => {
+            const transport = webhookTransport({ url, secret: "s3cr3t" });
+            await notifyGoalCompletionListener({ transports: transport })(goalCompletion(SdmGoalState.failure));
+            assert.strictEqual(requests.length, 1);
+            const request = requests[0];
+            assert.strictEqual(request.headers["content-type"], "application/json");
+            assert.strictEqual(request.headers["x-atomist-signature"], signPayload(request.body, "s3cr3t"));
+            const payload = JSON.parse(request.body);
+            assert.strictEqual(payload.type, "goal");
+            assert.strictEqual(payload.title, "Goal Failed");
+            assert.deepStrictEqual(payload.goal, {
+                name: "build",
+                state: "failure",
+                goalSetId: "1234567890",
+                goalSetUrl: "https://app.atomist.com/workspace/AW0RKSPAC3/goalset/1234567890",
+            });
+            assert.deepStrictEqual(payload.repo, {
+                owner: "atomist",
+                name: "sdm-core",
+                branch: "main",
+                url: "https://github.com/atomist/sdm-core",
+            });
+            assert.strictEqual(payload.commit.message, "Fix the build");
+        });
+
+        it("should not sign payload without secret", async () => {
+            const transport = webhookTransport({ url: [url, url] });
+            await notifyGoalCompletionListener({ transports: transport })(goalCompletion(SdmGoalState.stopped));
+            assert.strictEqual(requests.length, 2);
+            assert.strictEqual(requests[0].headers["x-atomist-signature"], undefined);
+            assert.strictEqual(JSON.parse(requests[0].body).title, "Goal Stopped");
+        });
+
+        it("should not post for goal states not routed to the transport", async () => {
+            const transport = webhookTransport({ url, states: [SdmGoalState.failure] });
+            await notifyGoalCompletionListener({ transports: transport })(goalCompletion(SdmGoalState.stopped));
+            await notifyGoalCompletionListener({ transports: transport })(goalCompletion(SdmGoalState.success));
+            assert.strictEqual(requests.length, 0);
+        });
+
+    });
+
+});
@@ -0,0 +1,154 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { sleep } from "@atomist/automation-client/lib/internal/util/poll";
+import { GoalInvocation } from "@atomist/sdm/lib/api/goal/GoalInvocation";
+import {
+    ChildProcess,
+    spawn,
+} from "child_process";
+import * as assert from "power-assert";
+import {
+    goalProcessEnv,
+    ProcessGoalScheduler,
+    ProcessGoalSchedulerOptions,
+} from "../../../lib/pack/process/ProcessGoalScheduler";
+import { SdmGoalState } from "../../../lib/typings/types";
+
+describe("ProcessGoalScheduler", () => {
+
+    /** Scheduler that runs a node script exiting with the code provided in the goal parameters */
+    class TestProcessGoalScheduler extends ProcessGoalScheduler {
+
+        public readonly started: string[] = [];
+
+        constructor(options: ProcessGoalSchedulerOptions) {
+            super(options);
+        }
+
+        protected startProcess(gi: GoalInvocation, env: NodeJS.ProcessEnv): ChildProcess {
+            this.started.push(env.ATOMIST_GOAL_UNIQUE_NAME);
+            return spawn(process.execPath, ["-e", `setTimeout(() => process.exit(${gi.parameters.code || 0}), ${gi.parameters.duration || 100})`]);
+        }
+    }
+
+    const updates: any[] = [];
+
+    function goalInvocation(name: string, uniqueName: string, parameters: any = {}): GoalInvocation {
+        return {
+            goal: { definition: { isolated: true }, inProcessDescription: `Working: ${name}` },
+            goalEvent: {
+                name,
+                uniqueName,
+                goalSetId: "1234567890",
+                branch: "main",
+                repo: { owner: "atomist", name: "sdm-core", providerId: "github" },
+                provenance: [],
+                state: SdmGoalState.requested,
+            },
+            context: {
+                workspaceId: "AW0RKSPAC3",
+                correlationId: "c0rr3l4t10n",
+                context: { name: "@atomist/test-sdm", version: "1.0.0", operation: "FulfillGoalOnRequested" },
+                graphClient: {
+                    mutate: async (o: any) => {
+                        updates.push(o.variables.goal);
+                    },
+                },
+            },
+            progressLog: { write: () => { /* empty */ } },
+            parameters,
+        } as any;
+    }
+
+    async function waitFor(fn: () => boolean): Promise<void> {
+        for (let i = 0; i < 100 && !fn(); i++) {
+            await sleep(50);
+        }
+        assert(fn());
+    }
+
+    beforeEach(() => {
+        updates.splice(0, updates.length);
+    });
+
+    it("should only support isolated goals", async () => {
+        const scheduler = new ProcessGoalScheduler();
+        const gi = goalInvocation("build", "build#sdm");
+        assert(await scheduler.supports(gi));
+        gi.goal.definition.isolated = false;
+        assert(!(await scheduler.supports(gi)));
+        assert(await new ProcessGoalScheduler({ isolateAll: true }).supports(gi));
+    });
+
+    it("should create environment for single goal mode", () => {
+        const env = goalProcessEnv(goalInvocation("build", "build#sdm"));
+        assert.strictEqual(env.ATOMIST_ISOLATED_GOAL, "true");
+        assert.strictEqual(env.ATOMIST_GOAL_TEAM, "AW0RKSPAC3");
+        assert.strictEqual(env.ATOMIST_GOAL_SET_ID, "1234567890");
+        assert.strictEqual(env.ATOMIST_GOAL_UNIQUE_NAME, "build#sdm");
+        assert.strictEqual(env.ATOMIST_CORRELATION_ID, "c0rr3l4t10n");
+        assert(!Object.keys(env).includes("ATOMIST_GOAL_ID"));
+    });
+
+    it("should queue goals exceeding the worker pool", async () => {
+        const scheduler = new TestProcessGoalScheduler({ maxConcurrency: 2 });
+        const results = [];
+        for (const name of ["build", "test", "lint"]) {
+            results.push(await scheduler.schedule(goalInvocation(name, `${name}#sdm`)));
+        }
+        assert.deepStrictEqual(results.map(r => r.phase), [undefined, undefined, "queued"]);
+        assert.strictEqual(results[2].description, "lint queued (position 1)");
+        assert.deepStrictEqual(scheduler.goals().map(g => [g.name, g.state, g.position]), [
+            ["build", "running", undefined],
+            ["test", "running", undefined],
+            ["lint", "queued", 1],
+        ]);
+
+        await waitFor(() => scheduler.started.length === 3);
+        assert.deepStrictEqual(scheduler.started, ["build#sdm", "test#sdm", "lint#sdm"]);
+        assert.deepStrictEqual(updates.map(u => [u.name, u.state, u.phase]), [["lint", SdmGoalState.in_process, "scheduled"]]);
+        await waitFor(() => scheduler.goals().length === 0);
+    }).timeout(10000);
+
+    it("should respect per goal concurrency limits", async () => {
+        const scheduler = new TestProcessGoalScheduler({ maxConcurrency: 4, goalConcurrency: { deploy: 1 } });
+        await scheduler.schedule(goalInvocation("deploy", "deploy#staging"));
+        await scheduler.schedule(goalInvocation("deploy", "deploy#prod"));
+        await scheduler.schedule(goalInvocation("build", "build#sdm"));
+        assert.deepStrictEqual(scheduler.goals().map(g => [g.uniqueName, g.state]), [
+            ["deploy#staging", "running"],
+            ["build#sdm", "running"],
+            ["deploy#prod", "queued"],
+        ]);
+        await waitFor(() => scheduler.goals().length === 0);
+        assert.deepStrictEqual(scheduler.started, ["deploy#staging", "build#sdm", "deploy#prod"]);
+    }).timeout(10000);
+
+    it("should fail goal when its process crashes", async () => {
+        const scheduler = new TestProcessGoalScheduler({ maxConcurrency: 1 });
+        await scheduler.schedule(goalInvocation("build", "build#sdm", { code: 3 }));
+        await scheduler.schedule(goalInvocation("test", "test#sdm"));
+        await waitFor(() => scheduler.goals().length === 0);
+        const failed = updates.find(u => u.name === "build");
+        assert.strictEqual(failed.state, SdmGoalState.failure);
+        assert.strictEqual(failed.phase, "crashed");
+        assert.strictEqual(failed.description, "Goal process exited with code 3");
+        assert.deepStrictEqual(scheduler.started, ["build#sdm", "test#sdm"]);
+        assert(!updates.some(u => u.name === "test" && u.state === SdmGoalState.failure));
+    }).timeout(10000);
+
+});
@@ -0,0 +1,439 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { guid } from "@atomist/automation-client/lib/internal/util/string";
+import { GoalInvocation } from "@atomist/sdm/lib/api/goal/GoalInvocation";
+import * as assert from "assert";
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { PassThrough } from "stream";
+import { CompressionMethod } from "../../../lib/goal/cache/CompressingGoalCache";
+import {
+    createS3Client,
+    getCacheConfig,
+    getCachePath,
+    S3GoalCacheArchiveStore,
+} from "../../../lib/pack/s3/cache";
+
+describe("pack/s3/cache", () => {
+
+    describe("getCacheConfig", () => {
+
+        it("should provide default config", () => {
+            const gi: GoalInvocation = {
+                configuration: {
+                    name: "sweetheart-of-the-rodeo",
+                    sdm: {
+                    },
+                },
+                context: {
+                    workspaceId: "TH3BY4D5",
+                },
+            } as any;
+            const c = getCacheConfig(gi);
+            const e = {
+                bucket: "sdm-th3by4d5-sweetheart-of-the-rodeo-goal-cache",
+                enabled: false,
+                path: "goal-cache",
+            };
+            assert.deepStrictEqual(c, e);
+        });
+
+        it("should use provided config", () => {
+            const gi: GoalInvocation = {
+                configuration: {
+                    name: "@byrds/sweetheart-of-the-rodeo",
+                    sdm: {
+                        cache: {
+                            bucket: "hickory-wind",
+                            enabled: true,
+                            path: "lazy/days",
+                            endpoint: "http://localhost:9000",
+                            pathStyle: true,
+                        },
+                    },
+                },
+                context: {
+                    workspaceId: "TH3BY4D5",
+                },
+            } as any;
+            const c = getCacheConfig(gi);
+            const e = {
+                bucket: "hickory-wind",
+                enabled: true,
+                path: "lazy/days",
+                endpoint: "http://localhost:9000",
+                pathStyle: true,
+            };
+            assert.deepStrictEqual(c, e);
+        });
+
+    });
+
+    describe("getCachePath", () => {
+
+        it("should return a reasonable path", () => {
+            const cc = {
+                bucket: "you-aint-goin-nowhere",
+                enabled: true,
+                path: "lazy/days",
+            };
+            const c = "i-am-a-pilgrim";
+            const p = getCachePath(cc, c);
+            const e = "lazy/days/i-am-a-pilgrim/cache.tar.gz";
+            assert(p === e);
+        });
+
+    });
+
+    describe("createS3Client", () => {
+
+        it("should default to path-style addressing with custom endpoint", () => {
+            const s3 = createS3Client({
+                bucket: "blue-canadian-rockies",
+                enabled: true,
+                path: "goal-cache",
+                endpoint: "http://localhost:9000",
+                region: "us-east-1",
+                accessKeyId: "minio",
+                secretAccessKey: "minio123",
+            });
+            assert(s3.config.s3ForcePathStyle === true);
+            assert(s3.config.region === "us-east-1");
+            assert(s3.endpoint.host === "localhost:9000");
+            assert(s3.config.credentials.accessKeyId === "minio");
+        });
+
+        it("should not use path-style addressing by default", () => {
+            const s3 = createS3Client({
+                bucket: "blue-canadian-rockies",
+                enabled: true,
+                path: "goal-cache",
+                region: "us-west-2",
+            });
+            assert(s3.config.s3ForcePathStyle === false);
+        });
+
+        it("should honor explicit path-style configuration", () => {
+            const s3 = createS3Client({
+                bucket: "blue-canadian-rockies",
+                enabled: true,
+                path: "goal-cache",
+                endpoint: "https://storage.example.com",
+                pathStyle: false,
+                region: "us-east-1",
+            });
+            assert(s3.config.s3ForcePathStyle === false);
+        });
+
+    });
+
+    describe("S3GoalCacheArchiveStore", () => {
+
+        const tmpDirs: string[] = [];
+        after(async () => {
+            try {
+                await Promise.all(tmpDirs.map(d => fs.remove(d)));
+            } catch (e) { /* ignore */ }
+        });
+
+        function fakeGoalInvocation(bucket: string, p: string, log: string[] = []): GoalInvocation {
+            return {
+                configuration: {
+                    name: "@byrds/sweetheart-of-the-rodeo",
+                    sdm: {
+                        cache: {
+                            bucket,
+                            enabled: true,
+                            path: p,
+                            endpoint: process.env.S3_TEST_ENDPOINT,
+                        },
+                    },
+                },
+                context: {
+                    workspaceId: "WORKSPACEx",
+                },
+                goalEvent: {
+                    branch: "branchx",
+                    repo: {
+                        name: "namex",
+                        owner: "ownerx",
+                        providerId: "providerx",
+                    },
+                    sha: "shax",
+                },
+                progressLog: {
+                    write: (m: string) => log.push(m),
+                },
+            } as any;
+        }
+
+        async function tmpDir(): Promise<string> {
+            const t = path.join(os.tmpdir(), `atomist-sdm-cache-test-${guid()}`);
+            await fs.ensureDir(t);
+            tmpDirs.push(t);
+            return t;
+        }
+
+        /** Minimal in-process fake of the parts of the S3 client the store uses. */
+        function fakeS3(objects: Record<string, Buffer>,
+                        calls: { [op: string]: number } = {},
+                        modified: Record<string, Date> = {}): any {
+            const count = (op: string) => calls[op] = (calls[op] || 0) + 1;
+            return {
+                upload: (params: any) => ({
+                    promise: async () => {
+                        count("upload");
+                        const chunks: Buffer[] = [];
+                        for await (const chunk of params.Body) {
+                            chunks.push(chunk);
+                        }
+                        objects[`${params.Bucket}/${params.Key}`] = Buffer.concat(chunks);
+                        modified[`${params.Bucket}/${params.Key}`] = new Date();
+                        return { Bucket: params.Bucket, Key: params.Key };
+                    },
+                }),
+                deleteObject: (params: any) => ({
+                    promise: async () => {
+                        count("deleteObject");
+                        delete objects[`${params.Bucket}/${params.Key}`];
+                        return {};
+                    },
+                }),
+                listObjectsV2: (params: any) => ({
+                    promise: async () => {
+                        count("listObjectsV2");
+                        const prefix = `${params.Bucket}/${params.Prefix}`;
+                        return {
+                            Contents: Object.keys(objects).filter(k => k.startsWith(prefix)).map(k => ({
+                                Key: k.slice(params.Bucket.length + 1),
+                                Size: objects[k].length,
+                                LastModified: modified[k] || new Date(0),
+                            })),
+                            IsTruncated: false,
+                        };
+                    },
+                }),
+                putObject: (params: any) => ({
+                    promise: async () => {
+                        count("putObject");
+                        objects[`${params.Bucket}/${params.Key}`] = Buffer.from(params.Body);
+                        modified[`${params.Bucket}/${params.Key}`] = new Date();
+                        return {};
+                    },
+                }),
+                getObject: (params: any) => ({
+                    createReadStream: () => {
+                        count("getObject");
+                        const s = new PassThrough();
+                        const o = objects[`${params.Bucket}/${params.Key}`];
+                        setImmediate(() => {
+                            if (o) {
+                                s.end(o);
+                            } else {
+                                const e = new Error("The specified key does not exist.");
+                                (e as any).code = "NoSuchKey";
+                                s.emit("error", e);
+                            }
+                        });
+                        return s;
+                    },
+                }),
+            };
+        }
+
+        it("should store, retrieve, and delete a cache item with a fake client", async () => {
+            const objects: Record<string, Buffer> = {};
+            const a = new S3GoalCacheArchiveStore(() => fakeS3(objects));
+            const gi = fakeGoalInvocation("hickory-wind", "lazy/days");
+            const t = await tmpDir();
+            const i = path.join(t, `input-${guid()}.tar.gz`);
+            await fs.writeFile(i, "Test junk\nNot an actual .tar.gz file\n");
+            const u = await a.store(gi, "classifierx", i);
+            assert(u === "s3://hickory-wind/lazy/days/classifierx/cache.tar.gz");
+            assert.deepStrictEqual(Object.keys(objects), ["hickory-wind/lazy/days/classifierx/cache.tar.gz"]);
+            const o = path.join(t, `output-${guid()}.tar.gz`);
+            await a.retrieve(gi, "classifierx", o);
+            const oc = await fs.readFile(o, "utf8");
+            assert(oc === "Test junk\nNot an actual .tar.gz file\n");
+            await a.delete(gi, "classifierx");
+            assert.deepStrictEqual(objects, {});
+        });
+
+        it("should list archives matching a classifier prefix", async () => {
+            const objects: Record<string, Buffer> = {
+                "hickory-wind/lazy/days/WORKSPACEx/npm/npm-a/cache.tar.gz": Buffer.from("a"),
+                "hickory-wind/lazy/days/WORKSPACEx/npm/npm-bc/cache.tar.gz": Buffer.from("bc"),
+                "hickory-wind/lazy/days/WORKSPACEx/npm/yarn-a/cache.tar.gz": Buffer.from("yarn"),
+                "hickory-wind/lazy/days/WORKSPACEx/npm/npm-bc/cache.tar.gz.accessed": Buffer.from(""),
+                "hickory-wind/lazy/days/WORKSPACEx/npm/npm-d/other.txt": Buffer.from("other"),
+            };
+            const modified = {
+                "hickory-wind/lazy/days/WORKSPACEx/npm/npm-bc/cache.tar.gz.accessed": new Date("2020-03-04T05:06:07.000Z"),
+            };
+            const calls: { [op: string]: number } = {};
+            const a = new S3GoalCacheArchiveStore(() => fakeS3(objects, calls, modified));
+            const gi = fakeGoalInvocation("hickory-wind", "lazy/days");
+            const l = await a.list(gi, "WORKSPACEx/npm/npm-");
+            assert.deepStrictEqual(l, [
+                {
+                    classifier: "WORKSPACEx/npm/npm-a",
+                    uri: "s3://hickory-wind/lazy/days/WORKSPACEx/npm/npm-a/cache.tar.gz",
+                    size: 1,
+                    lastModified: new Date(0),
+                    lastAccessed: undefined,
+                },
+                {
+                    classifier: "WORKSPACEx/npm/npm-bc",
+                    uri: "s3://hickory-wind/lazy/days/WORKSPACEx/npm/npm-bc/cache.tar.gz",
+                    size: 2,
+                    lastModified: new Date(0),
+                    lastAccessed: new Date("2020-03-04T05:06:07.000Z"),
+                },
+            ]);
+            assert.deepStrictEqual(calls, { listObjectsV2: 1 });
+        });
+
+        it("should name archives after their compression", async () => {
+            const objects: Record<string, Buffer> = {};
+            const a = new S3GoalCacheArchiveStore(() => fakeS3(objects), CompressionMethod.ZSTD);
+            const gi = fakeGoalInvocation("hickory-wind", "lazy/days");
+            const t = await tmpDir();
+            const i = path.join(t, `input-${guid()}.tar.zst`);
+            await fs.writeFile(i, "Test junk\n");
+            const u = await a.store(gi, "WORKSPACEx/zstd", i);
+            assert.strictEqual(u, "s3://hickory-wind/lazy/days/WORKSPACEx/zstd/cache.tar.zst");
+            const l = await a.list(gi, "WORKSPACEx/");
+            assert.deepStrictEqual(l.map(x => x.classifier), ["WORKSPACEx/zstd"]);
+            await a.retrieve(gi, "WORKSPACEx/zstd", path.join(t, `output-${guid()}.tar.zst`));
+            await a.delete(gi, "WORKSPACEx/zstd");
+            assert.deepStrictEqual(objects, {});
+        });
+
+        it("should record the last access of retrieved archives at most once per interval", async () => {
+            const objects = { "hickory-wind/lazy/days/WORKSPACEx/accessed/cache.tar.gz": Buffer.from("Test junk\n") };
+            const calls: { [op: string]: number } = {};
+            const s3 = fakeS3(objects, calls);
+            const a = new S3GoalCacheArchiveStore(() => s3);
+            const gi = fakeGoalInvocation("hickory-wind", "lazy/days");
+            const t = await tmpDir();
+            const before = Date.now();
+            await a.retrieve(gi, "WORKSPACEx/accessed", path.join(t, `output-${guid()}.tar.gz`));
+            await a.retrieve(gi, "WORKSPACEx/accessed", path.join(t, `output-${guid()}.tar.gz`));
+            assert.strictEqual(calls.putObject, 1);
+            const l = await a.list(gi, "WORKSPACEx/");
+            assert.strictEqual(l.length, 1);
+            assert(l[0].lastAccessed.getTime() >= before);
+            assert.deepStrictEqual(l[0].lastModified, new Date(0));
+            assert.strictEqual(objects["hickory-wind/lazy/days/WORKSPACEx/accessed/cache.tar.gz"].toString(), "Test junk\n");
+        });
+
+        it("should not fail retrieval if recording the access fails", async () => {
+            const objects = { "hickory-wind/lazy/days/denied/cache.tar.gz": Buffer.from("Test junk\n") };
+            const s3 = fakeS3(objects);
+            s3.putObject = () => ({
+                promise: async () => {
+                    throw new Error("Access Denied");
+                },
+            });
+            const a = new S3GoalCacheArchiveStore(() => s3);
+            const log: string[] = [];
+            const gi = fakeGoalInvocation("hickory-wind", "lazy/days", log);
+            const t = await tmpDir();
+            const o = path.join(t, `output-${guid()}.tar.gz`);
+            await a.retrieve(gi, "denied", o);
+            assert.strictEqual(await fs.readFile(o, "utf8"), "Test junk\n");
+            assert.strictEqual(log[log.length - 1], "Failed to record access of cache archive: Access Denied");
+        });
+
+        it("should retry a failed retrieval", async () => {
+            const calls: { [op: string]: number } = {};
+            const objects = { "hickory-wind/lazy/days/classifierx/cache.tar.gz": Buffer.from("Test junk\n") };
+            const s3 = fakeS3(objects, calls);
+            const getObject = s3.getObject;
+            s3.getObject = (params: any) => (calls.getObject || 0) > 0 ? getObject(params) : getObject({ ...params, Key: "missing" });
+            const a = new S3GoalCacheArchiveStore(() => s3);
+            const gi = fakeGoalInvocation("hickory-wind", "lazy/days");
+            const t = await tmpDir();
+            const o = path.join(t, `output-${guid()}.tar.gz`);
+            await a.retrieve(gi, "classifierx", o);
+            assert(calls.getObject === 2);
+            const oc = await fs.readFile(o, "utf8");
+            assert(oc === "Test junk\n");
+        }).timeout(10000);
+
+        it("should retry a failed store", async () => {
+            const calls: { [op: string]: number } = {};
+            const objects: Record<string, Buffer> = {};
+            const s3 = fakeS3(objects, calls);
+            const upload = s3.upload;
+            s3.upload = (params: any) => (calls.upload || 0) > 0 ? upload(params) : {
+                promise: async () => {
+                    calls.upload = 1;
+                    throw new Error("Service Unavailable");
+                },
+            };
+            const a = new S3GoalCacheArchiveStore(() => s3);
+            const log: string[] = [];
+            const gi = fakeGoalInvocation("hickory-wind", "lazy/days", log);
+            const t = await tmpDir();
+            const i = path.join(t, `input-${guid()}.tar.gz`);
+            await fs.writeFile(i, "Test junk\n");
+            const u = await a.store(gi, "classifierx", i);
+            assert(u === "s3://hickory-wind/lazy/days/classifierx/cache.tar.gz");
+            assert(calls.upload === 2);
+            assert(objects["hickory-wind/lazy/days/classifierx/cache.tar.gz"].toString() === "Test junk\n");
+            assert.deepStrictEqual(log, [
+                "storing cache archive s3://hickory-wind/lazy/days/classifierx/cache.tar.gz",
+                "stored cache archive s3://hickory-wind/lazy/days/classifierx/cache.tar.gz",
+            ]);
+        }).timeout(10000);
+
+        describe("S3-compatible service", () => {
+
+            before(function(): void {
+                if (!process.env.S3_TEST_BUCKET) {
+                    // tslint:disable-next-line:no-invalid-this
+                    this.skip();
+                }
+            });
+
+            it("should store, retrieve, and delete a cache item", async () => {
+                const a = new S3GoalCacheArchiveStore();
+                const b = process.env.S3_TEST_BUCKET;
+                const p = `test-path-${guid()}`;
+                const gi = fakeGoalInvocation(b, p);
+                const c = "classifierx";
+                const t = await tmpDir();
+                const i = path.join(t, `input-${guid()}.tar.gz`);
+                await fs.writeFile(i, "Test junk\nNot an actual .tar.gz file\n");
+                await a.store(gi, c, i);
+                const o = path.join(t, `output-${guid()}.tar.gz`);
+                await a.retrieve(gi, c, o);
+                assert(fs.existsSync(o));
+                const oc = await fs.readFile(o, "utf8");
+                assert(oc === "Test junk\nNot an actual .tar.gz file\n");
+                await a.delete(gi, c);
+                const o2 = path.join(t, `output-${guid()}.tar.gz`);
+                await assert.rejects(a.retrieve(gi, c, o2));
+            }).timeout(60000);
+
+        });
+
+    });
+
+});
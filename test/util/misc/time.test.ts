@@ -0,0 +1,50 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "power-assert";
+import {
+    formatDuration,
+    parseDuration,
+} from "../../../lib/util/misc/time";
+
+describe("util/misc/time", () => {
+
+    describe("parseDuration", () => {
+
+        it("should parse durations", () => {
+            assert.strictEqual(parseDuration(1500), 1500);
+            assert.strictEqual(parseDuration("1500"), 1500);
+            assert.strictEqual(parseDuration("500ms"), 500);
+            assert.strictEqual(parseDuration("90s"), 90 * 1000);
+            assert.strictEqual(parseDuration("5m"), 5 * 60 * 1000);
+            assert.strictEqual(parseDuration("1h30m"), 90 * 60 * 1000);
+            assert.strictEqual(parseDuration("1h 30m "), 90 * 60 * 1000);
+            assert.strictEqual(parseDuration("1.5d"), 36 * 60 * 60 * 1000);
+        });
+
+        it("should reject invalid durations", () => {
+            assert.throws(() => parseDuration("5 minutes"), /Invalid duration '5 minutes'/);
+            assert.throws(() => parseDuration("h"), /Invalid duration 'h'/);
+            assert.throws(() => parseDuration(""), /Invalid duration ''/);
+        });
+
+        it("should round trip formatted durations", () => {
+            assert.strictEqual(formatDuration(parseDuration("2h5m")), "2h 5m");
+        });
+
+    });
+
+});